@@ -0,0 +1,13 @@
+// jest.config.js
+/** @type {import('jest').Config} */
+const config = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    // The TypeScript services live next to the Move package they talk to.
+    roots: ['<rootDir>/move'],
+    // Point the services at the in-memory stand-in client so the suites run offline.
+    setupFiles: ['<rootDir>/move/amoca-p2p-climate-insurance/tests/setup-local-client.ts'],
+    testPathIgnorePatterns: ['/node_modules/', '/build/'],
+};
+
+module.exports = config;
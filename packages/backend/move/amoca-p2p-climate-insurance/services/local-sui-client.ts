@@ -0,0 +1,1480 @@
+import { bcs } from "@mysten/sui/bcs"
+import type {
+  DevInspectResults,
+  DevInspectTransactionBlockParams,
+  EventId,
+  GetDynamicFieldObjectParams,
+  GetObjectParams,
+  MoveValue,
+  ObjectOwner,
+  PaginatedEvents,
+  QueryEventsParams,
+  SuiEvent,
+  SuiEventFilter,
+  SuiExecutionResult,
+  SuiObjectChange,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+  TransactionEffects,
+} from "@mysten/sui/client"
+import { Transaction } from "@mysten/sui/transactions"
+import {
+  fromBase64,
+  normalizeSuiAddress,
+  normalizeSuiObjectId,
+  toBase58,
+} from "@mysten/sui/utils"
+import {
+  CLAIM_MODULE,
+  ORACLE_MODULE,
+  POLICY_MODULE,
+  POOL_MODULE,
+  PremiumCalculation,
+  RISK_MODULE,
+  SWITCHBOARD_TESTNET,
+} from "./move-types"
+import type {
+  InsuranceObjectIds,
+  ServiceClient,
+  TransactionExecutor,
+} from "./service-context"
+
+/**
+ * An in-memory stand-in for SuiClient.
+ *
+ * It executes the programmable transactions the services build against a
+ * TypeScript port of the amoca Move entry functions, so the service layer can
+ * be exercised without a Sui node. Only the commands and functions the
+ * services use are supported; anything else fails loudly.
+ */
+
+const SUI_COIN_TYPE = "0x2::coin::Coin<0x2::sui::SUI>"
+const AGGREGATOR_TYPE = `${SWITCHBOARD_TESTNET}::aggregator::Aggregator`
+const U64_MAX = 2n ** 64n - 1n
+
+interface LocalTable {
+  type: string
+  id: string
+  /** Values as the dynamic field of the entry renders them. */
+  entries: Map<string, MoveValue>
+}
+
+interface LocalObject {
+  objectId: string
+  type: string
+  owner: ObjectOwner
+  version: number
+  fields: Record<string, unknown>
+  tables: Record<string, LocalTable>
+}
+
+type Argument =
+  | { kind: "pure"; bytes: Uint8Array }
+  | { kind: "object"; id: string }
+  | { kind: "coin"; value: bigint }
+  | { kind: "gas" }
+  | { kind: "vector"; elements: Argument[] }
+
+type ReturnValue = [Uint8Array, string]
+
+/** Raised by a handler to mirror a Move `abort` or arithmetic error. */
+class ExecutionError extends Error {}
+
+const moveAbort = (location: string, code: number) =>
+  new ExecutionError(`MoveAbort(${location}, ${code})`)
+
+const u64 = (value: bigint) => value.toString()
+
+/**
+ * Subtract like Move does: abort on underflow instead of going negative.
+ */
+const sub = (a: bigint, b: bigint) => {
+  if (b > a) {
+    throw new ExecutionError("ArithmeticError: subtraction underflow")
+  }
+  return a - b
+}
+
+const div = (a: bigint, b: bigint) => {
+  if (b === 0n) {
+    throw new ExecutionError("ArithmeticError: division by zero")
+  }
+  return a / b
+}
+
+export interface LocalDeploymentOptions {
+  /** Address which publishes the package and owns the admin objects. */
+  admin?: string
+  /** RiskParameters.base_margin_requirement in basis points. */
+  baseMarginRequirement?: number
+  /** RiskParameters.location_risk in basis points. */
+  locationRisk?: Record<string, number>
+  /** RiskParameters.peril_risk in basis points. */
+  perilRisk?: Record<string, number>
+  /** RiskModel.base_premium_rate in basis points. */
+  basePremiumRate?: number
+  /** RiskModel.location_factors in percent. */
+  locationFactors?: Record<string, number>
+  /** RiskModel.peril_factors in percent. */
+  perilFactors?: Record<string, number>
+  /** Initial SUI balance of the shared LiquidityPool. */
+  poolLiquidity?: number
+}
+
+export interface LocalOracleReading {
+  location: string
+  dataType: string
+  value: bigint | number
+  decimalPlaces: number
+  mean?: bigint | number
+  stdev?: bigint | number
+  minValue?: bigint | number
+  maxValue?: bigint | number
+  sourcesCount?: number
+}
+
+/** The current result of a Switchboard aggregator. */
+export interface LocalAggregatorResult {
+  value: bigint | number
+  decimalPlaces: number
+  minTimestampMs?: number
+  maxTimestampMs?: number
+  mean?: bigint | number
+  stdev?: bigint | number
+  minValue?: bigint | number
+  maxValue?: bigint | number
+}
+
+// The defaults below are copied from policy_manager_enhanced::init and
+// risk_model::create_risk_model.
+const DEFAULT_LOCATION_RISK = {
+  "east-africa": 1200,
+  "southeast-asia": 1500,
+  "central-america": 1300,
+  "south-pacific": 1400,
+}
+const DEFAULT_PERIL_RISK = { drought: 1300, flood: 1600, heat: 1200, wind: 1400 }
+const DEFAULT_LOCATION_FACTORS = {
+  "east-africa": 120,
+  "southeast-asia": 150,
+  "central-america": 130,
+  "south-pacific": 140,
+}
+const DEFAULT_PERIL_FACTORS = { drought: 130, flood: 160, heat: 120, wind: 140 }
+const SEASONAL_FACTORS = [100, 100, 110, 120, 130, 140, 150, 160, 150, 130, 110, 100]
+const COVERAGE_FACTORS = { 1000: 120, 5000: 110, 10000: 100, 50000: 90, 100000: 85 }
+const COVERAGE_TIERS = [1000n, 5000n, 10000n, 50000n, 100000n]
+
+interface Snapshot {
+  objects: Map<string, LocalObject>
+  nextId: number
+}
+
+export class LocalSuiClient implements ServiceClient {
+  packageId = ""
+  admin = normalizeSuiAddress("0xad")
+  epoch = 1
+
+  private objects = new Map<string, LocalObject>()
+  private events: SuiEvent[] = []
+  private nextId = 0x1000
+  private transactionCount = 0
+
+  /**
+   * Publish the insurance package: create the shared objects its `init`
+   * functions create, plus a RiskModel and a funded LiquidityPool.
+   *
+   * @param options
+   * @returns
+   */
+  publish(options: LocalDeploymentOptions = {}): InsuranceObjectIds {
+    if (options.admin != null) {
+      this.admin = normalizeSuiAddress(options.admin)
+    }
+    this.packageId = this.newId()
+
+    const policyRegistryId = this.createObject(
+      POLICY_MODULE,
+      "PolicyRegistry",
+      { Shared: { initial_shared_version: "1" } },
+      { total_policies: "0", total_coverage: "0" },
+      {
+        policies: this.newTable("0x2::object::ID", "address"),
+        policies_by_owner: this.newTable("address", "vector<0x2::object::ID>"),
+        policies_by_location: this.newTable(
+          "0x1::string::String",
+          "vector<0x2::object::ID>"
+        ),
+        policies_by_peril: this.newTable(
+          "0x1::string::String",
+          "vector<0x2::object::ID>"
+        ),
+      }
+    )
+
+    const riskParametersId = this.createObject(
+      POLICY_MODULE,
+      "RiskParameters",
+      { Shared: { initial_shared_version: "1" } },
+      {
+        base_margin_requirement: u64(
+          BigInt(options.baseMarginRequirement ?? 1000)
+        ),
+      },
+      {
+        location_risk: this.newTable(
+          "0x1::string::String",
+          "u64",
+          options.locationRisk ?? DEFAULT_LOCATION_RISK
+        ),
+        peril_risk: this.newTable(
+          "0x1::string::String",
+          "u64",
+          options.perilRisk ?? DEFAULT_PERIL_RISK
+        ),
+      }
+    )
+
+    const riskModelId = this.createObject(
+      RISK_MODULE,
+      "RiskModel",
+      { Shared: { initial_shared_version: "1" } },
+      {
+        model_name: "amoca-default",
+        model_version: "1.0.0",
+        base_premium_rate: u64(BigInt(options.basePremiumRate ?? 500)),
+        last_updated: String(this.epoch),
+        created_by: this.admin,
+      },
+      {
+        location_factors: this.newTable(
+          "0x1::string::String",
+          "u64",
+          options.locationFactors ?? DEFAULT_LOCATION_FACTORS
+        ),
+        peril_factors: this.newTable(
+          "0x1::string::String",
+          "u64",
+          options.perilFactors ?? DEFAULT_PERIL_FACTORS
+        ),
+        seasonal_factors: this.newTable(
+          "u64",
+          "u64",
+          Object.fromEntries(SEASONAL_FACTORS.map((f, i) => [i + 1, f]))
+        ),
+        coverage_factors: this.newTable("u64", "u64", COVERAGE_FACTORS),
+      }
+    )
+
+    const poolLiquidity = BigInt(options.poolLiquidity ?? 0)
+    const liquidityPoolId = this.createObject(
+      POOL_MODULE,
+      "LiquidityPool",
+      { Shared: { initial_shared_version: "1" } },
+      { total_liquidity: u64(poolLiquidity), total_shares: u64(poolLiquidity) },
+      {
+        lp_shares: this.newTable(
+          "address",
+          "u64",
+          poolLiquidity > 0n ? { [this.admin]: Number(poolLiquidity) } : {}
+        ),
+      }
+    )
+
+    const oracleFeedRegistryId = this.createObject(
+      ORACLE_MODULE,
+      "OracleFeedRegistry",
+      { Shared: { initial_shared_version: "1" } },
+      {},
+      {
+        feeds: this.newTable("0x1::string::String", "0x2::object::ID"),
+        feed_types: this.newTable("0x2::object::ID", "0x1::string::String"),
+        feed_locations: this.newTable("0x2::object::ID", "0x1::string::String"),
+        feed_details: this.newTable("0x2::object::ID", "0x1::string::String"),
+      }
+    )
+
+    return {
+      packageId: this.packageId,
+      policyRegistryId,
+      riskParametersId,
+      riskModelId,
+      liquidityPoolId,
+      oracleFeedRegistryId,
+    }
+  }
+
+  /**
+   * Share an AggregatedData object and emit its DataAggregated event, as
+   * switchboard_oracle_integration::read_aggregator_data would.
+   *
+   * @param reading
+   * @returns The ID of the AggregatedData object.
+   */
+  recordOracleReading(reading: LocalOracleReading): string {
+    const value = BigInt(reading.value)
+    const id = this.createObject(
+      ORACLE_MODULE,
+      "AggregatedData",
+      { Shared: { initial_shared_version: "1" } },
+      {
+        location: reading.location,
+        data_type: reading.dataType,
+        value: value.toString(),
+        decimal_places: reading.decimalPlaces,
+        timestamp: String(this.epoch),
+        min_timestamp: "0",
+        max_timestamp: "0",
+        mean: BigInt(reading.mean ?? value).toString(),
+        stdev: BigInt(reading.stdev ?? 0).toString(),
+        min_value: BigInt(reading.minValue ?? value).toString(),
+        max_value: BigInt(reading.maxValue ?? value).toString(),
+        sources_count: String(reading.sourcesCount ?? 1),
+      }
+    )
+
+    const digest = this.newDigest()
+    this.events.push(
+      this.toSuiEvent(digest, 0, this.admin, ORACLE_MODULE, "DataAggregated", {
+        aggregation_id: id,
+        location: reading.location,
+        data_type: reading.dataType,
+        value: value.toString(),
+        timestamp: String(this.epoch),
+        sources_count: String(reading.sourcesCount ?? 1),
+      })
+    )
+
+    return id
+  }
+
+  /**
+   * Create a shared Switchboard Aggregator reporting the given result.
+   *
+   * @param result
+   * @returns The ID of the aggregator.
+   */
+  createAggregator(result: LocalAggregatorResult): string {
+    const objectId = this.newId()
+    this.objects.set(objectId, {
+      objectId,
+      type: AGGREGATOR_TYPE,
+      owner: { Shared: { initial_shared_version: "1" } },
+      version: this.lamportVersion(),
+      fields: { id: { id: objectId } },
+      tables: {},
+    })
+    this.setAggregatorResult(objectId, result)
+
+    return objectId
+  }
+
+  /**
+   * Replace the current result of an aggregator, as an oracle update would.
+   *
+   * @param aggregatorId
+   * @param result
+   */
+  setAggregatorResult(aggregatorId: string, result: LocalAggregatorResult) {
+    const aggregator = this.getLocalObject(aggregatorId, AGGREGATOR_TYPE)
+    const value = BigInt(result.value)
+    const decimal = (v: bigint | number | undefined) => ({
+      value: BigInt(v ?? value).toString(),
+      decimal_places: result.decimalPlaces,
+      neg: false,
+    })
+
+    aggregator.fields.current_result = {
+      result: decimal(value),
+      min_timestamp_ms: String(result.minTimestampMs ?? 0),
+      max_timestamp_ms: String(result.maxTimestampMs ?? 0),
+      mean: decimal(result.mean),
+      stdev: decimal(result.stdev ?? 0),
+      min_result: decimal(result.minValue),
+      max_result: decimal(result.maxValue),
+    }
+  }
+
+  // === SuiClient surface ===
+
+  async getObject(input: GetObjectParams): Promise<SuiObjectResponse> {
+    const object = this.objects.get(normalizeSuiObjectId(input.id))
+
+    if (object == null) {
+      return { error: { code: "notExists", object_id: input.id } }
+    }
+
+    return {
+      data: {
+        objectId: object.objectId,
+        version: String(object.version),
+        digest: toBase58(new TextEncoder().encode(object.objectId).slice(-32)),
+        type: input.options?.showType ? object.type : undefined,
+        owner: input.options?.showOwner ? object.owner : undefined,
+        content: input.options?.showContent
+          ? {
+              dataType: "moveObject",
+              type: object.type,
+              hasPublicTransfer: false,
+              fields: this.renderFields(object),
+            }
+          : undefined,
+      },
+    }
+  }
+
+  async getDynamicFieldObject(
+    input: GetDynamicFieldObjectParams
+  ): Promise<SuiObjectResponse> {
+    const parentId = normalizeSuiObjectId(input.parentId)
+    const table = [...this.objects.values()]
+      .flatMap((object) => Object.values(object.tables))
+      .find((t) => t.id === parentId)
+    const key =
+      input.name.type === "address"
+        ? normalizeSuiAddress(input.name.value as string)
+        : String(input.name.value)
+
+    if (table == null || !table.entries.has(key)) {
+      return {
+        error: { code: "dynamicFieldNotFound", parent_object_id: parentId },
+      }
+    }
+
+    // Field objects are not modelled, the table ID stands in for theirs.
+    const type = table.type.replace(
+      "0x2::table::Table",
+      "0x2::dynamic_field::Field"
+    )
+    return {
+      data: {
+        objectId: table.id,
+        version: String(this.lamportVersion()),
+        digest: toBase58(new TextEncoder().encode(table.id).slice(-32)),
+        type,
+        content: {
+          dataType: "moveObject",
+          type,
+          hasPublicTransfer: false,
+          fields: structuredClone({
+            id: { id: table.id },
+            name: key,
+            value: table.entries.get(key)!,
+          }),
+        },
+      },
+    }
+  }
+
+  async queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    const matching = this.events.filter((event) =>
+      matchesFilter(event, input.query)
+    )
+    if (input.order === "descending") {
+      matching.reverse()
+    }
+
+    const start =
+      input.cursor == null
+        ? 0
+        : matching.findIndex((event) => sameEventId(event.id, input.cursor!)) + 1
+    const limit = input.limit ?? 50
+    const data = matching.slice(start, start + limit)
+    const hasNextPage = start + limit < matching.length
+
+    return {
+      data,
+      hasNextPage,
+      nextCursor: data.length > 0 ? data[data.length - 1].id : input.cursor,
+    }
+  }
+
+  async devInspectTransactionBlock(
+    input: DevInspectTransactionBlockParams
+  ): Promise<DevInspectResults> {
+    if (!(input.transactionBlock instanceof Transaction)) {
+      throw new Error("LocalSuiClient can only inspect Transaction instances")
+    }
+
+    const snapshot = this.snapshot()
+    const digest = this.newDigest()
+    try {
+      const { results, events } = this.run(
+        input.transactionBlock,
+        normalizeSuiAddress(input.sender),
+        digest
+      )
+      return {
+        effects: this.effects(digest, null),
+        events,
+        results,
+      }
+    } catch (e) {
+      if (!(e instanceof ExecutionError)) throw e
+      return {
+        effects: this.effects(digest, e.message),
+        events: [],
+        error: e.message,
+      }
+    } finally {
+      this.restore(snapshot)
+    }
+  }
+
+  /**
+   * Execute a transaction as the given sender and commit its effects.
+   * Aborted transactions are rolled back and reported through the effects
+   * status, like a real node does.
+   */
+  execute: TransactionExecutor = async (transaction, sender) => {
+    const snapshot = this.snapshot()
+    const digest = this.newDigest()
+    try {
+      const { events, objectChanges } = this.run(
+        transaction,
+        normalizeSuiAddress(sender),
+        digest
+      )
+      this.events.push(...events)
+      return {
+        digest,
+        effects: this.effects(digest, null),
+        events,
+        objectChanges,
+      }
+    } catch (e) {
+      if (!(e instanceof ExecutionError)) throw e
+      this.restore(snapshot)
+      return {
+        digest,
+        effects: this.effects(digest, e.message),
+        events: [],
+        objectChanges: [],
+      }
+    }
+  }
+
+  // === Interpreter ===
+
+  private run(transaction: Transaction, sender: string, digest: string) {
+    const data = transaction.getData()
+    const inputs: Argument[] = data.inputs.map((input) => {
+      switch (input.$kind) {
+        case "Pure":
+          return { kind: "pure", bytes: fromBase64(input.Pure.bytes) }
+        case "UnresolvedObject":
+          return { kind: "object", id: input.UnresolvedObject.objectId }
+        case "Object": {
+          const ref = input.Object
+          const id =
+            ref.$kind === "SharedObject"
+              ? ref.SharedObject.objectId
+              : ref.$kind === "ImmOrOwnedObject"
+                ? ref.ImmOrOwnedObject.objectId
+                : ref.Receiving.objectId
+          return { kind: "object", id }
+        }
+        default:
+          throw new Error(`Unsupported transaction input ${input.$kind}`)
+      }
+    })
+
+    const execution = new Execution(this, sender, digest)
+    const commandResults: Argument[][] = []
+    const results: SuiExecutionResult[] = []
+
+    type CommandArgument = (typeof data.commands)[number] extends infer C
+      ? C extends { MoveCall: { arguments: (infer A)[] } }
+        ? A
+        : never
+      : never
+
+    const resolve = (arg: CommandArgument): Argument => {
+      switch (arg.$kind) {
+        case "GasCoin":
+          return { kind: "gas" }
+        case "Input":
+          return inputs[arg.Input]
+        case "Result":
+          return commandResults[arg.Result][0]
+        case "NestedResult":
+          return commandResults[arg.NestedResult[0]][arg.NestedResult[1]]
+      }
+    }
+
+    data.commands.forEach((command, index) => {
+      try {
+        switch (command.$kind) {
+          case "SplitCoins": {
+            const source = resolve(command.SplitCoins.coin)
+            if (source.kind !== "gas") {
+              throw new Error("LocalSuiClient can only split the gas coin")
+            }
+            commandResults.push(
+              command.SplitCoins.amounts.map((amount) => ({
+                kind: "coin",
+                value: execution.u64(resolve(amount)),
+              }))
+            )
+            results.push({})
+            break
+          }
+          case "MakeMoveVec":
+            commandResults.push([
+              {
+                kind: "vector",
+                elements: command.MakeMoveVec.elements.map(resolve),
+              },
+            ])
+            results.push({})
+            break
+          case "MoveCall": {
+            const call = command.MoveCall
+            if (normalizeSuiAddress(call.package) !== this.packageId) {
+              throw new Error(`Unknown package ${call.package}`)
+            }
+            const handler = HANDLERS[`${call.module}::${call.function}`]
+            if (handler == null) {
+              throw new Error(
+                `LocalSuiClient does not implement ${call.module}::${call.function}`
+              )
+            }
+            execution.location = `${call.module}::${call.function}`
+            const returned = handler(execution, call.arguments.map(resolve)) || []
+            commandResults.push([])
+            results.push({
+              returnValues: returned.map(([bytes, type]) => [
+                Array.from(bytes),
+                type,
+              ]),
+            })
+            break
+          }
+          default:
+            throw new Error(`Unsupported transaction command ${command.$kind}`)
+        }
+      } catch (e) {
+        if (e instanceof ExecutionError) {
+          throw new ExecutionError(`${e.message} in command ${index}`)
+        }
+        throw e
+      }
+    })
+
+    return {
+      results,
+      events: execution.events,
+      objectChanges: execution.objectChanges(),
+    }
+  }
+
+  // === State helpers used by Execution ===
+
+  /** @internal */
+  getLocalObject(id: string, type: string): LocalObject {
+    const object = this.objects.get(normalizeSuiObjectId(id))
+    if (object == null) {
+      throw new Error(`Object ${id} does not exist`)
+    }
+    if (object.type !== type) {
+      throw new Error(`Object ${id} is a ${object.type}, expected ${type}`)
+    }
+    return object
+  }
+
+  /** @internal The version objects written by the current transaction get. */
+  lamportVersion() {
+    return this.transactionCount + 1
+  }
+
+  /** @internal */
+  getLocalObjectUnchecked(id: string): LocalObject {
+    return this.objects.get(id)!
+  }
+
+  /** @internal */
+  createObject(
+    moduleName: string,
+    structName: string,
+    owner: ObjectOwner,
+    fields: Record<string, unknown>,
+    tables: Record<string, LocalTable> = {}
+  ): string {
+    const objectId = this.newId()
+    this.objects.set(objectId, {
+      objectId,
+      type: this.structType(moduleName, structName),
+      owner,
+      version: this.lamportVersion(),
+      fields: { id: { id: objectId }, ...fields },
+      tables,
+    })
+    return objectId
+  }
+
+  /** @internal */
+  createCoin(value: bigint, recipient: string): string {
+    const objectId = this.newId()
+    this.objects.set(objectId, {
+      objectId,
+      type: SUI_COIN_TYPE,
+      owner: { AddressOwner: recipient },
+      version: this.lamportVersion(),
+      fields: { id: { id: objectId }, balance: value.toString() },
+      tables: {},
+    })
+    return objectId
+  }
+
+  /** @internal */
+  structType(moduleName: string, structName: string) {
+    return `${this.packageId}::${moduleName}::${structName}`
+  }
+
+  /** @internal */
+  toSuiEvent(
+    digest: string,
+    sequence: number,
+    sender: string,
+    moduleName: string,
+    eventName: string,
+    parsedJson: Record<string, unknown>
+  ): SuiEvent {
+    return {
+      id: { txDigest: digest, eventSeq: String(sequence) },
+      packageId: this.packageId,
+      transactionModule: moduleName,
+      sender,
+      type: this.structType(moduleName, eventName),
+      parsedJson,
+      // Events are only exposed as parsed JSON here.
+      bcs: "",
+      bcsEncoding: "base64",
+      timestampMs: String(Date.now()),
+    }
+  }
+
+  private newTable(
+    keyType: string,
+    valueType: string,
+    initial: Record<string, number> = {}
+  ): LocalTable {
+    return {
+      type: `0x2::table::Table<${keyType}, ${valueType}>`,
+      id: this.newId(),
+      entries: new Map(
+        Object.entries(initial).map(([key, value]) => [key, String(value)])
+      ),
+    }
+  }
+
+  private renderFields(object: LocalObject) {
+    const tables = Object.fromEntries(
+      Object.entries(object.tables).map(([name, table]) => [
+        name,
+        {
+          type: table.type,
+          fields: { id: { id: table.id }, size: String(table.entries.size) },
+        },
+      ])
+    )
+    return structuredClone({ ...object.fields, ...tables }) as Record<
+      string,
+      never
+    >
+  }
+
+  private effects(digest: string, error: string | null): TransactionEffects {
+    return {
+      messageVersion: "v1",
+      status: error == null ? { status: "success" } : { status: "failure", error },
+      executedEpoch: String(this.epoch),
+      transactionDigest: digest,
+      gasUsed: {
+        computationCost: "0",
+        storageCost: "0",
+        storageRebate: "0",
+        nonRefundableStorageFee: "0",
+      },
+      gasObject: {
+        owner: { AddressOwner: this.admin },
+        reference: { objectId: normalizeSuiObjectId("0x0"), version: "0", digest },
+      },
+    }
+  }
+
+  private newId() {
+    return normalizeSuiObjectId((this.nextId++).toString(16))
+  }
+
+  private newDigest() {
+    const bytes = new Uint8Array(32)
+    new DataView(bytes.buffer).setUint32(28, ++this.transactionCount)
+    return toBase58(bytes)
+  }
+
+  private snapshot(): Snapshot {
+    return { objects: structuredClone(this.objects), nextId: this.nextId }
+  }
+
+  private restore(snapshot: Snapshot) {
+    this.objects = snapshot.objects
+    this.nextId = snapshot.nextId
+  }
+}
+
+/**
+ * Per-transaction state: the sender, emitted events and touched objects.
+ */
+class Execution {
+  location = ""
+  events: SuiEvent[] = []
+  private created = new Set<string>()
+  private mutated = new Map<string, number>()
+
+  constructor(
+    readonly client: LocalSuiClient,
+    readonly sender: string,
+    readonly digest: string
+  ) {}
+
+  get epoch() {
+    return BigInt(this.client.epoch)
+  }
+
+  abort(code: number): never {
+    throw moveAbort(this.location, code)
+  }
+
+  object(arg: Argument, moduleName: string, structName: string): LocalObject {
+    return this.objectOfType(arg, this.client.structType(moduleName, structName))
+  }
+
+  aggregator(arg: Argument): LocalObject {
+    return this.objectOfType(arg, AGGREGATOR_TYPE)
+  }
+
+  vector(arg: Argument): Argument[] {
+    if (arg.kind !== "vector") {
+      throw new Error("Expected a vector argument")
+    }
+    return arg.elements
+  }
+
+  private objectOfType(arg: Argument, type: string): LocalObject {
+    if (arg.kind !== "object") {
+      throw new Error(`Expected an object argument for ${type}`)
+    }
+    const object = this.client.getLocalObject(arg.id, type)
+    const { owner } = object
+    if (
+      typeof owner === "object" &&
+      "AddressOwner" in owner &&
+      owner.AddressOwner !== this.sender
+    ) {
+      throw new Error(`Object ${arg.id} is not owned by ${this.sender}`)
+    }
+    return object
+  }
+
+  /** Mark an object as mutated. */
+  touch(object: LocalObject) {
+    if (this.created.has(object.objectId) || this.mutated.has(object.objectId)) {
+      return
+    }
+    this.mutated.set(object.objectId, object.version)
+    object.version = this.client.lamportVersion()
+  }
+
+  string(arg: Argument): string {
+    return bcs.string().parse(this.pure(arg))
+  }
+
+  u8(arg: Argument): number {
+    return bcs.u8().parse(this.pure(arg))
+  }
+
+  u64(arg: Argument): bigint {
+    return BigInt(bcs.u64().parse(this.pure(arg)))
+  }
+
+  u64Vector(arg: Argument): bigint[] {
+    return bcs
+      .vector(bcs.u64())
+      .parse(this.pure(arg))
+      .map((value) => BigInt(value))
+  }
+
+  optionId(arg: Argument): string | null {
+    return bcs.option(bcs.Address).parse(this.pure(arg)) ?? null
+  }
+
+  /** Consume a coin argument and return its value. */
+  coin(arg: Argument): bigint {
+    if (arg.kind !== "coin") {
+      throw new Error("Expected a coin argument")
+    }
+    return arg.value
+  }
+
+  newObject(
+    moduleName: string,
+    structName: string,
+    owner: ObjectOwner,
+    fields: Record<string, unknown>
+  ): string {
+    const id = this.client.createObject(moduleName, structName, owner, fields)
+    this.created.add(id)
+    return id
+  }
+
+  transferCoin(value: bigint, recipient: string) {
+    this.created.add(this.client.createCoin(value, recipient))
+  }
+
+  emit(moduleName: string, eventName: string, parsedJson: Record<string, unknown>) {
+    this.events.push(
+      this.client.toSuiEvent(
+        this.digest,
+        this.events.length,
+        this.sender,
+        moduleName,
+        eventName,
+        parsedJson
+      )
+    )
+  }
+
+  objectChanges(): SuiObjectChange[] {
+    const change = (id: string) => {
+      const object = this.client.getLocalObjectUnchecked(id)
+      return {
+        objectId: id,
+        objectType: object.type,
+        owner: object.owner,
+        sender: this.sender,
+        digest: this.digest,
+        version: String(object.version),
+      }
+    }
+
+    return [
+      ...[...this.created].map(
+        (id): SuiObjectChange => ({ type: "created", ...change(id) })
+      ),
+      ...[...this.mutated].map(
+        ([id, previousVersion]): SuiObjectChange => ({
+          type: "mutated",
+          previousVersion: String(previousVersion),
+          ...change(id),
+        })
+      ),
+    ]
+  }
+
+  private pure(arg: Argument): Uint8Array {
+    if (arg.kind !== "pure") {
+      throw new Error("Expected a pure argument")
+    }
+    return arg.bytes
+  }
+}
+
+// === Move entry function ports ===
+
+type Handler = (ex: Execution, args: Argument[]) => ReturnValue[] | void
+
+const tableGet = (table: LocalTable, key: string): bigint | null => {
+  const value = table.entries.get(key)
+  return value == null ? null : BigInt(value as string)
+}
+
+const pushToIndex = (table: LocalTable, key: string, id: string) => {
+  const ids = (table.entries.get(key) as string[] | undefined) || []
+  table.entries.set(key, [...ids, id])
+}
+
+/** table::add, which aborts when the key is already present. */
+const tableAdd = (table: LocalTable, key: string, value: MoveValue) => {
+  if (table.entries.has(key)) {
+    throw new ExecutionError("MoveAbort(0x2::dynamic_field::add, 0)")
+  }
+  table.entries.set(key, value)
+}
+
+interface LocalDecimal {
+  value: string
+  decimal_places: number
+  neg: boolean
+}
+
+const currentResult = (aggregator: LocalObject) =>
+  aggregator.fields.current_result as {
+    result: LocalDecimal
+    min_timestamp_ms: string
+    max_timestamp_ms: string
+    mean: LocalDecimal
+    stdev: LocalDecimal
+    min_result: LocalDecimal
+    max_result: LocalDecimal
+  }
+
+const marginRequirement = (
+  riskParams: LocalObject,
+  location: string,
+  perilType: string,
+  coverageAmount: bigint
+) => {
+  const baseMargin = BigInt(riskParams.fields.base_margin_requirement as string)
+  const locationRisk = tableGet(riskParams.tables.location_risk, location) ?? 1000n
+  const perilRisk = tableGet(riskParams.tables.peril_risk, perilType) ?? 1000n
+
+  return (coverageAmount * (baseMargin + locationRisk + perilRisk)) / 10000n
+}
+
+const HANDLERS: Record<string, Handler> = {
+  [`${RISK_MODULE}::calculate_premium`]: (ex, args) => {
+    const model = ex.object(args[0], RISK_MODULE, "RiskModel")
+    const location = ex.string(args[1])
+    const perilType = ex.string(args[2])
+    const coverageAmount = ex.u64(args[3])
+    const currentMonth = ex.u64(args[4])
+    const policyId = ex.optionId(args[5])
+
+    const baseRate = BigInt(model.fields.base_premium_rate as string)
+    const locationFactor = tableGet(model.tables.location_factors, location) ?? 100n
+    const perilFactor = tableGet(model.tables.peril_factors, perilType) ?? 100n
+    const month = currentMonth >= 1n && currentMonth <= 12n ? currentMonth : 1n
+    const seasonalFactor =
+      tableGet(model.tables.seasonal_factors, month.toString()) ?? 100n
+
+    let closestTier = 10000n
+    let minDiff = 1000000000n
+    for (const tier of COVERAGE_TIERS) {
+      const diff = tier > coverageAmount ? tier - coverageAmount : coverageAmount - tier
+      if (diff < minDiff) {
+        minDiff = diff
+        closestTier = tier
+      }
+    }
+    const coverageFactor =
+      tableGet(model.tables.coverage_factors, closestTier.toString()) ?? 100n
+
+    const basePremium = (coverageAmount * baseRate) / 10000n
+    const adjust = (factor: bigint) => sub((basePremium * factor) / 100n, basePremium)
+    const locationAdjustment = adjust(locationFactor)
+    const perilAdjustment = adjust(perilFactor)
+    const seasonalAdjustment = adjust(seasonalFactor)
+    const coverageAdjustment = adjust(coverageFactor)
+    const finalPremium =
+      basePremium +
+      locationAdjustment +
+      perilAdjustment +
+      seasonalAdjustment +
+      coverageAdjustment
+    const fundingRate = div(finalPremium * 10000n, coverageAmount * 365n)
+
+    const bytes = PremiumCalculation.serialize({
+      policy_id: policyId,
+      location,
+      peril_type: perilType,
+      coverage_amount: coverageAmount,
+      base_premium: basePremium,
+      location_adjustment: locationAdjustment,
+      peril_adjustment: perilAdjustment,
+      seasonal_adjustment: seasonalAdjustment,
+      coverage_adjustment: coverageAdjustment,
+      final_premium: finalPremium,
+      funding_rate: fundingRate,
+    }).toBytes()
+
+    return [[bytes, ex.client.structType(RISK_MODULE, "PremiumCalculation")]]
+  },
+
+  [`${POLICY_MODULE}::calculate_margin_requirement`]: (ex, args) => {
+    const riskParams = ex.object(args[0], POLICY_MODULE, "RiskParameters")
+    const margin = marginRequirement(
+      riskParams,
+      ex.string(args[1]),
+      ex.string(args[2]),
+      ex.u64(args[3])
+    )
+
+    return [[bcs.u64().serialize(margin).toBytes(), "u64"]]
+  },
+
+  [`${POLICY_MODULE}::create_policy`]: (ex, args) => {
+    const registry = ex.object(args[0], POLICY_MODULE, "PolicyRegistry")
+    const riskParams = ex.object(args[1], POLICY_MODULE, "RiskParameters")
+    const location = ex.string(args[2])
+    const coordinates = ex.u64Vector(args[3])
+    const perilType = ex.string(args[4])
+    const perilDetails = ex.string(args[5])
+    const coverageAmount = ex.u64(args[6])
+    const triggerThreshold = ex.u64(args[7])
+    const triggerOperator = ex.u8(args[8])
+    const collateralAmount = ex.coin(args[9])
+
+    const margin = marginRequirement(riskParams, location, perilType, coverageAmount)
+    if (collateralAmount < margin) ex.abort(0)
+
+    const owner = ex.sender
+    const policyId = ex.newObject(
+      POLICY_MODULE,
+      "Policy",
+      { AddressOwner: owner },
+      {
+        owner,
+        location,
+        location_coordinates: coordinates.map(u64),
+        peril_type: perilType,
+        peril_details: perilDetails,
+        coverage_amount: u64(coverageAmount),
+        trigger_threshold: u64(triggerThreshold),
+        trigger_operator: triggerOperator,
+        collateral_balance: u64(collateralAmount),
+        margin_requirement: u64(margin),
+        funding_rate_paid: "0",
+        funding_rate_received: "0",
+        active: true,
+        created_at: u64(ex.epoch),
+        last_updated: u64(ex.epoch),
+      }
+    )
+
+    registry.tables.policies.entries.set(policyId, owner)
+    pushToIndex(registry.tables.policies_by_owner, owner, policyId)
+    pushToIndex(registry.tables.policies_by_location, location, policyId)
+    pushToIndex(registry.tables.policies_by_peril, perilType, policyId)
+    registry.fields.total_policies = u64(
+      BigInt(registry.fields.total_policies as string) + 1n
+    )
+    registry.fields.total_coverage = u64(
+      BigInt(registry.fields.total_coverage as string) + coverageAmount
+    )
+    ex.touch(registry)
+
+    ex.emit(POLICY_MODULE, "PolicyCreated", {
+      policy_id: policyId,
+      owner,
+      location,
+      peril_type: perilType,
+      coverage_amount: u64(coverageAmount),
+      trigger_threshold: u64(triggerThreshold),
+      collateral_amount: u64(collateralAmount),
+    })
+  },
+
+  [`${POLICY_MODULE}::add_collateral`]: (ex, args) => {
+    const policy = ex.object(args[0], POLICY_MODULE, "Policy")
+    const amount = ex.coin(args[1])
+
+    if (policy.fields.owner !== ex.sender) ex.abort(0)
+
+    const newBalance = BigInt(policy.fields.collateral_balance as string) + amount
+    if (newBalance > U64_MAX) {
+      throw new ExecutionError("ArithmeticError: addition overflow")
+    }
+    policy.fields.collateral_balance = u64(newBalance)
+    policy.fields.last_updated = u64(ex.epoch)
+    ex.touch(policy)
+
+    ex.emit(POLICY_MODULE, "CollateralAdded", {
+      policy_id: policy.objectId,
+      owner: policy.fields.owner,
+      amount: u64(amount),
+      new_balance: u64(newBalance),
+    })
+  },
+
+  [`${POLICY_MODULE}::remove_collateral`]: (ex, args) => {
+    const policy = ex.object(args[0], POLICY_MODULE, "Policy")
+    const amount = ex.u64(args[1])
+
+    if (policy.fields.owner !== ex.sender) ex.abort(0)
+
+    const currentBalance = BigInt(policy.fields.collateral_balance as string)
+    const excess = sub(
+      currentBalance,
+      BigInt(policy.fields.margin_requirement as string)
+    )
+    if (amount > excess) ex.abort(0)
+
+    const newBalance = currentBalance - amount
+    policy.fields.collateral_balance = u64(newBalance)
+    policy.fields.last_updated = u64(ex.epoch)
+    ex.touch(policy)
+    ex.transferCoin(amount, policy.fields.owner as string)
+
+    ex.emit(POLICY_MODULE, "CollateralRemoved", {
+      policy_id: policy.objectId,
+      owner: policy.fields.owner,
+      amount: u64(amount),
+      new_balance: u64(newBalance),
+    })
+  },
+
+  [`${POLICY_MODULE}::terminate_policy`]: (ex, args) => {
+    const registry = ex.object(args[0], POLICY_MODULE, "PolicyRegistry")
+    const policy = ex.object(args[1], POLICY_MODULE, "Policy")
+
+    if (policy.fields.owner !== ex.sender) ex.abort(0)
+    if (!policy.fields.active) ex.abort(1)
+
+    const balance = BigInt(policy.fields.collateral_balance as string)
+    ex.transferCoin(balance, policy.fields.owner as string)
+
+    policy.fields.collateral_balance = "0"
+    policy.fields.active = false
+    policy.fields.last_updated = u64(ex.epoch)
+    ex.touch(policy)
+
+    registry.fields.total_coverage = u64(
+      sub(
+        BigInt(registry.fields.total_coverage as string),
+        BigInt(policy.fields.coverage_amount as string)
+      )
+    )
+    ex.touch(registry)
+
+    ex.emit(POLICY_MODULE, "PolicyTerminated", {
+      policy_id: policy.objectId,
+      owner: policy.fields.owner,
+      reason: "User terminated",
+    })
+  },
+
+  [`${CLAIM_MODULE}::process_claim_with_aggregated_data`]: (ex, args) => {
+    const policy = ex.object(args[0], POLICY_MODULE, "Policy")
+    const oracleData = ex.object(args[1], ORACLE_MODULE, "AggregatedData")
+    const pool = ex.object(args[2], POOL_MODULE, "LiquidityPool")
+
+    const owner = policy.fields.owner as string
+    const coverageAmount = BigInt(policy.fields.coverage_amount as string)
+    const triggerThreshold = BigInt(policy.fields.trigger_threshold as string)
+
+    if (!policy.fields.active) ex.abort(0)
+    if (policy.fields.location !== oracleData.fields.location) ex.abort(1)
+    if (policy.fields.peril_type !== oracleData.fields.data_type) ex.abort(2)
+
+    const oracleValue = BigInt(oracleData.fields.value as string)
+    if (oracleValue > U64_MAX) {
+      throw new ExecutionError("ArithmeticError: cast overflow")
+    }
+
+    const triggerMet = isTriggerMet(
+      policy.fields.trigger_operator as number,
+      oracleValue,
+      triggerThreshold
+    )
+    const status = triggerMet ? 1 : 2
+    const payoutAmount = triggerMet ? coverageAmount : 0n
+
+    const claimId = ex.newObject(
+      CLAIM_MODULE,
+      "Claim",
+      { AddressOwner: owner },
+      {
+        policy_id: policy.objectId,
+        owner,
+        trigger_value: u64(triggerThreshold),
+        actual_value: oracleValue.toString(),
+        decimal_places: 8,
+        payout_amount: u64(payoutAmount),
+        processed_at: u64(ex.epoch),
+        status,
+        oracle_sources: oracleData.fields.sources_count,
+      }
+    )
+
+    if (status === 1) {
+      // The payout the contract delegates to liquidity_pool.
+      pool.fields.total_liquidity = u64(
+        sub(BigInt(pool.fields.total_liquidity as string), payoutAmount)
+      )
+      ex.touch(pool)
+      ex.transferCoin(payoutAmount, owner)
+    }
+
+    ex.emit(CLAIM_MODULE, "ClaimProcessed", {
+      claim_id: claimId,
+      policy_id: policy.objectId,
+      owner,
+      payout_amount: u64(payoutAmount),
+      status,
+    })
+  },
+
+  [`${ORACLE_MODULE}::register_feed`]: (ex, args) => {
+    const registry = ex.object(args[0], ORACLE_MODULE, "OracleFeedRegistry")
+    const feedName = ex.string(args[1])
+    const dataType = ex.string(args[2])
+    const location = ex.string(args[3])
+    const details = ex.string(args[4])
+    const aggregatorId = ex.aggregator(args[5]).objectId
+
+    tableAdd(registry.tables.feeds, feedName, aggregatorId)
+    tableAdd(registry.tables.feed_types, aggregatorId, dataType)
+    tableAdd(registry.tables.feed_locations, aggregatorId, location)
+    tableAdd(registry.tables.feed_details, aggregatorId, details)
+    ex.touch(registry)
+
+    ex.emit(ORACLE_MODULE, "FeedRegistered", {
+      feed_id: aggregatorId,
+      feed_name: feedName,
+      data_type: dataType,
+      location,
+    })
+  },
+
+  [`${ORACLE_MODULE}::read_aggregator_data`]: (ex, args) => {
+    const registry = ex.object(args[0], ORACLE_MODULE, "OracleFeedRegistry")
+    const aggregator = ex.aggregator(args[1])
+
+    const dataType = registry.tables.feed_types.entries.get(aggregator.objectId)
+    if (dataType == null) ex.abort(0)
+    const location = registry.tables.feed_locations.entries.get(
+      aggregator.objectId
+    )
+
+    const current = currentResult(aggregator)
+    const fields = {
+      location,
+      data_type: dataType,
+      value: current.result.value,
+      decimal_places: current.result.decimal_places,
+      timestamp: u64(ex.epoch),
+      min_timestamp: current.min_timestamp_ms,
+      max_timestamp: current.max_timestamp_ms,
+      mean: current.mean.value,
+      stdev: current.stdev.value,
+      min_value: current.min_result.value,
+      max_value: current.max_result.value,
+      sources_count: "1",
+    }
+    const id = ex.newObject(
+      ORACLE_MODULE,
+      "AggregatedData",
+      { Shared: { initial_shared_version: u64(BigInt(ex.client.lamportVersion())) } },
+      fields
+    )
+
+    ex.emit(ORACLE_MODULE, "DataAggregated", {
+      aggregation_id: id,
+      location,
+      data_type: dataType,
+      value: fields.value,
+      timestamp: fields.timestamp,
+      sources_count: "1",
+    })
+  },
+
+  [`${ORACLE_MODULE}::aggregate_multiple_feeds`]: (ex, args) => {
+    const registry = ex.object(args[0], ORACLE_MODULE, "OracleFeedRegistry")
+    const aggregators = ex.vector(args[1]).map((arg) => ex.aggregator(arg))
+    const location = ex.string(args[2])
+    const dataType = ex.string(args[3])
+
+    if (aggregators.length === 0) ex.abort(0)
+
+    const results = aggregators.map((aggregator) => {
+      const id = aggregator.objectId
+      if (!registry.tables.feed_types.entries.has(id)) ex.abort(1)
+      if (registry.tables.feed_types.entries.get(id) !== dataType) ex.abort(2)
+      if (registry.tables.feed_locations.entries.get(id) !== location) ex.abort(3)
+
+      return currentResult(aggregator)
+    })
+
+    const values = results
+      .map((result) => BigInt(result.result.value))
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    const n = BigInt(values.length)
+    const median =
+      values.length % 2 === 0
+        ? (values[values.length / 2 - 1] + values[values.length / 2]) / 2n
+        : values[Math.floor(values.length / 2)]
+    const mean = values.reduce((sum, value) => sum + value, 0n) / n
+    const variance =
+      values.reduce((sum, value) => {
+        const diff = value > mean ? value - mean : mean - value
+        return sum + diff * diff
+      }, 0n) / n
+    const minTimestamp = results
+      .map((result) => BigInt(result.min_timestamp_ms))
+      .reduce((a, b) => (b < a ? b : a))
+    const maxTimestamp = results
+      .map((result) => BigInt(result.max_timestamp_ms))
+      .reduce((a, b) => (b > a ? b : a))
+
+    const id = ex.newObject(
+      ORACLE_MODULE,
+      "AggregatedData",
+      { Shared: { initial_shared_version: u64(BigInt(ex.client.lamportVersion())) } },
+      {
+        location,
+        data_type: dataType,
+        value: median.toString(),
+        // The contract hard-codes 8 decimal places for aggregates.
+        decimal_places: 8,
+        timestamp: u64(ex.epoch),
+        min_timestamp: u64(minTimestamp),
+        max_timestamp: u64(maxTimestamp),
+        mean: mean.toString(),
+        // `variance ^ (1/2)` in Move is an XOR with zero.
+        stdev: variance.toString(),
+        min_value: values[0].toString(),
+        max_value: values[values.length - 1].toString(),
+        sources_count: u64(n),
+      }
+    )
+
+    ex.emit(ORACLE_MODULE, "DataAggregated", {
+      aggregation_id: id,
+      location,
+      data_type: dataType,
+      value: median.toString(),
+      timestamp: u64(ex.epoch),
+      sources_count: u64(n),
+    })
+  },
+}
+
+/**
+ * The trigger check of claim_processor_updated: inclusive bounds, and a 1%
+ * tolerance for "equal to".
+ */
+const isTriggerMet = (operator: number, value: bigint, threshold: bigint) => {
+  switch (operator) {
+    case 0:
+      return value <= threshold
+    case 1:
+      return value >= threshold
+    case 2: {
+      const diff = value > threshold ? value - threshold : threshold - value
+      return diff <= threshold / 100n
+    }
+    default:
+      return false
+  }
+}
+
+const matchesFilter = (event: SuiEvent, filter: SuiEventFilter): boolean => {
+  if ("All" in filter) return true
+  if ("Any" in filter) return filter.Any.some((f) => matchesFilter(event, f))
+  if ("Sender" in filter) return event.sender === normalizeSuiAddress(filter.Sender)
+  if ("Transaction" in filter) return event.id.txDigest === filter.Transaction
+  if ("MoveEventType" in filter) return event.type === filter.MoveEventType
+  if ("MoveModule" in filter || "MoveEventModule" in filter) {
+    const { package: packageId, module } =
+      "MoveModule" in filter ? filter.MoveModule : filter.MoveEventModule
+    return (
+      event.packageId === normalizeSuiAddress(packageId) &&
+      event.type.split("::")[1] === module
+    )
+  }
+  throw new Error(`Unsupported event filter ${Object.keys(filter)[0]}`)
+}
+
+const sameEventId = (a: EventId, b: EventId) =>
+  a.txDigest === b.txDigest && a.eventSeq === b.eventSeq
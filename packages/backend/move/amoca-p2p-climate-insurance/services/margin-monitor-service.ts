@@ -0,0 +1,208 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+// The frontend's margin call runs the same assessment and drain scan.
+import * as shared from "../../../../frontend/src/app/dapp/helpers/marginMonitor"
+import { POLICY_MODULE, PolicyRegistryFields } from "./move-types"
+import {
+  fullStructName,
+  getObjectFields,
+  getServiceContext,
+} from "./service-context"
+import { PolicyDetails, getPolicyDetails } from "./policy-lifecycle-service"
+
+export type MarginStatus = shared.TMarginStatus
+
+export interface MarginAssessment {
+  policyId: string
+  owner: string
+  status: MarginStatus
+  collateralAmount: number
+  marginRequirement: number
+  /** Collateral above the margin, negative when undercollateralized. */
+  excess: number
+  /** Average of the recent collateral drains, 0 if there were none. */
+  averageDrain: number
+  /** Drains of that size the excess absorbs, null if nothing drains. */
+  drainsToMargin: number | null
+  /** Collateral to add to get back to healthy. */
+  suggestedTopUp: number
+}
+
+export interface MarginMonitorOptions {
+  /** Flag a policy at_risk when fewer drains than this are left. */
+  warningDrains?: number
+  /** How many recent drain events to average over. */
+  lookback?: number
+  /** Only count drains from this far back. */
+  windowMs?: number
+}
+
+export interface WatchMarginsOptions extends MarginMonitorOptions {
+  intervalMs?: number
+  /** Called with every assessment whose status differs from the last poll. */
+  onChange: (assessment: MarginAssessment) => void
+  onError?: (error: Error) => void
+}
+
+const DEFAULT_INTERVAL_MS = 60_000
+
+/**
+ * Classify a policy from its collateral and the sizes of its recent collateral
+ * drains. Amounts are in MIST, so they stay exact as numbers.
+ *
+ * @param policy
+ * @param drains Drain amounts, most recent first.
+ * @param options
+ * @returns
+ */
+export const assessMargin = (
+  policy: Pick<
+    PolicyDetails,
+    "id" | "owner" | "collateralAmount" | "marginRequirement"
+  >,
+  drains: number[],
+  options: MarginMonitorOptions = {}
+): MarginAssessment => {
+  const assessment = shared.assessMargin(
+    BigInt(policy.collateralAmount),
+    BigInt(policy.marginRequirement),
+    drains.map((drain) => BigInt(drain)),
+    BigInt(options.warningDrains ?? Number(shared.WARNING_DRAINS))
+  )
+
+  return {
+    policyId: policy.id,
+    owner: policy.owner,
+    status: assessment.status,
+    collateralAmount: policy.collateralAmount,
+    marginRequirement: policy.marginRequirement,
+    excess: Number(assessment.excess),
+    averageDrain: Number(assessment.averageDrain),
+    drainsToMargin:
+      assessment.drainsToMargin == null
+        ? null
+        : Number(assessment.drainsToMargin),
+    suggestedTopUp: Number(assessment.suggestedTopUp),
+  }
+}
+
+/**
+ * IDs of every policy the address created, from the policies_by_owner index of
+ * the PolicyRegistry. The index is keyed by the creator, so a policy stays
+ * listed under it even if it was transferred.
+ *
+ * @param owner
+ * @returns Oldest first. Empty if the address never created a policy.
+ */
+export const listPolicyIds = async (owner: string): Promise<string[]> => {
+  const { client, packageId, policyRegistryId } = getServiceContext()
+  const registry = await getObjectFields<PolicyRegistryFields>(
+    client,
+    policyRegistryId,
+    fullStructName(packageId, POLICY_MODULE, "PolicyRegistry")
+  )
+
+  const entry = await client.getDynamicFieldObject({
+    parentId: registry.policies_by_owner.fields.id.id,
+    name: { type: "address", value: normalizeSuiAddress(owner) },
+  })
+  const content = entry.data?.content
+
+  if (content?.dataType !== "moveObject") {
+    return []
+  }
+
+  return (content.fields as unknown as { value: string[] }).value
+}
+
+/**
+ * The most recent CollateralRemoved amounts of the given policies. See
+ * fetchRecentDrains of the shared helper for how far back the scan goes.
+ *
+ * @param policyIds
+ * @param options
+ * @returns Drain amounts per policy ID, most recent first.
+ */
+export const getRecentDrains = async (
+  policyIds: string[],
+  options: Pick<MarginMonitorOptions, "lookback" | "windowMs"> = {}
+): Promise<Map<string, number[]>> => {
+  const { client, packageId } = getServiceContext()
+  const drains = await shared.fetchRecentDrains(
+    client,
+    fullStructName(packageId, POLICY_MODULE, "CollateralRemoved"),
+    policyIds,
+    options
+  )
+
+  return new Map(
+    policyIds.map((id) => [id, drains[id].map((drain) => Number(drain))])
+  )
+}
+
+/**
+ * Assess every active policy of an owner.
+ *
+ * @param owner
+ * @param options
+ * @returns
+ */
+export const checkMargins = async (
+  owner: string,
+  options: MarginMonitorOptions = {}
+): Promise<MarginAssessment[]> => {
+  const policies = await Promise.all(
+    (await listPolicyIds(owner)).map((id) => getPolicyDetails(id))
+  )
+  const active = policies.filter((policy) => policy.active)
+  const drains = await getRecentDrains(
+    active.map((policy) => policy.id),
+    options
+  )
+
+  return active.map((policy) =>
+    assessMargin(policy, drains.get(policy.id)!, options)
+  )
+}
+
+/**
+ * Poll an owner's policies and report status changes. A policy's first
+ * assessment is reported unless it is healthy.
+ *
+ * @param owner
+ * @param options
+ * @returns A function that stops the polling.
+ */
+export const watchMargins = (
+  owner: string,
+  options: WatchMarginsOptions
+): (() => void) => {
+  const lastStatus = new Map<string, MarginStatus>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const poll = async () => {
+    try {
+      for (const assessment of await checkMargins(owner, options)) {
+        const previous = lastStatus.get(assessment.policyId) ?? "healthy"
+        lastStatus.set(assessment.policyId, assessment.status)
+
+        if (assessment.status !== previous) {
+          options.onChange(assessment)
+        }
+      }
+    } catch (e) {
+      options.onError?.(e as Error)
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, options.intervalMs ?? DEFAULT_INTERVAL_MS)
+    }
+  }
+
+  void poll()
+
+  return () => {
+    stopped = true
+    if (timer != null) clearTimeout(timer)
+  }
+}
@@ -0,0 +1,142 @@
+import { bcs } from "@mysten/sui/bcs"
+
+// Module names of the amoca package.
+export const POLICY_MODULE = "policy_manager_enhanced"
+export const RISK_MODULE = "risk_model"
+export const CLAIM_MODULE = "claim_processor_updated"
+export const ORACLE_MODULE = "switchboard_oracle_integration"
+export const POOL_MODULE = "liquidity_pool"
+
+// Switchboard deployments, as in switchboard_oracle_integration.
+export const SWITCHBOARD_MAINNET =
+  "0xe6717fb7c9d44706bf8ce8a651e25c0a7902d32cb0ff40c0976251ce8ac25655"
+export const SWITCHBOARD_TESTNET =
+  "0x578b91ec9dcc505439b2f0ec761c23ad2c533a1c23b0467f6c4ae3d9686709f6"
+
+// === BCS return values ===
+
+/** risk_model::PremiumCalculation, returned by calculate_premium. */
+export const PremiumCalculation = bcs.struct("PremiumCalculation", {
+  policy_id: bcs.option(bcs.Address),
+  location: bcs.string(),
+  peril_type: bcs.string(),
+  coverage_amount: bcs.u64(),
+  base_premium: bcs.u64(),
+  location_adjustment: bcs.u64(),
+  peril_adjustment: bcs.u64(),
+  seasonal_adjustment: bcs.u64(),
+  coverage_adjustment: bcs.u64(),
+  final_premium: bcs.u64(),
+  funding_rate: bcs.u64(),
+})
+
+// === Object fields, as returned by getObject with showContent ===
+// u64 and u128 values are rendered as decimal strings, Balance<SUI> as its value.
+
+export interface PolicyFields {
+  id: { id: string }
+  owner: string
+  location: string
+  location_coordinates: string[]
+  peril_type: string
+  peril_details: string
+  coverage_amount: string
+  trigger_threshold: string
+  trigger_operator: number
+  collateral_balance: string
+  margin_requirement: string
+  funding_rate_paid: string
+  funding_rate_received: string
+  active: boolean
+  created_at: string
+  last_updated: string
+}
+
+/** Only the fields the services read. Tables render as their ID and size. */
+export interface PolicyRegistryFields {
+  id: { id: string }
+  total_policies: string
+  total_coverage: string
+  policies_by_owner: {
+    type: string
+    fields: { id: { id: string }; size: string }
+  }
+}
+
+export interface ClaimFields {
+  id: { id: string }
+  policy_id: string
+  owner: string
+  trigger_value: string
+  actual_value: string
+  decimal_places: number
+  payout_amount: string
+  processed_at: string
+  status: number
+  oracle_sources: string
+}
+
+export interface AggregatedDataFields {
+  id: { id: string }
+  location: string
+  data_type: string
+  value: string
+  decimal_places: number
+  timestamp: string
+  min_timestamp: string
+  max_timestamp: string
+  mean: string
+  stdev: string
+  min_value: string
+  max_value: string
+  sources_count: string
+}
+
+// === Events ===
+
+export interface PolicyCreatedEvent {
+  policy_id: string
+  owner: string
+  location: string
+  peril_type: string
+  coverage_amount: string
+  trigger_threshold: string
+  collateral_amount: string
+}
+
+export interface CollateralChangedEvent {
+  policy_id: string
+  owner: string
+  amount: string
+  new_balance: string
+}
+
+export interface PolicyTerminatedEvent {
+  policy_id: string
+  owner: string
+  reason: string
+}
+
+export interface ClaimProcessedEvent {
+  claim_id: string
+  policy_id: string
+  owner: string
+  payout_amount: string
+  status: number
+}
+
+export interface FeedRegisteredEvent {
+  feed_id: string
+  feed_name: string
+  data_type: string
+  location: string
+}
+
+export interface DataAggregatedEvent {
+  aggregation_id: string
+  location: string
+  data_type: string
+  value: string
+  timestamp: string
+  sources_count: string
+}
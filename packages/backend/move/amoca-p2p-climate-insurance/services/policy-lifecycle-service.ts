@@ -0,0 +1,479 @@
+import { bcs } from "@mysten/sui/bcs"
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client"
+import { Transaction } from "@mysten/sui/transactions"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import {
+  CLAIM_MODULE,
+  ClaimFields,
+  CollateralChangedEvent,
+  POLICY_MODULE,
+  PolicyCreatedEvent,
+  PolicyFields,
+  PremiumCalculation,
+  RISK_MODULE,
+} from "./move-types"
+import {
+  InsuranceObjectIds,
+  assertSuccess,
+  findCreatedObjectId,
+  findEvent,
+  fullFunctionName,
+  fullStructName,
+  getObjectFields,
+  getServiceContext,
+} from "./service-context"
+import { ClimateDataType, getLatestReading } from "./switchboard-service-updated"
+
+/** Matches `trigger_operator` in policy_manager_enhanced::Policy. */
+export enum TriggerOperator {
+  LESS_THAN = 0,
+  GREATER_THAN = 1,
+  EQUAL_TO = 2,
+}
+
+export type ClaimStatus = "Pending" | "Approved" | "Rejected"
+
+export interface PolicyParams {
+  location: string
+  /** [latitude, longitude] in degrees. */
+  locationCoordinates: [number, number]
+  perilType: ClimateDataType
+  /** JSON string with peril-specific parameters. */
+  perilDetails: string
+  coverageAmount: number
+  triggerThreshold: number
+  triggerOperator: TriggerOperator
+  collateralAmount: number
+}
+
+export interface PremiumQuote {
+  basePremium: number
+  locationAdjustment: number
+  perilAdjustment: number
+  seasonalAdjustment: number
+  coverageAdjustment: number
+  finalPremium: number
+  /** Daily funding rate in basis points. */
+  fundingRate: number
+  marginRequirement: number
+}
+
+export interface PolicyDetails {
+  id: string
+  /** As normalizeSuiAddress writes it. */
+  owner: string
+  location: string
+  locationCoordinates: [number, number]
+  perilType: string
+  perilDetails: string
+  coverageAmount: number
+  triggerThreshold: number
+  triggerOperator: TriggerOperator
+  collateralAmount: number
+  marginRequirement: number
+  fundingRatePaid: number
+  fundingRateReceived: number
+  active: boolean
+  createdAt: number
+  lastUpdated: number
+}
+
+export interface ClaimDetails {
+  id: string
+  policyId: string
+  /** As normalizeSuiAddress writes it. */
+  owner: string
+  triggerValue: number
+  /** Oracle value scaled down by `decimalPlaces`. */
+  actualValue: number
+  decimalPlaces: number
+  payoutAmount: number
+  processedAt: number
+  status: ClaimStatus
+  oracleSources: number
+}
+
+const CLAIM_STATUSES: ClaimStatus[] = ["Pending", "Approved", "Rejected"]
+
+// vector<u64> cannot hold negative or fractional degrees, so coordinates are
+// stored as micro-degrees shifted into the positive range.
+const COORDINATE_SCALE = 1_000_000
+const COORDINATE_OFFSETS = [90, 180]
+
+export const encodeCoordinates = (coordinates: [number, number]): bigint[] => {
+  return coordinates.map((value, i) =>
+    BigInt(Math.round((value + COORDINATE_OFFSETS[i]) * COORDINATE_SCALE))
+  )
+}
+
+export const decodeCoordinates = (values: string[]): [number, number] => {
+  const [latitude, longitude] = values.map((value, i) =>
+    Number((Number(value) / COORDINATE_SCALE - COORDINATE_OFFSETS[i]).toFixed(6))
+  )
+  return [latitude, longitude]
+}
+
+// === Transaction builders ===
+
+export const prepareCreatePolicyTransaction = (
+  ids: InsuranceObjectIds,
+  params: PolicyParams
+): Transaction => {
+  const tx = new Transaction()
+  const [collateral] = tx.splitCoins(tx.gas, [
+    tx.pure.u64(params.collateralAmount),
+  ])
+  tx.moveCall({
+    arguments: [
+      tx.object(ids.policyRegistryId),
+      tx.object(ids.riskParametersId),
+      tx.pure.string(params.location),
+      tx.pure.vector("u64", encodeCoordinates(params.locationCoordinates)),
+      tx.pure.string(params.perilType),
+      tx.pure.string(params.perilDetails),
+      tx.pure.u64(params.coverageAmount),
+      tx.pure.u64(params.triggerThreshold),
+      tx.pure.u8(params.triggerOperator),
+      collateral,
+    ],
+    target: fullFunctionName(ids.packageId, POLICY_MODULE, "create_policy"),
+  })
+
+  return tx
+}
+
+export const prepareAddCollateralTransaction = (
+  ids: InsuranceObjectIds,
+  policyId: string,
+  amount: number
+): Transaction => {
+  const tx = new Transaction()
+  const [collateral] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)])
+  tx.moveCall({
+    arguments: [tx.object(policyId), collateral],
+    target: fullFunctionName(ids.packageId, POLICY_MODULE, "add_collateral"),
+  })
+
+  return tx
+}
+
+export const prepareRemoveCollateralTransaction = (
+  ids: InsuranceObjectIds,
+  policyId: string,
+  amount: number
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(policyId), tx.pure.u64(amount)],
+    target: fullFunctionName(ids.packageId, POLICY_MODULE, "remove_collateral"),
+  })
+
+  return tx
+}
+
+export const prepareTerminatePolicyTransaction = (
+  ids: InsuranceObjectIds,
+  policyId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(ids.policyRegistryId), tx.object(policyId)],
+    target: fullFunctionName(ids.packageId, POLICY_MODULE, "terminate_policy"),
+  })
+
+  return tx
+}
+
+export const prepareProcessClaimTransaction = (
+  ids: InsuranceObjectIds,
+  policyId: string,
+  aggregatedDataId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(policyId),
+      tx.object(aggregatedDataId),
+      tx.object(ids.liquidityPoolId),
+    ],
+    target: fullFunctionName(
+      ids.packageId,
+      CLAIM_MODULE,
+      "process_claim_with_aggregated_data"
+    ),
+  })
+
+  return tx
+}
+
+// === Service API ===
+
+/**
+ * Quote the premium and margin requirement of a policy by dev-inspecting
+ * risk_model::calculate_premium and
+ * policy_manager_enhanced::calculate_margin_requirement.
+ *
+ * @param params
+ * @param month Month of the year (1-12) used for the seasonal factor.
+ * @returns
+ */
+export const calculatePremium = async (
+  params: PolicyParams,
+  month: number = new Date().getUTCMonth() + 1
+): Promise<PremiumQuote> => {
+  const { client, ...ids } = getServiceContext()
+
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(ids.riskModelId),
+      tx.pure.string(params.location),
+      tx.pure.string(params.perilType),
+      tx.pure.u64(params.coverageAmount),
+      tx.pure.u64(month),
+      tx.pure.option("id", null),
+    ],
+    target: fullFunctionName(ids.packageId, RISK_MODULE, "calculate_premium"),
+  })
+  tx.moveCall({
+    arguments: [
+      tx.object(ids.riskParametersId),
+      tx.pure.string(params.location),
+      tx.pure.string(params.perilType),
+      tx.pure.u64(params.coverageAmount),
+    ],
+    target: fullFunctionName(
+      ids.packageId,
+      POLICY_MODULE,
+      "calculate_margin_requirement"
+    ),
+  })
+
+  const result = await client.devInspectTransactionBlock({
+    transactionBlock: tx,
+    sender: normalizeSuiAddress("0x0"),
+  })
+
+  if (result.error) {
+    throw new Error(`Premium calculation failed: ${result.error}`)
+  }
+
+  const [premiumBytes] = result.results?.[0]?.returnValues?.[0] || []
+  const [marginBytes] = result.results?.[1]?.returnValues?.[0] || []
+
+  if (premiumBytes == null || marginBytes == null) {
+    throw new Error("Premium calculation returned no values")
+  }
+
+  const premium = PremiumCalculation.parse(Uint8Array.from(premiumBytes))
+
+  return {
+    basePremium: Number(premium.base_premium),
+    locationAdjustment: Number(premium.location_adjustment),
+    perilAdjustment: Number(premium.peril_adjustment),
+    seasonalAdjustment: Number(premium.seasonal_adjustment),
+    coverageAdjustment: Number(premium.coverage_adjustment),
+    finalPremium: Number(premium.final_premium),
+    fundingRate: Number(premium.funding_rate),
+    marginRequirement: Number(bcs.u64().parse(Uint8Array.from(marginBytes))),
+  }
+}
+
+/**
+ * Create a policy, posting `collateralAmount` from the owner's gas coin.
+ *
+ * @param params
+ * @param owner
+ * @returns The ID of the new policy.
+ */
+export const createPolicy = async (
+  params: PolicyParams,
+  owner: string
+): Promise<string> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareCreatePolicyTransaction(ids, params),
+    owner
+  )
+  assertSuccess(response)
+
+  const event = findEvent<PolicyCreatedEvent>(
+    response,
+    fullStructName(ids.packageId, POLICY_MODULE, "PolicyCreated")
+  )
+  if (event == null) {
+    throw new Error(`Transaction ${response.digest} created no policy`)
+  }
+
+  return event.policy_id
+}
+
+export const getPolicyDetails = async (
+  policyId: string
+): Promise<PolicyDetails> => {
+  const { client, packageId } = getServiceContext()
+
+  const fields = await getObjectFields<PolicyFields>(
+    client,
+    policyId,
+    fullStructName(packageId, POLICY_MODULE, "Policy")
+  )
+
+  return {
+    id: fields.id.id,
+    owner: normalizeSuiAddress(fields.owner),
+    location: fields.location,
+    locationCoordinates: decodeCoordinates(fields.location_coordinates),
+    perilType: fields.peril_type,
+    perilDetails: fields.peril_details,
+    coverageAmount: Number(fields.coverage_amount),
+    triggerThreshold: Number(fields.trigger_threshold),
+    triggerOperator: fields.trigger_operator,
+    collateralAmount: Number(fields.collateral_balance),
+    marginRequirement: Number(fields.margin_requirement),
+    fundingRatePaid: Number(fields.funding_rate_paid),
+    fundingRateReceived: Number(fields.funding_rate_received),
+    active: fields.active,
+    createdAt: Number(fields.created_at),
+    lastUpdated: Number(fields.last_updated),
+  }
+}
+
+/**
+ * @returns The collateral balance after the top-up.
+ */
+export const addCollateral = async (
+  policyId: string,
+  amount: number,
+  owner: string
+): Promise<number> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareAddCollateralTransaction(ids, policyId, amount),
+    owner
+  )
+  assertSuccess(response)
+
+  return newCollateralBalance(response, ids.packageId, "CollateralAdded")
+}
+
+/**
+ * The contract refuses to withdraw below the policy's margin requirement.
+ *
+ * @returns The collateral balance after the withdrawal.
+ */
+export const removeCollateral = async (
+  policyId: string,
+  amount: number,
+  owner: string
+): Promise<number> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareRemoveCollateralTransaction(ids, policyId, amount),
+    owner
+  )
+  assertSuccess(response)
+
+  return newCollateralBalance(response, ids.packageId, "CollateralRemoved")
+}
+
+/**
+ * Terminate a policy and return all of its collateral to the owner.
+ *
+ * @returns
+ */
+export const terminatePolicy = async (
+  policyId: string,
+  owner: string
+): Promise<boolean> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareTerminatePolicyTransaction(ids, policyId),
+    owner
+  )
+  assertSuccess(response)
+
+  return (
+    findEvent(
+      response,
+      fullStructName(ids.packageId, POLICY_MODULE, "PolicyTerminated")
+    ) != null
+  )
+}
+
+/**
+ * Process a claim against an oracle reading. Without an explicit reading, the
+ * most recent one matching the policy's location and peril is used.
+ *
+ * @param policyId
+ * @param owner
+ * @param aggregatedDataId
+ * @returns
+ */
+export const processClaim = async (
+  policyId: string,
+  owner: string,
+  aggregatedDataId?: string
+): Promise<ClaimDetails> => {
+  const { client, execute, ...ids } = getServiceContext()
+
+  if (aggregatedDataId == null) {
+    const policy = await getPolicyDetails(policyId)
+    const reading = await getLatestReading(policy.location, policy.perilType)
+    if (reading == null) {
+      throw new Error(
+        `No oracle reading found for ${policy.perilType} in ${policy.location}`
+      )
+    }
+    aggregatedDataId = reading.id
+  }
+
+  const response = await execute(
+    prepareProcessClaimTransaction(ids, policyId, aggregatedDataId),
+    owner
+  )
+  assertSuccess(response)
+
+  const claimType = fullStructName(ids.packageId, CLAIM_MODULE, "Claim")
+  const claimId = findCreatedObjectId(response, claimType)
+  if (claimId == null) {
+    throw new Error(`Transaction ${response.digest} created no claim`)
+  }
+
+  return toClaimDetails(await getObjectFields<ClaimFields>(client, claimId, claimType))
+}
+
+export const toClaimDetails = (fields: ClaimFields): ClaimDetails => {
+  return {
+    id: fields.id.id,
+    policyId: fields.policy_id,
+    owner: normalizeSuiAddress(fields.owner),
+    triggerValue: Number(fields.trigger_value),
+    actualValue: Number(fields.actual_value) / 10 ** fields.decimal_places,
+    decimalPlaces: fields.decimal_places,
+    payoutAmount: Number(fields.payout_amount),
+    processedAt: Number(fields.processed_at),
+    status: CLAIM_STATUSES[fields.status],
+    oracleSources: Number(fields.oracle_sources),
+  }
+}
+
+const newCollateralBalance = (
+  response: SuiTransactionBlockResponse,
+  packageId: string,
+  eventName: string
+): number => {
+  const event = findEvent<CollateralChangedEvent>(
+    response,
+    fullStructName(packageId, POLICY_MODULE, eventName)
+  )
+  if (event == null) {
+    throw new Error(`Transaction ${response.digest} emitted no ${eventName}`)
+  }
+
+  return Number(event.new_balance)
+}
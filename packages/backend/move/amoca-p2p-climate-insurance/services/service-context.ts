@@ -0,0 +1,195 @@
+import type {
+  SuiClient,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client"
+import type { Keypair } from "@mysten/sui/cryptography"
+import type { Transaction } from "@mysten/sui/transactions"
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+
+/**
+ * The part of SuiClient the services rely on. Both a real SuiClient and the
+ * in-memory LocalSuiClient satisfy it.
+ */
+export type ServiceClient = Pick<
+  SuiClient,
+  | "getObject"
+  | "getDynamicFieldObject"
+  | "queryEvents"
+  | "devInspectTransactionBlock"
+>
+
+/**
+ * Signs and executes a transaction on behalf of the given sender. The response
+ * must include effects, events and object changes.
+ */
+export type TransactionExecutor = (
+  transaction: Transaction,
+  sender: string
+) => Promise<SuiTransactionBlockResponse>
+
+/**
+ * IDs of the published insurance package and the shared objects its calls need.
+ */
+export interface InsuranceObjectIds {
+  packageId: string
+  policyRegistryId: string
+  riskParametersId: string
+  riskModelId: string
+  liquidityPoolId: string
+  oracleFeedRegistryId: string
+}
+
+export interface ServiceContext extends InsuranceObjectIds {
+  client: ServiceClient
+  execute: TransactionExecutor
+}
+
+export const EXECUTE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+}
+
+let context: ServiceContext | null = null
+
+/**
+ * Set the client, executor and object IDs used by all services.
+ *
+ * @param serviceContext
+ */
+export const configureServices = (serviceContext: ServiceContext) => {
+  context = serviceContext
+}
+
+export const getServiceContext = (): ServiceContext => {
+  if (context == null) {
+    throw new Error(
+      "The insurance services are not configured. Call configureServices() first."
+    )
+  }
+
+  return context
+}
+
+/**
+ * Build an executor which signs every transaction with the given keypair and
+ * waits until the node has indexed it, so follow-up reads see its effects.
+ *
+ * @param client
+ * @param keypair
+ * @returns
+ */
+export const keypairExecutor =
+  (client: SuiClient, keypair: Keypair): TransactionExecutor =>
+  async (transaction, sender) => {
+    if (keypair.toSuiAddress() !== normalizeSuiAddress(sender)) {
+      throw new Error(`The configured keypair cannot sign for ${sender}`)
+    }
+
+    const response = await client.signAndExecuteTransaction({
+      transaction,
+      signer: keypair,
+      options: EXECUTE_OPTIONS,
+    })
+    await client.waitForTransaction({ digest: response.digest })
+
+    return response
+  }
+
+export const fullFunctionName = (
+  packageId: string,
+  moduleName: string,
+  functionName: string
+): `${string}::${string}::${string}` => {
+  return `${packageId}::${moduleName}::${functionName}`
+}
+
+export const fullStructName = (
+  packageId: string,
+  moduleName: string,
+  structName: string
+): `${string}::${string}::${string}` => {
+  return `${packageId}::${moduleName}::${structName}`
+}
+
+/**
+ * Throw if the transaction was executed but aborted.
+ *
+ * @param response
+ */
+export const assertSuccess = (response: SuiTransactionBlockResponse) => {
+  const status = response.effects?.status
+
+  if (status?.status !== "success") {
+    throw new Error(
+      `Transaction ${response.digest} failed: ${status?.error || "unknown error"}`
+    )
+  }
+}
+
+/**
+ * Find the parsed JSON of the first event of the given type in a response.
+ *
+ * @param response
+ * @param eventType Fully qualified event struct name.
+ * @returns
+ */
+export const findEvent = <T>(
+  response: SuiTransactionBlockResponse,
+  eventType: string
+): T | null => {
+  const event = response.events?.find((e) => e.type === eventType)
+
+  return event == null ? null : (event.parsedJson as T)
+}
+
+/**
+ * Find the ID of the first object of the given type created by a transaction.
+ *
+ * @param response
+ * @param objectType Fully qualified struct name.
+ * @returns
+ */
+export const findCreatedObjectId = (
+  response: SuiTransactionBlockResponse,
+  objectType: string
+): string | null => {
+  const change = response.objectChanges?.find(
+    (c) => c.type === "created" && c.objectType === objectType
+  )
+
+  return change?.type === "created" ? change.objectId : null
+}
+
+/**
+ * Read the parsed Move fields of an object, checking its type on the way.
+ *
+ * @param client
+ * @param objectId
+ * @param objectType Fully qualified struct name the object must have.
+ * @returns
+ */
+export const getObjectFields = async <T>(
+  client: ServiceClient,
+  objectId: string,
+  objectType: string
+): Promise<T> => {
+  const response: SuiObjectResponse = await client.getObject({
+    id: objectId,
+    options: { showContent: true },
+  })
+  const content = response.data?.content
+
+  if (content == null || content.dataType !== "moveObject") {
+    throw new Error(`Object ${objectId} was not found`)
+  }
+
+  if (content.type !== objectType) {
+    throw new Error(
+      `Object ${objectId} is a ${content.type}, expected ${objectType}`
+    )
+  }
+
+  return content.fields as T
+}
@@ -0,0 +1,321 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client"
+import { Transaction } from "@mysten/sui/transactions"
+import {
+  AggregatedDataFields,
+  DataAggregatedEvent,
+  FeedRegisteredEvent,
+  ORACLE_MODULE,
+} from "./move-types"
+import {
+  InsuranceObjectIds,
+  assertSuccess,
+  findCreatedObjectId,
+  findEvent,
+  fullFunctionName,
+  fullStructName,
+  getObjectFields,
+  getServiceContext,
+} from "./service-context"
+
+/**
+ * Climate data types served by the Switchboard feeds registered in
+ * switchboard_oracle_integration. The value is the `data_type` string stored
+ * on chain, which policies use as their `peril_type`.
+ */
+export enum ClimateDataType {
+  RAINFALL = "rainfall",
+  TEMPERATURE = "temperature",
+  WIND_SPEED = "wind_speed",
+  HUMIDITY = "humidity",
+  SOIL_MOISTURE = "soil_moisture",
+  SEA_LEVEL = "sea_level",
+}
+
+export interface FeedParams {
+  /** Unique name of the feed in the registry. */
+  feedName: string
+  dataType: ClimateDataType
+  location: string
+  /** Free-form details, usually JSON. */
+  details: string
+  /** The Switchboard Aggregator object backing the feed. */
+  aggregatorId: string
+}
+
+/**
+ * An AggregatedData object with its fixed-point values scaled by
+ * `decimalPlaces`. The raw on-chain integers are kept for exact comparisons.
+ */
+export interface OracleReading {
+  id: string
+  location: string
+  dataType: string
+  value: number
+  decimalPlaces: number
+  /** Epoch in which the reading was taken. */
+  timestamp: number
+  minTimestamp: number
+  maxTimestamp: number
+  mean: number
+  /**
+   * Readings from aggregate_multiple_feeds store the variance here: the
+   * contract's `^ (1/2)` is an XOR with zero, not a square root.
+   */
+  stdev: number
+  minValue: number
+  maxValue: number
+  sourcesCount: number
+  raw: {
+    value: bigint
+    mean: bigint
+    stdev: bigint
+    minValue: bigint
+    maxValue: bigint
+  }
+}
+
+// === Transactions ===
+
+export const prepareRegisterFeedTransaction = (
+  ids: InsuranceObjectIds,
+  feed: FeedParams
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(ids.oracleFeedRegistryId),
+      tx.pure.string(feed.feedName),
+      tx.pure.string(feed.dataType),
+      tx.pure.string(feed.location),
+      tx.pure.string(feed.details),
+      tx.object(feed.aggregatorId),
+    ],
+    target: fullFunctionName(ids.packageId, ORACLE_MODULE, "register_feed"),
+  })
+
+  return tx
+}
+
+export const prepareReadAggregatorDataTransaction = (
+  ids: InsuranceObjectIds,
+  aggregatorId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(ids.oracleFeedRegistryId), tx.object(aggregatorId)],
+    target: fullFunctionName(
+      ids.packageId,
+      ORACLE_MODULE,
+      "read_aggregator_data"
+    ),
+  })
+
+  return tx
+}
+
+export const prepareAggregateMultipleFeedsTransaction = (
+  ids: InsuranceObjectIds,
+  aggregatorIds: string[],
+  location: string,
+  dataType: ClimateDataType
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(ids.oracleFeedRegistryId),
+      tx.makeMoveVec({ elements: aggregatorIds.map((id) => tx.object(id)) }),
+      tx.pure.string(location),
+      tx.pure.string(dataType),
+    ],
+    target: fullFunctionName(
+      ids.packageId,
+      ORACLE_MODULE,
+      "aggregate_multiple_feeds"
+    ),
+  })
+
+  return tx
+}
+
+// === Service API ===
+
+/**
+ * Register a Switchboard aggregator as the feed for a location and data type.
+ *
+ * @param feed
+ * @param sender
+ * @returns The ID of the registered aggregator.
+ */
+export const registerFeed = async (
+  feed: FeedParams,
+  sender: string
+): Promise<string> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareRegisterFeedTransaction(ids, feed),
+    sender
+  )
+  assertSuccess(response)
+
+  const event = findEvent<FeedRegisteredEvent>(
+    response,
+    fullStructName(ids.packageId, ORACLE_MODULE, "FeedRegistered")
+  )
+  if (event == null) {
+    throw new Error(`Transaction ${response.digest} emitted no FeedRegistered`)
+  }
+
+  return event.feed_id
+}
+
+/**
+ * Snapshot the current result of a registered aggregator into a new
+ * AggregatedData object.
+ *
+ * @param aggregatorId
+ * @param sender
+ * @returns
+ */
+export const readAggregatorData = async (
+  aggregatorId: string,
+  sender: string
+): Promise<OracleReading> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareReadAggregatorDataTransaction(ids, aggregatorId),
+    sender
+  )
+
+  return readingCreatedBy(response, ids.packageId)
+}
+
+/**
+ * Combine the results of several registered aggregators for the same location
+ * and data type into one AggregatedData object holding their median.
+ *
+ * @param aggregatorIds
+ * @param location
+ * @param dataType
+ * @param sender
+ * @returns
+ */
+export const aggregateMultipleFeeds = async (
+  aggregatorIds: string[],
+  location: string,
+  dataType: ClimateDataType,
+  sender: string
+): Promise<OracleReading> => {
+  const { execute, ...ids } = getServiceContext()
+
+  const response = await execute(
+    prepareAggregateMultipleFeedsTransaction(
+      ids,
+      aggregatorIds,
+      location,
+      dataType
+    ),
+    sender
+  )
+
+  return readingCreatedBy(response, ids.packageId)
+}
+
+export const getOracleReading = async (
+  aggregatedDataId: string
+): Promise<OracleReading> => {
+  const { client, packageId } = getServiceContext()
+
+  const fields = await getObjectFields<AggregatedDataFields>(
+    client,
+    aggregatedDataId,
+    fullStructName(packageId, ORACLE_MODULE, "AggregatedData")
+  )
+
+  return decodeAggregatedData(fields)
+}
+
+/**
+ * Find the most recent reading for a location and data type by walking the
+ * DataAggregated events backwards.
+ *
+ * @param location
+ * @param dataType
+ * @returns The reading, or null if none was ever taken.
+ */
+export const getLatestReading = async (
+  location: string,
+  dataType: string
+): Promise<OracleReading | null> => {
+  const { client, packageId } = getServiceContext()
+  let cursor = null
+
+  do {
+    const page = await client.queryEvents({
+      query: {
+        MoveEventType: fullStructName(packageId, ORACLE_MODULE, "DataAggregated"),
+      },
+      cursor,
+      order: "descending",
+    })
+    const match = page.data
+      .map((event) => event.parsedJson as DataAggregatedEvent)
+      .find((event) => event.location === location && event.data_type === dataType)
+
+    if (match != null) {
+      return getOracleReading(match.aggregation_id)
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null
+  } while (cursor != null)
+
+  return null
+}
+
+export const decodeAggregatedData = (
+  fields: AggregatedDataFields
+): OracleReading => {
+  const scale = (value: bigint) => Number(value) / 10 ** fields.decimal_places
+  const raw = {
+    value: BigInt(fields.value),
+    mean: BigInt(fields.mean),
+    stdev: BigInt(fields.stdev),
+    minValue: BigInt(fields.min_value),
+    maxValue: BigInt(fields.max_value),
+  }
+
+  return {
+    id: fields.id.id,
+    location: fields.location,
+    dataType: fields.data_type,
+    value: scale(raw.value),
+    decimalPlaces: fields.decimal_places,
+    timestamp: Number(fields.timestamp),
+    minTimestamp: Number(fields.min_timestamp),
+    maxTimestamp: Number(fields.max_timestamp),
+    mean: scale(raw.mean),
+    stdev: scale(raw.stdev),
+    minValue: scale(raw.minValue),
+    maxValue: scale(raw.maxValue),
+    sourcesCount: Number(fields.sources_count),
+    raw,
+  }
+}
+
+const readingCreatedBy = async (
+  response: SuiTransactionBlockResponse,
+  packageId: string
+): Promise<OracleReading> => {
+  assertSuccess(response)
+
+  const aggregatedDataId = findCreatedObjectId(
+    response,
+    fullStructName(packageId, ORACLE_MODULE, "AggregatedData")
+  )
+  if (aggregatedDataId == null) {
+    throw new Error(`Transaction ${response.digest} created no AggregatedData`)
+  }
+
+  return getOracleReading(aggregatedDataId)
+}
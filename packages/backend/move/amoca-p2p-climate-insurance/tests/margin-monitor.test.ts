@@ -0,0 +1,103 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import {
+  assessMargin,
+  checkMargins,
+  getRecentDrains,
+  listPolicyIds,
+} from "../services/margin-monitor-service"
+import {
+  createPolicy,
+  removeCollateral,
+  terminatePolicy,
+  type PolicyParams,
+} from "../services/policy-lifecycle-service"
+import { ClimateDataType } from "../services/switchboard-service-updated"
+
+const owner = normalizeSuiAddress("0x77")
+
+// The margin requirement of this policy is 1100.
+const policyParams: PolicyParams = {
+  location: "East Africa",
+  locationCoordinates: [-1.2921, 36.8219],
+  perilType: ClimateDataType.RAINFALL,
+  perilDetails: "{}",
+  coverageAmount: 10000,
+  triggerThreshold: 25,
+  triggerOperator: 0,
+  collateralAmount: 1300,
+}
+
+const policy = (collateralAmount: number) => ({
+  id: "0x1",
+  owner,
+  collateralAmount,
+  marginRequirement: 1100,
+})
+
+describe("assessMargin", () => {
+  test("is healthy without drains", () => {
+    expect(assessMargin(policy(1100), [])).toMatchObject({
+      status: "healthy",
+      excess: 0,
+      drainsToMargin: null,
+      suggestedTopUp: 0,
+    })
+  })
+
+  test("flags policies few drains away from the margin", () => {
+    expect(assessMargin(policy(1300), [100, 60])).toMatchObject({
+      status: "at_risk",
+      averageDrain: 80,
+      drainsToMargin: 2,
+      suggestedTopUp: 40,
+    })
+    expect(
+      assessMargin(policy(1300), [100, 60], { warningDrains: 2 }).status
+    ).toBe("healthy")
+  })
+
+  test("flags undercollateralized policies", () => {
+    expect(assessMargin(policy(1000), [50])).toMatchObject({
+      status: "undercollateralized",
+      excess: -100,
+      drainsToMargin: 0,
+      suggestedTopUp: 250,
+    })
+  })
+})
+
+describe("checkMargins", () => {
+  let policyId: string
+  let terminatedId: string
+
+  beforeAll(async () => {
+    policyId = await createPolicy(policyParams, owner)
+    terminatedId = await createPolicy(policyParams, owner)
+    await terminatePolicy(terminatedId, owner)
+  })
+
+  test("lists the owner's policies", async () => {
+    expect(await listPolicyIds(owner)).toEqual([policyId, terminatedId])
+  })
+
+  test("reports withdrawals as drains", async () => {
+    await removeCollateral(policyId, 120, owner)
+
+    expect((await getRecentDrains([policyId])).get(policyId)).toEqual([120])
+  })
+
+  test("assesses active policies only", async () => {
+    const [assessment, ...rest] = await checkMargins(owner)
+
+    expect(rest).toHaveLength(0)
+    // 80 above the margin is less than three more 120 withdrawals.
+    expect(assessment).toMatchObject({
+      policyId,
+      status: "at_risk",
+      collateralAmount: 1180,
+      excess: 80,
+      drainsToMargin: 0,
+      suggestedTopUp: 280,
+    })
+  })
+})
@@ -1,5 +1,6 @@
 // This is a test file for the policy lifecycle
 
+import { normalizeSuiAddress } from "@mysten/sui/utils"
 import {
   calculatePremium,
   createPolicy,
@@ -64,7 +65,7 @@ describe("Policy Lifecycle", () => {
     // Verify policy details
     expect(policyDetails).toBeDefined()
     expect(policyDetails.id).toBe(policyId)
-    expect(policyDetails.owner).toBe(walletAddress)
+    expect(policyDetails.owner).toBe(normalizeSuiAddress(walletAddress))
     expect(policyDetails.location).toBe(testPolicyParams.location)
     expect(policyDetails.perilType).toBe(testPolicyParams.perilType)
     expect(policyDetails.coverageAmount).toBe(testPolicyParams.coverageAmount)
@@ -95,7 +96,7 @@ describe("Policy Lifecycle", () => {
     // Verify claim processing
     expect(claimDetails).toBeDefined()
     expect(claimDetails.policyId).toBe(policyId)
-    expect(claimDetails.owner).toBe(walletAddress)
+    expect(claimDetails.owner).toBe(normalizeSuiAddress(walletAddress))
     expect(claimDetails.triggerValue).toBe(testPolicyParams.triggerThreshold)
     expect(typeof claimDetails.actualValue).toBe("number")
 
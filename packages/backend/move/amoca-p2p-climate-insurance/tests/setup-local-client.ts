@@ -0,0 +1,29 @@
+// Configures the insurance services against an in-memory chain so the suites
+// run without a Sui node.
+
+import { configureServices } from "../services/service-context"
+import { LocalSuiClient } from "../services/local-sui-client"
+import { ClimateDataType } from "../services/switchboard-service-updated"
+
+const client = new LocalSuiClient()
+
+const ids = client.publish({
+  // Keep the margin for the test policies below their collateral.
+  baseMarginRequirement: 400,
+  locationRisk: { "East Africa": 400 },
+  perilRisk: { [ClimateDataType.RAINFALL]: 300 },
+  locationFactors: { "East Africa": 120 },
+  perilFactors: { [ClimateDataType.RAINFALL]: 130 },
+  poolLiquidity: 1_000_000,
+})
+
+// 18.5 mm of rainfall, with 8 decimal places.
+client.recordOracleReading({
+  location: "East Africa",
+  dataType: ClimateDataType.RAINFALL,
+  value: 1_850_000_000,
+  decimalPlaces: 8,
+  sourcesCount: 3,
+})
+
+configureServices({ ...ids, client, execute: client.execute })
@@ -0,0 +1,127 @@
+// Tests for the Switchboard oracle service
+
+import { normalizeSuiAddress } from "@mysten/sui/utils"
+import { LocalSuiClient } from "../services/local-sui-client"
+import { getServiceContext } from "../services/service-context"
+import {
+  ClimateDataType,
+  aggregateMultipleFeeds,
+  getLatestReading,
+  getOracleReading,
+  readAggregatorData,
+  registerFeed,
+} from "../services/switchboard-service-updated"
+
+const operatorAddress = normalizeSuiAddress("0x0e1")
+const location = "Nairobi"
+
+const localClient = () => {
+  const { client } = getServiceContext()
+  if (!(client instanceof LocalSuiClient)) {
+    throw new Error("The oracle tests need the local client")
+  }
+
+  return client
+}
+
+describe("Switchboard oracle service", () => {
+  const aggregatorIds: string[] = []
+
+  beforeAll(() => {
+    const client = localClient()
+
+    // Three rain gauges, 8 decimal places: 12.5 mm, 14 mm and 20 mm.
+    for (const value of [1_250_000_000, 1_400_000_000, 2_000_000_000]) {
+      aggregatorIds.push(
+        client.createAggregator({
+          value,
+          decimalPlaces: 8,
+          minTimestampMs: 1000 + value / 1_000_000,
+          maxTimestampMs: 2000 + value / 1_000_000,
+          stdev: 10_000_000,
+        })
+      )
+    }
+  })
+
+  test("Register feeds", async () => {
+    for (const [i, aggregatorId] of aggregatorIds.entries()) {
+      const feedId = await registerFeed(
+        {
+          feedName: `nairobi-rainfall-${i}`,
+          dataType: ClimateDataType.RAINFALL,
+          location,
+          details: JSON.stringify({ unit: "mm" }),
+          aggregatorId,
+        },
+        operatorAddress
+      )
+
+      expect(feedId).toBe(aggregatorId)
+    }
+  })
+
+  test("Reject a duplicate feed name", async () => {
+    await expect(
+      registerFeed(
+        {
+          feedName: "nairobi-rainfall-0",
+          dataType: ClimateDataType.RAINFALL,
+          location,
+          details: "{}",
+          aggregatorId: aggregatorIds[0],
+        },
+        operatorAddress
+      )
+    ).rejects.toThrow(/MoveAbort/)
+  })
+
+  test("Read a single aggregator", async () => {
+    const reading = await readAggregatorData(aggregatorIds[0], operatorAddress)
+
+    expect(reading.location).toBe(location)
+    expect(reading.dataType).toBe(ClimateDataType.RAINFALL)
+    expect(reading.value).toBe(12.5)
+    expect(reading.raw.value).toBe(1_250_000_000n)
+    expect(reading.decimalPlaces).toBe(8)
+    expect(reading.stdev).toBe(0.1)
+    expect(reading.sourcesCount).toBe(1)
+  })
+
+  test("Aggregate multiple feeds", async () => {
+    const reading = await aggregateMultipleFeeds(
+      aggregatorIds,
+      location,
+      ClimateDataType.RAINFALL,
+      operatorAddress
+    )
+
+    expect(reading.value).toBe(14)
+    expect(reading.mean).toBeCloseTo(15.5)
+    expect(reading.minValue).toBe(12.5)
+    expect(reading.maxValue).toBe(20)
+    expect(reading.minTimestamp).toBe(2250)
+    expect(reading.maxTimestamp).toBe(4000)
+    expect(reading.sourcesCount).toBe(3)
+  })
+
+  test("Reject feeds of another data type", async () => {
+    await expect(
+      aggregateMultipleFeeds(
+        aggregatorIds,
+        location,
+        ClimateDataType.TEMPERATURE,
+        operatorAddress
+      )
+    ).rejects.toThrow(/MoveAbort/)
+  })
+
+  test("Find the latest reading", async () => {
+    const latest = await getLatestReading(location, ClimateDataType.RAINFALL)
+
+    expect(latest).not.toBeNull()
+    expect(latest!.sourcesCount).toBe(3)
+    expect(await getOracleReading(latest!.id)).toEqual(latest)
+    expect(await getLatestReading(location, ClimateDataType.HUMIDITY)).toBeNull()
+  })
+})
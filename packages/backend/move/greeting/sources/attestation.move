@@ -0,0 +1,236 @@
+// Copyright (c) AMOCA Team and other contributors
+// SPDX-License-Identifier: MIT
+
+/// Module: attestation
+///
+/// Organizations registered as issuers, such as employers and universities,
+/// attest experience and education entries of profiles.
+module greeting::attestation;
+
+use std::string::String;
+use sui::clock::Clock;
+use sui::event::emit;
+
+// === Constants ===
+
+const EntryExperience: u8 = 0;
+const EntryEducation: u8 = 1;
+
+const IssuerEmployer: u8 = 0;
+const IssuerUniversity: u8 = 1;
+const IssuerAuthority: u8 = 2;
+
+// === Errors ===
+
+const ENotIssuer: u64 = 0;
+const EInactiveIssuer: u64 = 1;
+const EInvalidEntryKind: u64 = 2;
+const EInvalidIssuerKind: u64 = 3;
+const ENotAttestationIssuer: u64 = 4;
+const EAlreadyRevoked: u64 = 5;
+const EEmptyEntry: u64 = 6;
+
+// === Structs ===
+
+/// Lets its holder register and deactivate issuers.
+public struct AdminCap has key, store {
+    id: UID,
+}
+
+/// An organization allowed to attest profile entries.
+public struct Issuer has store, copy, drop {
+    addr: address,
+    name: String,
+    kind: u8,
+    active: bool,
+}
+
+/// The issuers, shared so that anyone can check an attestation's issuer.
+public struct IssuerRegistry has key {
+    id: UID,
+    issuers: vector<Issuer>,
+}
+
+/// An issuer's statement that an entry of a profile is true. `entry` holds
+/// the BCS bytes of the entry as attested, so editing the entry voids it.
+/// `entry_index` is where the entry was when attested; removing an earlier
+/// entry shifts it, so verifiers look the entry up by its bytes.
+public struct Attestation has key {
+    id: UID,
+    issuer: address,
+    profile_id: ID,
+    subject: address,
+    entry_kind: u8,
+    entry_index: u64,
+    entry: vector<u8>,
+    issued_at: u64,
+    revoked: bool,
+}
+
+// === Events ===
+
+/// Emitted when an issuer is registered or reactivated.
+public struct IssuerRegistered has copy, drop {
+    issuer: address,
+    name: String,
+    kind: u8,
+}
+
+/// Emitted when an issuer is deactivated.
+public struct IssuerDeactivated has copy, drop {
+    issuer: address,
+}
+
+/// Emitted when an entry is attested.
+public struct AttestationIssued has copy, drop {
+    attestation_id: ID,
+    issuer: address,
+    profile_id: ID,
+    entry_kind: u8,
+    entry_index: u64,
+}
+
+/// Emitted when the issuer revokes an attestation.
+public struct AttestationRevoked has copy, drop {
+    attestation_id: ID,
+    issuer: address,
+}
+
+// === Initializer ===
+
+fun init(ctx: &mut TxContext) {
+    transfer::share_object(IssuerRegistry {
+        id: object::new(ctx),
+        issuers: vector[],
+    });
+
+    transfer::public_transfer(AdminCap { id: object::new(ctx) }, ctx.sender());
+}
+
+// === Public Functions ===
+
+/// Register an issuer, or update and reactivate a registered one.
+public fun register_issuer(
+    _: &AdminCap,
+    registry: &mut IssuerRegistry,
+    addr: address,
+    name: String,
+    kind: u8,
+) {
+    assert!(
+        kind == IssuerEmployer || kind == IssuerUniversity || kind == IssuerAuthority,
+        EInvalidIssuerKind,
+    );
+
+    let (found, i) = find_issuer(registry, addr);
+    if (found) {
+        let issuer = &mut registry.issuers[i];
+        issuer.name = name;
+        issuer.kind = kind;
+        issuer.active = true;
+    } else {
+        registry.issuers.push_back(Issuer { addr, name, kind, active: true });
+    };
+
+    emit(IssuerRegistered { issuer: addr, name, kind });
+}
+
+/// Deactivate an issuer. Verifiers stop trusting its attestations.
+public fun deactivate_issuer(_: &AdminCap, registry: &mut IssuerRegistry, addr: address) {
+    let (found, i) = find_issuer(registry, addr);
+    assert!(found, ENotIssuer);
+
+    registry.issuers[i].active = false;
+
+    emit(IssuerDeactivated { issuer: addr });
+}
+
+/// Attest an entry of a profile as the sender, who must be an active issuer.
+/// The owner of a profile cannot be asked to sign, so `entry` is checked
+/// against the profile by verifiers rather than here.
+public fun attest(
+    registry: &IssuerRegistry,
+    profile_id: ID,
+    subject: address,
+    entry_kind: u8,
+    entry_index: u64,
+    entry: vector<u8>,
+    clock: &Clock,
+    ctx: &mut TxContext,
+) {
+    let (found, i) = find_issuer(registry, ctx.sender());
+    assert!(found, ENotIssuer);
+    assert!(registry.issuers[i].active, EInactiveIssuer);
+    assert!(entry_kind == EntryExperience || entry_kind == EntryEducation, EInvalidEntryKind);
+    assert!(!entry.is_empty(), EEmptyEntry);
+
+    let attestation = Attestation {
+        id: object::new(ctx),
+        issuer: ctx.sender(),
+        profile_id,
+        subject,
+        entry_kind,
+        entry_index,
+        entry,
+        issued_at: clock.timestamp_ms(),
+        revoked: false,
+    };
+
+    emit(AttestationIssued {
+        attestation_id: object::id(&attestation),
+        issuer: ctx.sender(),
+        profile_id,
+        entry_kind,
+        entry_index,
+    });
+
+    transfer::share_object(attestation);
+}
+
+/// Revoke an attestation. Only its issuer can.
+public fun revoke(attestation: &mut Attestation, ctx: &TxContext) {
+    assert!(attestation.issuer == ctx.sender(), ENotAttestationIssuer);
+    assert!(!attestation.revoked, EAlreadyRevoked);
+
+    attestation.revoked = true;
+
+    emit(AttestationRevoked {
+        attestation_id: object::id(attestation),
+        issuer: attestation.issuer,
+    });
+}
+
+// === View Functions ===
+
+/// Whether the address is a registered issuer that has not been deactivated.
+public fun is_active_issuer(registry: &IssuerRegistry, addr: address): bool {
+    let (found, i) = find_issuer(registry, addr);
+    found && registry.issuers[i].active
+}
+
+public fun is_revoked(attestation: &Attestation): bool {
+    attestation.revoked
+}
+
+// === Private Functions ===
+
+fun find_issuer(registry: &IssuerRegistry, addr: address): (bool, u64) {
+    let mut i = 0;
+    let len = registry.issuers.length();
+
+    while (i < len) {
+        if (registry.issuers[i].addr == addr) {
+            return (true, i)
+        };
+        i = i + 1;
+    };
+
+    (false, 0)
+}
+
+// === Test Functions ===
+
+#[test_only]
+public fun init_for_testing(ctx: &mut TxContext) {
+    init(ctx);
+}
@@ -0,0 +1,177 @@
+// Copyright (c) AMOCA Team and other contributors
+// SPDX-License-Identifier: MIT
+
+/// Module: badge
+///
+/// Soulbound achievement badges. The holder of the MinterCap awards them to
+/// wallets that reach a milestone, as decided by the app's badge rules.
+module greeting::badge;
+
+use std::string::{utf8, String};
+use sui::clock::Clock;
+use sui::display;
+use sui::event::emit;
+use sui::package;
+use sui::table::{Self, Table};
+
+// === Errors ===
+
+const EAlreadyAwarded: u64 = 0;
+const EEmptyKind: u64 = 1;
+
+// === Structs ===
+
+/// Lets its holder mint badges.
+public struct MinterCap has key, store {
+    id: UID,
+}
+
+/// An achievement. Without `store` only this module can transfer it, so it
+/// stays with the wallet it was awarded to.
+public struct Badge has key {
+    id: UID,
+    /// The rule the badge was awarded under, e.g. "first_policy".
+    kind: String,
+    name: String,
+    description: String,
+    image_url: String,
+    recipient: address,
+    awarded_at: u64,
+}
+
+/// The kinds of badges each wallet holds, so that none is minted twice.
+public struct BadgeRegistry has key {
+    id: UID,
+    awarded: Table<address, vector<String>>,
+}
+
+/// One-Time-Witness for the module.
+public struct BADGE has drop {}
+
+// === Events ===
+
+/// Emitted when a badge is awarded.
+public struct BadgeMinted has copy, drop {
+    badge_id: ID,
+    recipient: address,
+    kind: String,
+}
+
+/// Emitted when the holder burns a badge.
+public struct BadgeBurned has copy, drop {
+    badge_id: ID,
+    recipient: address,
+    kind: String,
+}
+
+// === Initializer ===
+
+/// Creates the `Display` of badges, so that wallets and explorers show their
+/// name and image, and shares the registry.
+fun init(otw: BADGE, ctx: &mut TxContext) {
+    let keys = vector[
+        utf8(b"name"),
+        utf8(b"image_url"),
+        utf8(b"description"),
+        utf8(b"project_url"),
+        utf8(b"creator"),
+    ];
+
+    let values = vector[
+        utf8(b"{name}"),
+        utf8(b"{image_url}"),
+        utf8(b"{description}"),
+        utf8(b"https://amoca.network"),
+        utf8(b"AMOCA Team"),
+    ];
+
+    let publisher = package::claim(otw, ctx);
+    let mut display = display::new_with_fields<Badge>(&publisher, keys, values, ctx);
+    display::update_version(&mut display);
+
+    transfer::share_object(BadgeRegistry {
+        id: object::new(ctx),
+        awarded: table::new(ctx),
+    });
+
+    transfer::public_transfer(publisher, ctx.sender());
+    transfer::public_transfer(display, ctx.sender());
+    transfer::public_transfer(MinterCap { id: object::new(ctx) }, ctx.sender());
+}
+
+// === Public Functions ===
+
+/// Award a badge of a kind the recipient does not hold yet.
+public fun mint(
+    _: &MinterCap,
+    registry: &mut BadgeRegistry,
+    recipient: address,
+    kind: String,
+    name: String,
+    description: String,
+    image_url: String,
+    clock: &Clock,
+    ctx: &mut TxContext,
+) {
+    assert!(!kind.is_empty(), EEmptyKind);
+    assert!(!has_badge(registry, recipient, kind), EAlreadyAwarded);
+
+    if (!registry.awarded.contains(recipient)) {
+        registry.awarded.add(recipient, vector[]);
+    };
+    registry.awarded.borrow_mut(recipient).push_back(kind);
+
+    let badge = Badge {
+        id: object::new(ctx),
+        kind,
+        name,
+        description,
+        image_url,
+        recipient,
+        awarded_at: clock.timestamp_ms(),
+    };
+
+    emit(BadgeMinted {
+        badge_id: object::id(&badge),
+        recipient,
+        kind,
+    });
+
+    transfer::transfer(badge, recipient);
+}
+
+/// Burn a badge. Only its holder can, and may be awarded the kind again.
+public fun burn(registry: &mut BadgeRegistry, badge: Badge) {
+    let Badge { id, kind, recipient, .. } = badge;
+
+    let kinds = registry.awarded.borrow_mut(recipient);
+    let (found, i) = kinds.index_of(&kind);
+    if (found) {
+        kinds.remove(i);
+    };
+
+    emit(BadgeBurned {
+        badge_id: id.to_inner(),
+        recipient,
+        kind,
+    });
+
+    id.delete();
+}
+
+// === View Functions ===
+
+public fun has_badge(registry: &BadgeRegistry, addr: address, kind: String): bool {
+    registry.awarded.contains(addr) && registry.awarded.borrow(addr).contains(&kind)
+}
+
+public fun kind(badge: &Badge): String {
+    badge.kind
+}
+
+// === Test Functions ===
+
+#[test_only]
+public fun init_for_testing(ctx: &mut TxContext) {
+    init(BADGE {}, ctx);
+}
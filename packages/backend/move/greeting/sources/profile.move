@@ -7,7 +7,7 @@ module greeting::profile {
     use sui::event::emit;
     use sui::package;
     use sui::object::{Self, ID, UID};
-    use sui::transfer;
+    use sui::transfer::{Self, Receiving};
     use sui::tx_context::{Self, TxContext};
     use std::vector;
 
@@ -16,6 +16,12 @@ module greeting::profile {
     const EInvalidEducation: u64 = 1;
     const EInvalidSkill: u64 = 2;
     const EEmptyName: u64 = 3;
+    const ESelfEndorsement: u64 = 4;
+    const EDuplicateEndorsement: u64 = 5;
+    const ESkillNotFound: u64 = 6;
+    const EInvalidIndex: u64 = 7;
+    const ESelfConnection: u64 = 8;
+    const EConnectionNotFound: u64 = 9;
 
     // === Structs ===
     /// Represents a professional experience entry
@@ -39,7 +45,8 @@ module greeting::profile {
     /// Represents a skill with endorsements
     public struct Skill has store, drop, copy {
         name: String,
-        endorsements: u64
+        endorsements: u64,
+        endorsers: vector<address>
     }
 
     /// Main Profile object representing a user's career profile
@@ -49,7 +56,7 @@ module greeting::profile {
         name: String,
         headline: String,
         bio: String,
-        profile_image_url: String,
+        profile_image_url: String, // Shown by wallets as the Display image_url
         location: String,
         contact_email: String,
         experiences: vector<Experience>,
@@ -58,6 +65,33 @@ module greeting::profile {
         connections: vector<address>
     }
 
+    /// An endorsement of a profile's skill. Only the owner can change a profile,
+    /// so it is sent to the profile object and counts once the owner accepts it.
+    public struct Endorsement has key {
+        id: UID,
+        profile_id: ID,
+        skill_name: String,
+        endorser: address
+    }
+
+    /// A request to connect, sent to the requested profile. Connections are
+    /// mutual, so both owners must change their profiles.
+    public struct ConnectionRequest has key {
+        id: UID,
+        from_profile_id: ID,
+        from: address,
+        to_profile_id: ID
+    }
+
+    /// Sent to a profile when a peer accepts or removes a connection, so that
+    /// its owner can apply the change to their side
+    public struct ConnectionUpdate has key {
+        id: UID,
+        profile_id: ID,
+        peer: address,
+        connected: bool
+    }
+
     /// One-Time-Witness for the module
     public struct PROFILE has drop {}
 
@@ -94,12 +128,100 @@ module greeting::profile {
         skill_name: String
     }
 
+    /// Emitted when an experience is replaced
+    public struct ExperienceUpdated has copy, drop {
+        profile_id: ID,
+        index: u64,
+        company: String,
+        title: String,
+        start_date: String,
+        end_date: String,
+        description: String
+    }
+
+    /// Emitted when an experience is removed
+    public struct ExperienceRemoved has copy, drop {
+        profile_id: ID,
+        index: u64
+    }
+
+    /// Emitted when an education is replaced
+    public struct EducationUpdated has copy, drop {
+        profile_id: ID,
+        index: u64,
+        institution: String,
+        degree: String,
+        field: String,
+        start_date: String,
+        end_date: String
+    }
+
+    /// Emitted when an education is removed
+    public struct EducationRemoved has copy, drop {
+        profile_id: ID,
+        index: u64
+    }
+
+    /// Emitted when a skill is renamed
+    public struct SkillUpdated has copy, drop {
+        profile_id: ID,
+        index: u64,
+        skill_name: String
+    }
+
+    /// Emitted when a skill is removed
+    public struct SkillRemoved has copy, drop {
+        profile_id: ID,
+        index: u64
+    }
+
+    /// Emitted when a skill endorsement is sent to a profile
+    public struct SkillEndorsed has copy, drop {
+        endorsement_id: ID,
+        profile_id: ID,
+        skill_name: String,
+        endorser: address
+    }
+
+    /// Emitted when the owner accepts an endorsement
+    public struct EndorsementAccepted has copy, drop {
+        profile_id: ID,
+        skill_name: String,
+        endorser: address
+    }
+
     /// Emitted when a connection is added
     public struct ConnectionAdded has copy, drop {
         profile_id: ID,
         connection_address: address
     }
 
+    /// Emitted when a connection request is sent to a profile
+    public struct ConnectionRequested has copy, drop {
+        request_id: ID,
+        from_profile_id: ID,
+        from: address,
+        to_profile_id: ID
+    }
+
+    /// Emitted when the owner accepts a connection request
+    public struct ConnectionAccepted has copy, drop {
+        profile_id: ID,
+        peer: address
+    }
+
+    /// Emitted when the owner rejects a connection request
+    public struct ConnectionRejected has copy, drop {
+        profile_id: ID,
+        from: address
+    }
+
+    /// Emitted when a connection is removed
+    public struct ConnectionRemoved has copy, drop {
+        profile_id: ID,
+        connection_address: address
+    }
+
     // === Initializer ===
     fun init(otw: PROFILE, ctx: &mut TxContext) {
         let keys = vector[
@@ -147,6 +269,30 @@ module greeting::profile {
         contact_email: String,
         ctx: &mut TxContext
     ) {
+        let profile = new_profile(
+            name,
+            headline,
+            bio,
+            profile_image_url,
+            location,
+            contact_email,
+            ctx
+        );
+
+        transfer_to_owner(profile);
+    }
+
+    /// Create a new profile without transferring it, so that a programmable
+    /// transaction can add entries to it before calling `transfer_to_owner`
+    public fun new_profile(
+        name: String,
+        headline: String,
+        bio: String,
+        profile_image_url: String,
+        location: String,
+        contact_email: String,
+        ctx: &mut TxContext
+    ): Profile {
         assert!(name != b"".to_string(), EEmptyName);
         
         let profile = Profile {
@@ -169,7 +315,13 @@ module greeting::profile {
             owner: tx_context::sender(ctx)
         });
         
-        transfer::transfer(profile, tx_context::sender(ctx));
+        profile
+    }
+
+    /// Transfer a profile created with `new_profile` to its owner
+    public fun transfer_to_owner(profile: Profile) {
+        let owner = profile.owner;
+        transfer::transfer(profile, owner);
     }
 
     // === Profile Update Functions ===
@@ -271,7 +423,8 @@ module greeting::profile {
         
         let skill = Skill {
             name: skill_name,
-            endorsements: 0
+            endorsements: 0,
+            endorsers: vector::empty<address>()
         };
         
         vector::push_back(&mut profile.skills, skill);
@@ -282,36 +435,369 @@ module greeting::profile {
         });
     }
 
-    /// Add a connection
-    public entry fun add_connection(
+    /// Replace the experience at an index
+    public entry fun update_experience(
         profile: &mut Profile,
-        connection_address: address,
+        index: u64,
+        company: String,
+        title: String,
+        start_date: String,
+        end_date: String,
+        description: String,
         ctx: &mut TxContext
     ) {
         assert!(tx_context::sender(ctx) == profile.owner, 0);
-        assert!(connection_address != profile.owner, 0); // Can't connect to self
-        
-        // Check if connection already exists
-        let i = 0;
-        let len = vector::length(&profile.connections);
-        let mut exists = false;
-        
+        assert!(index < vector::length(&profile.experiences), EInvalidIndex);
+        assert!(company != b"".to_string() && title != b"".to_string(), EInvalidExperience);
+
+        *vector::borrow_mut(&mut profile.experiences, index) = Experience {
+            company,
+            title,
+            start_date,
+            end_date,
+            description
+        };
+
+        emit(ExperienceUpdated {
+            profile_id: object::id(profile),
+            index,
+            company,
+            title,
+            start_date,
+            end_date,
+            description
+        });
+    }
+
+    /// Remove the experience at an index, keeping the order of the others
+    public entry fun remove_experience(
+        profile: &mut Profile,
+        index: u64,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(index < vector::length(&profile.experiences), EInvalidIndex);
+
+        vector::remove(&mut profile.experiences, index);
+
+        emit(ExperienceRemoved {
+            profile_id: object::id(profile),
+            index
+        });
+    }
+
+    /// Replace the education entry at an index
+    public entry fun update_education(
+        profile: &mut Profile,
+        index: u64,
+        institution: String,
+        degree: String,
+        field: String,
+        start_date: String,
+        end_date: String,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(index < vector::length(&profile.education), EInvalidIndex);
+        assert!(institution != b"".to_string() && degree != b"".to_string(), EInvalidEducation);
+
+        *vector::borrow_mut(&mut profile.education, index) = Education {
+            institution,
+            degree,
+            field,
+            start_date,
+            end_date
+        };
+
+        emit(EducationUpdated {
+            profile_id: object::id(profile),
+            index,
+            institution,
+            degree,
+            field,
+            start_date,
+            end_date
+        });
+    }
+
+    /// Remove the education entry at an index, keeping the order of the others
+    public entry fun remove_education(
+        profile: &mut Profile,
+        index: u64,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(index < vector::length(&profile.education), EInvalidIndex);
+
+        vector::remove(&mut profile.education, index);
+
+        emit(EducationRemoved {
+            profile_id: object::id(profile),
+            index
+        });
+    }
+
+    /// Rename the skill at an index. Its endorsements were given to the old
+    /// name, so they are cleared.
+    public entry fun update_skill(
+        profile: &mut Profile,
+        index: u64,
+        skill_name: String,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(index < vector::length(&profile.skills), EInvalidIndex);
+        assert!(skill_name != b"".to_string(), EInvalidSkill);
+
+        *vector::borrow_mut(&mut profile.skills, index) = Skill {
+            name: skill_name,
+            endorsements: 0,
+            endorsers: vector::empty<address>()
+        };
+
+        emit(SkillUpdated {
+            profile_id: object::id(profile),
+            index,
+            skill_name
+        });
+    }
+
+    /// Remove the skill at an index, keeping the order of the others
+    public entry fun remove_skill(
+        profile: &mut Profile,
+        index: u64,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(index < vector::length(&profile.skills), EInvalidIndex);
+
+        vector::remove(&mut profile.skills, index);
+
+        emit(SkillRemoved {
+            profile_id: object::id(profile),
+            index
+        });
+    }
+
+    // === Connection Functions ===
+    /// Ask the owner of another profile to connect
+    public entry fun request_connection(
+        profile: &Profile,
+        to_profile_id: ID,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(to_profile_id != object::id(profile), ESelfConnection);
+
+        let request = ConnectionRequest {
+            id: object::new(ctx),
+            from_profile_id: object::id(profile),
+            from: profile.owner,
+            to_profile_id
+        };
+
+        emit(ConnectionRequested {
+            request_id: object::id(&request),
+            from_profile_id: object::id(profile),
+            from: profile.owner,
+            to_profile_id
+        });
+
+        transfer::transfer(request, to_profile_id.to_address());
+    }
+
+    /// Accept a connection request sent to the profile. The requester's
+    /// profile gets a ConnectionUpdate to add this profile's owner.
+    public entry fun accept_connection(
+        profile: &mut Profile,
+        request: Receiving<ConnectionRequest>,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+
+        let ConnectionRequest { id, from_profile_id, from, to_profile_id: _ } =
+            transfer::receive(&mut profile.id, request);
+        object::delete(id);
+
+        assert!(from != profile.owner, ESelfConnection);
+
+        add_peer(profile, from);
+
+        emit(ConnectionAccepted {
+            profile_id: object::id(profile),
+            peer: from
+        });
+
+        send_update(from_profile_id, profile.owner, true, ctx);
+    }
+
+    /// Delete a connection request sent to the profile
+    public entry fun reject_connection(
+        profile: &mut Profile,
+        request: Receiving<ConnectionRequest>,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+
+        let ConnectionRequest { id, from_profile_id: _, from, to_profile_id: _ } =
+            transfer::receive(&mut profile.id, request);
+        object::delete(id);
+
+        emit(ConnectionRejected {
+            profile_id: object::id(profile),
+            from
+        });
+    }
+
+    /// Remove a connection. The peer's profile gets a ConnectionUpdate to
+    /// remove this profile's owner.
+    public entry fun remove_connection(
+        profile: &mut Profile,
+        peer_profile_id: ID,
+        peer: address,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+        assert!(remove_peer(profile, peer), EConnectionNotFound);
+
+        send_update(peer_profile_id, profile.owner, false, ctx);
+    }
+
+    /// Apply a connection accepted or removed by a peer
+    public entry fun apply_connection_update(
+        profile: &mut Profile,
+        update: Receiving<ConnectionUpdate>,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+
+        let ConnectionUpdate { id, profile_id: _, peer, connected } =
+            transfer::receive(&mut profile.id, update);
+        object::delete(id);
+
+        if (connected) {
+            add_peer(profile, peer);
+        } else {
+            remove_peer(profile, peer);
+        }
+    }
+
+    fun add_peer(profile: &mut Profile, peer: address) {
+        if (vector::contains(&profile.connections, &peer)) return;
+
+        vector::push_back(&mut profile.connections, peer);
+
+        emit(ConnectionAdded {
+            profile_id: object::id(profile),
+            connection_address: peer
+        });
+    }
+
+    fun remove_peer(profile: &mut Profile, peer: address): bool {
+        let (exists, i) = vector::index_of(&profile.connections, &peer);
+        if (!exists) return false;
+
+        vector::remove(&mut profile.connections, i);
+
+        emit(ConnectionRemoved {
+            profile_id: object::id(profile),
+            connection_address: peer
+        });
+
+        true
+    }
+
+    fun send_update(profile_id: ID, peer: address, connected: bool, ctx: &mut TxContext) {
+        let update = ConnectionUpdate {
+            id: object::new(ctx),
+            profile_id,
+            peer,
+            connected
+        };
+
+        transfer::transfer(update, profile_id.to_address());
+    }
+
+    // === Endorsement Functions ===
+    /// Endorse a skill of another profile. The endorsement is sent to the profile
+    /// and can be checked against it only when the owner accepts it.
+    public entry fun endorse_skill(
+        profile_id: ID,
+        skill_name: String,
+        ctx: &mut TxContext
+    ) {
+        assert!(skill_name != b"".to_string(), EInvalidSkill);
+
+        let endorsement = Endorsement {
+            id: object::new(ctx),
+            profile_id,
+            skill_name,
+            endorser: tx_context::sender(ctx)
+        };
+
+        emit(SkillEndorsed {
+            endorsement_id: object::id(&endorsement),
+            profile_id,
+            skill_name,
+            endorser: tx_context::sender(ctx)
+        });
+
+        transfer::transfer(endorsement, profile_id.to_address());
+    }
+
+    /// Accept an endorsement sent to the profile. Rejects endorsements of the
+    /// owner's own skills and repeated endorsements of a skill by one address.
+    public entry fun accept_endorsement(
+        profile: &mut Profile,
+        endorsement: Receiving<Endorsement>,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+
+        let Endorsement { id, profile_id: _, skill_name, endorser } =
+            transfer::receive(&mut profile.id, endorsement);
+        object::delete(id);
+
+        assert!(endorser != profile.owner, ESelfEndorsement);
+
+        let skill = find_skill_mut(profile, &skill_name);
+        assert!(!vector::contains(&skill.endorsers, &endorser), EDuplicateEndorsement);
+
+        vector::push_back(&mut skill.endorsers, endorser);
+        skill.endorsements = skill.endorsements + 1;
+
+        emit(EndorsementAccepted {
+            profile_id: object::id(profile),
+            skill_name,
+            endorser
+        });
+    }
+
+    /// Delete an endorsement sent to the profile without counting it
+    public entry fun decline_endorsement(
+        profile: &mut Profile,
+        endorsement: Receiving<Endorsement>,
+        ctx: &mut TxContext
+    ) {
+        assert!(tx_context::sender(ctx) == profile.owner, 0);
+
+        let Endorsement { id, profile_id: _, skill_name: _, endorser: _ } =
+            transfer::receive(&mut profile.id, endorsement);
+        object::delete(id);
+    }
+
+    fun find_skill_mut(profile: &mut Profile, skill_name: &String): &mut Skill {
+        let mut i = 0;
+        let len = vector::length(&profile.skills);
+
         while (i < len) {
-            if (vector::borrow(&profile.connections, i) == &connection_address) {
-                exists = true;
-                break
+            if (&vector::borrow(&profile.skills, i).name == skill_name) {
+                return vector::borrow_mut(&mut profile.skills, i)
             };
             i = i + 1;
         };
-        
-        if (!exists) {
-            vector::push_back(&mut profile.connections, connection_address);
-            
-            emit(ConnectionAdded {
-                profile_id: object::id(profile),
-                connection_address
-            });
-        }
+
+        abort ESkillNotFound
     }
 
     // === Public View Functions ===
@@ -360,6 +846,27 @@ module greeting::profile {
         vector::length(&profile.connections)
     }
 
+    /// Whether the profile is connected to an address
+    public fun is_connected(profile: &Profile, peer: address): bool {
+        vector::contains(&profile.connections, &peer)
+    }
+
+    /// Get the endorsement count of a skill
+    public fun skill_endorsements(profile: &Profile, skill_name: String): u64 {
+        let mut i = 0;
+        let len = vector::length(&profile.skills);
+
+        while (i < len) {
+            let skill = vector::borrow(&profile.skills, i);
+            if (skill.name == skill_name) {
+                return skill.endorsements
+            };
+            i = i + 1;
+        };
+
+        abort ESkillNotFound
+    }
+
     // === Test Functions ===
     #[test_only]
     /// Initialize for testing
@@ -0,0 +1,104 @@
+// Copyright (c) AMOCA Team and other contributors
+// SPDX-License-Identifier: MIT
+
+#[test_only]
+module greeting::attestation_tests;
+
+use greeting::attestation::{Self, AdminCap, Attestation, IssuerRegistry};
+use sui::clock;
+use sui::test_scenario as ts;
+
+const ADMIN: address = @0xA;
+const EMPLOYER: address = @0xE;
+const OWNER: address = @0xB;
+
+/// Initializes the module and registers EMPLOYER.
+fun setup(ts: &mut ts::Scenario) {
+    attestation::init_for_testing(ts.ctx());
+
+    ts.next_tx(ADMIN);
+    let cap: AdminCap = ts.take_from_sender();
+    let mut registry: IssuerRegistry = ts.take_shared();
+    attestation::register_issuer(&cap, &mut registry, EMPLOYER, b"Co-op".to_string(), 0);
+    ts::return_shared(registry);
+    ts.return_to_sender(cap);
+}
+
+/// Attests the first experience of a profile as the sender.
+fun attest(ts: &mut ts::Scenario, sender: address) {
+    ts.next_tx(sender);
+    let registry: IssuerRegistry = ts.take_shared();
+    let clock = clock::create_for_testing(ts.ctx());
+    attestation::attest(
+        &registry,
+        object::id_from_address(@0xF),
+        OWNER,
+        0,
+        0,
+        b"entry",
+        &clock,
+        ts.ctx(),
+    );
+    clock.destroy_for_testing();
+    ts::return_shared(registry);
+}
+
+#[test]
+fun test_attest_and_revoke() {
+    let mut ts = ts::begin(ADMIN);
+    setup(&mut ts);
+    attest(&mut ts, EMPLOYER);
+
+    ts.next_tx(EMPLOYER);
+    let mut a: Attestation = ts.take_shared();
+    assert!(!attestation::is_revoked(&a), 0);
+    attestation::revoke(&mut a, ts.ctx());
+    assert!(attestation::is_revoked(&a), 0);
+    ts::return_shared(a);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::attestation::ENotIssuer)]
+fun test_unregistered_issuer() {
+    let mut ts = ts::begin(ADMIN);
+    setup(&mut ts);
+    attest(&mut ts, OWNER);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::attestation::EInactiveIssuer)]
+fun test_deactivated_issuer() {
+    let mut ts = ts::begin(ADMIN);
+    setup(&mut ts);
+
+    ts.next_tx(ADMIN);
+    let cap: AdminCap = ts.take_from_sender();
+    let mut registry: IssuerRegistry = ts.take_shared();
+    attestation::deactivate_issuer(&cap, &mut registry, EMPLOYER);
+    assert!(!attestation::is_active_issuer(&registry, EMPLOYER), 0);
+    ts::return_shared(registry);
+    ts.return_to_sender(cap);
+
+    attest(&mut ts, EMPLOYER);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::attestation::ENotAttestationIssuer)]
+fun test_revoke_by_other() {
+    let mut ts = ts::begin(ADMIN);
+    setup(&mut ts);
+    attest(&mut ts, EMPLOYER);
+
+    ts.next_tx(OWNER);
+    let mut a: Attestation = ts.take_shared();
+    attestation::revoke(&mut a, ts.ctx());
+    ts::return_shared(a);
+
+    ts.end();
+}
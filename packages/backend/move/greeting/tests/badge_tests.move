@@ -0,0 +1,76 @@
+// Copyright (c) AMOCA Team and other contributors
+// SPDX-License-Identifier: MIT
+
+#[test_only]
+module greeting::badge_tests;
+
+use greeting::badge::{Self, Badge, BadgeRegistry, MinterCap};
+use sui::clock;
+use sui::test_scenario as ts;
+
+const ADMIN: address = @0xA;
+const HOLDER: address = @0xB;
+
+/// Mints a badge of the kind to HOLDER as ADMIN.
+fun mint(ts: &mut ts::Scenario, kind: vector<u8>) {
+    ts.next_tx(ADMIN);
+    let cap: MinterCap = ts.take_from_sender();
+    let mut registry: BadgeRegistry = ts.take_shared();
+    let clock = clock::create_for_testing(ts.ctx());
+    badge::mint(
+        &cap,
+        &mut registry,
+        HOLDER,
+        kind.to_string(),
+        b"First policy".to_string(),
+        b"Took out a first climate insurance policy".to_string(),
+        b"https://amoca.network/badges/first_policy.svg".to_string(),
+        &clock,
+        ts.ctx(),
+    );
+    clock.destroy_for_testing();
+    ts::return_shared(registry);
+    ts.return_to_sender(cap);
+}
+
+#[test]
+fun test_mint_and_burn() {
+    let mut ts = ts::begin(ADMIN);
+    badge::init_for_testing(ts.ctx());
+    mint(&mut ts, b"first_policy");
+
+    ts.next_tx(HOLDER);
+    let b: Badge = ts.take_from_sender();
+    assert!(badge::kind(&b) == b"first_policy".to_string(), 0);
+    let mut registry: BadgeRegistry = ts.take_shared();
+    assert!(badge::has_badge(&registry, HOLDER, b"first_policy".to_string()), 0);
+    badge::burn(&mut registry, b);
+    assert!(!badge::has_badge(&registry, HOLDER, b"first_policy".to_string()), 0);
+    ts::return_shared(registry);
+
+    // A burnt kind can be awarded again.
+    mint(&mut ts, b"first_policy");
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::badge::EAlreadyAwarded)]
+fun test_mint_twice() {
+    let mut ts = ts::begin(ADMIN);
+    badge::init_for_testing(ts.ctx());
+    mint(&mut ts, b"first_policy");
+    mint(&mut ts, b"first_policy");
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::badge::EEmptyKind)]
+fun test_mint_without_kind() {
+    let mut ts = ts::begin(ADMIN);
+    badge::init_for_testing(ts.ctx());
+    mint(&mut ts, b"");
+
+    ts.end();
+}
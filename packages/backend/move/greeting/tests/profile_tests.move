@@ -0,0 +1,311 @@
+// Copyright (c) AMOCA Team and other contributors
+// SPDX-License-Identifier: MIT
+
+#[test_only]
+module greeting::profile_tests;
+
+use greeting::profile::{Self, ConnectionRequest, ConnectionUpdate, Endorsement, Profile};
+use sui::test_scenario as ts;
+
+const OWNER: address = @0xA;
+const ENDORSER: address = @0xB;
+
+/// Creates a profile with a "Move" skill for OWNER and returns its ID.
+fun create_profile_with_skill(ts: &mut ts::Scenario): ID {
+    ts.next_tx(OWNER);
+    profile::create_profile(
+        b"Owner".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        ts.ctx(),
+    );
+
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::add_skill(&mut p, b"Move".to_string(), ts.ctx());
+    let id = object::id(&p);
+    ts.return_to_sender(p);
+
+    id
+}
+
+/// Sends an endorsement of the "Move" skill from the sender.
+fun endorse(ts: &mut ts::Scenario, sender: address, profile_id: ID) {
+    ts.next_tx(sender);
+    profile::endorse_skill(profile_id, b"Move".to_string(), ts.ctx());
+}
+
+/// Accepts the latest endorsement sent to the profile as OWNER.
+fun accept_latest(ts: &mut ts::Scenario, profile_id: ID) {
+    ts.next_tx(OWNER);
+    let endorsement_id = ts::most_recent_id_for_address<Endorsement>(
+        profile_id.to_address(),
+    ).destroy_some();
+    let mut p: Profile = ts.take_from_sender();
+    profile::accept_endorsement(
+        &mut p,
+        ts::receiving_ticket_by_id(endorsement_id),
+        ts.ctx(),
+    );
+    ts.return_to_sender(p);
+}
+
+#[test]
+fun test_endorse_skill() {
+    let mut ts = ts::begin(OWNER);
+    let profile_id = create_profile_with_skill(&mut ts);
+
+    endorse(&mut ts, ENDORSER, profile_id);
+    accept_latest(&mut ts, profile_id);
+
+    ts.next_tx(OWNER);
+    let p: Profile = ts.take_from_sender();
+    assert!(profile::skill_endorsements(&p, b"Move".to_string()) == 1, 0);
+    ts.return_to_sender(p);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::profile::ESelfEndorsement)]
+fun test_self_endorsement() {
+    let mut ts = ts::begin(OWNER);
+    let profile_id = create_profile_with_skill(&mut ts);
+
+    endorse(&mut ts, OWNER, profile_id);
+    accept_latest(&mut ts, profile_id);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::profile::EDuplicateEndorsement)]
+fun test_duplicate_endorsement() {
+    let mut ts = ts::begin(OWNER);
+    let profile_id = create_profile_with_skill(&mut ts);
+
+    endorse(&mut ts, ENDORSER, profile_id);
+    accept_latest(&mut ts, profile_id);
+    endorse(&mut ts, ENDORSER, profile_id);
+    accept_latest(&mut ts, profile_id);
+
+    ts.end();
+}
+
+#[test]
+fun test_rename_skill_clears_endorsements() {
+    let mut ts = ts::begin(OWNER);
+    let profile_id = create_profile_with_skill(&mut ts);
+
+    endorse(&mut ts, ENDORSER, profile_id);
+    accept_latest(&mut ts, profile_id);
+
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::update_skill(&mut p, 0, b"Sui Move".to_string(), ts.ctx());
+    assert!(profile::skill_endorsements(&p, b"Sui Move".to_string()) == 0, 0);
+    assert!(profile::skills_count(&p) == 1, 0);
+    ts.return_to_sender(p);
+
+    ts.end();
+}
+
+#[test]
+fun test_remove_entries() {
+    let mut ts = ts::begin(OWNER);
+    create_profile_with_skill(&mut ts);
+
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::add_experience(
+        &mut p,
+        b"Co-op".to_string(),
+        b"Field officer".to_string(),
+        b"2020".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        ts.ctx(),
+    );
+    profile::add_education(
+        &mut p,
+        b"University".to_string(),
+        b"BSc".to_string(),
+        b"Agronomy".to_string(),
+        b"2015".to_string(),
+        b"2019".to_string(),
+        ts.ctx(),
+    );
+    profile::update_experience(
+        &mut p,
+        0,
+        b"Co-op".to_string(),
+        b"Field manager".to_string(),
+        b"2020".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        ts.ctx(),
+    );
+    profile::remove_experience(&mut p, 0, ts.ctx());
+    profile::remove_education(&mut p, 0, ts.ctx());
+    profile::remove_skill(&mut p, 0, ts.ctx());
+    assert!(profile::experiences_count(&p) == 0, 0);
+    assert!(profile::education_count(&p) == 0, 0);
+    assert!(profile::skills_count(&p) == 0, 0);
+    ts.return_to_sender(p);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::profile::EInvalidIndex)]
+fun test_remove_out_of_range() {
+    let mut ts = ts::begin(OWNER);
+    create_profile_with_skill(&mut ts);
+
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::remove_skill(&mut p, 1, ts.ctx());
+    ts.return_to_sender(p);
+
+    ts.end();
+}
+
+#[test]
+fun test_create_with_entries_in_one_transaction() {
+    let mut ts = ts::begin(OWNER);
+
+    let mut p = profile::new_profile(
+        b"Owner".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        ts.ctx(),
+    );
+    profile::add_skill(&mut p, b"Move".to_string(), ts.ctx());
+    profile::add_skill(&mut p, b"Rust".to_string(), ts.ctx());
+    profile::transfer_to_owner(p);
+
+    ts.next_tx(OWNER);
+    let p: Profile = ts.take_from_sender();
+    assert!(profile::skills_count(&p) == 2, 0);
+    ts.return_to_sender(p);
+
+    ts.end();
+}
+
+/// Creates a profile for the sender and returns its ID.
+fun create_profile(ts: &mut ts::Scenario, sender: address): ID {
+    ts.next_tx(sender);
+    let p = profile::new_profile(
+        b"Someone".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        b"".to_string(),
+        ts.ctx(),
+    );
+    let id = object::id(&p);
+    profile::transfer_to_owner(p);
+
+    id
+}
+
+/// Sends a connection request from the sender's profile.
+fun request(ts: &mut ts::Scenario, sender: address, to_profile_id: ID) {
+    ts.next_tx(sender);
+    let p: Profile = ts.take_from_sender();
+    profile::request_connection(&p, to_profile_id, ts.ctx());
+    ts.return_to_sender(p);
+}
+
+/// Accepts the latest connection request sent to the sender's profile.
+fun accept_request(ts: &mut ts::Scenario, sender: address, profile_id: ID) {
+    ts.next_tx(sender);
+    let request_id = ts::most_recent_id_for_address<ConnectionRequest>(
+        profile_id.to_address(),
+    ).destroy_some();
+    let mut p: Profile = ts.take_from_sender();
+    profile::accept_connection(&mut p, ts::receiving_ticket_by_id(request_id), ts.ctx());
+    ts.return_to_sender(p);
+}
+
+/// Applies the latest connection update sent to the sender's profile.
+fun apply_update(ts: &mut ts::Scenario, sender: address, profile_id: ID) {
+    ts.next_tx(sender);
+    let update_id = ts::most_recent_id_for_address<ConnectionUpdate>(
+        profile_id.to_address(),
+    ).destroy_some();
+    let mut p: Profile = ts.take_from_sender();
+    profile::apply_connection_update(&mut p, ts::receiving_ticket_by_id(update_id), ts.ctx());
+    ts.return_to_sender(p);
+}
+
+/// Whether the sender's profile is connected to the peer.
+fun is_connected(ts: &mut ts::Scenario, sender: address, peer: address): bool {
+    ts.next_tx(sender);
+    let p: Profile = ts.take_from_sender();
+    let connected = profile::is_connected(&p, peer);
+    ts.return_to_sender(p);
+
+    connected
+}
+
+#[test]
+fun test_connections_are_mutual() {
+    let mut ts = ts::begin(OWNER);
+    let owner_profile = create_profile(&mut ts, OWNER);
+    let peer_profile = create_profile(&mut ts, ENDORSER);
+
+    request(&mut ts, OWNER, peer_profile);
+    assert!(!is_connected(&mut ts, ENDORSER, OWNER), 0);
+
+    accept_request(&mut ts, ENDORSER, peer_profile);
+    assert!(is_connected(&mut ts, ENDORSER, OWNER), 0);
+
+    apply_update(&mut ts, OWNER, owner_profile);
+    assert!(is_connected(&mut ts, OWNER, ENDORSER), 0);
+
+    // Removing it on one side removes it on the other once applied.
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::remove_connection(&mut p, peer_profile, ENDORSER, ts.ctx());
+    ts.return_to_sender(p);
+
+    apply_update(&mut ts, ENDORSER, peer_profile);
+    assert!(!is_connected(&mut ts, OWNER, ENDORSER), 0);
+    assert!(!is_connected(&mut ts, ENDORSER, OWNER), 0);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::profile::ESelfConnection)]
+fun test_self_connection() {
+    let mut ts = ts::begin(OWNER);
+    let profile_id = create_profile(&mut ts, OWNER);
+
+    request(&mut ts, OWNER, profile_id);
+
+    ts.end();
+}
+
+#[test]
+#[expected_failure(abort_code = greeting::profile::EConnectionNotFound)]
+fun test_remove_unknown_connection() {
+    let mut ts = ts::begin(OWNER);
+    let peer_profile = create_profile(&mut ts, ENDORSER);
+    create_profile(&mut ts, OWNER);
+
+    ts.next_tx(OWNER);
+    let mut p: Profile = ts.take_from_sender();
+    profile::remove_connection(&mut p, peer_profile, ENDORSER, ts.ctx());
+    ts.return_to_sender(p);
+
+    ts.end();
+}
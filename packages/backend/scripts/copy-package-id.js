@@ -1,113 +1,103 @@
 #!/usr/bin/env node
 
 /**
- * The script copies the deployed package ID from the corresponding Suibase network file to .env.local of the frontend package,
- * which is then read by the app.
+ * The script copies the deployed package IDs from the corresponding Suibase network files to .env.local of the frontend package,
+ * which is then read by the app. The objects the packages created on publish are copied too, see deployment.js.
+ *
+ * Packages which are not deployed to the network are skipped, so a network can run with some of the packages only.
  *
  * The default network is localnet. To change it, pass "-n [NETWORK_TYPE]" through console.
  */
 
+const { SuiClient, getFullnodeUrl } = require("@mysten/sui/client");
 const { promises } = require("node:fs");
 const { homedir } = require("node:os");
 const path = require("node:path");
-const EnvFileWriter = require("env-file-rw").default;
-
-const DEPLOYED_MODULE_NAME = "greeting";
+const {
+  KNOWN_PACKAGES,
+  classifyObjectChanges,
+  deploymentVariables,
+  getArgValue,
+  readPublisherModules,
+  writeNetworkVariables,
+} = require("./deployment");
 
 const main = async () => {
-  const network = getNetworkFromArgs();
-
-  // Read package ID from Suibase packageId file.
-  const packageId = await readPackageId(network);
-
-  // Create .env.local file if it doesn't exist.
-  const targetFile = targetFilePath();
-  await createFileIfNecessary(targetFile);
-
-  // Check whether the frontend is Next.js-powered to decide what environment variable name format to use.
-  const isNextJs = await isNextJsProject();
-
-  // Add Move package ID to .env.local or update it if it already exists.
-  await setEnvVar(
-    targetFile,
-    `${isNextJs ? "NEXT_PUBLIC" : "VITE"}_${network.toUpperCase()}_CONTRACT_PACKAGE_ID`,
-    packageId
-  );
+  const network = getArgValue("-n") ?? "localnet";
+  const client = new SuiClient({ url: getFullnodeUrl(network) });
+
+  for (const packageName of Object.keys(KNOWN_PACKAGES)) {
+    // Read package ID from Suibase packageId file.
+    const packageId = await readPackageId(network, packageName);
+    if (packageId == null) {
+      console.log(`${packageName} is not deployed to ${network}, skipping`);
+      continue;
+    }
+
+    const deployment = classifyObjectChanges(
+      await readCreatedObjects(network, packageName),
+      packageId
+    );
+    const publisherModules = await readPublisherModules(
+      client,
+      deployment.publishers
+    ).catch((e) => {
+      console.warn(`Could not read the Publisher objects: ${e.message}`);
+      return new Map();
+    });
+
+    // Add the IDs to .env.local or update them if they already exist.
+    await writeNetworkVariables(
+      network,
+      deploymentVariables(deployment, packageName, publisherModules)
+    );
+  }
 };
 
-const sourceFilePath = (network, deployedModuleName) => {
+const sourceFilePath = (network, deployedModuleName, fileName) => {
   return path.join(
     homedir(),
-    `/suibase/workdirs/${network}/published-data/${deployedModuleName}/most-recent/package-id.json`
+    `/suibase/workdirs/${network}/published-data/${deployedModuleName}/most-recent/${fileName}`
   );
 };
 
-const targetFilePath = () => {
-  return path.join(process.cwd(), "../frontend/.env.local");
-};
-
-const getNetworkFromArgs = () => {
-  const arg = process.argv.slice(2);
-
-  switch (arg[0]) {
-    case "-n":
-      return arg[1];
-
-    default:
-      return "localnet";
-  }
-};
-
 /**
  * Read package ID from SuiBase packageId file.
  *
  * @param {string} network
- * @returns
+ * @param {string} packageName
+ * @returns {Promise<string | null>} null if the package is not deployed.
  */
-const readPackageId = async (network) => {
-  const sourceFile = sourceFilePath(network, DEPLOYED_MODULE_NAME);
-  const data = await promises.readFile(sourceFile, "utf8");
-  return JSON.parse(data)[0];
+const readPackageId = async (network, packageName) => {
+  const data = await readSourceFile(network, packageName, "package-id.json");
+  return data == null ? null : data[0];
 };
 
 /**
- * Create a file if it doesn't exist.
+ * Read the objects the publish transaction created from SuiBase created-objects file.
  *
- * @param {string} filePath
- * @returns
- */
-const createFileIfNecessary = async (filePath) => {
-  try {
-    await promises.writeFile(filePath, "", { flag: "wx" });
-  } catch {}
-};
-
-/**
- * Set the environment variable in the .env.local file.
- *
- * @param {string} envFilePath
- * @param {string} name
- * @param {string} value
- * @returns
+ * @param {string} network
+ * @param {string} packageName
+ * @returns {Promise<Array<object>>}
  */
-const setEnvVar = async (envFilePath, name, value) => {
-  const envFileWriter = new EnvFileWriter(envFilePath, false);
-  await envFileWriter.parse();
-  envFileWriter.set(name, value);
-  await envFileWriter.save();
+const readCreatedObjects = async (network, packageName) => {
+  return (
+    (await readSourceFile(network, packageName, "created-objects.json")) ?? []
+  );
 };
 
-/**
- * Check if next.config.ts exists in the frontend package.
- *
- * @returns {boolean}
- */
-const isNextJsProject = async () => {
+const readSourceFile = async (network, packageName, fileName) => {
   try {
-    await promises.stat(path.join(process.cwd(), "../frontend/next.config.ts"));
-    return true;
-  } catch {
-    return false;
+    const data = await promises.readFile(
+      sourceFilePath(network, packageName, fileName),
+      "utf8"
+    );
+    return JSON.parse(data);
+  } catch (e) {
+    if (e.code === "ENOENT") {
+      return null;
+    }
+    throw e;
   }
 };
 
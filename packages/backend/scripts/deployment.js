@@ -0,0 +1,281 @@
+/**
+ * Helpers shared by the deployment scripts: they classify the objects a publish transaction created
+ * and write their IDs to .env.local of the frontend package.
+ */
+
+const { promises } = require("node:fs");
+const path = require("node:path");
+const EnvFileWriter = require("env-file-rw").default;
+
+const PUBLISHER_TYPE = "0x2::package::Publisher";
+const UPGRADE_CAP_TYPE = "0x2::package::UpgradeCap";
+
+/**
+ * Packages the frontend knows, by their Suibase name. The modules identify a package in publish effects,
+ * and variables override the names derived from struct types.
+ */
+const KNOWN_PACKAGES = {
+  greeting: {
+    prefix: "CONTRACT",
+    modules: ["greeting", "profile"],
+    variables: {},
+  },
+  amoca: {
+    prefix: "INSURANCE",
+    modules: ["policy_manager_enhanced", "liquidity_pool", "funding_rate"],
+    variables: {
+      // switchboard_oracle creates an OracleFeedRegistry too, the frontend uses this one.
+      "switchboard_oracle_integration::OracleFeedRegistry":
+        "ORACLE_FEED_REGISTRY_ID",
+    },
+  },
+};
+
+/**
+ * The known package name of a published package, based on its modules.
+ *
+ * @param {string[]} modules
+ * @returns {string | null}
+ */
+const knownPackageName = (modules) => {
+  const found = Object.entries(KNOWN_PACKAGES).find(([, known]) =>
+    known.modules.every((module) => modules.includes(module))
+  );
+
+  return found == null ? null : found[0];
+};
+
+/**
+ * Prefix of the package environment variables, e.g. INSURANCE for INSURANCE_PACKAGE_ID.
+ *
+ * @param {string} packageName
+ * @returns {string}
+ */
+const packagePrefix = (packageName) => {
+  return KNOWN_PACKAGES[packageName]?.prefix ?? toSnakeCase(packageName);
+};
+
+/**
+ * Convert a Move identifier to SCREAMING_SNAKE_CASE, e.g. PolicyRegistry to POLICY_REGISTRY.
+ *
+ * @param {string} name
+ * @returns {string}
+ */
+const toSnakeCase = (name) => {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .toUpperCase();
+};
+
+/**
+ * Classify the objects a publish transaction created.
+ *
+ * @param {Array<object>} objectChanges The objectChanges of the transaction, or Suibase created-objects.
+ * @param {string} [packageId] Required when the changes do not include the published package.
+ * @returns {{
+ *   packageId: string,
+ *   modules: string[],
+ *   publishers: string[],
+ *   upgradeCaps: string[],
+ *   objects: Array<{ objectId: string, module: string, struct: string, shared: boolean }>,
+ * }}
+ */
+const classifyObjectChanges = (objectChanges, packageId) => {
+  const published = objectChanges.find((change) => change.type === "published");
+  const id = packageId ?? published?.packageId;
+  if (id == null) {
+    throw new Error("The transaction did not publish a package");
+  }
+
+  const result = {
+    packageId: id,
+    modules: published?.modules ?? [],
+    publishers: [],
+    upgradeCaps: [],
+    objects: [],
+  };
+
+  for (const change of objectChanges) {
+    if (change.type != null && change.type !== "created") continue;
+
+    if (change.objectType === PUBLISHER_TYPE) {
+      result.publishers.push(change.objectId);
+    } else if (change.objectType === UPGRADE_CAP_TYPE) {
+      result.upgradeCaps.push(change.objectId);
+    } else if (change.objectType?.startsWith(`${id}::`)) {
+      // Generic structs are named after the struct without type arguments.
+      const [, module, struct] = change.objectType
+        .replace(/<.*>$/, "")
+        .split("::");
+
+      result.objects.push({
+        objectId: change.objectId,
+        module,
+        struct,
+        shared: isShared(change.owner),
+      });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Environment variables of a classified deployment, without the network prefix.
+ *
+ * Package objects are named after their struct, e.g. POLICY_REGISTRY_ID. Structs several modules define
+ * are prefixed with the module name. Publishers are named after the module that claimed them.
+ *
+ * @param {ReturnType<typeof classifyObjectChanges>} deployment
+ * @param {string} packageName
+ * @param {Map<string, string>} publisherModules Module name per Publisher ID.
+ * @returns {Record<string, string>}
+ */
+const deploymentVariables = (deployment, packageName, publisherModules) => {
+  const prefix = packagePrefix(packageName);
+  const overrides = KNOWN_PACKAGES[packageName]?.variables ?? {};
+  const variables = { [`${prefix}_PACKAGE_ID`]: deployment.packageId };
+
+  const modulesByStruct = new Map();
+  for (const { module, struct } of deployment.objects) {
+    modulesByStruct.set(
+      struct,
+      new Set([...(modulesByStruct.get(struct) ?? []), module])
+    );
+  }
+
+  for (const { objectId, module, struct } of deployment.objects) {
+    const name =
+      overrides[`${module}::${struct}`] ??
+      (modulesByStruct.get(struct).size > 1
+        ? `${toSnakeCase(module)}_${toSnakeCase(struct)}_ID`
+        : `${toSnakeCase(struct)}_ID`);
+
+    if (variables[name] != null) {
+      console.warn(`Several ${module}::${struct} objects were created, keeping the first one`);
+      continue;
+    }
+    variables[name] = objectId;
+  }
+
+  for (const objectId of deployment.publishers) {
+    const module = publisherModules.get(objectId);
+    const name =
+      module == null
+        ? `${prefix}_PUBLISHER_ID`
+        : `${prefix}_${toSnakeCase(module)}_PUBLISHER_ID`;
+    variables[name] = objectId;
+  }
+
+  for (const objectId of deployment.upgradeCaps) {
+    variables[`${prefix}_UPGRADE_CAP_ID`] = objectId;
+  }
+
+  return variables;
+};
+
+/**
+ * Read the modules that claimed the Publisher objects.
+ *
+ * @param {import("@mysten/sui/client").SuiClient} client
+ * @param {string[]} publisherIds
+ * @returns {Promise<Map<string, string>>}
+ */
+const readPublisherModules = async (client, publisherIds) => {
+  if (publisherIds.length === 0) {
+    return new Map();
+  }
+
+  const responses = await client.multiGetObjects({
+    ids: publisherIds,
+    options: { showContent: true },
+  });
+
+  return new Map(
+    responses
+      .filter((response) => response.data?.content?.dataType === "moveObject")
+      .map((response) => [
+        response.data.objectId,
+        response.data.content.fields.module_name,
+      ])
+  );
+};
+
+/**
+ * Set environment variables of a network in .env.local of the frontend package.
+ *
+ * @param {string} network
+ * @param {Record<string, string>} variables
+ * @returns
+ */
+const writeNetworkVariables = async (network, variables) => {
+  const targetFile = path.join(process.cwd(), "../frontend/.env.local");
+  await createFileIfNecessary(targetFile);
+
+  // Check whether the frontend is Next.js-powered to decide what environment variable name format to use.
+  const isNextJs = await isNextJsProject();
+  const prefix = `${isNextJs ? "NEXT_PUBLIC" : "VITE"}_${network.toUpperCase()}`;
+
+  const envFileWriter = new EnvFileWriter(targetFile, false);
+  await envFileWriter.parse();
+  for (const [name, value] of Object.entries(variables)) {
+    envFileWriter.set(`${prefix}_${name}`, value);
+    console.log(`${prefix}_${name}=${value}`);
+  }
+  await envFileWriter.save();
+};
+
+/**
+ * Read the value of a command line flag, e.g. "-n [NETWORK_TYPE]".
+ *
+ * @param {string} flag
+ * @returns {string | undefined}
+ */
+const getArgValue = (flag) => {
+  const args = process.argv.slice(2);
+  const i = args.indexOf(flag);
+  return i === -1 ? undefined : args[i + 1];
+};
+
+const isShared = (owner) => {
+  return owner != null && typeof owner === "object" && "Shared" in owner;
+};
+
+/**
+ * Create a file if it doesn't exist.
+ *
+ * @param {string} filePath
+ * @returns
+ */
+const createFileIfNecessary = async (filePath) => {
+  try {
+    await promises.writeFile(filePath, "", { flag: "wx" });
+  } catch {}
+};
+
+/**
+ * Check if next.config.ts exists in the frontend package.
+ *
+ * @returns {boolean}
+ */
+const isNextJsProject = async () => {
+  try {
+    await promises.stat(path.join(process.cwd(), "../frontend/next.config.ts"));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+module.exports = {
+  KNOWN_PACKAGES,
+  classifyObjectChanges,
+  deploymentVariables,
+  getArgValue,
+  knownPackageName,
+  packagePrefix,
+  readPublisherModules,
+  toSnakeCase,
+  writeNetworkVariables,
+};
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * The script watches the climate insurance policies of an address and reports
+ * margin calls: policies whose collateral fell below their margin requirement
+ * or is draining towards it.
+ *
+ * Object IDs are read from .env.local of the frontend package, where the
+ * deployment scripts put them. The default network is localnet.
+ *
+ * Usage: pnpm monitor:margins -o [OWNER_ADDRESS] [-n NETWORK] [--once]
+ */
+
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client"
+import EnvFileWriter from "env-file-rw"
+import path from "node:path"
+import {
+  MarginAssessment,
+  checkMargins,
+  watchMargins,
+} from "../move/amoca-p2p-climate-insurance/services/margin-monitor-service"
+import { configureServices } from "../move/amoca-p2p-climate-insurance/services/service-context"
+
+type Network = "localnet" | "devnet" | "testnet" | "mainnet"
+
+const MIST_PER_SUI = 1_000_000_000
+
+const main = async () => {
+  const { network, owner, once } = getArgs()
+  const client = new SuiClient({ url: getFullnodeUrl(network) })
+
+  configureServices({
+    ...(await readObjectIds(network)),
+    client,
+    execute: async () => {
+      throw new Error("The margin monitor does not send transactions")
+    },
+  })
+
+  if (once) {
+    const assessments = await checkMargins(owner)
+    assessments.forEach(report)
+    process.exitCode = assessments.some((a) => a.status !== "healthy") ? 1 : 0
+    return
+  }
+
+  console.log(`Watching the policies of ${owner} on ${network}...`)
+  const stop = watchMargins(owner, {
+    onChange: report,
+    onError: (e) => console.error(e),
+  })
+  process.on("SIGINT", () => {
+    stop()
+    process.exit(0)
+  })
+}
+
+const report = (assessment: MarginAssessment) => {
+  const sui = (mist: number) => `${mist / MIST_PER_SUI} SUI`
+  const balance = `${sui(assessment.collateralAmount)} / ${sui(assessment.marginRequirement)}`
+
+  switch (assessment.status) {
+    case "undercollateralized":
+      console.warn(
+        `MARGIN CALL ${assessment.policyId}: collateral ${balance}, top up ${sui(assessment.suggestedTopUp)}`
+      )
+      break
+    case "at_risk":
+      console.warn(
+        `AT RISK ${assessment.policyId}: collateral ${balance}, ${assessment.drainsToMargin} payments left, top up ${sui(assessment.suggestedTopUp)}`
+      )
+      break
+    default:
+      console.log(`OK ${assessment.policyId}: collateral ${balance}`)
+  }
+}
+
+const getArgs = () => {
+  const args = process.argv.slice(2)
+  const value = (flag: string) => {
+    const i = args.indexOf(flag)
+    return i === -1 ? undefined : args[i + 1]
+  }
+
+  const owner = value("-o")
+  if (owner == null) {
+    throw new Error("Pass the address to watch with -o [OWNER_ADDRESS]")
+  }
+
+  return {
+    network: (value("-n") ?? "localnet") as Network,
+    owner,
+    once: args.includes("--once"),
+  }
+}
+
+/**
+ * Read the deployed object IDs from .env.local of the frontend package.
+ *
+ * @param network
+ * @returns
+ */
+const readObjectIds = async (network: Network) => {
+  const envFileWriter = new EnvFileWriter(
+    path.join(process.cwd(), "../frontend/.env.local"),
+    false
+  )
+  await envFileWriter.parse()
+  const get = (name: string) =>
+    envFileWriter.get(`NEXT_PUBLIC_${network.toUpperCase()}_${name}`) ?? ""
+
+  const packageId = get("INSURANCE_PACKAGE_ID")
+  if (packageId === "") {
+    throw new Error(`The insurance package is not deployed to ${network}`)
+  }
+
+  return {
+    packageId,
+    policyRegistryId: get("POLICY_REGISTRY_ID"),
+    riskParametersId: get("RISK_PARAMETERS_ID"),
+    riskModelId: get("RISK_MODEL_ID"),
+    liquidityPoolId: get("LIQUIDITY_POOL_ID"),
+    oracleFeedRegistryId: get("ORACLE_FEED_REGISTRY_ID"),
+  }
+}
+
+// Main entry point.
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+/**
+ * The script reads the object changes of a publish transaction and writes the IDs of the package, the objects
+ * its init functions created, its Publisher objects and its UpgradeCap to .env.local of the frontend package.
+ *
+ * Use it for deployments Suibase did not make, e.g. `sui client publish`. The package name is detected for the
+ * packages the frontend knows. Pass "-p [PACKAGE_NAME]" for others, which prefixes the variable names.
+ *
+ * Usage: pnpm record-deployment -d [TRANSACTION_DIGEST] [-n NETWORK_TYPE] [-p PACKAGE_NAME]
+ */
+
+const { SuiClient, getFullnodeUrl } = require("@mysten/sui/client");
+const {
+  classifyObjectChanges,
+  deploymentVariables,
+  getArgValue,
+  knownPackageName,
+  readPublisherModules,
+  writeNetworkVariables,
+} = require("./deployment");
+
+const main = async () => {
+  const network = getArgValue("-n") ?? "localnet";
+  const digest = getArgValue("-d");
+  if (digest == null) {
+    throw new Error("Pass the publish transaction digest with -d [DIGEST]");
+  }
+
+  const client = new SuiClient({ url: getFullnodeUrl(network) });
+  const transaction = await client.getTransactionBlock({
+    digest,
+    options: { showObjectChanges: true },
+  });
+
+  const deployment = classifyObjectChanges(transaction.objectChanges ?? []);
+  const packageName = getArgValue("-p") ?? knownPackageName(deployment.modules);
+  if (packageName == null) {
+    throw new Error(
+      `Unknown package with modules ${deployment.modules.join(", ")}, pass its name with -p [PACKAGE_NAME]`
+    );
+  }
+
+  for (const { objectId, module, struct, shared } of deployment.objects) {
+    console.log(`${shared ? "shared" : "owned"} ${module}::${struct} ${objectId}`);
+  }
+
+  await writeNetworkVariables(
+    network,
+    deploymentVariables(
+      deployment,
+      packageName,
+      await readPublisherModules(client, deployment.publishers)
+    )
+  );
+};
+
+// Main entry point.
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
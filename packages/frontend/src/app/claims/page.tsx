@@ -0,0 +1,14 @@
+import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
+import ClaimCenter from '~~/dapp/components/ClaimCenter'
+import { EMovePackage } from '~~/types/EMovePackage'
+
+export default function Claims() {
+  return (
+    <>
+      <NetworkSupportChecker movePackage={EMovePackage.INSURANCE} />
+      <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
+        <ClaimCenter />
+      </div>
+    </>
+  )
+}
@@ -2,13 +2,18 @@
 
 import { useCurrentAccount } from '@mysten/dapp-kit'
 import useNetworkType from '@suiware/kit/useNetworkType'
+import { FC } from 'react'
 import { isNetworkSupported, supportedNetworks } from '../helpers/network'
+import { EMovePackage } from '../types/EMovePackage'
 
-const NetworkSupportChecker = () => {
+const NetworkSupportChecker: FC<{
+  // Only networks this package is deployed to are supported.
+  movePackage?: EMovePackage
+}> = ({ movePackage }) => {
   const { networkType } = useNetworkType()
   const currentAccount = useCurrentAccount()
 
-  const okNetworks = supportedNetworks()
+  const okNetworks = supportedNetworks(movePackage)
 
   if (currentAccount == null || okNetworks.length === 0) {
     return <></>
@@ -16,7 +21,10 @@ const NetworkSupportChecker = () => {
 
   // @fixme: Find a better type for the networkType.
   /* eslint-disable  @typescript-eslint/no-explicit-any */
-  if (networkType == null || isNetworkSupported(networkType as any)) {
+  if (
+    networkType == null ||
+    isNetworkSupported(networkType as any, movePackage)
+  ) {
     return <></>
   }
 
@@ -0,0 +1,16 @@
+import { FC } from 'react'
+
+/**
+ * Shown in place of a feature whose shared object is not deployed to the
+ * current network, e.g. the LiquidityPool, which the package's init does not
+ * create.
+ */
+const NotDeployed: FC<{ name: string }> = ({ name }) => {
+  return (
+    <div className="text-center opacity-60">
+      The {name} is not deployed to this network yet.
+    </div>
+  )
+}
+
+export default NotDeployed
@@ -1,12 +1,14 @@
 'use client'
 
 import { Toaster } from 'react-hot-toast'
+import MarginMonitor from '~~/dapp/components/MarginMonitor'
 import AnimatedBackground from '../AnimatedBackground'
 
 const Extra = () => {
   return (
     <>
       <AnimatedBackground />
+      <MarginMonitor />
       <Toaster
         toastOptions={{
           className:
@@ -1,3 +1,8 @@
+import { EMovePackage } from '~~/types/EMovePackage'
+import { ENetwork } from '~~/types/ENetwork'
+import { ESharedObject } from '~~/types/ESharedObject'
+import { IDeployment } from '~~/types/IDeployment'
+
 // We automatically create/update .env.local with the deployed package ID after deployment.
 export const CONTRACT_PACKAGE_ID_NOT_DEFINED = '0xNOTDEFINED'
 export const LOCALNET_CONTRACT_PACKAGE_ID =
@@ -13,13 +18,272 @@ export const MAINNET_CONTRACT_PACKAGE_ID =
   process.env.NEXT_PUBLIC_MAINNET_CONTRACT_PACKAGE_ID ||
   CONTRACT_PACKAGE_ID_NOT_DEFINED
 
+// The climate insurance package and the shared objects its init creates.
+export const LOCALNET_INSURANCE_PACKAGE_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_INSURANCE_PACKAGE_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_INSURANCE_PACKAGE_ID =
+  process.env.NEXT_PUBLIC_DEVNET_INSURANCE_PACKAGE_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_INSURANCE_PACKAGE_ID =
+  process.env.NEXT_PUBLIC_TESTNET_INSURANCE_PACKAGE_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_INSURANCE_PACKAGE_ID =
+  process.env.NEXT_PUBLIC_MAINNET_INSURANCE_PACKAGE_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_POLICY_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_POLICY_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_POLICY_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_DEVNET_POLICY_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_POLICY_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_TESTNET_POLICY_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_POLICY_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_MAINNET_POLICY_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_RISK_PARAMETERS_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_RISK_PARAMETERS_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_RISK_PARAMETERS_ID =
+  process.env.NEXT_PUBLIC_DEVNET_RISK_PARAMETERS_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_RISK_PARAMETERS_ID =
+  process.env.NEXT_PUBLIC_TESTNET_RISK_PARAMETERS_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_RISK_PARAMETERS_ID =
+  process.env.NEXT_PUBLIC_MAINNET_RISK_PARAMETERS_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_RISK_MODEL_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_RISK_MODEL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_RISK_MODEL_ID =
+  process.env.NEXT_PUBLIC_DEVNET_RISK_MODEL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_RISK_MODEL_ID =
+  process.env.NEXT_PUBLIC_TESTNET_RISK_MODEL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_RISK_MODEL_ID =
+  process.env.NEXT_PUBLIC_MAINNET_RISK_MODEL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_LIQUIDITY_POOL_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_LIQUIDITY_POOL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_LIQUIDITY_POOL_ID =
+  process.env.NEXT_PUBLIC_DEVNET_LIQUIDITY_POOL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_LIQUIDITY_POOL_ID =
+  process.env.NEXT_PUBLIC_TESTNET_LIQUIDITY_POOL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_LIQUIDITY_POOL_ID =
+  process.env.NEXT_PUBLIC_MAINNET_LIQUIDITY_POOL_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_WALRUS_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_WALRUS_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_WALRUS_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_DEVNET_WALRUS_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_WALRUS_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_TESTNET_WALRUS_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_WALRUS_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_MAINNET_WALRUS_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+export const LOCALNET_ORACLE_FEED_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_ORACLE_FEED_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_ORACLE_FEED_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_DEVNET_ORACLE_FEED_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_ORACLE_FEED_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_TESTNET_ORACLE_FEED_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_ORACLE_FEED_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_MAINNET_ORACLE_FEED_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+// The attestation issuer registry the greeting package's init creates.
+export const LOCALNET_ISSUER_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_ISSUER_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_ISSUER_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_DEVNET_ISSUER_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_ISSUER_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_TESTNET_ISSUER_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_ISSUER_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_MAINNET_ISSUER_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+// The badge registry the greeting package's init creates.
+export const LOCALNET_BADGE_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_LOCALNET_BADGE_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const DEVNET_BADGE_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_DEVNET_BADGE_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const TESTNET_BADGE_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_TESTNET_BADGE_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+export const MAINNET_BADGE_REGISTRY_ID =
+  process.env.NEXT_PUBLIC_MAINNET_BADGE_REGISTRY_ID ||
+  CONTRACT_PACKAGE_ID_NOT_DEFINED
+
 export const LOCALNET_EXPLORER_URL = 'http://localhost:9001'
 export const DEVNET_EXPLORER_URL = 'https://devnet.suivision.xyz'
 export const TESTNET_EXPLORER_URL = 'https://testnet.suivision.xyz'
 export const MAINNET_EXPLORER_URL = 'https://suivision.xyz'
 
+// Walrus publishers store blobs and aggregators serve them. Walrus has no
+// devnet and no public mainnet publisher, so those are only set through env.
+export const LOCALNET_WALRUS_PUBLISHER_URL =
+  process.env.NEXT_PUBLIC_LOCALNET_WALRUS_PUBLISHER_URL ||
+  'http://127.0.0.1:31415'
+export const LOCALNET_WALRUS_AGGREGATOR_URL =
+  process.env.NEXT_PUBLIC_LOCALNET_WALRUS_AGGREGATOR_URL ||
+  'http://127.0.0.1:31415'
+export const DEVNET_WALRUS_PUBLISHER_URL =
+  process.env.NEXT_PUBLIC_DEVNET_WALRUS_PUBLISHER_URL || ''
+export const DEVNET_WALRUS_AGGREGATOR_URL =
+  process.env.NEXT_PUBLIC_DEVNET_WALRUS_AGGREGATOR_URL || ''
+export const TESTNET_WALRUS_PUBLISHER_URL =
+  process.env.NEXT_PUBLIC_TESTNET_WALRUS_PUBLISHER_URL ||
+  'https://publisher.walrus-testnet.walrus.space'
+export const TESTNET_WALRUS_AGGREGATOR_URL =
+  process.env.NEXT_PUBLIC_TESTNET_WALRUS_AGGREGATOR_URL ||
+  'https://aggregator.walrus-testnet.walrus.space'
+export const MAINNET_WALRUS_PUBLISHER_URL =
+  process.env.NEXT_PUBLIC_MAINNET_WALRUS_PUBLISHER_URL || ''
+export const MAINNET_WALRUS_AGGREGATOR_URL =
+  process.env.NEXT_PUBLIC_MAINNET_WALRUS_AGGREGATOR_URL ||
+  'https://aggregator.walrus-mainnet.walrus.space'
+
+// The Walrus endpoints of each network. An empty URL means Walrus cannot be
+// written to or read from there.
+export const WALRUS_ENDPOINTS: Record<
+  ENetwork,
+  { publisherUrl: string; aggregatorUrl: string }
+> = {
+  [ENetwork.LOCALNET]: {
+    publisherUrl: LOCALNET_WALRUS_PUBLISHER_URL,
+    aggregatorUrl: LOCALNET_WALRUS_AGGREGATOR_URL,
+  },
+  [ENetwork.DEVNET]: {
+    publisherUrl: DEVNET_WALRUS_PUBLISHER_URL,
+    aggregatorUrl: DEVNET_WALRUS_AGGREGATOR_URL,
+  },
+  [ENetwork.TESTNET]: {
+    publisherUrl: TESTNET_WALRUS_PUBLISHER_URL,
+    aggregatorUrl: TESTNET_WALRUS_AGGREGATOR_URL,
+  },
+  [ENetwork.MAINNET]: {
+    publisherUrl: MAINNET_WALRUS_PUBLISHER_URL,
+    aggregatorUrl: MAINNET_WALRUS_AGGREGATOR_URL,
+  },
+}
+
+// What is deployed to each network. Networks can be partially deployed, e.g.
+// run the insurance package without the greeting package.
+export const DEPLOYMENTS: Record<ENetwork, IDeployment> = {
+  [ENetwork.LOCALNET]: {
+    packages: {
+      [EMovePackage.CONTRACT]: LOCALNET_CONTRACT_PACKAGE_ID,
+      [EMovePackage.INSURANCE]: LOCALNET_INSURANCE_PACKAGE_ID,
+    },
+    objects: {
+      [ESharedObject.POLICY_REGISTRY]: LOCALNET_POLICY_REGISTRY_ID,
+      [ESharedObject.RISK_PARAMETERS]: LOCALNET_RISK_PARAMETERS_ID,
+      [ESharedObject.RISK_MODEL]: LOCALNET_RISK_MODEL_ID,
+      [ESharedObject.LIQUIDITY_POOL]: LOCALNET_LIQUIDITY_POOL_ID,
+      [ESharedObject.WALRUS_REGISTRY]: LOCALNET_WALRUS_REGISTRY_ID,
+      [ESharedObject.ORACLE_FEED_REGISTRY]: LOCALNET_ORACLE_FEED_REGISTRY_ID,
+      [ESharedObject.ISSUER_REGISTRY]: LOCALNET_ISSUER_REGISTRY_ID,
+      [ESharedObject.BADGE_REGISTRY]: LOCALNET_BADGE_REGISTRY_ID,
+    },
+  },
+  [ENetwork.DEVNET]: {
+    packages: {
+      [EMovePackage.CONTRACT]: DEVNET_CONTRACT_PACKAGE_ID,
+      [EMovePackage.INSURANCE]: DEVNET_INSURANCE_PACKAGE_ID,
+    },
+    objects: {
+      [ESharedObject.POLICY_REGISTRY]: DEVNET_POLICY_REGISTRY_ID,
+      [ESharedObject.RISK_PARAMETERS]: DEVNET_RISK_PARAMETERS_ID,
+      [ESharedObject.RISK_MODEL]: DEVNET_RISK_MODEL_ID,
+      [ESharedObject.LIQUIDITY_POOL]: DEVNET_LIQUIDITY_POOL_ID,
+      [ESharedObject.WALRUS_REGISTRY]: DEVNET_WALRUS_REGISTRY_ID,
+      [ESharedObject.ORACLE_FEED_REGISTRY]: DEVNET_ORACLE_FEED_REGISTRY_ID,
+      [ESharedObject.ISSUER_REGISTRY]: DEVNET_ISSUER_REGISTRY_ID,
+      [ESharedObject.BADGE_REGISTRY]: DEVNET_BADGE_REGISTRY_ID,
+    },
+  },
+  [ENetwork.TESTNET]: {
+    packages: {
+      [EMovePackage.CONTRACT]: TESTNET_CONTRACT_PACKAGE_ID,
+      [EMovePackage.INSURANCE]: TESTNET_INSURANCE_PACKAGE_ID,
+    },
+    objects: {
+      [ESharedObject.POLICY_REGISTRY]: TESTNET_POLICY_REGISTRY_ID,
+      [ESharedObject.RISK_PARAMETERS]: TESTNET_RISK_PARAMETERS_ID,
+      [ESharedObject.RISK_MODEL]: TESTNET_RISK_MODEL_ID,
+      [ESharedObject.LIQUIDITY_POOL]: TESTNET_LIQUIDITY_POOL_ID,
+      [ESharedObject.WALRUS_REGISTRY]: TESTNET_WALRUS_REGISTRY_ID,
+      [ESharedObject.ORACLE_FEED_REGISTRY]: TESTNET_ORACLE_FEED_REGISTRY_ID,
+      [ESharedObject.ISSUER_REGISTRY]: TESTNET_ISSUER_REGISTRY_ID,
+      [ESharedObject.BADGE_REGISTRY]: TESTNET_BADGE_REGISTRY_ID,
+    },
+  },
+  [ENetwork.MAINNET]: {
+    packages: {
+      [EMovePackage.CONTRACT]: MAINNET_CONTRACT_PACKAGE_ID,
+      [EMovePackage.INSURANCE]: MAINNET_INSURANCE_PACKAGE_ID,
+    },
+    objects: {
+      [ESharedObject.POLICY_REGISTRY]: MAINNET_POLICY_REGISTRY_ID,
+      [ESharedObject.RISK_PARAMETERS]: MAINNET_RISK_PARAMETERS_ID,
+      [ESharedObject.RISK_MODEL]: MAINNET_RISK_MODEL_ID,
+      [ESharedObject.LIQUIDITY_POOL]: MAINNET_LIQUIDITY_POOL_ID,
+      [ESharedObject.WALRUS_REGISTRY]: MAINNET_WALRUS_REGISTRY_ID,
+      [ESharedObject.ORACLE_FEED_REGISTRY]: MAINNET_ORACLE_FEED_REGISTRY_ID,
+      [ESharedObject.ISSUER_REGISTRY]: MAINNET_ISSUER_REGISTRY_ID,
+      [ESharedObject.BADGE_REGISTRY]: MAINNET_BADGE_REGISTRY_ID,
+    },
+  },
+}
+
+// The shared objects each package's init creates, so a deployed package has
+// them. The RiskModel and the LiquidityPool are created later, if at all, so
+// the features that need them check for them instead.
+export const PACKAGE_SHARED_OBJECTS: Record<EMovePackage, ESharedObject[]> = {
+  [EMovePackage.CONTRACT]: [],
+  [EMovePackage.INSURANCE]: [
+    ESharedObject.POLICY_REGISTRY,
+    ESharedObject.RISK_PARAMETERS,
+  ],
+}
+
 export const CONTRACT_PACKAGE_VARIABLE_NAME = 'contractPackageId'
+export const INSURANCE_PACKAGE_VARIABLE_NAME = 'insurancePackageId'
+export const POLICY_REGISTRY_VARIABLE_NAME = 'policyRegistryId'
+export const RISK_PARAMETERS_VARIABLE_NAME = 'riskParametersId'
+export const RISK_MODEL_VARIABLE_NAME = 'riskModelId'
+export const LIQUIDITY_POOL_VARIABLE_NAME = 'liquidityPoolId'
+export const WALRUS_REGISTRY_VARIABLE_NAME = 'walrusRegistryId'
+export const ORACLE_FEED_REGISTRY_VARIABLE_NAME = 'oracleFeedRegistryId'
+export const ISSUER_REGISTRY_VARIABLE_NAME = 'issuerRegistryId'
+export const BADGE_REGISTRY_VARIABLE_NAME = 'badgeRegistryId'
 
 export const EXPLORER_URL_VARIABLE_NAME = 'explorerUrl'
+export const WALRUS_PUBLISHER_URL_VARIABLE_NAME = 'walrusPublisherUrl'
+export const WALRUS_AGGREGATOR_URL_VARIABLE_NAME = 'walrusAggregatorUrl'
 
 export const NETWORKS_WITH_FAUCET = ['localnet', 'devnet', 'testnet']
@@ -0,0 +1,91 @@
+'use client'
+
+import { Avatar, Button, Text } from '@radix-ui/themes'
+import { FC } from 'react'
+import {
+  BADGE_REGISTRY_VARIABLE_NAME,
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+} from '~~/config/network'
+import { prepareMintBadgesTransaction } from '~~/dapp/helpers/badgeTransactions'
+import useBadges from '~~/dapp/hooks/useBadges'
+import useEligibleBadges from '~~/dapp/hooks/useEligibleBadges'
+import useMinterCap from '~~/dapp/hooks/useMinterCap'
+import useProfileTransact from '~~/dapp/hooks/useProfileTransact'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The badges the owner of a profile holds. Minters also see the badges the
+ * owner has earned since, and can award them.
+ */
+const BadgeShelf: FC<{ profile: IProfile }> = ({ profile }) => {
+  const badges = useBadges(profile.owner)
+  const minterCap = useMinterCap()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(BADGE_REGISTRY_VARIABLE_NAME)
+  const canMint = minterCap.data != null && isDeployed(registryId)
+  const eligible = useEligibleBadges(
+    profile.owner,
+    badges.data?.map((b) => b.kind),
+    canMint
+  )
+  const { transact } = useProfileTransact(() => {
+    badges.refetch()
+    eligible.refetch()
+  })
+
+  return (
+    <div className="flex flex-col gap-3">
+      {(badges.data ?? []).length === 0 ? (
+        <div className="opacity-60">No badges yet.</div>
+      ) : (
+        <div className="flex flex-row flex-wrap gap-4">
+          {badges.data!.map((badge) => (
+            <div
+              key={badge.id}
+              title={badge.description}
+              className="flex w-20 flex-col items-center gap-1 text-center"
+            >
+              <Avatar
+                size="4"
+                radius="full"
+                src={badge.imageUrl || undefined}
+                fallback={badge.name.charAt(0)}
+              />
+              <Text size="1">{badge.name}</Text>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canMint && (eligible.data ?? []).length > 0 && (
+        <div className="flex flex-row items-center justify-between gap-3 text-sm">
+          <span>
+            Earned: {eligible.data!.map((rule) => rule.name).join(', ')}
+          </span>
+          <Button
+            variant="soft"
+            size="1"
+            onClick={() =>
+              transact(
+                prepareMintBadgesTransaction(
+                  packageId,
+                  minterCap.data!,
+                  registryId,
+                  profile.owner,
+                  eligible.data!
+                )
+              )
+            }
+          >
+            Mint
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BadgeShelf
@@ -0,0 +1,355 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { Badge, Button, Select, Text, TextField } from '@radix-ui/themes'
+import useTransact from '@suiware/kit/useTransact'
+import { FC, PropsWithChildren, useState } from 'react'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import Loading from '~~/components/Loading'
+import NotDeployed from '~~/components/NotDeployed'
+import {
+  EXPLORER_URL_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  LIQUIDITY_POOL_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  LOCATIONS,
+  ORACLE_DECIMAL_PLACES,
+  PERIL_TYPES,
+  TRIGGER_OPERATORS,
+} from '~~/dapp/config/insurance'
+import { ClaimError, isTriggerMet } from '~~/dapp/helpers/claims'
+import { formatFixedPoint, formatMist } from '~~/dapp/helpers/insurance'
+import {
+  prepareProcessClaimTransaction,
+  prepareProcessClaimWithAggregatorTransaction,
+} from '~~/dapp/helpers/transactions'
+import useClaims from '~~/dapp/hooks/useClaims'
+import useMatchingReadings from '~~/dapp/hooks/useMatchingReadings'
+import usePolicies from '~~/dapp/hooks/usePolicies'
+import { EClaimStatus } from '~~/dapp/types/EClaimStatus'
+import { IAggregatedReading } from '~~/dapp/types/IAggregatedReading'
+import { IClaim } from '~~/dapp/types/IClaim'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { isDeployed, transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+type TReadingSource = 'aggregated' | 'aggregator'
+
+const STATUS_BADGES = {
+  [EClaimStatus.PENDING]: { label: 'Pending', color: 'orange' },
+  [EClaimStatus.APPROVED]: { label: 'Approved', color: 'green' },
+  [EClaimStatus.REJECTED]: { label: 'Rejected', color: 'red' },
+} as const
+
+const policyName = (policy: IPolicy) =>
+  `${PERIL_TYPES.find((p) => p.value === policy.perilType)?.label ?? policy.perilType} in ${LOCATIONS.find((l) => l.value === policy.location)?.label ?? policy.location}`
+
+const ClaimCenter = () => {
+  const currentAccount = useCurrentAccount()
+  const [policyId, setPolicyId] = useState<string>('')
+  const [source, setSource] = useState<TReadingSource>('aggregated')
+  const [readingId, setReadingId] = useState<string>('')
+  const [aggregatorId, setAggregatorId] = useState<string>('')
+  const [notificationId, setNotificationId] = useState<string>()
+  const policies = usePolicies()
+  const claims = useClaims()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const liquidityPoolId = useNetworkVariable(LIQUIDITY_POOL_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+
+  const activePolicies = (policies.data ?? []).filter((p) => p.active)
+  const policy = activePolicies.find((p) => p.id === policyId)
+  const readings = useMatchingReadings(policy?.location, policy?.perilType)
+  const reading = readings.data?.find((r) => r.id === readingId)
+
+  const { transact: submitClaim } = useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      claims.refetch()
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+
+  const handleSubmit = () => {
+    if (policy == null) {
+      notification.error(null, 'Choose a policy')
+      return
+    }
+
+    if (source === 'aggregated') {
+      if (reading == null) {
+        notification.error(null, 'Choose an oracle reading')
+        return
+      }
+      submitClaim(
+        prepareProcessClaimTransaction(
+          packageId,
+          liquidityPoolId,
+          policy.id,
+          reading.id
+        )
+      )
+      return
+    }
+
+    if (aggregatorId.trim() === '') {
+      notification.error(null, 'Enter the Switchboard aggregator ID')
+      return
+    }
+    submitClaim(
+      prepareProcessClaimWithAggregatorTransaction(
+        packageId,
+        liquidityPoolId,
+        policy.id,
+        aggregatorId.trim()
+      )
+    )
+  }
+
+  if (currentAccount == null) return <CustomConnectButton />
+
+  // Claims are paid out of the pool.
+  if (!isDeployed(liquidityPoolId)) return <NotDeployed name="liquidity pool" />
+
+  if (policies.isPending) return <Loading />
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-lg">
+      <h1 className="from-sds-blue to-sds-pink bg-gradient-to-r bg-clip-text text-center text-3xl !leading-tight font-bold text-transparent">
+        Claims
+      </h1>
+
+      <div className="flex flex-col gap-4">
+        <Field label="Policy">
+          <Select.Root
+            value={policyId}
+            onValueChange={(value) => {
+              setPolicyId(value)
+              setReadingId('')
+            }}
+          >
+            <Select.Trigger
+              placeholder={
+                activePolicies.length === 0
+                  ? 'You have no active policies'
+                  : 'Choose a policy...'
+              }
+            />
+            <Select.Content>
+              {activePolicies.map((p) => (
+                <Select.Item key={p.id} value={p.id}>
+                  {policyName(p)}, {formatMist(p.coverageAmount)}
+                </Select.Item>
+              ))}
+            </Select.Content>
+          </Select.Root>
+        </Field>
+
+        {policy != null && (
+          <>
+            <Field label="Settle against">
+              <Select.Root
+                value={source}
+                onValueChange={(value) => setSource(value as TReadingSource)}
+              >
+                <Select.Trigger />
+                <Select.Content>
+                  <Select.Item value="aggregated">
+                    An aggregated oracle reading
+                  </Select.Item>
+                  <Select.Item value="aggregator">
+                    A Switchboard aggregator
+                  </Select.Item>
+                </Select.Content>
+              </Select.Root>
+            </Field>
+
+            {source === 'aggregated' ? (
+              <Field label="Reading">
+                {readings.isPending ? (
+                  <Loading />
+                ) : (readings.data ?? []).length === 0 ? (
+                  <Text size="2" className="opacity-60">
+                    There are no readings for this location and peril yet.
+                  </Text>
+                ) : (
+                  <Select.Root value={readingId} onValueChange={setReadingId}>
+                    <Select.Trigger placeholder="Choose a reading..." />
+                    <Select.Content>
+                      {readings.data!.map((r) => (
+                        <Select.Item key={r.id} value={r.id}>
+                          {formatReading(policy, r)}, epoch {r.timestamp},{' '}
+                          {r.sourcesCount.toString()} sources
+                        </Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                )}
+              </Field>
+            ) : (
+              <Field label="Aggregator ID">
+                <TextField.Root
+                  size="3"
+                  placeholder="0x..."
+                  value={aggregatorId}
+                  onChange={(e) => setAggregatorId(e.target.value)}
+                />
+                <Text size="1" className="opacity-60">
+                  The trigger is checked against the aggregator&apos;s current
+                  result when the claim is processed.
+                </Text>
+              </Field>
+            )}
+
+            {source === 'aggregated' && reading != null && (
+              <TriggerPreview policy={policy} reading={reading} />
+            )}
+
+            <Button variant="solid" size="3" onClick={handleSubmit}>
+              Submit claim
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <Text size="2" weight="bold">
+          Your claims
+        </Text>
+        {claims.isPending ? (
+          <Loading />
+        ) : (claims.data ?? []).length === 0 ? (
+          <div className="opacity-60">You have not filed any claims.</div>
+        ) : (
+          claims.data!.map((claim) => (
+            <ClaimRow
+              key={claim.id}
+              claim={claim}
+              policy={policies.data?.find((p) => p.id === claim.policyId)}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ClaimCenter
+
+const formatReading = (policy: IPolicy, reading: IAggregatedReading) =>
+  `${formatFixedPoint(reading.value, reading.decimalPlaces)} ${PERIL_TYPES.find((p) => p.value === policy.perilType)?.unit ?? ''}`.trim()
+
+const TriggerPreview: FC<{ policy: IPolicy; reading: IAggregatedReading }> = ({
+  policy,
+  reading,
+}) => {
+  const operator = TRIGGER_OPERATORS.find(
+    (o) => o.value === policy.triggerOperator
+  )
+  const threshold = `${operator?.label.toLowerCase()} ${formatFixedPoint(policy.triggerThreshold, ORACLE_DECIMAL_PLACES)}`
+
+  let met
+  try {
+    met = isTriggerMet(
+      policy.triggerOperator,
+      policy.triggerThreshold,
+      reading.value
+    )
+  } catch (e) {
+    if (!(e instanceof ClaimError)) throw e
+    return (
+      <Text size="2" className="text-red-400">
+        The contract would abort: {e.message.toLowerCase()}.
+      </Text>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <Line label="Trigger">{threshold}</Line>
+      <Line label="Reading">{formatReading(policy, reading)}</Line>
+      <Line label="Outcome">
+        {met ? (
+          <span className="text-green-500">
+            Trigger met, pays out {formatMist(policy.coverageAmount)}
+          </span>
+        ) : (
+          <span className="text-red-400">
+            Trigger not met, the claim will be rejected
+          </span>
+        )}
+      </Line>
+      {reading.decimalPlaces !== ORACLE_DECIMAL_PLACES && (
+        <Text size="1" className="opacity-60">
+          This reading has {reading.decimalPlaces} decimal places, but the
+          contract compares raw values against a threshold with{' '}
+          {ORACLE_DECIMAL_PLACES}.
+        </Text>
+      )}
+    </div>
+  )
+}
+
+const ClaimRow: FC<{ claim: IClaim; policy?: IPolicy }> = ({
+  claim,
+  policy,
+}) => {
+  const badge = STATUS_BADGES[claim.status as EClaimStatus]
+
+  return (
+    <div className="flex flex-col gap-1 rounded-md border border-current/20 p-3 text-sm">
+      <div className="flex flex-row items-center justify-between gap-3">
+        <span className="font-bold">
+          {policy != null ? policyName(policy) : claim.policyId}
+        </span>
+        <Badge color={badge?.color ?? 'gray'}>
+          {badge?.label ?? `Status ${claim.status}`}
+        </Badge>
+      </div>
+      <Line label="Payout">{formatMist(claim.payoutAmount)}</Line>
+      <Line label="Actual value">
+        {formatFixedPoint(claim.actualValue, claim.decimalPlaces)}
+      </Line>
+      <Line label="Trigger value">
+        {formatFixedPoint(claim.triggerValue, claim.decimalPlaces)}
+      </Line>
+      <Line label="Oracle sources">{claim.oracleSources.toString()}</Line>
+      <Line label="Processed in epoch">{claim.processedAt}</Line>
+    </div>
+  )
+}
+
+const Field: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <label className="flex flex-grow flex-col gap-1">
+    <Text size="2" weight="bold">
+      {label}
+    </Text>
+    {children}
+  </label>
+)
+
+const Line: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
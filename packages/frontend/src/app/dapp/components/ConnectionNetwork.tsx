@@ -0,0 +1,242 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
+import { Button, Link, Text } from '@radix-ui/themes'
+import { FC, ReactNode } from 'react'
+import Loading from '~~/components/Loading'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import {
+  prepareAcceptConnectionTransaction,
+  prepareApplyConnectionUpdatesTransaction,
+  prepareRejectConnectionTransaction,
+  prepareRequestConnectionTransaction,
+} from '~~/dapp/helpers/profileTransactions'
+import { profileUrl } from '~~/dapp/helpers/profiles'
+import useConnectionGraph from '~~/dapp/hooks/useConnectionGraph'
+import useConnectionRequests from '~~/dapp/hooks/useConnectionRequests'
+import useConnectionSuggestions from '~~/dapp/hooks/useConnectionSuggestions'
+import useConnectionUpdates from '~~/dapp/hooks/useConnectionUpdates'
+import useProfileTransact from '~~/dapp/hooks/useProfileTransact'
+import { IProfile } from '~~/dapp/types/IProfile'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The connections of a profile: first- and second-degree ones, and for its
+ * owner the requests to answer and "people you may know".
+ */
+const ConnectionNetwork: FC<{ profile: IProfile; onChange: () => void }> = ({
+  profile,
+  onChange,
+}) => {
+  const currentAccount = useCurrentAccount()
+  const isOwner = currentAccount?.address === profile.owner
+  const graph = useConnectionGraph(profile)
+
+  return (
+    <div className="flex flex-col gap-4">
+      {isOwner && <Inbox profile={profile} onChange={onChange} />}
+
+      {graph.isPending ? (
+        <Loading />
+      ) : graph.error ? (
+        <Text size="2">Error: {graph.error.message}</Text>
+      ) : (
+        <>
+          <Degree title="1st degree">
+            {graph.data.first.map((connection) => (
+              <ProfileLink key={connection.id} profile={connection} />
+            ))}
+          </Degree>
+          <Degree title="2nd degree">
+            {graph.data.second.map(({ profile: connection, via }) => (
+              <span key={connection.id}>
+                <ProfileLink profile={connection} />{' '}
+                <Text size="1" className="opacity-60">
+                  via {via.map((p) => p.name).join(', ')}
+                </Text>
+              </span>
+            ))}
+          </Degree>
+        </>
+      )}
+
+      {isOwner && <Suggestions profile={profile} />}
+
+      {isOwner && (
+        <Link href="/directory" size="2">
+          Find people in the directory
+        </Link>
+      )}
+    </div>
+  )
+}
+
+export default ConnectionNetwork
+
+const Inbox: FC<{ profile: IProfile; onChange: () => void }> = ({
+  profile,
+  onChange,
+}) => {
+  const requests = useConnectionRequests(profile.id)
+  const updates = useConnectionUpdates(profile.id)
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const { transact } = useProfileTransact(() => {
+    requests.refetch()
+    updates.refetch()
+    onChange()
+  })
+
+  const updateIds = (updates.data ?? []).map((u) => u.id)
+
+  return (
+    <>
+      {updateIds.length > 0 && (
+        <div className="flex flex-row items-center justify-between gap-3 text-sm">
+          <span>
+            {updateIds.length}{' '}
+            {updateIds.length === 1 ? 'connection has' : 'connections have'}{' '}
+            changed on the other side.
+          </span>
+          <Button
+            variant="soft"
+            size="1"
+            onClick={() =>
+              transact(
+                prepareApplyConnectionUpdatesTransaction(
+                  packageId,
+                  profile.id,
+                  updateIds
+                )
+              )
+            }
+          >
+            Apply
+          </Button>
+        </div>
+      )}
+
+      {(requests.data ?? []).length > 0 && (
+        <div className="flex flex-col gap-2">
+          <Text size="2" weight="bold">
+            Connection requests
+          </Text>
+          {requests.data!.map((request) => (
+            <div
+              key={request.id}
+              className="flex flex-row items-center justify-between gap-3 text-sm"
+            >
+              <Link href={profileUrl(request.fromProfileId)}>
+                {formatAddress(request.from)}
+              </Link>
+              <div className="flex flex-row gap-2">
+                <Button
+                  variant="soft"
+                  size="1"
+                  onClick={() =>
+                    transact(
+                      prepareAcceptConnectionTransaction(
+                        packageId,
+                        profile.id,
+                        request.id
+                      )
+                    )
+                  }
+                >
+                  Accept
+                </Button>
+                <Button
+                  variant="soft"
+                  color="gray"
+                  size="1"
+                  onClick={() =>
+                    transact(
+                      prepareRejectConnectionTransaction(
+                        packageId,
+                        profile.id,
+                        request.id
+                      )
+                    )
+                  }
+                >
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
+
+const Suggestions: FC<{ profile: IProfile }> = ({ profile }) => {
+  const suggestions = useConnectionSuggestions(profile)
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const { transact } = useProfileTransact(() => suggestions.refetch())
+
+  if (suggestions.data == null || suggestions.data.length === 0) return null
+
+  return (
+    <Degree title="People you may know">
+      {suggestions.data.map(
+        ({ profile: suggested, sharedSkills, sameLocation }) => (
+          <div
+            key={suggested.id}
+            className="flex flex-row items-center justify-between gap-3"
+          >
+            <span>
+              <ProfileLink profile={suggested} />{' '}
+              <Text size="1" className="opacity-60">
+                {[
+                  sharedSkills.length > 0 &&
+                    `Shares ${sharedSkills.join(', ')}`,
+                  sameLocation && `Also in ${suggested.location}`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </span>
+            <Button
+              variant="soft"
+              size="1"
+              onClick={() =>
+                transact(
+                  prepareRequestConnectionTransaction(
+                    packageId,
+                    profile.id,
+                    suggested.id
+                  )
+                )
+              }
+            >
+              Connect
+            </Button>
+          </div>
+        )
+      )}
+    </Degree>
+  )
+}
+
+const Degree: FC<{ title: string; children: ReactNode[] }> = ({
+  title,
+  children,
+}) => (
+  <div className="flex flex-col gap-1 text-sm">
+    <Text size="1" weight="bold" className="uppercase opacity-60">
+      {title}
+    </Text>
+    {children.length === 0 ? (
+      <span className="opacity-60">Nobody yet.</span>
+    ) : (
+      children
+    )}
+  </div>
+)
+
+const ProfileLink: FC<{ profile: IProfile }> = ({ profile }) => (
+  <Link href={profileUrl(profile.id)}>{profile.name}</Link>
+)
@@ -0,0 +1,185 @@
+'use client'
+
+import { Text } from '@radix-ui/themes'
+import { FC, PropsWithChildren } from 'react'
+import Loading from '~~/components/Loading'
+import NotDeployed from '~~/components/NotDeployed'
+import { LIQUIDITY_POOL_VARIABLE_NAME } from '~~/config/network'
+import RateChart from '~~/dapp/components/RateChart'
+import { formatMist } from '~~/dapp/helpers/insurance'
+import {
+  calculateUtilization,
+  fundingCurve,
+  fundingRateAt,
+  FundingRateError,
+  LP_PAYS_BELOW_UTILIZATION,
+  TARGET_UTILIZATION,
+} from '~~/dapp/helpers/fundingRate'
+import useFundingRate from '~~/dapp/hooks/useFundingRate'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+const percent = (basisPoints: bigint | number) =>
+  `${(Number(basisPoints) / 100).toFixed(2)}%`
+
+const signed = (rate: bigint, direction: boolean) =>
+  direction ? Number(rate) : -Number(rate)
+
+const describeDirection = (rate: bigint, direction: boolean) => {
+  if (rate === BigInt(0)) return 'Nobody pays'
+  return direction ? 'Policyholders pay LPs' : 'LPs pay policyholders'
+}
+
+const FundingRateExplorer = () => {
+  const { data, isPending, error } = useFundingRate()
+  const { useNetworkVariable } = useNetworkConfig()
+  const liquidityPoolId = useNetworkVariable(LIQUIDITY_POOL_VARIABLE_NAME)
+
+  if (!isDeployed(liquidityPoolId)) return <NotDeployed name="liquidity pool" />
+
+  if (isPending) return <Loading />
+
+  if (error) {
+    return (
+      <div className="text-center text-red-400">
+        Funding rates could not be loaded: {error.message}
+      </div>
+    )
+  }
+
+  let utilization: bigint | null = null
+  try {
+    utilization = calculateUtilization(
+      data.totalInsuredValue,
+      data.totalLiquidity
+    )
+  } catch (e) {
+    if (!(e instanceof FundingRateError)) throw e
+  }
+  const next = utilization == null ? null : fundingRateAt(utilization)
+  const maxUtilization =
+    utilization != null && utilization > BigInt(14000)
+      ? utilization + BigInt(1000)
+      : BigInt(15000)
+  const curve = fundingCurve(maxUtilization).map((q) => ({
+    x: Number(q.utilization),
+    y: signed(q.rate, q.direction),
+  }))
+  const chronological = [...data.history].reverse()
+  const history = chronological.map((update, i) => ({
+    x: i,
+    y: signed(update.rate, update.direction),
+  }))
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-2xl">
+      <h1 className="from-sds-blue to-sds-pink bg-gradient-to-r bg-clip-text text-center text-3xl !leading-tight font-bold text-transparent">
+        Funding rates
+      </h1>
+
+      <Section title="Utilization">
+        <Line label="Total insured value">
+          {formatMist(data.totalInsuredValue)}
+        </Line>
+        <Line label="Pool liquidity">{formatMist(data.totalLiquidity)}</Line>
+        <Line label="Utilization">
+          {utilization == null
+            ? 'Too large to compute on chain'
+            : percent(utilization)}
+        </Line>
+        {next != null && (
+          <Line label="Next update would set">
+            {percent(next.rate)}: {describeDirection(next.rate, next.direction)}
+          </Line>
+        )}
+        <RateChart
+          points={curve}
+          markerX={utilization == null ? undefined : Number(utilization)}
+          formatX={percent}
+          xLabel="Utilization"
+        />
+        <Text size="1" className="opacity-60">
+          Above {percent(TARGET_UTILIZATION)} utilization policyholders pay LPs
+          0.5% plus 0.01% per point above target. Between{' '}
+          {percent(LP_PAYS_BELOW_UTILIZATION)} and {percent(TARGET_UTILIZATION)}{' '}
+          nobody pays. Below {percent(LP_PAYS_BELOW_UTILIZATION)} LPs pay
+          policyholders to attract coverage. Rates are charged on the coverage
+          of each policy.
+        </Text>
+      </Section>
+
+      <Section title="Current rate">
+        {data.live == null ? (
+          <div className="opacity-60">No funding rate was set yet.</div>
+        ) : (
+          <>
+            <Line label="Rate">
+              {percent(data.live.rate)}:{' '}
+              {describeDirection(data.live.rate, data.live.direction)}
+            </Line>
+            <Line label="Set in epoch">{data.live.calculatedAt}</Line>
+            <Line label="Valid until epoch">
+              <span
+                className={
+                  data.currentEpoch > data.live.validUntil ? 'text-red-400' : ''
+                }
+              >
+                {data.live.validUntil}
+                {data.currentEpoch > data.live.validUntil &&
+                  ' (expired, payments abort until the next update)'}
+              </span>
+            </Line>
+            <Line label="Current epoch">{data.currentEpoch}</Line>
+          </>
+        )}
+      </Section>
+
+      <Section title="History">
+        {data.history.length === 0 ? (
+          <div className="opacity-60">No updates yet.</div>
+        ) : (
+          <>
+            <RateChart
+              points={history}
+              formatX={(i) => `epoch ${chronological[i]?.calculatedAt}`}
+              xLabel="Update"
+            />
+            {data.history.map((update) => (
+              <Line
+                key={update.txDigest}
+                label={`Epoch ${update.calculatedAt}`}
+              >
+                {percent(update.rate)}:{' '}
+                {describeDirection(update.rate, update.direction)}
+              </Line>
+            ))}
+          </>
+        )}
+      </Section>
+    </div>
+  )
+}
+
+export default FundingRateExplorer
+
+const Section: FC<PropsWithChildren<{ title: string }>> = ({
+  title,
+  children,
+}) => (
+  <div className="flex flex-col gap-1 text-sm">
+    <Text size="2" weight="bold">
+      {title}
+    </Text>
+    {children}
+  </div>
+)
+
+const Line: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
@@ -13,6 +13,7 @@ import {
   EXPLORER_URL_VARIABLE_NAME,
 } from '~~/config/network'
 import AnimalEmoji from '~~/dapp/components/Emoji'
+import { toGreeting } from '~~/dapp/helpers/greeting'
 import {
   prepareCreateGreetingTransaction,
   prepareResetGreetingTransaction,
@@ -20,7 +21,6 @@ import {
 } from '~~/dapp/helpers/transactions'
 import useOwnGreeting from '~~/dapp/hooks/useOwnGreeting'
 import {
-  getResponseContentField,
   getResponseDisplayField,
   getResponseObjectId,
   transactionUrl,
@@ -129,6 +129,9 @@ const GreetingForm = () => {
 
   if (!data.data) return <TextMessage>Not found</TextMessage>
 
+  const greeting =
+    data.data.length === 0 ? null : toGreeting(data.data[0], packageId)
+
   return (
     <div className="my-2 flex flex-grow flex-col items-center justify-center">
       {data.data.length === 0 ? (
@@ -139,14 +142,11 @@ const GreetingForm = () => {
         </div>
       ) : (
         <div>
-          {getResponseContentField(data.data[0], 'name')?.length !== 0 ? (
+          {greeting?.name.length !== 0 ? (
             <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-lg">
               <h1 className="bg-gradient-to-r from-sds-blue to-sds-pink bg-clip-text text-center text-4xl font-bold !leading-tight text-transparent sm:text-5xl">
-                Greetings from{' '}
-                <AnimalEmoji
-                  index={Number(getResponseContentField(data.data[0], 'emoji'))}
-                />
-                , {getResponseContentField(data.data[0], 'name')}!
+                Greetings from <AnimalEmoji index={greeting?.emoji ?? 0} />,{' '}
+                {greeting?.name}!
               </h1>
 
               <div className="my-3 flex flex-col items-center justify-center">
@@ -0,0 +1,218 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { Button, Text, TextField } from '@radix-ui/themes'
+import useTransact from '@suiware/kit/useTransact'
+import { FC, PropsWithChildren, useState } from 'react'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import Loading from '~~/components/Loading'
+import NotDeployed from '~~/components/NotDeployed'
+import {
+  EXPLORER_URL_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  LIQUIDITY_POOL_VARIABLE_NAME,
+} from '~~/config/network'
+import { formatMist, suiToMist } from '~~/dapp/helpers/insurance'
+import {
+  LiquidityPoolError,
+  previewDeposit,
+  previewWithdrawal,
+} from '~~/dapp/helpers/liquidityPool'
+import {
+  prepareAddLiquidityTransaction,
+  prepareRemoveLiquidityTransaction,
+} from '~~/dapp/helpers/transactions'
+import useLiquidityPool from '~~/dapp/hooks/useLiquidityPool'
+import { ILiquidityPool } from '~~/dapp/types/ILiquidityPool'
+import { isDeployed, transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+const LiquidityConsole = () => {
+  const currentAccount = useCurrentAccount()
+  const [amount, setAmount] = useState<string>('')
+  const [notificationId, setNotificationId] = useState<string>()
+  const { data, isPending, error, refetch } = useLiquidityPool()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const liquidityPoolId = useNetworkVariable(LIQUIDITY_POOL_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+
+  const { transact } = useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      setAmount('')
+      refetch()
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+
+  if (currentAccount == null) return <CustomConnectButton />
+
+  if (!isDeployed(liquidityPoolId)) return <NotDeployed name="liquidity pool" />
+
+  if (isPending) return <Loading />
+
+  if (error) {
+    return (
+      <div className="text-center text-red-400">
+        The liquidity pool could not be loaded: {error.message}
+      </div>
+    )
+  }
+
+  const { pool, tokens } = data
+  const depositAmount = suiToMist(amount)
+  const ownShares = tokens.reduce((sum, token) => sum + token.shares, BigInt(0))
+
+  const handleDeposit = () => {
+    if (depositAmount == null || depositAmount === BigInt(0)) {
+      notification.error(null, 'Enter the amount to deposit in SUI')
+      return
+    }
+
+    transact(
+      prepareAddLiquidityTransaction(packageId, liquidityPoolId, depositAmount)
+    )
+  }
+
+  const handleWithdraw = (lpTokenId: string) => {
+    transact(
+      prepareRemoveLiquidityTransaction(packageId, liquidityPoolId, lpTokenId)
+    )
+  }
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-lg">
+      <h1 className="from-sds-blue to-sds-pink bg-gradient-to-r bg-clip-text text-center text-3xl !leading-tight font-bold text-transparent">
+        Liquidity pool
+      </h1>
+
+      <div className="flex flex-col gap-1 text-sm">
+        <Line label="Total value locked">
+          {formatMist(pool.totalLiquidity)}
+        </Line>
+        <Line label="Total shares">{pool.totalShares.toString()}</Line>
+        <Line label="Your shares">
+          {ownShares.toString()} ({sharePercent(pool, ownShares)})
+        </Line>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Text size="2" weight="bold">
+          Deposit
+        </Text>
+        <div className="flex flex-row gap-2">
+          <TextField.Root
+            className="flex-grow"
+            size="3"
+            placeholder="100"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          >
+            <TextField.Slot side="right">SUI</TextField.Slot>
+          </TextField.Root>
+          <Button variant="solid" size="3" onClick={handleDeposit}>
+            Deposit
+          </Button>
+        </div>
+        {depositAmount != null && depositAmount > BigInt(0) && (
+          <Text size="1" className="opacity-60">
+            <Preview run={() => depositPreview(pool, depositAmount)} />
+          </Text>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Text size="2" weight="bold">
+          Your positions
+        </Text>
+        {tokens.length === 0 ? (
+          <div className="opacity-60">You hold no LP tokens.</div>
+        ) : (
+          tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex flex-row items-center justify-between gap-3 text-sm"
+            >
+              <span>
+                {token.shares.toString()} shares
+                <span className="opacity-60">
+                  {' '}
+                  <Preview
+                    run={() =>
+                      `redeem for ${formatMist(previewWithdrawal(pool, token.shares))}`
+                    }
+                  />
+                </span>
+              </span>
+              <Button
+                variant="soft"
+                size="1"
+                onClick={() => handleWithdraw(token.id)}
+              >
+                Withdraw
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LiquidityConsole
+
+const depositPreview = (pool: ILiquidityPool, amount: bigint) => {
+  const shares = previewDeposit(pool, amount)
+
+  if (shares === BigInt(0)) {
+    return 'This deposit is too small to mint a share.'
+  }
+
+  return `Mints ${shares} shares, ${sharePercent(
+    {
+      ...pool,
+      totalShares: pool.totalShares + shares,
+    },
+    shares
+  )} of the pool.`
+}
+
+const sharePercent = (pool: ILiquidityPool, shares: bigint) => {
+  if (pool.totalShares === BigInt(0)) return '0%'
+
+  // Two decimals, computed in basis points to stay in integers.
+  const basisPoints = (shares * BigInt(10000)) / pool.totalShares
+  return `${(Number(basisPoints) / 100).toFixed(2)}%`
+}
+
+// The contract aborts where the previews throw, so say so instead.
+const Preview: FC<{ run: () => string }> = ({ run }) => {
+  try {
+    return <>{run()}</>
+  } catch (e) {
+    if (!(e instanceof LiquidityPoolError)) throw e
+    return <>The pool would abort: {e.message.toLowerCase()}.</>
+  }
+}
+
+const Line: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
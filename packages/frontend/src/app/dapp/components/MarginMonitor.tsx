@@ -0,0 +1,93 @@
+'use client'
+
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import useTransact from '@suiware/kit/useTransact'
+import { useQueryClient } from '@tanstack/react-query'
+import { useEffect, useRef, useState } from 'react'
+import {
+  EXPLORER_URL_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+} from '~~/config/network'
+import { LOCATIONS, PERIL_TYPES } from '~~/dapp/config/insurance'
+import { formatMist } from '~~/dapp/helpers/insurance'
+import { IMarginAssessment, TMarginStatus } from '~~/dapp/helpers/marginMonitor'
+import { prepareAddCollateralTransaction } from '~~/dapp/helpers/transactions'
+import useMarginMonitor from '~~/dapp/hooks/useMarginMonitor'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Raises a margin call with a one-click top-up whenever one of the connected
+ * wallet's policies becomes at risk or undercollateralized. Renders nothing.
+ */
+const MarginMonitor = () => {
+  const { data: assessments, refetch } = useMarginMonitor()
+  const queryClient = useQueryClient()
+  const lastStatus = useRef(new Map<string, TMarginStatus>())
+  const [notificationId, setNotificationId] = useState<string>()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+
+  const { transact: topUp } = useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      refetch()
+      queryClient.invalidateQueries({ queryKey: ['policies'] })
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+
+  useEffect(() => {
+    for (const assessment of assessments ?? []) {
+      const { policy, status } = assessment
+      const previous = lastStatus.current.get(policy.id) ?? 'healthy'
+      lastStatus.current.set(policy.id, status)
+
+      if (status === previous || status === 'healthy') continue
+
+      notification.marginCall(
+        marginCallMessage(assessment),
+        `Top up ${formatMist(assessment.suggestedTopUp)}`,
+        () =>
+          topUp(
+            prepareAddCollateralTransaction(
+              packageId,
+              policy.id,
+              assessment.suggestedTopUp
+            )
+          ),
+        `margin-call-${policy.id}`
+      )
+    }
+  }, [assessments, packageId, topUp])
+
+  return <></>
+}
+
+export default MarginMonitor
+
+const marginCallMessage = ({
+  policy,
+  status,
+  drainsToMargin,
+}: IMarginAssessment & { policy: IPolicy }) => {
+  const name = `${PERIL_TYPES.find((p) => p.value === policy.perilType)?.label ?? policy.perilType} cover in ${LOCATIONS.find((l) => l.value === policy.location)?.label ?? policy.location}`
+
+  if (status === 'undercollateralized') {
+    return `Margin call: your ${name} holds ${formatMist(policy.collateralBalance)}, below its ${formatMist(policy.marginRequirement)} margin. Funding payments will fail until you top up.`
+  }
+
+  return `Your ${name} is ${drainsToMargin} withdrawals away from its ${formatMist(policy.marginRequirement)} margin.`
+}
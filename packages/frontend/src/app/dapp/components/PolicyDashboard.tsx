@@ -0,0 +1,232 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { Badge, Button, Link, TextField } from '@radix-ui/themes'
+import useTransact from '@suiware/kit/useTransact'
+import { FC, PropsWithChildren, useState } from 'react'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import Loading from '~~/components/Loading'
+import {
+  EXPLORER_URL_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  LOCATIONS,
+  ORACLE_DECIMAL_PLACES,
+  PERIL_TYPES,
+  TRIGGER_OPERATORS,
+} from '~~/dapp/config/insurance'
+import {
+  formatFixedPoint,
+  formatMist,
+  suiToMist,
+} from '~~/dapp/helpers/insurance'
+import {
+  isUndercollateralized,
+  withdrawableCollateral,
+} from '~~/dapp/helpers/policies'
+import {
+  prepareAddCollateralTransaction,
+  prepareRemoveCollateralTransaction,
+  prepareTerminatePolicyTransaction,
+} from '~~/dapp/helpers/transactions'
+import usePolicies from '~~/dapp/hooks/usePolicies'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+const PolicyDashboard = () => {
+  const currentAccount = useCurrentAccount()
+  const { data: policies, isPending, error, refetch } = usePolicies()
+
+  if (currentAccount == null) return <CustomConnectButton />
+
+  if (isPending) return <Loading />
+
+  if (error) {
+    return (
+      <div className="text-center text-red-400">
+        Your policies could not be loaded: {error.message}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-2xl">
+      <div className="flex flex-row items-center justify-between gap-3">
+        <h1 className="from-sds-blue to-sds-pink bg-gradient-to-r bg-clip-text text-3xl !leading-tight font-bold text-transparent">
+          My policies
+        </h1>
+        <div className="flex flex-row gap-3">
+          <Link href="/claims">File a claim</Link>
+          <Link href="/policies/new">Buy a policy</Link>
+        </div>
+      </div>
+
+      {policies.length === 0 ? (
+        <div className="text-center opacity-60">You have no policies yet.</div>
+      ) : (
+        policies.map((policy) => (
+          <PolicyRow key={policy.id} policy={policy} onChange={refetch} />
+        ))
+      )}
+    </div>
+  )
+}
+
+export default PolicyDashboard
+
+const PolicyRow: FC<{ policy: IPolicy; onChange: () => void }> = ({
+  policy,
+  onChange,
+}) => {
+  const [amount, setAmount] = useState<string>('')
+  const [notificationId, setNotificationId] = useState<string>()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+
+  const location = LOCATIONS.find((l) => l.value === policy.location)
+  const peril = PERIL_TYPES.find((p) => p.value === policy.perilType)
+  const operator = TRIGGER_OPERATORS.find(
+    (o) => o.value === policy.triggerOperator
+  )
+  const undercollateralized = isUndercollateralized(policy)
+  const withdrawable = withdrawableCollateral(policy)
+
+  const { transact } = useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      setAmount('')
+      onChange()
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+
+  const parseAmount = () => {
+    const value = suiToMist(amount)
+    if (value == null || value === BigInt(0)) {
+      notification.error(null, 'Enter an amount in SUI')
+      return null
+    }
+    return value
+  }
+
+  const handleAddCollateral = () => {
+    const value = parseAmount()
+    if (value == null) return
+
+    transact(prepareAddCollateralTransaction(packageId, policy.id, value))
+  }
+
+  const handleRemoveCollateral = () => {
+    const value = parseAmount()
+    if (value == null) return
+
+    // remove_collateral only releases collateral above the margin.
+    if (value > withdrawable) {
+      notification.error(
+        null,
+        `At most ${formatMist(withdrawable)} can be withdrawn`
+      )
+      return
+    }
+
+    transact(prepareRemoveCollateralTransaction(packageId, policy.id, value))
+  }
+
+  const handleTerminate = () => {
+    transact(
+      prepareTerminatePolicyTransaction(packageId, policyRegistryId, policy.id)
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border border-current/20 p-4">
+      <div className="flex flex-row items-center justify-between gap-3">
+        <span className="font-bold">
+          {peril?.label ?? policy.perilType} in{' '}
+          {location?.label ?? policy.location}
+        </span>
+        {policy.active ? (
+          undercollateralized ? (
+            <Badge color="red">Undercollateralized</Badge>
+          ) : (
+            <Badge color="green">Active</Badge>
+          )
+        ) : (
+          <Badge color="gray">Terminated</Badge>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1 text-sm">
+        <Line label="Coverage">{formatMist(policy.coverageAmount)}</Line>
+        <Line label="Trigger">
+          {operator?.label ?? `Operator ${policy.triggerOperator}`}{' '}
+          {formatFixedPoint(policy.triggerThreshold, ORACLE_DECIMAL_PLACES)}{' '}
+          {peril?.unit}
+        </Line>
+        <Line label="Collateral / margin">
+          <span className={undercollateralized ? 'text-red-400' : ''}>
+            {formatMist(policy.collateralBalance)}
+          </span>{' '}
+          / {formatMist(policy.marginRequirement)}
+        </Line>
+        <Line label="Funding paid / received">
+          {formatMist(policy.fundingRatePaid)} /{' '}
+          {formatMist(policy.fundingRateReceived)}
+        </Line>
+      </div>
+
+      {policy.active && (
+        <div className="flex flex-row flex-wrap gap-2">
+          <TextField.Root
+            className="flex-grow"
+            size="2"
+            placeholder="Amount"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          >
+            <TextField.Slot side="right">SUI</TextField.Slot>
+          </TextField.Root>
+          <Button variant="soft" onClick={handleAddCollateral}>
+            Add
+          </Button>
+          <Button
+            variant="soft"
+            disabled={withdrawable === BigInt(0)}
+            onClick={handleRemoveCollateral}
+          >
+            Withdraw
+          </Button>
+          <Button variant="soft" color="red" onClick={handleTerminate}>
+            Terminate
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const Line: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
@@ -0,0 +1,412 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SUI_DECIMALS } from '@mysten/sui/utils'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { Button, Link, Select, Text, TextField } from '@radix-ui/themes'
+import useTransact from '@suiware/kit/useTransact'
+import { ChangeEvent, FC, PropsWithChildren, useState } from 'react'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import Loading from '~~/components/Loading'
+import {
+  EXPLORER_URL_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+  RISK_PARAMETERS_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  LOCATIONS,
+  ORACLE_DECIMAL_PLACES,
+  PERIL_TYPES,
+  TRIGGER_OPERATORS,
+} from '~~/dapp/config/insurance'
+import {
+  formatFixedPoint,
+  formatMist,
+  isValidCoordinate,
+  parseFixedPoint,
+  suiToMist,
+} from '~~/dapp/helpers/insurance'
+import { prepareCreatePolicyTransaction } from '~~/dapp/helpers/transactions'
+import PremiumQuote from '~~/dapp/components/PremiumQuote'
+import useMarginRequirement from '~~/dapp/hooks/useMarginRequirement'
+import { ETriggerOperator } from '~~/dapp/types/ETriggerOperator'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+const STEPS = ['Location & peril', 'Terms', 'Margin', 'Collateral']
+
+interface IPolicyDraft {
+  location: string
+  perilType: string
+  latitude: string
+  longitude: string
+  coverage: string
+  triggerThreshold: string
+  triggerOperator: ETriggerOperator
+  collateral: string
+}
+
+const EMPTY_DRAFT: IPolicyDraft = {
+  location: '',
+  perilType: '',
+  latitude: '',
+  longitude: '',
+  coverage: '',
+  triggerThreshold: '',
+  triggerOperator: ETriggerOperator.LESS_THAN,
+  collateral: '',
+}
+
+const PolicyWizard = () => {
+  const currentAccount = useCurrentAccount()
+  const [step, setStep] = useState<number>(0)
+  const [draft, setDraft] = useState<IPolicyDraft>(EMPTY_DRAFT)
+  const [notificationId, setNotificationId] = useState<string>()
+  const [digest, setDigest] = useState<string>()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const riskParametersId = useNetworkVariable(RISK_PARAMETERS_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+
+  const coverageAmount = suiToMist(draft.coverage)
+  const margin = useMarginRequirement(
+    draft.location,
+    draft.perilType,
+    step >= 2 ? coverageAmount : null
+  )
+  const peril = PERIL_TYPES.find((p) => p.value === draft.perilType)
+
+  const { transact: createPolicy } = useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      setDigest(data.digest)
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+
+  const update =
+    (field: keyof IPolicyDraft) => (e: ChangeEvent<HTMLInputElement>) => {
+      setDraft({ ...draft, [field]: e.target.value })
+    }
+
+  const validateStep = (): string | null => {
+    switch (step) {
+      case 0:
+        if (draft.location === '') return 'Choose a location'
+        if (draft.perilType === '') return 'Choose a peril'
+        return null
+      case 1:
+        if (
+          !isValidCoordinate(
+            parseFloat(draft.latitude),
+            parseFloat(draft.longitude)
+          )
+        ) {
+          return 'Enter a latitude in [-90, 90] and a longitude in [-180, 180]'
+        }
+        if (coverageAmount == null || coverageAmount === BigInt(0)) {
+          return 'Enter the coverage amount in SUI'
+        }
+        if (
+          parseFixedPoint(draft.triggerThreshold, ORACLE_DECIMAL_PLACES) == null
+        ) {
+          return 'Enter the trigger threshold'
+        }
+        return null
+      case 2:
+        if (margin.data == null) return 'Wait for the margin requirement'
+        return null
+      default:
+        return null
+    }
+  }
+
+  const handleNext = () => {
+    const error = validateStep()
+    if (error != null) {
+      notification.error(null, error)
+      return
+    }
+
+    if (step === 2 && draft.collateral === '') {
+      setDraft({
+        ...draft,
+        collateral: formatFixedPoint(margin.data!, SUI_DECIMALS),
+      })
+    }
+    setStep(step + 1)
+  }
+
+  const handleSubmit = () => {
+    const collateralAmount = suiToMist(draft.collateral)
+
+    if (collateralAmount == null) {
+      notification.error(null, 'Enter the collateral amount in SUI')
+      return
+    }
+
+    if (margin.data != null && collateralAmount < margin.data) {
+      notification.error(
+        null,
+        `Collateral must cover the margin of ${formatMist(margin.data)}`
+      )
+      return
+    }
+
+    createPolicy(
+      prepareCreatePolicyTransaction(
+        packageId,
+        policyRegistryId,
+        riskParametersId,
+        {
+          location: draft.location,
+          latitude: parseFloat(draft.latitude),
+          longitude: parseFloat(draft.longitude),
+          perilType: draft.perilType,
+          perilDetails: JSON.stringify({ unit: peril?.unit }),
+          coverageAmount: coverageAmount!,
+          triggerThreshold: parseFixedPoint(
+            draft.triggerThreshold,
+            ORACLE_DECIMAL_PLACES
+          )!,
+          triggerOperator: draft.triggerOperator,
+          collateralAmount,
+        }
+      )
+    )
+  }
+
+  const handleStartOver = () => {
+    setDraft(EMPTY_DRAFT)
+    setDigest(undefined)
+    setStep(0)
+  }
+
+  if (currentAccount == null) return <CustomConnectButton />
+
+  if (digest != null) {
+    return (
+      <div className="flex w-full max-w-xs flex-col items-center gap-6 px-2 sm:max-w-lg">
+        <h1 className="from-sds-blue to-sds-pink bg-gradient-to-r bg-clip-text text-center text-3xl !leading-tight font-bold text-transparent">
+          Your policy is active
+        </h1>
+        <Button variant="solid" size="4" onClick={handleStartOver}>
+          Buy another policy
+        </Button>
+        <Link href="/policies">View my policies</Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-lg">
+      <ol className="flex flex-row justify-between gap-2 text-sm">
+        {STEPS.map((title, i) => (
+          <li
+            key={title}
+            className={i === step ? 'text-sds-blue font-bold' : 'opacity-60'}
+          >
+            {i + 1}. {title}
+          </li>
+        ))}
+      </ol>
+
+      {step === 0 && (
+        <>
+          <Field label="Location">
+            <Select.Root
+              value={draft.location}
+              onValueChange={(location) => setDraft({ ...draft, location })}
+            >
+              <Select.Trigger placeholder="Choose a region..." />
+              <Select.Content>
+                {LOCATIONS.map(({ value, label }) => (
+                  <Select.Item key={value} value={value}>
+                    {label}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          </Field>
+          <Field label="Peril">
+            <Select.Root
+              value={draft.perilType}
+              onValueChange={(perilType) => setDraft({ ...draft, perilType })}
+            >
+              <Select.Trigger placeholder="Choose a peril..." />
+              <Select.Content>
+                {PERIL_TYPES.map(({ value, label }) => (
+                  <Select.Item key={value} value={value}>
+                    {label}
+                  </Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          </Field>
+        </>
+      )}
+
+      {step === 1 && (
+        <>
+          <div className="flex flex-row gap-3">
+            <Field label="Latitude">
+              <TextField.Root
+                size="3"
+                placeholder="-1.2921"
+                value={draft.latitude}
+                onChange={update('latitude')}
+              />
+            </Field>
+            <Field label="Longitude">
+              <TextField.Root
+                size="3"
+                placeholder="36.8219"
+                value={draft.longitude}
+                onChange={update('longitude')}
+              />
+            </Field>
+          </div>
+          <Field label="Coverage (SUI)">
+            <TextField.Root
+              size="3"
+              placeholder="100"
+              value={draft.coverage}
+              onChange={update('coverage')}
+            />
+          </Field>
+          <Field label={`Pay out when ${peril?.label.toLowerCase()}`}>
+            <div className="flex flex-row gap-3">
+              <Select.Root
+                value={String(draft.triggerOperator)}
+                onValueChange={(value) =>
+                  setDraft({ ...draft, triggerOperator: Number(value) })
+                }
+              >
+                <Select.Trigger />
+                <Select.Content>
+                  {TRIGGER_OPERATORS.map(({ value, label }) => (
+                    <Select.Item key={value} value={String(value)}>
+                      {label}
+                    </Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+              <TextField.Root
+                className="flex-grow"
+                size="3"
+                placeholder="25"
+                value={draft.triggerThreshold}
+                onChange={update('triggerThreshold')}
+              >
+                <TextField.Slot side="right">{peril?.unit}</TextField.Slot>
+              </TextField.Root>
+            </div>
+          </Field>
+          <PremiumQuote
+            location={draft.location}
+            perilType={draft.perilType}
+            coverageAmount={coverageAmount}
+          />
+        </>
+      )}
+
+      {step === 2 && (
+        <div className="flex flex-col gap-2">
+          <Summary label="Location">
+            {LOCATIONS.find((l) => l.value === draft.location)?.label} (
+            {draft.latitude}, {draft.longitude})
+          </Summary>
+          <Summary label="Coverage">
+            {formatMist(coverageAmount ?? BigInt(0))}
+          </Summary>
+          <Summary label="Trigger">
+            {peril?.label}{' '}
+            {TRIGGER_OPERATORS.find(
+              (o) => o.value === draft.triggerOperator
+            )?.label.toLowerCase()}{' '}
+            {draft.triggerThreshold} {peril?.unit}
+          </Summary>
+          <Summary label="Margin requirement (on chain)">
+            {margin.isPending ? (
+              <Loading />
+            ) : margin.error ? (
+              <span className="text-red-400">{margin.error.message}</span>
+            ) : (
+              formatMist(margin.data)
+            )}
+          </Summary>
+        </div>
+      )}
+
+      {step === 3 && (
+        <Field label="Collateral (SUI)">
+          <TextField.Root
+            size="3"
+            value={draft.collateral}
+            onChange={update('collateral')}
+          />
+          <Text size="1" className="opacity-60">
+            At least {formatMist(margin.data ?? BigInt(0))}. Collateral above
+            the margin can be withdrawn later.
+          </Text>
+        </Field>
+      )}
+
+      <div className="flex flex-row justify-between gap-3">
+        <Button
+          variant="soft"
+          size="3"
+          disabled={step === 0}
+          onClick={() => setStep(step - 1)}
+        >
+          Back
+        </Button>
+        {step < STEPS.length - 1 ? (
+          <Button variant="solid" size="3" onClick={handleNext}>
+            Next
+          </Button>
+        ) : (
+          <Button variant="solid" size="3" onClick={handleSubmit}>
+            Buy policy
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PolicyWizard
+
+const Field: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <label className="flex flex-grow flex-col gap-1">
+    <Text size="2" weight="bold">
+      {label}
+    </Text>
+    {children}
+  </label>
+)
+
+const Summary: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
@@ -0,0 +1,114 @@
+'use client'
+
+import { FC, PropsWithChildren } from 'react'
+import Loading from '~~/components/Loading'
+import { RISK_MODEL_VARIABLE_NAME } from '~~/config/network'
+import { formatMist } from '~~/dapp/helpers/insurance'
+import {
+  calculateMarginRequirement,
+  calculatePremium,
+  currentMonth,
+  PremiumCalculationError,
+} from '~~/dapp/helpers/premium'
+import useRiskTables from '~~/dapp/hooks/useRiskTables'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface IPremiumQuoteProps {
+  location: string
+  perilType: string
+  coverageAmount: bigint | null
+}
+
+/**
+ * An itemized quote priced locally from the live risk tables, so it updates
+ * as the user types.
+ */
+const PremiumQuote: FC<IPremiumQuoteProps> = ({
+  location,
+  perilType,
+  coverageAmount,
+}) => {
+  const { data, isPending, error } = useRiskTables()
+  const { useNetworkVariable } = useNetworkConfig()
+  const riskModelId = useNetworkVariable(RISK_MODEL_VARIABLE_NAME)
+
+  if (coverageAmount == null || coverageAmount === BigInt(0)) return <></>
+
+  if (!isDeployed(riskModelId)) {
+    return (
+      <QuoteMessage>
+        Quotes are unavailable until a risk model is deployed to this network.
+      </QuoteMessage>
+    )
+  }
+
+  if (isPending) return <Loading />
+
+  if (error) {
+    return <QuoteMessage>Quotes are unavailable: {error.message}</QuoteMessage>
+  }
+
+  let quote, margin
+  try {
+    quote = calculatePremium(
+      data.model,
+      location,
+      perilType,
+      coverageAmount,
+      currentMonth()
+    )
+    margin = calculateMarginRequirement(
+      data.parameters,
+      location,
+      perilType,
+      coverageAmount
+    )
+  } catch (e) {
+    if (!(e instanceof PremiumCalculationError)) throw e
+
+    // The same call would abort on chain.
+    return (
+      <QuoteMessage>
+        The risk model cannot price this coverage: {e.message.toLowerCase()}.
+      </QuoteMessage>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <Line label="Base premium">{formatMist(quote.basePremium)}</Line>
+      <Line label="Location adjustment">
+        +{formatMist(quote.locationAdjustment)}
+      </Line>
+      <Line label="Peril adjustment">+{formatMist(quote.perilAdjustment)}</Line>
+      <Line label="Seasonal adjustment">
+        +{formatMist(quote.seasonalAdjustment)}
+      </Line>
+      <Line label="Coverage adjustment">
+        +{formatMist(quote.coverageAdjustment)}
+      </Line>
+      <Line label="Annual premium">
+        <span className="font-bold">{formatMist(quote.finalPremium)}</span>
+      </Line>
+      <Line label="Daily funding rate">{quote.fundingRate.toString()} bps</Line>
+      <Line label="Margin requirement">{formatMist(margin)}</Line>
+    </div>
+  )
+}
+
+export default PremiumQuote
+
+const Line: FC<PropsWithChildren<{ label: string }>> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-row justify-between gap-3">
+    <span className="opacity-60">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+)
+
+const QuoteMessage: FC<PropsWithChildren> = ({ children }) => (
+  <div className="text-center opacity-60">{children}</div>
+)
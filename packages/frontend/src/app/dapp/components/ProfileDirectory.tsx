@@ -0,0 +1,228 @@
+'use client'
+
+import {
+  Avatar,
+  Badge,
+  Button,
+  Link,
+  Select,
+  Text,
+  TextField,
+} from '@radix-ui/themes'
+import { FC, useMemo, useState } from 'react'
+import Loading from '~~/components/Loading'
+import { resolveBlobUrl } from '~~/dapp/helpers/blobStore'
+import { profileUrl } from '~~/dapp/helpers/profiles'
+import {
+  searchProfiles,
+  TProfileSearchQuery,
+  TProfileSearchResult,
+  TProfileSort,
+} from '~~/dapp/helpers/profileSearch'
+import useBlobStore from '~~/dapp/hooks/useBlobStore'
+import useProfileDirectory from '~~/dapp/hooks/useProfileDirectory'
+import useUserProfile from '~~/dapp/hooks/useUserProfile'
+
+// Select items cannot have an empty value.
+const ANY = 'any'
+
+const SORTS: { value: TProfileSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'reputation', label: 'Reputation' },
+  { value: 'recent', label: 'Recently updated' },
+  { value: 'name', label: 'Name' },
+]
+
+/**
+ * Search every profile by name, headline and bio, and filter them by skill,
+ * location and connection degree. The search runs in the browser, on the
+ * copy of the directory last fetched.
+ */
+const ProfileDirectory = () => {
+  const directory = useProfileDirectory()
+  const viewer = useUserProfile()
+  const [query, setQuery] = useState<TProfileSearchQuery>({})
+
+  const skills = useMemo(
+    () =>
+      [
+        ...new Set(
+          (directory.data ?? []).flatMap((e) =>
+            e.profile.skills.map((s) => s.name)
+          )
+        ),
+      ].sort((a, b) => a.localeCompare(b)),
+    [directory.data]
+  )
+
+  const page = useMemo(
+    () =>
+      directory.index == null
+        ? null
+        : searchProfiles(
+            directory.index,
+            query,
+            viewer.data ?? null,
+            Date.now()
+          ),
+    [directory.index, query, viewer.data]
+  )
+
+  // A new search starts at the first page.
+  const update = (changes: TProfileSearchQuery) =>
+    setQuery({ ...query, page: 0, ...changes })
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-4 px-2 sm:max-w-lg">
+      <TextField.Root
+        size="3"
+        placeholder="Search by name, headline or bio..."
+        value={query.text ?? ''}
+        onChange={(e) => update({ text: e.target.value })}
+      />
+
+      <div className="flex flex-row flex-wrap gap-2">
+        <Select.Root
+          value={query.skill || ANY}
+          onValueChange={(skill) =>
+            update({ skill: skill === ANY ? '' : skill })
+          }
+        >
+          <Select.Trigger />
+          <Select.Content>
+            <Select.Item value={ANY}>Any skill</Select.Item>
+            {skills.map((skill) => (
+              <Select.Item key={skill} value={skill}>
+                {skill}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+
+        <TextField.Root
+          placeholder="Location"
+          value={query.location ?? ''}
+          onChange={(e) => update({ location: e.target.value })}
+        />
+
+        {viewer.data != null && (
+          <Select.Root
+            value={query.degree == null ? ANY : String(query.degree)}
+            onValueChange={(degree) =>
+              update({
+                degree: degree === ANY ? undefined : (Number(degree) as 1 | 2),
+              })
+            }
+          >
+            <Select.Trigger />
+            <Select.Content>
+              <Select.Item value={ANY}>Anyone</Select.Item>
+              <Select.Item value="1">1st degree</Select.Item>
+              <Select.Item value="2">2nd degree</Select.Item>
+            </Select.Content>
+          </Select.Root>
+        )}
+
+        <Select.Root
+          value={
+            query.sort ??
+            ((query.text ?? '').trim() === '' ? 'reputation' : 'relevance')
+          }
+          onValueChange={(sort) => update({ sort: sort as TProfileSort })}
+        >
+          <Select.Trigger />
+          <Select.Content>
+            {SORTS.map(({ value, label }) => (
+              <Select.Item key={value} value={value}>
+                {label}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+      </div>
+
+      {directory.error != null && (
+        <Text size="1" className="opacity-60">
+          {directory.data == null
+            ? `Error: ${directory.error.message}`
+            : 'Offline: showing the profiles last fetched.'}
+        </Text>
+      )}
+
+      {page == null ? (
+        directory.error == null && <Loading />
+      ) : (
+        <>
+          <Text size="2" className="opacity-60">
+            {page.total} {page.total === 1 ? 'profile' : 'profiles'}
+          </Text>
+
+          {page.results.map((result) => (
+            <Result key={result.entry.profile.id} result={result} />
+          ))}
+
+          {page.pageCount > 1 && (
+            <div className="flex flex-row items-center justify-between gap-3">
+              <Button
+                variant="soft"
+                size="1"
+                disabled={page.page === 0}
+                onClick={() => setQuery({ ...query, page: page.page - 1 })}
+              >
+                Previous
+              </Button>
+              <Text size="2">
+                Page {page.page + 1} of {page.pageCount}
+              </Text>
+              <Button
+                variant="soft"
+                size="1"
+                disabled={page.page === page.pageCount - 1}
+                onClick={() => setQuery({ ...query, page: page.page + 1 })}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ProfileDirectory
+
+const Result: FC<{ result: TProfileSearchResult }> = ({ result }) => {
+  const { profile } = result.entry
+  const blobStore = useBlobStore()
+
+  return (
+    <div className="flex flex-row items-center gap-3">
+      <Avatar
+        size="3"
+        radius="full"
+        src={resolveBlobUrl(profile.profileImageUrl, blobStore)}
+        fallback={profile.name.charAt(0)}
+      />
+      <div className="flex min-w-0 flex-grow flex-col">
+        <Link href={profileUrl(profile.id)} weight="bold">
+          {profile.name}
+        </Link>
+        {profile.headline !== '' && <Text size="2">{profile.headline}</Text>}
+        {profile.location !== '' && (
+          <Text size="1" className="opacity-60">
+            {profile.location}
+          </Text>
+        )}
+      </div>
+      <div className="flex shrink-0 flex-col items-end gap-1">
+        {result.degree != null && (
+          <Badge>{result.degree === 1 ? '1st' : '2nd'}</Badge>
+        )}
+        <Text size="1" className="opacity-60" title="Reputation">
+          {result.reputation}/100
+        </Text>
+      </div>
+    </div>
+  )
+}
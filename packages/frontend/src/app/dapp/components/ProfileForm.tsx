@@ -12,6 +12,7 @@ import {
     Tabs,
     Text,
     Avatar,
+    Dialog,
 } from '@radix-ui/themes'
 import useTransact from '@suiware/kit/useTransact'
 import Image from 'next/image'
@@ -27,14 +28,19 @@ import useNetworkConfig from '~~/hooks/useNetworkConfig'
 import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
 import { transactionUrl } from '~~/helpers/network'
 import useUserProfile from '../hooks/useUserProfile'
+import useBlobStore from '../hooks/useBlobStore'
+import { IExperience } from '../types/IExperience'
+import { IEducation } from '../types/IEducation'
 import {
-    prepareCreateProfileTransaction,
-    prepareUpdateProfileTransaction,
-    prepareAddExperienceTransaction,
-    prepareAddEducationTransaction,
-    prepareAddSkillTransaction,
-} from '../helpers/profileTransactions'
-import { Profile } from '../hooks/useUserProfile'
+    describeProfileDraftChange,
+    findProfileDraftEdit,
+    prepareProfileDraftTransaction,
+    previewProfileDraft,
+    queueProfileDraftChange,
+    TProfileDraftChange,
+} from '../helpers/profileDraft'
+import { resolveBlobUrl } from '../helpers/blobStore'
+import { uploadProfileImage } from '../helpers/profileImage'
 
 const DEFAULT_PROFILE_IMAGE = 'https://placehold.co/400x400?text=Profile+Image'
 
@@ -44,6 +50,7 @@ const ProfileForm: FC = () => {
     const { useNetworkVariable } = useNetworkConfig()
     const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
     const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+    const blobStore = useBlobStore()
 
     const [activeTab, setActiveTab] = useState('basic')
     const [notificationId, setNotificationId] = useState<string>()
@@ -53,7 +60,7 @@ const ProfileForm: FC = () => {
         name: '',
         headline: '',
         bio: '',
-        profileImageUrl: DEFAULT_PROFILE_IMAGE,
+        profileImageUrl: '',
         location: '',
         contactEmail: '',
     })
@@ -76,9 +83,27 @@ const ProfileForm: FC = () => {
         endDate: '',
     })
 
+    // Whether an avatar is being resized and stored on Walrus
+    const [isUploadingImage, setIsUploadingImage] = useState(false)
+
     // Skill form state
     const [skillName, setSkillName] = useState('')
 
+    // Changes queued until the user reviews and signs them in one transaction
+    const [draft, setDraft] = useState<TProfileDraftChange[]>([])
+    const [isReviewOpen, setIsReviewOpen] = useState(false)
+    const isCreating = !profile && draft.some((change) => change.kind === 'save_profile')
+
+    // Entries being edited inline, by their index
+    const [editedExperience, setEditedExperience] = useState<{ index: number; experience: IExperience } | null>(null)
+    const [editedEducation, setEditedEducation] = useState<{ index: number; education: IEducation } | null>(null)
+    const [editedSkill, setEditedSkill] = useState<{ index: number; skillName: string } | null>(null)
+
+    // Entries as the draft leaves them, removed ones are greyed out in place
+    const draftedProfile = profile ? previewProfileDraft(profile, draft) : null
+    const isDraftRemoved = (kind: 'remove_experience' | 'remove_education' | 'remove_skill', index: number) =>
+        findProfileDraftEdit(draft, kind, index) != null
+
     // Set form data from profile
     useState(() => {
         if (profile) {
@@ -86,59 +111,15 @@ const ProfileForm: FC = () => {
                 name: profile.name,
                 headline: profile.headline,
                 bio: profile.bio,
-                profileImageUrl: profile.profileImageUrl || DEFAULT_PROFILE_IMAGE,
+                profileImageUrl: profile.profileImageUrl,
                 location: profile.location,
                 contactEmail: profile.contactEmail,
             })
         }
     })
 
-    // Transaction hook for creating/updating profile
-    const { transact: saveProfile } = useTransact({
-        onBeforeStart: () => {
-            const nId = notification.txLoading()
-            setNotificationId(nId)
-        },
-        onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
-            notification.txSuccess(
-                transactionUrl(explorerUrl, data.digest),
-                notificationId
-            )
-            refetch()
-        },
-        onError: (e: Error) => {
-            notification.txError(e, null, notificationId)
-        },
-    })
-
-    // Transaction hook for adding experience
-    const { transact: addExperience } = useTransact({
-        onBeforeStart: () => {
-            const nId = notification.txLoading()
-            setNotificationId(nId)
-        },
-        onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
-            notification.txSuccess(
-                transactionUrl(explorerUrl, data.digest),
-                notificationId
-            )
-            refetch()
-            // Reset form
-            setExperienceData({
-                company: '',
-                title: '',
-                startDate: '',
-                endDate: '',
-                description: '',
-            })
-        },
-        onError: (e: Error) => {
-            notification.txError(e, null, notificationId)
-        },
-    })
-
-    // Transaction hook for adding education
-    const { transact: addEducation } = useTransact({
+    // Transaction hook for signing the draft
+    const { transact: submitDraft } = useTransact({
         onBeforeStart: () => {
             const nId = notification.txLoading()
             setNotificationId(nId)
@@ -149,34 +130,8 @@ const ProfileForm: FC = () => {
                 notificationId
             )
             refetch()
-            // Reset form
-            setEducationData({
-                institution: '',
-                degree: '',
-                field: '',
-                startDate: '',
-                endDate: '',
-            })
-        },
-        onError: (e: Error) => {
-            notification.txError(e, null, notificationId)
-        },
-    })
-
-    // Transaction hook for adding skill
-    const { transact: addSkill } = useTransact({
-        onBeforeStart: () => {
-            const nId = notification.txLoading()
-            setNotificationId(nId)
-        },
-        onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
-            notification.txSuccess(
-                transactionUrl(explorerUrl, data.digest),
-                notificationId
-            )
-            refetch()
-            // Reset form
-            setSkillName('')
+            setDraft([])
+            setIsReviewOpen(false)
         },
         onError: (e: Error) => {
             notification.txError(e, null, notificationId)
@@ -192,6 +147,25 @@ const ProfileForm: FC = () => {
         }))
     }
 
+    // Store a picked avatar on Walrus and reference it from the profile
+    const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        const nId = notification.loading('Uploading the image...')
+        setIsUploadingImage(true)
+        try {
+            const profileImageUrl = await uploadProfileImage(file, blobStore)
+            setFormData(prev => ({ ...prev, profileImageUrl }))
+            notification.success('Image uploaded', nId)
+        } catch (error) {
+            notification.error(error as Error, null, nId)
+        } finally {
+            setIsUploadingImage(false)
+        }
+    }
+
     // Handle input changes for experience
     const handleExperienceChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target
@@ -210,8 +184,14 @@ const ProfileForm: FC = () => {
         }))
     }
 
+    // Queue a change and tell the user it awaits review
+    const queueChange = (change: TProfileDraftChange) => {
+        setDraft(prev => queueProfileDraftChange(prev, change))
+        notification.success('Added to your draft changes')
+    }
+
     // Handle profile creation/update
-    const handleSaveProfile = async (e: MouseEvent<HTMLButtonElement>) => {
+    const handleSaveProfile = (e: MouseEvent<HTMLButtonElement>) => {
         e.preventDefault()
 
         if (formData.name.trim() === '') {
@@ -219,111 +199,107 @@ const ProfileForm: FC = () => {
             return
         }
 
-        try {
-            // Prepare transaction based on whether we're creating or updating
-            const tx = profile?.id
-                ? prepareUpdateProfileTransaction(
-                    packageId,
-                    profile.id,
-                    formData.name,
-                    formData.headline,
-                    formData.bio,
-                    formData.profileImageUrl,
-                    formData.location,
-                    formData.contactEmail
-                )
-                : prepareCreateProfileTransaction(
-                    packageId,
-                    formData.name,
-                    formData.headline,
-                    formData.bio,
-                    formData.profileImageUrl,
-                    formData.location,
-                    formData.contactEmail
-                )
-
-            saveProfile(tx)
-        } catch (error) {
-            console.error('Error saving profile:', error)
-            notification.error(null, 'Failed to save profile')
-        }
+        queueChange({ kind: 'save_profile', info: { ...formData } })
     }
 
     // Handle adding experience
-    const handleAddExperience = async (e: MouseEvent<HTMLButtonElement>) => {
+    const handleAddExperience = (e: MouseEvent<HTMLButtonElement>) => {
         e.preventDefault()
 
-        if (!profile?.id || !experienceData.company || !experienceData.title) {
+        if (!experienceData.company || !experienceData.title) {
             notification.error(null, 'Company and Title are required')
             return
         }
 
-        try {
-            const tx = prepareAddExperienceTransaction(
-                packageId,
-                profile.id,
-                experienceData.company,
-                experienceData.title,
-                experienceData.startDate,
-                experienceData.endDate,
-                experienceData.description
-            )
-
-            addExperience(tx)
-        } catch (error) {
-            console.error('Error adding experience:', error)
-            notification.error(null, 'Failed to add experience')
-        }
+        queueChange({ kind: 'add_experience', experience: { ...experienceData } })
+        setExperienceData({
+            company: '',
+            title: '',
+            startDate: '',
+            endDate: '',
+            description: '',
+        })
     }
 
     // Handle adding education
-    const handleAddEducation = async (e: MouseEvent<HTMLButtonElement>) => {
+    const handleAddEducation = (e: MouseEvent<HTMLButtonElement>) => {
         e.preventDefault()
 
-        if (!profile?.id || !educationData.institution || !educationData.degree) {
+        if (!educationData.institution || !educationData.degree) {
             notification.error(null, 'Institution and Degree are required')
             return
         }
 
-        try {
-            const tx = prepareAddEducationTransaction(
-                packageId,
-                profile.id,
-                educationData.institution,
-                educationData.degree,
-                educationData.field,
-                educationData.startDate,
-                educationData.endDate
-            )
-
-            addEducation(tx)
-        } catch (error) {
-            console.error('Error adding education:', error)
-            notification.error(null, 'Failed to add education')
-        }
+        queueChange({ kind: 'add_education', education: { ...educationData } })
+        setEducationData({
+            institution: '',
+            degree: '',
+            field: '',
+            startDate: '',
+            endDate: '',
+        })
     }
 
     // Handle adding skill
-    const handleAddSkill = async (e: MouseEvent<HTMLButtonElement>) => {
+    const handleAddSkill = (e: MouseEvent<HTMLButtonElement>) => {
         e.preventDefault()
 
-        if (!profile?.id || !skillName) {
+        if (!skillName) {
             notification.error(null, 'Skill name is required')
             return
         }
 
-        try {
-            const tx = prepareAddSkillTransaction(
-                packageId,
-                profile.id,
-                skillName
-            )
+        queueChange({ kind: 'add_skill', skillName })
+        setSkillName('')
+    }
 
-            addSkill(tx)
+    // Handle signing all draft changes at once
+    const handleSubmitDraft = () => {
+        try {
+            submitDraft(prepareProfileDraftTransaction(packageId, profile?.id, draft))
         } catch (error) {
-            console.error('Error adding skill:', error)
-            notification.error(null, 'Failed to add skill')
+            console.error('Error saving profile:', error)
+            notification.error(error as Error, 'Failed to save profile')
+        }
+    }
+
+    // Handle saving an edited experience
+    const handleSaveExperience = () => {
+        if (!editedExperience) return
+
+        if (!editedExperience.experience.company || !editedExperience.experience.title) {
+            notification.error(null, 'Company and Title are required')
+            return
         }
+
+        queueChange({ kind: 'update_experience', ...editedExperience })
+        setEditedExperience(null)
+    }
+
+    // Handle saving an edited education
+    const handleSaveEducation = () => {
+        if (!editedEducation) return
+
+        if (!editedEducation.education.institution || !editedEducation.education.degree) {
+            notification.error(null, 'Institution and Degree are required')
+            return
+        }
+
+        queueChange({ kind: 'update_education', ...editedEducation })
+        setEditedEducation(null)
+    }
+
+    // Handle saving a renamed skill
+    const handleSaveSkill = () => {
+        if (!editedSkill) return
+
+        if (!editedSkill.skillName) {
+            notification.error(null, 'Skill name is required')
+            return
+        }
+
+        queueChange({ kind: 'update_skill', ...editedSkill })
+        setEditedSkill(null)
     }
 
     if (!currentAccount) return <CustomConnectButton />
@@ -344,7 +320,7 @@ const ProfileForm: FC = () => {
                         <Flex align="center" gap="4">
                             <Avatar
                                 size="6"
-                                src={profile.profileImageUrl || DEFAULT_PROFILE_IMAGE}
+                                src={resolveBlobUrl(profile.profileImageUrl, blobStore) ?? DEFAULT_PROFILE_IMAGE}
                                 fallback={profile.name.charAt(0)}
                                 radius="full"
                             />
@@ -358,12 +334,56 @@ const ProfileForm: FC = () => {
                 </Box>
             )}
 
+            {draft.length > 0 && (
+                <Card className="p-4 mb-6">
+                    <Flex align="center" justify="between" gap="4">
+                        <Text>
+                            {draft.length} unsaved {draft.length === 1 ? 'change' : 'changes'}
+                        </Text>
+                        <Dialog.Root open={isReviewOpen} onOpenChange={setIsReviewOpen}>
+                            <Dialog.Trigger>
+                                <Button size="2">Review and save</Button>
+                            </Dialog.Trigger>
+                            <Dialog.Content maxWidth="480px">
+                                <Dialog.Title>Review your changes</Dialog.Title>
+                                <Dialog.Description size="2" className="mb-4">
+                                    All changes are saved in a single transaction.
+                                </Dialog.Description>
+                                <Flex direction="column" gap="2">
+                                    {draft.map((change, index) => (
+                                        <Flex key={index} align="center" justify="between" gap="2">
+                                            <Text size="2">{describeProfileDraftChange(change, profile)}</Text>
+                                            <Button
+                                                size="1"
+                                                variant="ghost"
+                                                color="red"
+                                                onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                                            >
+                                                Remove
+                                            </Button>
+                                        </Flex>
+                                    ))}
+                                </Flex>
+                                <Flex gap="3" mt="4" justify="end">
+                                    <Button variant="soft" color="gray" onClick={() => setDraft([])}>
+                                        Discard all
+                                    </Button>
+                                    <Button onClick={handleSubmitDraft}>
+                                        Sign and save
+                                    </Button>
+                                </Flex>
+                            </Dialog.Content>
+                        </Dialog.Root>
+                    </Flex>
+                </Card>
+            )}
+
             <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
                 <Tabs.List className="mb-6">
                     <Tabs.Trigger value="basic">Basic Info</Tabs.Trigger>
-                    <Tabs.Trigger value="experience" disabled={!profile}>Experience</Tabs.Trigger>
-                    <Tabs.Trigger value="education" disabled={!profile}>Education</Tabs.Trigger>
-                    <Tabs.Trigger value="skills" disabled={!profile}>Skills</Tabs.Trigger>
+                    <Tabs.Trigger value="experience" disabled={!profile && !isCreating}>Experience</Tabs.Trigger>
+                    <Tabs.Trigger value="education" disabled={!profile && !isCreating}>Education</Tabs.Trigger>
+                    <Tabs.Trigger value="skills" disabled={!profile && !isCreating}>Skills</Tabs.Trigger>
                 </Tabs.List>
 
                 <Tabs.Content value="basic">
@@ -400,15 +420,34 @@ const ProfileForm: FC = () => {
                                 />
                             </Box>
 
-                            <TextField.Root>
-                                <TextField.Label>Profile Image URL</TextField.Label>
-                                <TextField.Input
-                                    name="profileImageUrl"
-                                    value={formData.profileImageUrl}
-                                    onChange={handleInputChange}
-                                    placeholder="https://..."
+                            <Flex align="center" gap="4">
+                                <Avatar
+                                    size="5"
+                                    src={resolveBlobUrl(formData.profileImageUrl, blobStore) ?? DEFAULT_PROFILE_IMAGE}
+                                    fallback={formData.name.charAt(0) || '?'}
+                                    radius="full"
                                 />
-                            </TextField.Root>
+                                <Flex direction="column" gap="2" className="flex-grow">
+                                    <TextField.Root>
+                                        <TextField.Label>Profile Image URL</TextField.Label>
+                                        <TextField.Input
+                                            name="profileImageUrl"
+                                            value={formData.profileImageUrl}
+                                            onChange={handleInputChange}
+                                            placeholder="https://... or upload an image"
+                                        />
+                                    </TextField.Root>
+                                    <Text as="label" size="2">
+                                        {isUploadingImage ? 'Uploading...' : 'Upload an image'}{' '}
+                                        <input
+                                            type="file"
+                                            accept="image/*"
+                                            onChange={handleImageUpload}
+                                            disabled={isUploadingImage}
+                                        />
+                                    </Text>
+                                </Flex>
+                            </Flex>
 
                             <TextField.Root>
                                 <TextField.Label>Location</TextField.Label>
@@ -507,17 +546,67 @@ const ProfileForm: FC = () => {
                         </Flex>
                     </Card>
 
-                    {profile && profile.experiences.length > 0 && (
+                    {draftedProfile && draftedProfile.experiences.length > 0 && (
                         <Box>
                             <Heading size="4" className="mb-4">Your Experiences</Heading>
-                            {profile.experiences.map((exp, index) => (
-                                <Card key={index} className="p-4 mb-4">
-                                    <Heading size="5">{exp.title}</Heading>
-                                    <Text size="3">{exp.company}</Text>
-                                    <Text size="2" className="text-gray-500">
-                                        {exp.startDate} - {exp.endDate}
-                                    </Text>
-                                    <Text size="2" className="mt-2">{exp.description}</Text>
+                            {draftedProfile.experiences.map((exp, index) => (
+                                <Card key={index} className={`p-4 mb-4 ${isDraftRemoved('remove_experience', index) ? 'opacity-50' : ''}`}>
+                                    {editedExperience?.index === index ? (
+                                        <Flex direction="column" gap="2">
+                                            {(['company', 'title', 'startDate', 'endDate'] as const).map((field) => (
+                                                <TextField.Root
+                                                    key={field}
+                                                    value={editedExperience.experience[field]}
+                                                    onChange={(e) => setEditedExperience({
+                                                        index,
+                                                        experience: { ...editedExperience.experience, [field]: e.target.value },
+                                                    })}
+                                                />
+                                            ))}
+                                            <TextArea
+                                                value={editedExperience.experience.description}
+                                                onChange={(e) => setEditedExperience({
+                                                    index,
+                                                    experience: { ...editedExperience.experience, description: e.target.value },
+                                                })}
+                                                rows={3}
+                                            />
+                                            <Flex gap="2">
+                                                <Button size="1" onClick={handleSaveExperience}>Save</Button>
+                                                <Button size="1" variant="soft" color="gray" onClick={() => setEditedExperience(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </Flex>
+                                        </Flex>
+                                    ) : (
+                                        <>
+                                            <Heading size="5">{exp.title}</Heading>
+                                            <Text size="3">{exp.company}</Text>
+                                            <Text size="2" className="text-gray-500">
+                                                {exp.startDate} - {exp.endDate}
+                                            </Text>
+                                            <Text size="2" className="mt-2">{exp.description}</Text>
+                                            <Flex gap="2" className="mt-2">
+                                                <Button
+                                                    size="1"
+                                                    variant="soft"
+                                                    disabled={isDraftRemoved('remove_experience', index)}
+                                                    onClick={() => setEditedExperience({ index, experience: exp })}
+                                                >
+                                                    Edit
+                                                </Button>
+                                                <Button
+                                                    size="1"
+                                                    variant="soft"
+                                                    color="red"
+                                                    disabled={isDraftRemoved('remove_experience', index)}
+                                                    onClick={() => queueChange({ kind: 'remove_experience', index })}
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </Flex>
+                                        </>
+                                    )}
                                 </Card>
                             ))}
                         </Box>
@@ -591,16 +680,58 @@ const ProfileForm: FC = () => {
                         </Flex>
                     </Card>
 
-                    {profile && profile.education.length > 0 && (
+                    {draftedProfile && draftedProfile.education.length > 0 && (
                         <Box>
                             <Heading size="4" className="mb-4">Your Education</Heading>
-                            {profile.education.map((edu, index) => (
-                                <Card key={index} className="p-4 mb-4">
-                                    <Heading size="5">{edu.degree} in {edu.field}</Heading>
-                                    <Text size="3">{edu.institution}</Text>
-                                    <Text size="2" className="text-gray-500">
-                                        {edu.startDate} - {edu.endDate}
-                                    </Text>
+                            {draftedProfile.education.map((edu, index) => (
+                                <Card key={index} className={`p-4 mb-4 ${isDraftRemoved('remove_education', index) ? 'opacity-50' : ''}`}>
+                                    {editedEducation?.index === index ? (
+                                        <Flex direction="column" gap="2">
+                                            {(['institution', 'degree', 'field', 'startDate', 'endDate'] as const).map((field) => (
+                                                <TextField.Root
+                                                    key={field}
+                                                    value={editedEducation.education[field]}
+                                                    onChange={(e) => setEditedEducation({
+                                                        index,
+                                                        education: { ...editedEducation.education, [field]: e.target.value },
+                                                    })}
+                                                />
+                                            ))}
+                                            <Flex gap="2">
+                                                <Button size="1" onClick={handleSaveEducation}>Save</Button>
+                                                <Button size="1" variant="soft" color="gray" onClick={() => setEditedEducation(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </Flex>
+                                        </Flex>
+                                    ) : (
+                                        <>
+                                            <Heading size="5">{edu.degree} in {edu.field}</Heading>
+                                            <Text size="3">{edu.institution}</Text>
+                                            <Text size="2" className="text-gray-500">
+                                                {edu.startDate} - {edu.endDate}
+                                            </Text>
+                                            <Flex gap="2" className="mt-2">
+                                                <Button
+                                                    size="1"
+                                                    variant="soft"
+                                                    disabled={isDraftRemoved('remove_education', index)}
+                                                    onClick={() => setEditedEducation({ index, education: edu })}
+                                                >
+                                                    Edit
+                                                </Button>
+                                                <Button
+                                                    size="1"
+                                                    variant="soft"
+                                                    color="red"
+                                                    disabled={isDraftRemoved('remove_education', index)}
+                                                    onClick={() => queueChange({ kind: 'remove_education', index })}
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </Flex>
+                                        </>
+                                    )}
                                 </Card>
                             ))}
                         </Box>
@@ -630,20 +761,51 @@ const ProfileForm: FC = () => {
                         </Flex>
                     </Card>
 
-                    {profile && profile.skills.length > 0 && (
+                    {draftedProfile && draftedProfile.skills.length > 0 && (
                         <Box>
                             <Heading size="4" className="mb-4">Your Skills</Heading>
                             <Flex gap="2" wrap="wrap">
-                                {profile.skills.map((skill, index) => (
-                                    <Card key={index} className="p-2 mb-2">
-                                        <Flex gap="2" align="center">
-                                            <Text>{skill.name}</Text>
-                                            {skill.endorsements > 0 && (
-                                                <Text size="1" className="text-gray-500">
-                                                    {skill.endorsements} endorsements
-                                                </Text>
-                                            )}
-                                        </Flex>
+                                {draftedProfile.skills.map((skill, index) => (
+                                    <Card key={index} className={`p-2 mb-2 ${isDraftRemoved('remove_skill', index) ? 'opacity-50' : ''}`}>
+                                        {editedSkill?.index === index ? (
+                                            <Flex gap="2" align="center">
+                                                <TextField.Root
+                                                    value={editedSkill.skillName}
+                                                    onChange={(e) => setEditedSkill({ index, skillName: e.target.value })}
+                                                />
+                                                <Button size="1" onClick={handleSaveSkill}>Save</Button>
+                                                <Button size="1" variant="soft" color="gray" onClick={() => setEditedSkill(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </Flex>
+                                        ) : (
+                                            <Flex gap="2" align="center">
+                                                <Text>{skill.name}</Text>
+                                                {skill.endorsements > 0 && (
+                                                    <Text size="1" className="text-gray-500">
+                                                        {skill.endorsements} endorsements
+                                                    </Text>
+                                                )}
+                                                {/* Renaming clears the endorsements of the old name */}
+                                                <Button
+                                                    size="1"
+                                                    variant="ghost"
+                                                    disabled={isDraftRemoved('remove_skill', index)}
+                                                    onClick={() => setEditedSkill({ index, skillName: skill.name })}
+                                                >
+                                                    Edit
+                                                </Button>
+                                                <Button
+                                                    size="1"
+                                                    variant="ghost"
+                                                    color="red"
+                                                    disabled={isDraftRemoved('remove_skill', index)}
+                                                    onClick={() => queueChange({ kind: 'remove_skill', index })}
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </Flex>
+                                        )}
                                     </Card>
                                 ))}
                             </Flex>
@@ -0,0 +1,509 @@
+'use client'
+
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { formatAddress } from '@mysten/sui/utils'
+import { Avatar, Badge, Button, Link, Text } from '@radix-ui/themes'
+import { useSearchParams } from 'next/navigation'
+import { FC, PropsWithChildren } from 'react'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import Loading from '~~/components/Loading'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import BadgeShelf from '~~/dapp/components/BadgeShelf'
+import ConnectionNetwork from '~~/dapp/components/ConnectionNetwork'
+import { prepareAttestEntryTransaction } from '~~/dapp/helpers/attestationTransactions'
+import { verifiedEntries } from '~~/dapp/helpers/attestations'
+import { resolveBlobUrl } from '~~/dapp/helpers/blobStore'
+import {
+  prepareAcceptConnectionTransaction,
+  prepareAcceptEndorsementTransaction,
+  prepareDeclineEndorsementTransaction,
+  prepareEndorseSkillTransaction,
+  prepareRejectConnectionTransaction,
+  prepareRemoveConnectionTransaction,
+  prepareRequestConnectionTransaction,
+} from '~~/dapp/helpers/profileTransactions'
+import {
+  connectionStatus,
+  endorsementStatus,
+  profileUrl,
+} from '~~/dapp/helpers/profiles'
+import useAttestations from '~~/dapp/hooks/useAttestations'
+import useBlobStore from '~~/dapp/hooks/useBlobStore'
+import useConnectionRequests from '~~/dapp/hooks/useConnectionRequests'
+import useIssuers from '~~/dapp/hooks/useIssuers'
+import usePendingEndorsements from '~~/dapp/hooks/usePendingEndorsements'
+import useProfile from '~~/dapp/hooks/useProfile'
+import useProfileTransact from '~~/dapp/hooks/useProfileTransact'
+import useReputationScore from '~~/dapp/hooks/useReputationScore'
+import useUserProfile from '~~/dapp/hooks/useUserProfile'
+import { EAttestedEntry } from '~~/dapp/types/EAttestedEntry'
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { IProfile } from '~~/dapp/types/IProfile'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * A read-only Profile of any user, with a button to ask its owner to connect.
+ * The profile is the "id" query parameter, see profileUrl.
+ */
+const ProfileView = () => {
+  const addressOrId = useSearchParams().get('id')
+  const profile = useProfile(addressOrId)
+  const currentAccount = useCurrentAccount()
+  const issuers = useIssuers()
+  const attestations = useAttestations(profile.data?.id)
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(ISSUER_REGISTRY_VARIABLE_NAME)
+  const { transact } = useProfileTransact(() => attestations.refetch())
+  const blobStore = useBlobStore()
+
+  if (addressOrId == null || addressOrId === '') {
+    return (
+      <TextMessage>Pass an address or profile ID, e.g. ?id=0x...</TextMessage>
+    )
+  }
+
+  if (profile.isPending) return <Loading />
+
+  if (profile.error) {
+    return <TextMessage>Error: {profile.error.message}</TextMessage>
+  }
+
+  if (profile.data == null) {
+    return <TextMessage>No profile was found for {addressOrId}</TextMessage>
+  }
+
+  const { data } = profile
+  const verified = verifiedEntries(
+    data,
+    attestations.data ?? [],
+    issuers.data ?? []
+  )
+  // Active issuers can attest the entries of others.
+  const issuer = issuers.data?.find(
+    (i) => i.active && i.address === currentAccount?.address
+  )
+  const attest =
+    issuer == null || issuer.address === data.owner
+      ? undefined
+      : (kind: EAttestedEntry, index: number) =>
+          transact(
+            prepareAttestEntryTransaction(
+              packageId,
+              registryId,
+              data,
+              kind,
+              index
+            )
+          )
+
+  return (
+    <div className="flex w-full max-w-xs flex-col gap-6 px-2 sm:max-w-lg">
+      <div className="flex flex-row items-center gap-4">
+        <Avatar
+          size="6"
+          radius="full"
+          src={resolveBlobUrl(data.profileImageUrl, blobStore)}
+          fallback={data.name.charAt(0)}
+        />
+        <div className="flex flex-col">
+          <Text size="6" weight="bold">
+            {data.name}
+          </Text>
+          {data.headline !== '' && <Text size="3">{data.headline}</Text>}
+          {data.location !== '' && (
+            <Text size="2" className="opacity-60">
+              {data.location}
+            </Text>
+          )}
+        </div>
+      </div>
+
+      <ConnectButton profile={data} onConnected={() => profile.refetch()} />
+
+      {data.bio !== '' && <Text size="2">{data.bio}</Text>}
+
+      <Reputation owner={data.owner} />
+
+      <Section title="Badges" empty={false}>
+        <BadgeShelf profile={data} />
+      </Section>
+
+      <Section title="Experience" empty={data.experiences.length === 0}>
+        {data.experiences.map((experience, i) => (
+          <Entry
+            key={i}
+            title={experience.title}
+            subtitle={experience.company}
+            startDate={experience.startDate}
+            endDate={experience.endDate}
+            verifiedBy={verified.experiences[i]}
+            issuer={issuer}
+            onAttest={attest && (() => attest(EAttestedEntry.EXPERIENCE, i))}
+          >
+            {experience.description}
+          </Entry>
+        ))}
+      </Section>
+
+      <Section title="Education" empty={data.education.length === 0}>
+        {data.education.map((education, i) => (
+          <Entry
+            key={i}
+            title={`${education.degree} in ${education.field}`}
+            subtitle={education.institution}
+            startDate={education.startDate}
+            endDate={education.endDate}
+            verifiedBy={verified.education[i]}
+            issuer={issuer}
+            onAttest={attest && (() => attest(EAttestedEntry.EDUCATION, i))}
+          />
+        ))}
+      </Section>
+
+      <Section title="Skills" empty={data.skills.length === 0}>
+        <Skills profile={data} onEndorsed={() => profile.refetch()} />
+      </Section>
+
+      <Section title={`Connections (${data.connections.length})`} empty={false}>
+        <ConnectionNetwork profile={data} onChange={() => profile.refetch()} />
+      </Section>
+    </div>
+  )
+}
+
+export default ProfileView
+
+const ConnectButton: FC<{ profile: IProfile; onConnected: () => void }> = ({
+  profile,
+  onConnected,
+}) => {
+  const currentAccount = useCurrentAccount()
+  const viewer = useUserProfile()
+  // Requests either way are owned by the profile they were sent to.
+  const sent = useConnectionRequests(profile.id)
+  const received = useConnectionRequests(viewer.data?.id)
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const { transact } = useProfileTransact(() => {
+    viewer.refetch()
+    sent.refetch()
+    received.refetch()
+    onConnected()
+  })
+
+  if (currentAccount == null) return <CustomConnectButton />
+
+  // Only wallets with a profile can connect, the button waits for it.
+  if (viewer.isPending) return null
+
+  const requests = [...(sent.data ?? []), ...(received.data ?? [])]
+  const incoming = received.data?.find((r) => r.from === profile.owner)
+
+  switch (connectionStatus(viewer.data, profile, requests)) {
+    case 'self':
+      return (
+        <Link href="/" size="2">
+          Edit your profile
+        </Link>
+      )
+    case 'no_profile':
+      return (
+        <Text size="2" className="opacity-60">
+          <Link href="/">Create a profile</Link> to connect with {profile.name}.
+        </Text>
+      )
+    case 'connected':
+      return (
+        <div className="flex flex-row items-center gap-3">
+          <Badge color="green">Connected</Badge>
+          <Button
+            variant="soft"
+            color="gray"
+            size="1"
+            onClick={() =>
+              transact(
+                prepareRemoveConnectionTransaction(
+                  packageId,
+                  viewer.data!.id,
+                  profile.id,
+                  profile.owner
+                )
+              )
+            }
+          >
+            Remove
+          </Button>
+        </div>
+      )
+    case 'requested':
+      return <Badge color="orange">Request sent</Badge>
+    case 'incoming':
+      return (
+        <div className="flex flex-row items-center gap-3">
+          <Text size="2">{profile.name} wants to connect.</Text>
+          <Button
+            variant="solid"
+            size="2"
+            onClick={() =>
+              transact(
+                prepareAcceptConnectionTransaction(
+                  packageId,
+                  viewer.data!.id,
+                  incoming!.id
+                )
+              )
+            }
+          >
+            Accept
+          </Button>
+          <Button
+            variant="soft"
+            color="gray"
+            size="2"
+            onClick={() =>
+              transact(
+                prepareRejectConnectionTransaction(
+                  packageId,
+                  viewer.data!.id,
+                  incoming!.id
+                )
+              )
+            }
+          >
+            Reject
+          </Button>
+        </div>
+      )
+    case 'available':
+      return (
+        <Button
+          variant="solid"
+          size="3"
+          onClick={() =>
+            transact(
+              prepareRequestConnectionTransaction(
+                packageId,
+                viewer.data!.id,
+                profile.id
+              )
+            )
+          }
+        >
+          Connect
+        </Button>
+      )
+  }
+}
+
+const Reputation: FC<{ owner: string }> = ({ owner }) => {
+  const reputation = useReputationScore(owner)
+
+  if (reputation.data == null) return null
+
+  return (
+    <Section title={`Reputation ${reputation.data.score}/100`} empty={false}>
+      <div className="flex flex-col gap-1 text-sm">
+        {reputation.data.components.map((c) => (
+          <div key={c.key} className="flex flex-row justify-between gap-3">
+            <span>
+              {c.label}{' '}
+              <Text size="1" className="opacity-60">
+                {c.explanation}
+              </Text>
+            </span>
+            <span className="shrink-0">
+              {c.points}/{c.maxPoints}
+            </span>
+          </div>
+        ))}
+      </div>
+    </Section>
+  )
+}
+
+const Skills: FC<{ profile: IProfile; onEndorsed: () => void }> = ({
+  profile,
+  onEndorsed,
+}) => {
+  const currentAccount = useCurrentAccount()
+  const pending = usePendingEndorsements(profile.id)
+  const { transact } = useProfileTransact(() => {
+    pending.refetch()
+    onEndorsed()
+  })
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const isOwner = currentAccount?.address === profile.owner
+
+  return (
+    <div className="flex flex-col gap-3">
+      {profile.skills.map((skill) => {
+        const status =
+          currentAccount == null
+            ? null
+            : endorsementStatus(
+                currentAccount.address,
+                profile,
+                skill.name,
+                pending.data ?? []
+              )
+
+        return (
+          <div
+            key={skill.name}
+            className="flex flex-row items-center justify-between gap-3"
+          >
+            <span>
+              {skill.name}{' '}
+              <Text size="1" className="opacity-60">
+                {skill.endorsements}{' '}
+                {skill.endorsements === 1 ? 'endorsement' : 'endorsements'}
+              </Text>
+            </span>
+            {status === 'available' && (
+              <Button
+                variant="soft"
+                size="1"
+                onClick={() =>
+                  transact(
+                    prepareEndorseSkillTransaction(
+                      packageId,
+                      profile.id,
+                      skill.name
+                    )
+                  )
+                }
+              >
+                Endorse
+              </Button>
+            )}
+            {status === 'endorsed' && <Badge color="green">Endorsed</Badge>}
+            {status === 'pending' && <Badge color="orange">Pending</Badge>}
+          </div>
+        )
+      })}
+
+      {isOwner && (pending.data ?? []).length > 0 && (
+        <div className="flex flex-col gap-2">
+          <Text size="2" weight="bold">
+            Endorsements to review
+          </Text>
+          {pending.data!.map((endorsement) => (
+            <div
+              key={endorsement.id}
+              className="flex flex-row items-center justify-between gap-3 text-sm"
+            >
+              <span>
+                <Link href={profileUrl(endorsement.endorser)}>
+                  {formatAddress(endorsement.endorser)}
+                </Link>{' '}
+                endorsed {endorsement.skillName}
+              </span>
+              <div className="flex flex-row gap-2">
+                <Button
+                  variant="soft"
+                  size="1"
+                  onClick={() =>
+                    transact(
+                      prepareAcceptEndorsementTransaction(
+                        packageId,
+                        profile.id,
+                        endorsement.id
+                      )
+                    )
+                  }
+                >
+                  Accept
+                </Button>
+                <Button
+                  variant="soft"
+                  color="gray"
+                  size="1"
+                  onClick={() =>
+                    transact(
+                      prepareDeclineEndorsementTransaction(
+                        packageId,
+                        profile.id,
+                        endorsement.id
+                      )
+                    )
+                  }
+                >
+                  Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const Section: FC<PropsWithChildren<{ title: string; empty: boolean }>> = ({
+  title,
+  empty,
+  children,
+}) => (
+  <div className="flex flex-col gap-3">
+    <Text size="2" weight="bold">
+      {title}
+    </Text>
+    {empty ? <div className="opacity-60">Nothing yet.</div> : children}
+  </div>
+)
+
+const Entry: FC<
+  PropsWithChildren<{
+    title: string
+    subtitle: string
+    startDate: string
+    endDate: string
+    /** Issuers whose attestations of the entry hold. */
+    verifiedBy: IIssuer[]
+    /** The viewer, if they are an active issuer. */
+    issuer?: IIssuer
+    onAttest?: () => void
+  }>
+> = ({
+  title,
+  subtitle,
+  startDate,
+  endDate,
+  verifiedBy,
+  issuer,
+  onAttest,
+  children,
+}) => (
+  <div className="flex flex-col gap-1 rounded-md border border-current/20 p-3 text-sm">
+    <span className="font-bold">{title}</span>
+    <span>{subtitle}</span>
+    <span className="opacity-60">
+      {startDate} - {endDate || 'Present'}
+    </span>
+    {children != null && children !== '' && <span>{children}</span>}
+    {(verifiedBy.length > 0 || onAttest != null) && (
+      <div className="flex flex-row flex-wrap items-center gap-2">
+        {verifiedBy.map((i) => (
+          <Badge key={i.address} color="green">
+            Verified by {i.name}
+          </Badge>
+        ))}
+        {onAttest != null &&
+          !verifiedBy.some((i) => i.address === issuer?.address) && (
+            <Button variant="soft" size="1" onClick={onAttest}>
+              Attest as {issuer?.name}
+            </Button>
+          )}
+      </div>
+    )}
+  </div>
+)
+
+const TextMessage: FC<PropsWithChildren> = ({ children }) => (
+  <div className="text-center">{children}</div>
+)
@@ -0,0 +1,108 @@
+import { FC } from 'react'
+
+export interface IRatePoint {
+  x: number
+  /** Basis points. Positive when policyholders pay, negative when LPs pay. */
+  y: number
+}
+
+interface IRateChartProps {
+  points: IRatePoint[]
+  /** Highlight the point at this x, e.g. the current utilization. */
+  markerX?: number
+  formatX: (x: number) => string
+  xLabel: string
+}
+
+const WIDTH = 480
+const HEIGHT = 200
+const PADDING = 32
+
+/**
+ * A minimal SVG line chart of funding rates, with the zero line marking the
+ * switch between LPs paying and policyholders paying.
+ */
+const RateChart: FC<IRateChartProps> = ({
+  points,
+  markerX,
+  formatX,
+  xLabel,
+}) => {
+  if (points.length === 0) return <></>
+
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y).concat(0)
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)]
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)]
+  const scaleX = (x: number) =>
+    PADDING + ((x - minX) / (maxX - minX || 1)) * (WIDTH - 2 * PADDING)
+  const scaleY = (y: number) =>
+    HEIGHT -
+    PADDING -
+    ((y - minY) / (maxY - minY || 1)) * (HEIGHT - 2 * PADDING)
+
+  const marker =
+    markerX == null
+      ? null
+      : points.reduce((closest, p) =>
+          Math.abs(p.x - markerX) < Math.abs(closest.x - markerX) ? p : closest
+        )
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full"
+      role="img"
+      aria-label={`Funding rate by ${xLabel.toLowerCase()}`}
+    >
+      <line
+        x1={PADDING}
+        x2={WIDTH - PADDING}
+        y1={scaleY(0)}
+        y2={scaleY(0)}
+        className="stroke-current opacity-30"
+      />
+      <polyline
+        fill="none"
+        strokeWidth={2}
+        className="stroke-sds-blue"
+        points={points.map((p) => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')}
+      />
+      {marker != null && (
+        <circle
+          cx={scaleX(marker.x)}
+          cy={scaleY(marker.y)}
+          r={5}
+          className="fill-sds-pink"
+        />
+      )}
+      <text x={PADDING} y={HEIGHT - 8} className="fill-current text-[10px]">
+        {formatX(minX)}
+      </text>
+      <text
+        x={WIDTH - PADDING}
+        y={HEIGHT - 8}
+        textAnchor="end"
+        className="fill-current text-[10px]"
+      >
+        {formatX(maxX)}
+      </text>
+      <text
+        x={WIDTH / 2}
+        y={HEIGHT - 8}
+        textAnchor="middle"
+        className="fill-current text-[10px] opacity-60"
+      >
+        {xLabel}
+      </text>
+      <text x={4} y={scaleY(maxY) + 4} className="fill-current text-[10px]">
+        {maxY}
+      </text>
+      <text x={4} y={scaleY(minY) + 4} className="fill-current text-[10px]">
+        {minY}
+      </text>
+    </svg>
+  )
+}
+
+export default RateChart
@@ -0,0 +1,30 @@
+import { ETriggerOperator } from '../types/ETriggerOperator'
+
+// Regions priced by the default risk parameters of policy_manager_enhanced.
+export const LOCATIONS = [
+  { value: 'east-africa', label: 'East Africa' },
+  { value: 'southeast-asia', label: 'Southeast Asia' },
+  { value: 'central-america', label: 'Central America' },
+  { value: 'south-pacific', label: 'South Pacific' },
+]
+
+// Claims are settled against oracle readings whose data type equals the
+// policy's peril, so perils are named after the Switchboard climate feeds.
+export const PERIL_TYPES = [
+  { value: 'rainfall', label: 'Rainfall', unit: 'mm' },
+  { value: 'temperature', label: 'Temperature', unit: '°C' },
+  { value: 'wind_speed', label: 'Wind speed', unit: 'km/h' },
+  { value: 'humidity', label: 'Humidity', unit: '%' },
+  { value: 'soil_moisture', label: 'Soil moisture', unit: '%' },
+  { value: 'sea_level', label: 'Sea level', unit: 'cm' },
+]
+
+// Trigger thresholds are compared with oracle values as raw integers, and the
+// contract aggregates readings with 8 decimal places.
+export const ORACLE_DECIMAL_PLACES = 8
+
+export const TRIGGER_OPERATORS = [
+  { value: ETriggerOperator.LESS_THAN, label: 'Falls below' },
+  { value: ETriggerOperator.GREATER_THAN, label: 'Rises above' },
+  { value: ETriggerOperator.EQUAL_TO, label: 'Equals (±1%)' },
+]
@@ -1 +1,14 @@
+// Modules of the greeting package (CONTRACT_PACKAGE_VARIABLE_NAME).
 export const CONTRACT_MODULE_NAME = 'greeting'
+export const PROFILE_MODULE_NAME = 'profile'
+export const ATTESTATION_MODULE_NAME = 'attestation'
+export const BADGE_MODULE_NAME = 'badge'
+
+// Modules of the amoca package (INSURANCE_PACKAGE_VARIABLE_NAME).
+export const POLICY_MODULE_NAME = 'policy_manager_enhanced'
+export const POOL_MODULE_NAME = 'liquidity_pool'
+export const FUNDING_MODULE_NAME = 'funding_rate'
+export const CLAIM_MODULE_NAME = 'claim_processor_updated'
+export const ORACLE_MODULE_NAME = 'switchboard_oracle_integration'
+export const RISK_MODEL_MODULE_NAME = 'risk_model'
+export const WALRUS_MODULE_NAME = 'walrus_integration'
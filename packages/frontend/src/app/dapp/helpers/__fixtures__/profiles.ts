@@ -0,0 +1,32 @@
+import { IProfile } from '~~/dapp/types/IProfile'
+
+/**
+ * A complete profile for tests, empty but for what they set. Its ID is the
+ * owner's address with an f appended.
+ *
+ * @param owner Also the name.
+ * @param connections
+ * @param skills Names of skills nobody endorsed.
+ * @param fields Overrides of any other field.
+ * @returns
+ */
+export const profile = (
+  owner: string,
+  connections: string[] = [],
+  skills: string[] = [],
+  fields: Partial<IProfile> = {}
+): IProfile => ({
+  id: `${owner}f`,
+  owner,
+  name: owner,
+  headline: '',
+  bio: '',
+  profileImageUrl: '',
+  location: '',
+  contactEmail: '',
+  experiences: [],
+  education: [],
+  skills: skills.map((name) => ({ name, endorsements: 0, endorsers: [] })),
+  connections,
+  ...fields,
+})
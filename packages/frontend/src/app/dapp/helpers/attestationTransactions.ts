@@ -0,0 +1,133 @@
+import { Transaction } from '@mysten/sui/transactions'
+import { ATTESTATION_MODULE_NAME } from '~~/dapp/config/network'
+import { EAttestedEntry } from '~~/dapp/types/EAttestedEntry'
+import { EIssuerKind } from '~~/dapp/types/EIssuerKind'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { fullFunctionName } from '~~/helpers/network'
+import { attestedEntryBytes } from './attestations'
+
+/**
+ * Prepares a transaction to attest an entry of a profile as it is now
+ * @param packageId The ID of the package the attestation module is published in
+ * @param registryId The ID of the IssuerRegistry
+ * @param profile The profile the entry belongs to
+ * @param kind Whether the entry is an experience or an education
+ * @param index The index of the entry
+ * @returns The prepared transaction
+ * @throws Error if the profile has no such entry
+ */
+export const prepareAttestEntryTransaction = (
+  packageId: string,
+  registryId: string,
+  profile: IProfile,
+  kind: EAttestedEntry,
+  index: number
+): Transaction => {
+  const entry = attestedEntryBytes(profile, kind, index)
+  if (entry == null) {
+    throw new Error(`${profile.name} has no entry ${index} to attest`)
+  }
+
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(registryId),
+      tx.pure.id(profile.id),
+      tx.pure.address(profile.owner),
+      tx.pure.u8(kind),
+      tx.pure.u64(index),
+      tx.pure.vector('u8', entry),
+      tx.object.clock(),
+    ],
+    target: fullFunctionName(packageId, 'attest', ATTESTATION_MODULE_NAME),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to revoke an attestation made by the sender
+ * @param packageId The ID of the package the attestation module is published in
+ * @param attestationId The ID of the attestation
+ * @returns The prepared transaction
+ */
+export const prepareRevokeAttestationTransaction = (
+  packageId: string,
+  attestationId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(attestationId)],
+    target: fullFunctionName(packageId, 'revoke', ATTESTATION_MODULE_NAME),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to register an issuer, or update and reactivate it
+ * @param packageId The ID of the package the attestation module is published in
+ * @param adminCapId The ID of the attestation AdminCap
+ * @param registryId The ID of the IssuerRegistry
+ * @param issuer The address the issuer attests from
+ * @param name The name shown on verified entries
+ * @param kind The kind of organization
+ * @returns The prepared transaction
+ */
+export const prepareRegisterIssuerTransaction = (
+  packageId: string,
+  adminCapId: string,
+  registryId: string,
+  issuer: string,
+  name: string,
+  kind: EIssuerKind
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(adminCapId),
+      tx.object(registryId),
+      tx.pure.address(issuer),
+      tx.pure.string(name),
+      tx.pure.u8(kind),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'register_issuer',
+      ATTESTATION_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to deactivate an issuer
+ * @param packageId The ID of the package the attestation module is published in
+ * @param adminCapId The ID of the attestation AdminCap
+ * @param registryId The ID of the IssuerRegistry
+ * @param issuer The address of the issuer
+ * @returns The prepared transaction
+ */
+export const prepareDeactivateIssuerTransaction = (
+  packageId: string,
+  adminCapId: string,
+  registryId: string,
+  issuer: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(adminCapId),
+      tx.object(registryId),
+      tx.pure.address(issuer),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'deactivate_issuer',
+      ATTESTATION_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
@@ -0,0 +1,213 @@
+/**
+ * @jest-environment node
+ */
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { toBase64 } from '@mysten/sui/utils'
+import { EAttestedEntry } from '~~/dapp/types/EAttestedEntry'
+import { EIssuerKind } from '~~/dapp/types/EIssuerKind'
+import { IAttestation } from '~~/dapp/types/IAttestation'
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { IProfile } from '~~/dapp/types/IProfile'
+import {
+  attestedEntryBytes,
+  toAttestation,
+  verifiedEntries,
+  verifyAttestation,
+} from './attestations'
+import { MOVE_STRUCTS } from './moveTypes'
+
+const PACKAGE_ID = '0x2a'
+const PROFILE_ID = `0x${'f'.repeat(64)}`
+const OWNER = `0x${'b'.repeat(64)}`
+const EMPLOYER = `0x${'e'.repeat(64)}`
+const UNIVERSITY = `0x${'c'.repeat(64)}`
+
+const profile = {
+  id: PROFILE_ID,
+  owner: OWNER,
+  name: 'Amina',
+  experiences: [
+    {
+      company: 'Co-op',
+      title: 'Field officer',
+      startDate: '2020',
+      endDate: '',
+      description: 'Rainfall monitoring',
+    },
+  ],
+  education: [
+    {
+      institution: 'University',
+      degree: 'BSc',
+      field: 'Agronomy',
+      startDate: '2015',
+      endDate: '2019',
+    },
+  ],
+} as IProfile
+
+const issuers: IIssuer[] = [
+  {
+    address: EMPLOYER,
+    name: 'Co-op',
+    kind: EIssuerKind.EMPLOYER,
+    active: true,
+  },
+  {
+    address: UNIVERSITY,
+    name: 'University',
+    kind: EIssuerKind.UNIVERSITY,
+    active: false,
+  },
+]
+
+const attestation = (overrides: Partial<IAttestation> = {}): IAttestation => ({
+  id: '0x1',
+  issuer: EMPLOYER,
+  profileId: PROFILE_ID,
+  subject: OWNER,
+  entryKind: EAttestedEntry.EXPERIENCE,
+  entryIndex: 0,
+  entry: attestedEntryBytes(profile, EAttestedEntry.EXPERIENCE, 0)!,
+  issuedAt: 1,
+  revoked: false,
+  ...overrides,
+})
+
+describe('toAttestation', () => {
+  test('maps the entry bytes and numbers', () => {
+    const bytes = MOVE_STRUCTS.Attestation.layout
+      .serialize({
+        id: '0x1',
+        issuer: EMPLOYER,
+        profile_id: PROFILE_ID,
+        subject: OWNER,
+        entry_kind: 1,
+        entry_index: '2',
+        entry: [1, 2, 3],
+        issued_at: '1700000000000',
+        revoked: false,
+      })
+      .toBytes()
+    const response: SuiObjectResponse = {
+      data: {
+        objectId: '0x1',
+        version: '3',
+        digest: 'digest',
+        bcs: {
+          dataType: 'moveObject',
+          type: `${PACKAGE_ID}::attestation::Attestation`,
+          hasPublicTransfer: false,
+          version: '3',
+          bcsBytes: toBase64(bytes),
+        },
+      },
+    }
+
+    expect(toAttestation(response, PACKAGE_ID)).toMatchObject({
+      entryKind: EAttestedEntry.EDUCATION,
+      entryIndex: 2,
+      entry: new Uint8Array([1, 2, 3]),
+      issuedAt: 1700000000000,
+    })
+  })
+})
+
+describe('attestedEntryBytes', () => {
+  test('encodes the entry like Move', () => {
+    expect(
+      MOVE_STRUCTS.Education.layout.parse(
+        attestedEntryBytes(profile, EAttestedEntry.EDUCATION, 0)!
+      )
+    ).toEqual({
+      institution: 'University',
+      degree: 'BSc',
+      field: 'Agronomy',
+      start_date: '2015',
+      end_date: '2019',
+    })
+  })
+
+  test('has no bytes for missing entries', () => {
+    expect(attestedEntryBytes(profile, EAttestedEntry.EDUCATION, 1)).toBeNull()
+  })
+})
+
+describe('verifyAttestation', () => {
+  test('verifies an unchanged entry attested by an active issuer', () => {
+    expect(verifyAttestation(attestation(), issuers, profile)).toBe('verified')
+  })
+
+  test('rejects revoked attestations and untrusted issuers', () => {
+    expect(
+      verifyAttestation(attestation({ revoked: true }), issuers, profile)
+    ).toBe('revoked')
+    expect(
+      verifyAttestation(attestation({ issuer: OWNER }), issuers, profile)
+    ).toBe('unknown_issuer')
+    expect(
+      verifyAttestation(attestation({ issuer: UNIVERSITY }), issuers, profile)
+    ).toBe('inactive_issuer')
+  })
+
+  test('rejects attestations of other profiles', () => {
+    expect(
+      verifyAttestation(attestation({ profileId: '0x2' }), issuers, profile)
+    ).toBe('wrong_profile')
+  })
+
+  test('rejects edited and removed entries', () => {
+    const edited = {
+      ...profile,
+      experiences: [{ ...profile.experiences[0], title: 'Manager' }],
+    }
+
+    expect(verifyAttestation(attestation(), issuers, edited)).toBe(
+      'entry_changed'
+    )
+    expect(
+      verifyAttestation(attestation(), issuers, { ...profile, experiences: [] })
+    ).toBe('entry_missing')
+  })
+
+  test('finds entries that moved after an earlier one was removed', () => {
+    const earlier = { ...profile.experiences[0], company: 'Bank' }
+    const before = {
+      ...profile,
+      experiences: [earlier, profile.experiences[0]],
+    }
+    const later = attestation({
+      entryIndex: 1,
+      entry: attestedEntryBytes(before, EAttestedEntry.EXPERIENCE, 1)!,
+    })
+
+    // remove_experience(0) shifts the attested entry to index 0.
+    expect(verifyAttestation(later, issuers, before)).toBe('verified')
+    expect(verifyAttestation(later, issuers, profile)).toBe('verified')
+    expect(verifiedEntries(profile, [later], issuers).experiences).toEqual([
+      [issuers[0]],
+    ])
+  })
+})
+
+describe('verifiedEntries', () => {
+  test('lists each issuer once per verified entry', () => {
+    const verified = verifiedEntries(
+      profile,
+      [
+        attestation(),
+        attestation({ id: '0x2' }),
+        attestation({
+          id: '0x3',
+          issuer: UNIVERSITY,
+          entryKind: EAttestedEntry.EDUCATION,
+          entry: attestedEntryBytes(profile, EAttestedEntry.EDUCATION, 0)!,
+        }),
+      ],
+      issuers
+    )
+
+    expect(verified.experiences).toEqual([[issuers[0]]])
+    expect(verified.education).toEqual([[]])
+  })
+})
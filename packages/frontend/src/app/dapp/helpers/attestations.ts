@@ -0,0 +1,342 @@
+import { EventId, SuiObjectResponse } from '@mysten/sui/client'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { ATTESTATION_MODULE_NAME } from '~~/dapp/config/network'
+import { EAttestedEntry } from '~~/dapp/types/EAttestedEntry'
+import { IAttestation } from '~~/dapp/types/IAttestation'
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { decodeMoveObject, isMoveStruct, MOVE_STRUCTS } from './moveTypes'
+
+export type TAttestationStatus =
+  | 'verified'
+  | 'revoked'
+  | 'unknown_issuer'
+  | 'inactive_issuer'
+  | 'wrong_profile'
+  | 'entry_missing'
+  | 'entry_changed'
+
+/** The issuers that verified each entry, in the order of the profile's. */
+export type TVerifiedEntries = {
+  experiences: IIssuer[][]
+  education: IIssuer[][]
+}
+
+const sameAddress = (a: string, b: string) =>
+  normalizeSuiAddress(a) === normalizeSuiAddress(b)
+
+/**
+ * Map the IssuerRegistry object fetched with showBcs to its issuers.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not an IssuerRegistry.
+ * @throws MoveDecodeError if the object does not match the IssuerRegistry layout.
+ */
+export const toIssuers = (
+  response: SuiObjectResponse,
+  packageId: string
+): IIssuer[] | null => {
+  if (!isMoveStruct(response, packageId, 'IssuerRegistry')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'IssuerRegistry')
+
+  return fields.issuers.map((issuer) => ({
+    address: issuer.addr,
+    name: issuer.name,
+    kind: issuer.kind,
+    active: issuer.active,
+  }))
+}
+
+/**
+ * Map an Attestation object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not an Attestation.
+ * @throws MoveDecodeError if the object does not match the Attestation layout.
+ */
+export const toAttestation = (
+  response: SuiObjectResponse,
+  packageId: string
+): IAttestation | null => {
+  if (!isMoveStruct(response, packageId, 'Attestation')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Attestation')
+
+  return {
+    id: response.data!.objectId,
+    issuer: fields.issuer,
+    profileId: fields.profile_id,
+    subject: fields.subject,
+    entryKind: fields.entry_kind,
+    entryIndex: Number(fields.entry_index),
+    entry: new Uint8Array(fields.entry),
+    issuedAt: Number(fields.issued_at),
+    revoked: fields.revoked,
+  }
+}
+
+/**
+ * The BCS bytes of an entry of a profile, which attestations are made over.
+ *
+ * @param profile
+ * @param kind
+ * @param index
+ * @returns null if the profile has no such entry.
+ */
+export const attestedEntryBytes = (
+  profile: IProfile,
+  kind: EAttestedEntry,
+  index: number
+): Uint8Array | null => {
+  if (kind === EAttestedEntry.EXPERIENCE) {
+    const experience = profile.experiences[index]
+    if (experience == null) return null
+
+    return MOVE_STRUCTS.Experience.layout
+      .serialize({
+        company: experience.company,
+        title: experience.title,
+        start_date: experience.startDate,
+        end_date: experience.endDate,
+        description: experience.description,
+      })
+      .toBytes()
+  }
+
+  const education = profile.education[index]
+  if (education == null) return null
+
+  return MOVE_STRUCTS.Education.layout
+    .serialize({
+      institution: education.institution,
+      degree: education.degree,
+      field: education.field,
+      start_date: education.startDate,
+      end_date: education.endDate,
+    })
+    .toBytes()
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i])
+
+/**
+ * Where the attested entry is in the profile now. Removing an earlier entry
+ * shifts the later ones, so the entry is looked up by its bytes, at the
+ * attested index first.
+ *
+ * @param attestation
+ * @param profile
+ * @returns null if no entry of the kind has the attested bytes.
+ */
+const findAttestedEntry = (
+  attestation: IAttestation,
+  profile: IProfile
+): number | null => {
+  const count =
+    attestation.entryKind === EAttestedEntry.EXPERIENCE
+      ? profile.experiences.length
+      : profile.education.length
+  const indexes = [...Array(count).keys()]
+  const matches = (index: number) => {
+    const entry = attestedEntryBytes(profile, attestation.entryKind, index)
+    return entry != null && sameBytes(entry, attestation.entry)
+  }
+
+  if (matches(attestation.entryIndex)) return attestation.entryIndex
+  return indexes.find(matches) ?? null
+}
+
+/**
+ * Check an attestation against the registry and the current profile. attest
+ * only checks the issuer when it is made, so the issuer can have been
+ * deactivated and the entry edited or removed since.
+ *
+ * @param attestation
+ * @param issuers The issuers of the IssuerRegistry.
+ * @param profile
+ * @returns 'verified' if the attestation holds.
+ */
+export const verifyAttestation = (
+  attestation: IAttestation,
+  issuers: IIssuer[],
+  profile: IProfile
+): TAttestationStatus => {
+  if (attestation.revoked) return 'revoked'
+
+  const issuer = issuers.find((i) => sameAddress(i.address, attestation.issuer))
+  if (issuer == null) return 'unknown_issuer'
+  if (!issuer.active) return 'inactive_issuer'
+
+  if (!sameAddress(attestation.profileId, profile.id)) return 'wrong_profile'
+
+  if (findAttestedEntry(attestation, profile) != null) return 'verified'
+
+  // Nothing matches: either the entry was edited or it was removed.
+  return attestedEntryBytes(
+    profile,
+    attestation.entryKind,
+    attestation.entryIndex
+  ) == null
+    ? 'entry_missing'
+    : 'entry_changed'
+}
+
+/**
+ * The issuers whose attestations of each entry of a profile hold.
+ *
+ * @param profile
+ * @param attestations Attestations of the profile, in any order.
+ * @param issuers The issuers of the IssuerRegistry.
+ * @returns
+ */
+export const verifiedEntries = (
+  profile: IProfile,
+  attestations: IAttestation[],
+  issuers: IIssuer[]
+): TVerifiedEntries => {
+  const verified: TVerifiedEntries = {
+    experiences: profile.experiences.map(() => []),
+    education: profile.education.map(() => []),
+  }
+
+  for (const attestation of attestations) {
+    if (verifyAttestation(attestation, issuers, profile) !== 'verified') {
+      continue
+    }
+
+    const entries =
+      attestation.entryKind === EAttestedEntry.EXPERIENCE
+        ? verified.experiences
+        : verified.education
+    const byEntry = entries[findAttestedEntry(attestation, profile)!]
+    const issuer = issuers.find((i) =>
+      sameAddress(i.address, attestation.issuer)
+    )!
+
+    // An issuer may attest the same entry more than once.
+    if (!byEntry.some((i) => sameAddress(i.address, issuer.address))) {
+      byEntry.push(issuer)
+    }
+  }
+
+  return verified
+}
+
+/**
+ * The issuers of the IssuerRegistry.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param registryId
+ * @returns
+ * @throws Error if the object is not an IssuerRegistry.
+ */
+export const fetchIssuers = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  registryId: string
+): Promise<IIssuer[]> => {
+  const response = await suiClient.getObject({
+    id: registryId,
+    options: { showBcs: true },
+  })
+
+  const issuers = toIssuers(response, packageId)
+  if (issuers == null) {
+    throw new Error(`${registryId} is not an IssuerRegistry`)
+  }
+
+  return issuers
+}
+
+/**
+ * The attestations of a profile, from AttestationIssued events, including
+ * revoked ones.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param profileId
+ * @returns Attestations, newest first.
+ */
+export const fetchAttestations = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  profileId: string
+): Promise<IAttestation[]> => {
+  const ids: string[] = []
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(
+          packageId,
+          'AttestationIssued',
+          ATTESTATION_MODULE_NAME
+        ),
+      },
+      cursor,
+      order: 'descending',
+    })
+
+    for (const event of page.data) {
+      const parsed = event.parsedJson as {
+        attestation_id: string
+        profile_id: string
+      }
+      if (sameAddress(parsed.profile_id, profileId)) {
+        ids.push(parsed.attestation_id)
+      }
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  const attestations: IAttestation[] = []
+
+  // multiGetObjects accepts at most 50 IDs per call.
+  for (let i = 0; i < ids.length; i += 50) {
+    const responses = await suiClient.multiGetObjects({
+      ids: ids.slice(i, i + 50),
+      options: { showBcs: true },
+    })
+
+    for (const response of responses) {
+      const attestation = toAttestation(response, packageId)
+      if (attestation != null) attestations.push(attestation)
+    }
+  }
+
+  return attestations
+}
+
+/**
+ * The issuers whose attestations of each entry of a profile hold.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param registryId The ID of the IssuerRegistry, null if not deployed.
+ * @param profile
+ * @returns No verified entries if the registry is not deployed.
+ */
+export const fetchVerifiedEntries = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  registryId: string | null,
+  profile: IProfile
+): Promise<TVerifiedEntries> => {
+  if (registryId == null) return verifiedEntries(profile, [], [])
+
+  const [issuers, attestations] = await Promise.all([
+    fetchIssuers(suiClient, packageId, registryId),
+    fetchAttestations(suiClient, packageId, profile.id),
+  ])
+
+  return verifiedEntries(profile, attestations, issuers)
+}
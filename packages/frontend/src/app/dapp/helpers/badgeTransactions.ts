@@ -0,0 +1,62 @@
+import { Transaction } from '@mysten/sui/transactions'
+import { BADGE_MODULE_NAME } from '~~/dapp/config/network'
+import { fullFunctionName } from '~~/helpers/network'
+import { badgeImageUrl, TBadgeRule } from './badges'
+
+/**
+ * Prepares a transaction to award badges to a wallet
+ * @param packageId The ID of the package the badge module is published in
+ * @param minterCapId The ID of the MinterCap the sender holds
+ * @param registryId The ID of the BadgeRegistry
+ * @param recipient The address of the wallet
+ * @param rules The rules the wallet is eligible under, one badge each
+ * @returns The prepared transaction
+ */
+export const prepareMintBadgesTransaction = (
+  packageId: string,
+  minterCapId: string,
+  registryId: string,
+  recipient: string,
+  rules: TBadgeRule[]
+): Transaction => {
+  const tx = new Transaction()
+
+  for (const rule of rules) {
+    tx.moveCall({
+      arguments: [
+        tx.object(minterCapId),
+        tx.object(registryId),
+        tx.pure.address(recipient),
+        tx.pure.string(rule.kind),
+        tx.pure.string(rule.name),
+        tx.pure.string(rule.description),
+        tx.pure.string(badgeImageUrl(rule.kind)),
+        tx.object.clock(),
+      ],
+      target: fullFunctionName(packageId, 'mint', BADGE_MODULE_NAME),
+    })
+  }
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to burn a badge the sender holds
+ * @param packageId The ID of the package the badge module is published in
+ * @param registryId The ID of the BadgeRegistry
+ * @param badgeId The ID of the badge
+ * @returns The prepared transaction
+ */
+export const prepareBurnBadgeTransaction = (
+  packageId: string,
+  registryId: string,
+  badgeId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(registryId), tx.object(badgeId)],
+    target: fullFunctionName(packageId, 'burn', BADGE_MODULE_NAME),
+  })
+
+  return tx
+}
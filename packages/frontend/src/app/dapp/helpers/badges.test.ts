@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { prepareMintBadgesTransaction } from './badgeTransactions'
+import {
+  BADGE_RULES,
+  badgeFacts,
+  eligibleBadges,
+  isClimateProject,
+  TBadgeFacts,
+} from './badges'
+import { TReputationInputs } from './reputation'
+
+const PACKAGE_ID = `0x${'2a'.padStart(64, '0')}`
+const NOW = 1735689600000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const reputation: TReputationInputs = {
+  endorsements: 0,
+  endorsers: 0,
+  firstDegree: 0,
+  secondDegree: 0,
+  verifiedExperiences: 0,
+  verifiedEducation: 0,
+  profileCreatedAtMs: NOW,
+  claimsHonored: 0,
+  claimsRejected: 0,
+  lpSinceMs: null,
+}
+
+const facts = (overrides: Partial<TReputationInputs> = {}): TBadgeFacts => ({
+  reputation: { ...reputation, ...overrides },
+  reputationScore: 0,
+  policies: 0,
+  verifiedClimateProjects: 0,
+})
+
+const kinds = (f: TBadgeFacts, held: string[] = []) =>
+  eligibleBadges(f, NOW, held).map((rule) => rule.kind)
+
+describe('BADGE_RULES', () => {
+  test('have unique kinds', () => {
+    const all = BADGE_RULES.map((rule) => rule.kind)
+    expect(new Set(all).size).toBe(all.length)
+  })
+})
+
+describe('eligibleBadges', () => {
+  test('awards nothing to a new wallet', () => {
+    expect(kinds(facts())).toEqual([])
+  })
+
+  test('awards milestones once reached', () => {
+    expect(kinds({ ...facts(), policies: 1 })).toEqual(['first_policy'])
+    expect(kinds(facts({ endorsements: 9 }))).toEqual([])
+    expect(kinds(facts({ endorsements: 10 }))).toEqual(['endorsed_10'])
+    expect(kinds({ ...facts(), verifiedClimateProjects: 1 })).toEqual([
+      'verified_climate_project',
+    ])
+    expect(
+      kinds(facts({ verifiedExperiences: 2, verifiedEducation: 1 }))
+    ).toEqual(['verified_3'])
+  })
+
+  test('measures liquidity tenure up to now', () => {
+    expect(kinds(facts({ lpSinceMs: NOW - 89 * DAY_MS }))).toEqual([])
+    expect(kinds(facts({ lpSinceMs: NOW - 90 * DAY_MS }))).toEqual([
+      'liquidity_90',
+    ])
+  })
+
+  test('skips badges the wallet holds', () => {
+    expect(
+      kinds({ ...facts({ claimsHonored: 1 }), policies: 2 }, ['first_policy'])
+    ).toEqual(['claim_honored'])
+  })
+})
+
+describe('badgeFacts', () => {
+  const profile = {
+    experiences: [
+      { title: 'Solar installer', company: 'Sun Co', description: '' },
+      { title: 'Accountant', company: 'Bank', description: '' },
+      { title: 'Reforestation lead', company: 'Trees', description: '' },
+    ],
+  } as IProfile
+  const issuer = { address: '0xe' } as IIssuer
+
+  test('counts verified climate projects only', () => {
+    const f = badgeFacts(
+      profile,
+      { experiences: [[issuer], [issuer], []], education: [] },
+      reputation,
+      1,
+      NOW
+    )
+
+    expect(f.verifiedClimateProjects).toBe(1)
+    expect(f.policies).toBe(1)
+  })
+
+  test('recognizes climate experiences', () => {
+    expect(isClimateProject(profile.experiences[0])).toBe(true)
+    expect(isClimateProject(profile.experiences[1])).toBe(false)
+  })
+})
+
+describe('prepareMintBadgesTransaction', () => {
+  test('mints one badge per rule', () => {
+    const rules = BADGE_RULES.slice(0, 2)
+    const commands = prepareMintBadgesTransaction(
+      PACKAGE_ID,
+      '0x1',
+      '0x2',
+      '0x3',
+      rules
+    ).getData().commands
+
+    expect(commands.map((c) => c.MoveCall?.function)).toEqual(['mint', 'mint'])
+  })
+})
@@ -0,0 +1,281 @@
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { BADGE_MODULE_NAME } from '~~/dapp/config/network'
+import { IBadge } from '~~/dapp/types/IBadge'
+import { IExperience } from '~~/dapp/types/IExperience'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { fetchVerifiedEntries, TVerifiedEntries } from './attestations'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+import { fetchIndexedPolicyIds } from './policies'
+import { fetchProfileByOwner } from './profiles'
+import {
+  computeReputation,
+  fetchReputationInputs,
+  TReputationInputs,
+} from './reputation'
+
+/** What badge eligibility is decided from. */
+export type TBadgeFacts = {
+  reputation: TReputationInputs
+  reputationScore: number
+  /** Policies the wallet ever took out. */
+  policies: number
+  /** Climate-related experiences verified by an issuer. */
+  verifiedClimateProjects: number
+}
+
+/** A milestone that earns a badge of its kind. */
+export type TBadgeRule = {
+  /** Stored in the minted Badge, unique among the rules. */
+  kind: string
+  name: string
+  description: string
+  isEligible: (facts: TBadgeFacts, nowMs: number) => boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const BADGE_IMAGE_BASE_URL = 'https://amoca.network/badges'
+
+// Words that make an experience a climate project.
+const CLIMATE_KEYWORDS = [
+  'climate',
+  'carbon',
+  'renewable',
+  'solar',
+  'reforestation',
+  'sustainab',
+  'resilience',
+  'adaptation',
+]
+
+export const BADGE_RULES: TBadgeRule[] = [
+  {
+    kind: 'first_policy',
+    name: 'First policy',
+    description: 'Took out a first climate insurance policy.',
+    isEligible: (facts) => facts.policies >= 1,
+  },
+  {
+    kind: 'endorsed_10',
+    name: 'Endorsed',
+    description: 'Received 10 skill endorsements.',
+    isEligible: (facts) => facts.reputation.endorsements >= 10,
+  },
+  {
+    kind: 'verified_climate_project',
+    name: 'Climate project',
+    description: 'Had a climate project verified by an issuer.',
+    isEligible: (facts) => facts.verifiedClimateProjects >= 1,
+  },
+  {
+    kind: 'verified_3',
+    name: 'Verified',
+    description: 'Had 3 profile entries verified by issuers.',
+    isEligible: (facts) =>
+      facts.reputation.verifiedExperiences +
+        facts.reputation.verifiedEducation >=
+      3,
+  },
+  {
+    kind: 'connector_25',
+    name: 'Connector',
+    description: 'Connected with 25 people.',
+    isEligible: (facts) => facts.reputation.firstDegree >= 25,
+  },
+  {
+    kind: 'claim_honored',
+    name: 'Resilient',
+    description: 'Had an insurance claim honored.',
+    isEligible: (facts) => facts.reputation.claimsHonored >= 1,
+  },
+  {
+    kind: 'liquidity_90',
+    name: 'Liquidity provider',
+    description: 'Provided liquidity to the pool for 90 days.',
+    isEligible: (facts, nowMs) =>
+      facts.reputation.lpSinceMs != null &&
+      nowMs - facts.reputation.lpSinceMs >= 90 * DAY_MS,
+  },
+  {
+    kind: 'trusted_50',
+    name: 'Trusted',
+    description: 'Reached a reputation score of 50.',
+    isEligible: (facts) => facts.reputationScore >= 50,
+  },
+]
+
+export const badgeImageUrl = (kind: string) =>
+  `${BADGE_IMAGE_BASE_URL}/${kind}.svg`
+
+/**
+ * Whether an experience is about climate, from its title, company and
+ * description.
+ *
+ * @param experience
+ * @returns
+ */
+export const isClimateProject = (experience: IExperience) => {
+  const text =
+    `${experience.title} ${experience.company} ${experience.description}`.toLowerCase()
+  return CLIMATE_KEYWORDS.some((keyword) => text.includes(keyword))
+}
+
+/**
+ * Gather the facts about a wallet the rules decide on.
+ *
+ * @param profile
+ * @param verified The issuers that verified each entry of the profile.
+ * @param reputation
+ * @param policies
+ * @param nowMs The time the reputation score is computed at.
+ * @returns
+ */
+export const badgeFacts = (
+  profile: IProfile,
+  verified: TVerifiedEntries,
+  reputation: TReputationInputs,
+  policies: number,
+  nowMs: number
+): TBadgeFacts => ({
+  reputation,
+  reputationScore: computeReputation(reputation, nowMs).score,
+  policies,
+  verifiedClimateProjects: profile.experiences.filter(
+    (experience, i) =>
+      (verified.experiences[i] ?? []).length > 0 && isClimateProject(experience)
+  ).length,
+})
+
+/**
+ * The badges a wallet has earned but does not hold.
+ *
+ * @param facts
+ * @param nowMs
+ * @param held Kinds of the badges the wallet holds.
+ * @param rules
+ * @returns Rules to mint badges of, in the order of the rules.
+ */
+export const eligibleBadges = (
+  facts: TBadgeFacts,
+  nowMs: number,
+  held: string[],
+  rules: TBadgeRule[] = BADGE_RULES
+): TBadgeRule[] =>
+  rules.filter(
+    (rule) => !held.includes(rule.kind) && rule.isEligible(facts, nowMs)
+  )
+
+/**
+ * Map a Badge object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a Badge.
+ * @throws MoveDecodeError if the object does not match the Badge layout.
+ */
+export const toBadge = (
+  response: SuiObjectResponse,
+  packageId: string
+): IBadge | null => {
+  if (!isMoveStruct(response, packageId, 'Badge')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Badge')
+
+  return {
+    id: response.data!.objectId,
+    kind: fields.kind,
+    name: fields.name,
+    description: fields.description,
+    imageUrl: fields.image_url,
+    recipient: fields.recipient,
+    awardedAt: Number(fields.awarded_at),
+  }
+}
+
+/**
+ * Every Badge the address holds, oldest first.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param owner
+ * @returns
+ */
+export const fetchBadges = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  owner: string
+): Promise<IBadge[]> => {
+  const badges: IBadge[] = []
+  let cursor: string | null = null
+
+  do {
+    const page = await suiClient.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: fullStructName(packageId, 'Badge', BADGE_MODULE_NAME),
+      },
+      options: { showBcs: true },
+      cursor,
+    })
+
+    for (const response of page.data) {
+      const badge = toBadge(response, packageId)
+      if (badge != null) badges.push(badge)
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  return badges.sort((a, b) => a.awardedAt - b.awardedAt)
+}
+
+/**
+ * Load the facts about a wallet the rules decide on.
+ *
+ * @param suiClient
+ * @param packageId The ID of the package the profile module is published in.
+ * @param insurancePackageId The ID of the insurance package, null if not
+ *   deployed.
+ * @param policyRegistryId The ID of the PolicyRegistry, null if not deployed.
+ * @param registryId The ID of the IssuerRegistry, null if not deployed.
+ * @param address
+ * @param nowMs
+ * @returns null if the address has no profile.
+ */
+export const fetchBadgeFacts = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  insurancePackageId: string | null,
+  policyRegistryId: string | null,
+  registryId: string | null,
+  address: string,
+  nowMs: number
+): Promise<TBadgeFacts | null> => {
+  const profile = await fetchProfileByOwner(suiClient, packageId, address)
+  if (profile == null) return null
+
+  const [reputation, verified, policyIds] = await Promise.all([
+    fetchReputationInputs(
+      suiClient,
+      packageId,
+      insurancePackageId,
+      registryId,
+      address
+    ),
+    fetchVerifiedEntries(suiClient, packageId, registryId, profile),
+    insurancePackageId == null || policyRegistryId == null
+      ? []
+      : fetchIndexedPolicyIds(
+          suiClient,
+          insurancePackageId,
+          policyRegistryId,
+          'owner',
+          address
+        ),
+  ])
+  if (reputation == null) return null
+
+  return badgeFacts(profile, verified, reputation, policyIds.length, nowMs)
+}
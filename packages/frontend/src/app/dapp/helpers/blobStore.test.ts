@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ */
+import {
+  blobIdOf,
+  BlobStoreError,
+  createMemoryBlobStore,
+  createWalrusBlobStore,
+  resolveBlobUrl,
+  walrusBlobId,
+} from './blobStore'
+
+const AGGREGATOR_URL = 'https://aggregator.example'
+
+describe('blob references', () => {
+  test('read the blob ID of a reference', () => {
+    expect(blobIdOf('walrus://abc')).toBe('abc')
+    expect(blobIdOf('https://example.com/a.png')).toBeNull()
+  })
+
+  test('resolve to aggregator URLs and leave plain URLs', () => {
+    const store = createWalrusBlobStore('', AGGREGATOR_URL)
+
+    expect(resolveBlobUrl('walrus://abc', store)).toBe(
+      `${AGGREGATOR_URL}/v1/blobs/abc`
+    )
+    expect(resolveBlobUrl('https://example.com/a.png', store)).toBe(
+      'https://example.com/a.png'
+    )
+    expect(resolveBlobUrl('', store)).toBeUndefined()
+  })
+})
+
+describe('walrusBlobId', () => {
+  test('reads new and already stored blobs', () => {
+    expect(
+      walrusBlobId({ newlyCreated: { blobObject: { blobId: 'a' } } })
+    ).toBe('a')
+    expect(walrusBlobId({ alreadyCertified: { blobId: 'b' } })).toBe('b')
+  })
+
+  test('rejects responses without a blob ID', () => {
+    expect(() => walrusBlobId({ error: 'out of funds' })).toThrow(
+      BlobStoreError
+    )
+  })
+})
+
+describe('createWalrusBlobStore', () => {
+  test('refuses uploads without a publisher', async () => {
+    await expect(
+      createWalrusBlobStore('', AGGREGATOR_URL).upload(
+        new Uint8Array([1]),
+        'image/png'
+      )
+    ).rejects.toThrow(BlobStoreError)
+  })
+})
+
+describe('createMemoryBlobStore', () => {
+  test('serves what it stores, under content-derived IDs', async () => {
+    const store = createMemoryBlobStore()
+    const data = new Uint8Array([1, 2, 3])
+
+    const blobId = await store.upload(data, 'application/octet-stream')
+
+    expect(await store.upload(data.slice(), 'application/octet-stream')).toBe(
+      blobId
+    )
+    expect(await store.upload(new Uint8Array([3, 2, 1]), 'a/b')).not.toBe(
+      blobId
+    )
+    expect(await store.download(blobId)).toEqual(data)
+    expect(store.url(blobId)).toBe(`memory://blobs/${blobId}`)
+    await expect(store.download('missing')).rejects.toThrow(BlobStoreError)
+  })
+})
@@ -0,0 +1,148 @@
+import { IBlobStore } from '~~/dapp/types/IBlobStore'
+
+/** Thrown when a blob store fails to store or serve a blob. */
+export class BlobStoreError extends Error {}
+
+// Profile fields that hold a URL can reference a blob instead. Uploads now
+// save the aggregator URL, which wallets can load, but avatars uploaded
+// before that still hold the reference.
+const BLOB_REFERENCE_PREFIX = 'walrus://'
+
+// How long Walrus keeps uploaded blobs.
+const WALRUS_EPOCHS = 53
+
+/**
+ * The blob a field references.
+ *
+ * @param value
+ * @returns null if the value is a plain URL.
+ */
+export const blobIdOf = (value: string): string | null =>
+  value.startsWith(BLOB_REFERENCE_PREFIX)
+    ? value.slice(BLOB_REFERENCE_PREFIX.length)
+    : null
+
+/**
+ * Turn a field that holds a URL or a blob reference into a URL.
+ *
+ * @param value
+ * @param store
+ * @returns undefined if the value is empty, so that avatars fall back.
+ */
+export const resolveBlobUrl = (
+  value: string,
+  store: IBlobStore
+): string | undefined => {
+  if (value === '') return undefined
+
+  const blobId = blobIdOf(value)
+  return blobId == null ? value : store.url(blobId)
+}
+
+/**
+ * The blob ID of a Walrus publisher response, whether the blob was new or
+ * already stored.
+ *
+ * @param response
+ * @returns
+ * @throws BlobStoreError if the response has no blob ID.
+ */
+export const walrusBlobId = (response: unknown): string => {
+  const { newlyCreated, alreadyCertified } = (response ?? {}) as {
+    newlyCreated?: { blobObject?: { blobId?: string } }
+    alreadyCertified?: { blobId?: string }
+  }
+  const blobId =
+    newlyCreated?.blobObject?.blobId ?? alreadyCertified?.blobId ?? null
+
+  if (blobId == null) {
+    throw new BlobStoreError('The Walrus publisher returned no blob ID')
+  }
+
+  return blobId
+}
+
+/**
+ * Store blobs through the HTTP API of a Walrus publisher and aggregator.
+ *
+ * @param publisherUrl Empty if the network has no publisher.
+ * @param aggregatorUrl
+ * @returns
+ */
+export const createWalrusBlobStore = (
+  publisherUrl: string,
+  aggregatorUrl: string
+): IBlobStore => ({
+  upload: async (data, contentType) => {
+    if (publisherUrl === '') {
+      throw new BlobStoreError(
+        'Walrus uploads are not available on this network'
+      )
+    }
+
+    const response = await fetch(
+      `${publisherUrl}/v1/blobs?epochs=${WALRUS_EPOCHS}`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        // A copy backed by a plain ArrayBuffer, which fetch accepts.
+        body: new Uint8Array(data),
+      }
+    )
+    if (!response.ok) {
+      throw new BlobStoreError(
+        `The Walrus publisher failed to store the blob: ${response.status}`
+      )
+    }
+
+    return walrusBlobId(await response.json())
+  },
+  download: async (blobId) => {
+    const response = await fetch(`${aggregatorUrl}/v1/blobs/${blobId}`)
+    if (!response.ok) {
+      throw new BlobStoreError(
+        `The Walrus aggregator failed to serve blob ${blobId}: ${response.status}`
+      )
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  },
+  url: (blobId) => `${aggregatorUrl}/v1/blobs/${blobId}`,
+})
+
+/**
+ * Keep blobs in memory, e.g. in tests. Like Walrus, the same content gets the
+ * same ID.
+ *
+ * @param baseUrl Where blobs are pretended to be served.
+ * @returns
+ */
+export const createMemoryBlobStore = (
+  baseUrl = 'memory://blobs'
+): IBlobStore & {
+  blobs: Map<string, { data: Uint8Array; contentType: string }>
+} => {
+  const blobs = new Map<string, { data: Uint8Array; contentType: string }>()
+
+  return {
+    blobs,
+    upload: async (data, contentType) => {
+      // FNV-1a, enough to tell test blobs apart.
+      let hash = 0x811c9dc5
+      for (const byte of data) {
+        hash = Math.imul(hash ^ byte, 0x01000193) >>> 0
+      }
+      const blobId = `${hash.toString(16).padStart(8, '0')}${data.length}`
+
+      blobs.set(blobId, { data: data.slice(), contentType })
+      return blobId
+    },
+    download: async (blobId) => {
+      const blob = blobs.get(blobId)
+      if (blob == null) throw new BlobStoreError(`Blob ${blobId} not found`)
+
+      return blob.data.slice()
+    },
+    url: (blobId) => `${baseUrl}/${blobId}`,
+  }
+}
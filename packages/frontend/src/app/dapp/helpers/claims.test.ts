@@ -0,0 +1,45 @@
+import { ETriggerOperator } from '~~/dapp/types/ETriggerOperator'
+import { ClaimError, isTriggerMet } from './claims'
+
+describe('isTriggerMet', () => {
+  const threshold = BigInt(2500000000)
+
+  test.each([
+    [ETriggerOperator.LESS_THAN, 2499999999, true],
+    // The comparisons are inclusive.
+    [ETriggerOperator.LESS_THAN, 2500000000, true],
+    [ETriggerOperator.LESS_THAN, 2500000001, false],
+    [ETriggerOperator.GREATER_THAN, 2500000000, true],
+    [ETriggerOperator.GREATER_THAN, 2499999999, false],
+    // 1% of the threshold either way.
+    [ETriggerOperator.EQUAL_TO, 2525000000, true],
+    [ETriggerOperator.EQUAL_TO, 2475000000, true],
+    [ETriggerOperator.EQUAL_TO, 2525000001, false],
+    [ETriggerOperator.EQUAL_TO, 2474999999, false],
+  ])('operator %d with reading %d -> %s', (operator, value, met) => {
+    expect(isTriggerMet(operator, threshold, BigInt(value))).toBe(met)
+  })
+
+  test('rounds the equal-to tolerance down like Move', () => {
+    // 1% of 199 is 1 in integer math.
+    expect(
+      isTriggerMet(ETriggerOperator.EQUAL_TO, BigInt(199), BigInt(201))
+    ).toBe(false)
+  })
+
+  test('never triggers on unknown operators', () => {
+    expect(isTriggerMet(3 as ETriggerOperator, threshold, threshold)).toBe(
+      false
+    )
+  })
+
+  test('aborts like Move when the reading does not fit in a u64', () => {
+    expect(() =>
+      isTriggerMet(
+        ETriggerOperator.GREATER_THAN,
+        threshold,
+        BigInt('18446744073709551616')
+      )
+    ).toThrow(ClaimError)
+  })
+})
@@ -0,0 +1,209 @@
+import { EventId, SuiObjectResponse } from '@mysten/sui/client'
+import { CLAIM_MODULE_NAME, ORACLE_MODULE_NAME } from '~~/dapp/config/network'
+import { ETriggerOperator } from '~~/dapp/types/ETriggerOperator'
+import { IAggregatedReading } from '~~/dapp/types/IAggregatedReading'
+import { IClaim } from '~~/dapp/types/IClaim'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+
+/** Thrown where claim_processor_updated would abort. */
+export class ClaimError extends Error {}
+
+const U64_MAX = BigInt('18446744073709551615')
+
+/**
+ * The trigger check of claim_processor_updated. The comparisons are
+ * inclusive, and "equal to" accepts values within 1% of the threshold.
+ * Both values are compared as raw integers, whatever their decimal places.
+ *
+ * @param operator
+ * @param threshold
+ * @param actualValue
+ * @returns
+ */
+export const isTriggerMet = (
+  operator: ETriggerOperator,
+  threshold: bigint,
+  actualValue: bigint
+): boolean => {
+  // The contract casts the u128 reading to u64.
+  if (actualValue > U64_MAX) {
+    throw new ClaimError('The reading does not fit in a u64')
+  }
+
+  switch (operator) {
+    case ETriggerOperator.LESS_THAN:
+      return actualValue <= threshold
+    case ETriggerOperator.GREATER_THAN:
+      return actualValue >= threshold
+    case ETriggerOperator.EQUAL_TO: {
+      const diff =
+        actualValue > threshold
+          ? actualValue - threshold
+          : threshold - actualValue
+      return diff <= threshold / BigInt(100)
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Map a Claim object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a Claim.
+ * @throws MoveDecodeError if the object does not match the Claim layout.
+ */
+export const toClaim = (
+  response: SuiObjectResponse,
+  packageId: string
+): IClaim | null => {
+  if (!isMoveStruct(response, packageId, 'Claim')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Claim')
+
+  return {
+    id: response.data!.objectId,
+    policyId: fields.policy_id,
+    owner: fields.owner,
+    triggerValue: BigInt(fields.trigger_value),
+    actualValue: BigInt(fields.actual_value),
+    decimalPlaces: fields.decimal_places,
+    payoutAmount: BigInt(fields.payout_amount),
+    processedAt: Number(fields.processed_at),
+    status: fields.status,
+    oracleSources: BigInt(fields.oracle_sources),
+  }
+}
+
+/**
+ * Map an AggregatedData object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not an AggregatedData.
+ * @throws MoveDecodeError if the object does not match the AggregatedData layout.
+ */
+export const toAggregatedReading = (
+  response: SuiObjectResponse,
+  packageId: string
+): IAggregatedReading | null => {
+  if (!isMoveStruct(response, packageId, 'AggregatedData')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'AggregatedData')
+
+  return {
+    id: response.data!.objectId,
+    location: fields.location,
+    dataType: fields.data_type,
+    value: BigInt(fields.value),
+    decimalPlaces: fields.decimal_places,
+    timestamp: Number(fields.timestamp),
+    sourcesCount: BigInt(fields.sources_count),
+  }
+}
+
+/**
+ * Every Claim the address holds, newest first.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param owner
+ * @returns
+ */
+export const fetchClaims = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  owner: string
+): Promise<IClaim[]> => {
+  const claims: IClaim[] = []
+  let cursor: string | null = null
+
+  do {
+    const page = await suiClient.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: fullStructName(packageId, 'Claim', CLAIM_MODULE_NAME),
+      },
+      options: { showBcs: true },
+      cursor,
+    })
+
+    for (const response of page.data) {
+      const claim = toClaim(response, packageId)
+      if (claim != null) claims.push(claim)
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  return claims.sort((a, b) => b.processedAt - a.processedAt)
+}
+
+/**
+ * The most recent AggregatedData readings a claim on the given location and
+ * peril can be settled against.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param location
+ * @param dataType
+ * @param limit
+ * @returns Readings, newest first.
+ */
+export const fetchMatchingReadings = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  location: string,
+  dataType: string,
+  limit: number = 10
+): Promise<IAggregatedReading[]> => {
+  const ids: string[] = []
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(
+          packageId,
+          'DataAggregated',
+          ORACLE_MODULE_NAME
+        ),
+      },
+      cursor,
+      order: 'descending',
+    })
+
+    for (const event of page.data) {
+      const parsed = event.parsedJson as {
+        aggregation_id: string
+        location: string
+        data_type: string
+      }
+      if (
+        parsed.location === location &&
+        parsed.data_type === dataType &&
+        ids.length < limit
+      ) {
+        ids.push(parsed.aggregation_id)
+      }
+    }
+
+    cursor =
+      page.hasNextPage && ids.length < limit ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  if (ids.length === 0) return []
+
+  const responses = await suiClient.multiGetObjects({
+    ids,
+    options: { showBcs: true },
+  })
+
+  return responses
+    .map((response) => toAggregatedReading(response, packageId))
+    .filter((reading): reading is IAggregatedReading => reading != null)
+}
@@ -0,0 +1,82 @@
+import { profile } from './__fixtures__/profiles'
+import { buildConnectionGraph, suggestConnections } from './connections'
+
+describe('buildConnectionGraph', () => {
+  const root = profile('0x1', ['0x2', '0x3', '0x9'])
+  const network = [
+    profile('0x2', ['0x1', '0x3', '0x4']),
+    profile('0x3', ['0x1', '0x4', '0x5']),
+    profile('0x4', ['0x2', '0x3']),
+    profile('0x5', ['0x3']),
+  ]
+
+  test('resolves first-degree connections that have profiles', () => {
+    expect(
+      buildConnectionGraph(root, network).first.map((p) => p.owner)
+    ).toEqual(['0x2', '0x3'])
+  })
+
+  test('ranks second-degree connections by mutual connections', () => {
+    const { second } = buildConnectionGraph(root, network)
+
+    expect(
+      second.map(({ profile, via }) => [profile.owner, via.map((p) => p.owner)])
+    ).toEqual([
+      ['0x4', ['0x2', '0x3']],
+      ['0x5', ['0x3']],
+    ])
+  })
+})
+
+describe('suggestConnections', () => {
+  const viewer = profile('0x1', ['0x2'], ['Move', 'Rust'], {
+    location: 'Nairobi',
+  })
+
+  test('ranks by shared skills and location', () => {
+    const suggestions = suggestConnections(viewer, [
+      profile('0x3', [], ['move'], { location: 'Lagos' }),
+      profile('0x4', [], ['Move', 'Rust'], { location: ' nairobi' }),
+      profile('0x5', [], ['Go'], { location: 'Accra' }),
+    ])
+
+    expect(suggestions).toEqual([
+      {
+        profile: expect.objectContaining({ owner: '0x4' }),
+        sharedSkills: ['Move', 'Rust'],
+        sameLocation: true,
+      },
+      {
+        profile: expect.objectContaining({ owner: '0x3' }),
+        sharedSkills: ['move'],
+        sameLocation: false,
+      },
+    ])
+  })
+
+  test('skips the viewer, connections and duplicates', () => {
+    const suggestions = suggestConnections(viewer, [
+      profile('0x1', [], ['Move']),
+      profile('0x2', [], ['Move']),
+      profile('0x3', [], ['Move']),
+      profile('0x3', [], ['Move']),
+    ])
+
+    expect(suggestions.map((s) => s.profile.owner)).toEqual(['0x3'])
+  })
+
+  test('skips profiles the viewer already sent a request to', () => {
+    const suggestions = suggestConnections(
+      viewer,
+      [profile('0x3', [], ['Move']), profile('0x4', [], ['Rust'])],
+      5,
+      [profile('0x3').id]
+    )
+
+    expect(suggestions.map((s) => s.profile.owner)).toEqual(['0x4'])
+  })
+
+  test('does not match empty locations', () => {
+    expect(suggestConnections(profile('0x1'), [profile('0x2')])).toEqual([])
+  })
+})
@@ -0,0 +1,137 @@
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fetchProfileByOwner } from './profiles'
+
+export type TConnectionGraph = {
+  /** Profiles of the root's connections. */
+  first: IProfile[]
+  /** Profiles connected to the first degree but not to the root. */
+  second: { profile: IProfile; via: IProfile[] }[]
+}
+
+export type TConnectionSuggestion = {
+  profile: IProfile
+  sharedSkills: string[]
+  sameLocation: boolean
+}
+
+const sameText = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Group profiles into first- and second-degree connections of the root.
+ * Connections whose owners have no profile are left out.
+ *
+ * @param root
+ * @param profiles Profiles of the root's network, in any order.
+ * @returns
+ */
+export const buildConnectionGraph = (
+  root: IProfile,
+  profiles: IProfile[]
+): TConnectionGraph => {
+  const byOwner = new Map(profiles.map((p) => [p.owner, p]))
+  const first = root.connections
+    .map((owner) => byOwner.get(owner))
+    .filter((p): p is IProfile => p != null)
+
+  const second = new Map<string, { profile: IProfile; via: IProfile[] }>()
+  for (const connection of first) {
+    for (const owner of connection.connections) {
+      const profile = byOwner.get(owner)
+      if (
+        profile == null ||
+        owner === root.owner ||
+        root.connections.includes(owner)
+      ) {
+        continue
+      }
+
+      const entry = second.get(owner) ?? { profile, via: [] }
+      entry.via.push(connection)
+      second.set(owner, entry)
+    }
+  }
+
+  return {
+    first,
+    // Most mutual connections first.
+    second: [...second.values()].sort((a, b) => b.via.length - a.via.length),
+  }
+}
+
+/**
+ * Load the profiles of a root's first- and second-degree connections.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param root
+ * @returns
+ */
+export const fetchConnectionGraph = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  root: IProfile
+): Promise<TConnectionGraph> => {
+  const fetchByOwners = async (owners: string[]) =>
+    (
+      await Promise.all(
+        owners.map((owner) => fetchProfileByOwner(suiClient, packageId, owner))
+      )
+    ).filter((p): p is IProfile => p != null)
+
+  const first = await fetchByOwners(root.connections)
+  const secondOwners = new Set(
+    first
+      .flatMap((p) => p.connections)
+      .filter((o) => o !== root.owner && !root.connections.includes(o))
+  )
+  const second = await fetchByOwners([...secondOwners])
+
+  return buildConnectionGraph(root, [...first, ...second])
+}
+
+/**
+ * "People you may know": profiles the viewer is not connected to, ranked by
+ * the skills they share and whether they are in the same location.
+ *
+ * @param viewer
+ * @param candidates Profiles to pick from, e.g. second-degree connections.
+ * @param limit
+ * @param requested IDs of the profiles the viewer already sent a request to.
+ * @returns Suggestions with something in common, best first.
+ */
+export const suggestConnections = (
+  viewer: IProfile,
+  candidates: IProfile[],
+  limit: number = 5,
+  requested: string[] = []
+): TConnectionSuggestion[] => {
+  const seen = new Set([viewer.owner, ...viewer.connections])
+  const ranked: { suggestion: TConnectionSuggestion; score: number }[] = []
+
+  for (const profile of candidates) {
+    if (seen.has(profile.owner) || requested.includes(profile.id)) continue
+    seen.add(profile.owner)
+
+    const sharedSkills = profile.skills
+      .map((s) => s.name)
+      .filter((name) => viewer.skills.some((s) => sameText(s.name, name)))
+    const sameLocation =
+      viewer.location.trim() !== '' &&
+      sameText(viewer.location, profile.location)
+    const score = sharedSkills.length + (sameLocation ? 1 : 0)
+
+    if (score > 0) {
+      ranked.push({
+        suggestion: { profile, sharedSkills, sameLocation },
+        score,
+      })
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion)
+}
@@ -0,0 +1,61 @@
+import {
+  calculateFundingRate,
+  calculateUtilization,
+  fundingCurve,
+  fundingPayment,
+  fundingRateAt,
+  FundingRateError,
+} from './fundingRate'
+
+describe('fundingRateAt', () => {
+  // Expected values are what funding_rate::update_funding_rate stores.
+  test.each([
+    [0, 8, false],
+    [2000, 6, false],
+    [4999, 3, false],
+    [5000, 0, false],
+    [8000, 0, false],
+    [8001, 50, true],
+    [9000, 60, true],
+    [12550, 95, true],
+  ])('%d bps utilization -> %d bps, policyholders pay: %s', (u, rate, dir) => {
+    expect(fundingRateAt(BigInt(u))).toEqual({
+      utilization: BigInt(u),
+      rate: BigInt(rate),
+      direction: dir,
+    })
+  })
+})
+
+describe('calculateUtilization', () => {
+  test('divides insured value by liquidity', () => {
+    expect(calculateUtilization(BigInt(900), BigInt(1000))).toBe(BigInt(9000))
+    expect(calculateFundingRate(BigInt(900), BigInt(1000)).rate).toBe(
+      BigInt(60)
+    )
+  })
+
+  test('treats an empty pool as fully utilized', () => {
+    expect(calculateUtilization(BigInt(0), BigInt(0))).toBe(BigInt(10000))
+  })
+
+  test('aborts like Move on u64 overflow', () => {
+    expect(() =>
+      calculateUtilization(BigInt('18446744073709551615'), BigInt(1))
+    ).toThrow(FundingRateError)
+  })
+})
+
+describe('fundingCurve', () => {
+  test('includes the jump right above the target', () => {
+    const curve = fundingCurve(BigInt(10000), BigInt(1000))
+
+    expect(curve.map((q) => Number(q.utilization))).toEqual([
+      0, 1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000, 8001, 9000, 10000,
+    ])
+  })
+})
+
+test('fundingPayment charges the rate on the coverage', () => {
+  expect(fundingPayment(BigInt(10000), BigInt(60))).toBe(BigInt(60))
+})
@@ -0,0 +1,230 @@
+/**
+ * A TypeScript port of the curve in funding_rate::update_funding_rate, plus
+ * readers for the FundingRate objects and FundingRateUpdated events it
+ * creates.
+ *
+ * Utilization and rates are in basis points. Above the 80% target utilization
+ * policyholders pay LPs a 0.5% base rate plus 0.01% per point above target.
+ * Between 50% and 80% nobody pays. Below 50% LPs pay policyholders 0.01% for
+ * every 10 points below target.
+ */
+import { EventId, SuiObjectResponse } from '@mysten/sui/client'
+import { FUNDING_MODULE_NAME } from '~~/dapp/config/network'
+import { IFundingRate } from '~~/dapp/types/IFundingRate'
+import { IFundingRateUpdate } from '~~/dapp/types/IFundingRateUpdate'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+
+export class FundingRateError extends Error {}
+
+export interface IFundingRateQuote {
+  utilization: bigint
+  rate: bigint
+  /** true when policyholders pay LPs, false when LPs pay policyholders. */
+  direction: boolean
+}
+
+export const TARGET_UTILIZATION = BigInt(8000)
+export const LP_PAYS_BELOW_UTILIZATION = BigInt(5000)
+export const BASE_RATE = BigInt(50)
+/** FundingRate objects are valid for this many epochs after creation. */
+export const VALIDITY_EPOCHS = 24
+
+const U64_MAX = BigInt('18446744073709551615')
+const ZERO = BigInt(0)
+const BASIS_POINTS = BigInt(10000)
+
+/**
+ * Total insured value over pool liquidity. An empty pool counts as 100%.
+ *
+ * @param totalInsuredValue
+ * @param totalLiquidity
+ * @returns
+ */
+export const calculateUtilization = (
+  totalInsuredValue: bigint,
+  totalLiquidity: bigint
+): bigint => {
+  if (totalLiquidity === ZERO) return BASIS_POINTS
+
+  if (totalInsuredValue * BASIS_POINTS > U64_MAX) {
+    throw new FundingRateError('Arithmetic overflow')
+  }
+  return (totalInsuredValue * BASIS_POINTS) / totalLiquidity
+}
+
+export const fundingRateAt = (utilization: bigint): IFundingRateQuote => {
+  if (utilization > TARGET_UTILIZATION) {
+    return {
+      utilization,
+      rate: BASE_RATE + (utilization - TARGET_UTILIZATION) / BigInt(100),
+      direction: true,
+    }
+  }
+
+  return {
+    utilization,
+    rate:
+      utilization < LP_PAYS_BELOW_UTILIZATION
+        ? (TARGET_UTILIZATION - utilization) / BigInt(1000)
+        : ZERO,
+    direction: false,
+  }
+}
+
+export const calculateFundingRate = (
+  totalInsuredValue: bigint,
+  totalLiquidity: bigint
+) => fundingRateAt(calculateUtilization(totalInsuredValue, totalLiquidity))
+
+/**
+ * The payment funding_rate::process_funding_payment moves for a policy.
+ *
+ * @param coverageAmount
+ * @param rate
+ * @returns
+ */
+export const fundingPayment = (coverageAmount: bigint, rate: bigint) =>
+  (coverageAmount * rate) / BASIS_POINTS
+
+/**
+ * Sample the curve for charting.
+ *
+ * @param maxUtilization
+ * @param step
+ * @returns
+ */
+export const fundingCurve = (
+  maxUtilization: bigint = BigInt(15000),
+  step: bigint = BigInt(50)
+): IFundingRateQuote[] => {
+  const points: IFundingRateQuote[] = []
+
+  for (let u = ZERO; u <= maxUtilization; u += step) {
+    points.push(fundingRateAt(u))
+    // Show the jump from zero to the base rate right above the target.
+    if (u === TARGET_UTILIZATION) {
+      points.push(fundingRateAt(u + BigInt(1)))
+    }
+  }
+
+  return points
+}
+
+/**
+ * Map a FundingRate object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a FundingRate.
+ * @throws MoveDecodeError if the object does not match the FundingRate layout.
+ */
+export const toFundingRate = (
+  response: SuiObjectResponse,
+  packageId: string
+): IFundingRate | null => {
+  if (!isMoveStruct(response, packageId, 'FundingRate')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'FundingRate')
+
+  return {
+    id: response.data!.objectId,
+    rate: BigInt(fields.rate),
+    direction: fields.direction,
+    calculatedAt: Number(fields.calculated_at),
+    validUntil: Number(fields.valid_until),
+  }
+}
+
+/**
+ * The most recent FundingRateUpdated events.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param limit
+ * @returns Updates, newest first.
+ */
+export const fetchFundingRateHistory = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  limit: number = 50
+): Promise<IFundingRateUpdate[]> => {
+  const updates: IFundingRateUpdate[] = []
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(
+          packageId,
+          'FundingRateUpdated',
+          FUNDING_MODULE_NAME
+        ),
+      },
+      cursor,
+      limit: Math.min(limit - updates.length, 50),
+      order: 'descending',
+    })
+
+    for (const event of page.data) {
+      const { rate, direction, calculated_at } = event.parsedJson as {
+        rate: string
+        direction: boolean
+        calculated_at: string
+      }
+      updates.push({
+        rate: BigInt(rate),
+        direction,
+        calculatedAt: Number(calculated_at),
+        timestampMs:
+          event.timestampMs == null ? null : Number(event.timestampMs),
+        txDigest: event.id.txDigest,
+      })
+    }
+
+    cursor =
+      page.hasNextPage && updates.length < limit
+        ? (page.nextCursor ?? null)
+        : null
+  } while (cursor != null)
+
+  return updates
+}
+
+/**
+ * The FundingRate object an update created. Each update shares a new object,
+ * and the events do not carry its ID, so it is looked up in the transaction.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param update
+ * @returns
+ */
+export const fetchFundingRateObject = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  update: IFundingRateUpdate
+): Promise<IFundingRate | null> => {
+  const transaction = await suiClient.getTransactionBlock({
+    digest: update.txDigest,
+    options: { showObjectChanges: true },
+  })
+  const objectType = fullStructName(
+    packageId,
+    'FundingRate',
+    FUNDING_MODULE_NAME
+  )
+  const created = transaction.objectChanges?.find(
+    (change) => change.type === 'created' && change.objectType === objectType
+  )
+  if (created?.type !== 'created') return null
+
+  return toFundingRate(
+    await suiClient.getObject({
+      id: created.objectId,
+      options: { showBcs: true },
+    }),
+    packageId
+  )
+}
@@ -0,0 +1,26 @@
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { IGreeting } from '~~/dapp/types/IGreeting'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+
+/**
+ * Map a Greeting object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a Greeting.
+ * @throws MoveDecodeError if the object does not match the Greeting layout.
+ */
+export const toGreeting = (
+  response: SuiObjectResponse,
+  packageId: string
+): IGreeting | null => {
+  if (!isMoveStruct(response, packageId, 'Greeting')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Greeting')
+
+  return {
+    id: response.data!.objectId,
+    name: fields.name,
+    emoji: fields.emoji,
+  }
+}
@@ -0,0 +1,84 @@
+import { SUI_DECIMALS } from '@mysten/sui/utils'
+
+// vector<u64> cannot hold negative or fractional degrees, so coordinates are
+// stored as micro-degrees shifted into the positive range.
+const COORDINATE_SCALE = 1_000_000
+const LATITUDE_OFFSET = 90
+const LONGITUDE_OFFSET = 180
+
+export const encodeCoordinates = (
+  latitude: number,
+  longitude: number
+): bigint[] => {
+  return [
+    BigInt(Math.round((latitude + LATITUDE_OFFSET) * COORDINATE_SCALE)),
+    BigInt(Math.round((longitude + LONGITUDE_OFFSET) * COORDINATE_SCALE)),
+  ]
+}
+
+export const decodeCoordinates = (values: string[]): [number, number] => {
+  const [latitude, longitude] = values.map((value) => Number(value))
+
+  return [
+    Number((latitude / COORDINATE_SCALE - LATITUDE_OFFSET).toFixed(6)),
+    Number((longitude / COORDINATE_SCALE - LONGITUDE_OFFSET).toFixed(6)),
+  ]
+}
+
+export const isValidCoordinate = (latitude: number, longitude: number) => {
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= LATITUDE_OFFSET &&
+    Math.abs(longitude) <= LONGITUDE_OFFSET
+  )
+}
+
+/**
+ * Parse a decimal number typed by the user into a fixed-point integer.
+ *
+ * @param value
+ * @param decimalPlaces
+ * @returns The integer, or null if the value is not a valid non-negative number.
+ */
+export const parseFixedPoint = (
+  value: string,
+  decimalPlaces: number
+): bigint | null => {
+  const match = value.trim().match(/^(\d+)(?:\.(\d*))?$/)
+
+  if (match == null) {
+    return null
+  }
+
+  const [, whole, fraction = ''] = match
+
+  if (fraction.length > decimalPlaces) {
+    return null
+  }
+
+  return (
+    BigInt(whole) * BigInt(10) ** BigInt(decimalPlaces) +
+    BigInt(fraction.padEnd(decimalPlaces, '0') || '0')
+  )
+}
+
+export const formatFixedPoint = (
+  value: bigint | string | number,
+  decimalPlaces: number
+) => {
+  const scale = BigInt(10) ** BigInt(decimalPlaces)
+  const integer = BigInt(value)
+  const fraction = (integer % scale)
+    .toString()
+    .padStart(decimalPlaces, '0')
+    .replace(/0+$/, '')
+
+  return `${integer / scale}${fraction.length > 0 ? `.${fraction}` : ''}`
+}
+
+export const suiToMist = (value: string) => parseFixedPoint(value, SUI_DECIMALS)
+
+export const formatMist = (value: bigint | string | number) => {
+  return `${formatFixedPoint(value, SUI_DECIMALS)} SUI`
+}
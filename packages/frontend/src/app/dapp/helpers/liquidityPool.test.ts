@@ -0,0 +1,45 @@
+import {
+  LiquidityPoolError,
+  previewDeposit,
+  previewWithdrawal,
+} from './liquidityPool'
+
+const pool = (totalLiquidity: number, totalShares: number) => ({
+  id: '0x1',
+  totalLiquidity: BigInt(totalLiquidity),
+  totalShares: BigInt(totalShares),
+})
+
+describe('previewDeposit', () => {
+  test('mints one share per MIST into an empty pool', () => {
+    expect(previewDeposit(pool(0, 0), BigInt(5000))).toBe(BigInt(5000))
+  })
+
+  test('mints proportional shares, rounded down', () => {
+    // The pool earned funding payments, so a share is worth 1.5 MIST.
+    expect(previewDeposit(pool(1500, 1000), BigInt(1000))).toBe(BigInt(666))
+    expect(previewDeposit(pool(1500, 1000), BigInt(1))).toBe(BigInt(0))
+  })
+
+  test('aborts like Move when shares have no liquidity behind them', () => {
+    expect(() => previewDeposit(pool(0, 1000), BigInt(1))).toThrow(
+      LiquidityPoolError
+    )
+  })
+})
+
+describe('previewWithdrawal', () => {
+  test('returns the proportional liquidity, rounded down', () => {
+    expect(previewWithdrawal(pool(1500, 1000), BigInt(333))).toBe(BigInt(499))
+    expect(previewWithdrawal(pool(1500, 1000), BigInt(1000))).toBe(BigInt(1500))
+  })
+
+  test('aborts like Move on u64 overflow', () => {
+    expect(() =>
+      previewWithdrawal(
+        pool(Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER),
+        BigInt(Number.MAX_SAFE_INTEGER)
+      )
+    ).toThrow('Arithmetic overflow')
+  })
+})
@@ -0,0 +1,138 @@
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { POOL_MODULE_NAME } from '~~/dapp/config/network'
+import { ILiquidityPool } from '~~/dapp/types/ILiquidityPool'
+import { ILPToken } from '~~/dapp/types/ILPToken'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+
+/**
+ * Thrown where liquidity_pool would abort, e.g. when the pool has shares but
+ * no liquidity left to price them.
+ */
+export class LiquidityPoolError extends Error {}
+
+const U64_MAX = BigInt('18446744073709551615')
+const ZERO = BigInt(0)
+
+const mulDiv = (a: bigint, b: bigint, c: bigint) => {
+  if (a * b > U64_MAX) {
+    throw new LiquidityPoolError('Arithmetic overflow')
+  }
+  if (c === ZERO) {
+    throw new LiquidityPoolError('Division by zero')
+  }
+  return (a * b) / c
+}
+
+/**
+ * The shares add_liquidity mints for a deposit. The first deposit gets one
+ * share per MIST, later ones a proportional amount rounded down.
+ *
+ * @param pool
+ * @param amount In MIST.
+ * @returns
+ */
+export const previewDeposit = (pool: ILiquidityPool, amount: bigint) => {
+  if (pool.totalShares === ZERO) return amount
+
+  return mulDiv(amount, pool.totalShares, pool.totalLiquidity)
+}
+
+/**
+ * The MIST remove_liquidity returns for an LP token, rounded down.
+ *
+ * @param pool
+ * @param shares
+ * @returns
+ */
+export const previewWithdrawal = (pool: ILiquidityPool, shares: bigint) => {
+  if (shares > pool.totalShares) {
+    throw new LiquidityPoolError('Arithmetic underflow')
+  }
+
+  return mulDiv(shares, pool.totalLiquidity, pool.totalShares)
+}
+
+/**
+ * Map a LiquidityPool object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a LiquidityPool.
+ * @throws MoveDecodeError if the object does not match the LiquidityPool layout.
+ */
+export const toLiquidityPool = (
+  response: SuiObjectResponse,
+  packageId: string
+): ILiquidityPool | null => {
+  if (!isMoveStruct(response, packageId, 'LiquidityPool')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'LiquidityPool')
+
+  return {
+    id: response.data!.objectId,
+    totalLiquidity: BigInt(fields.total_liquidity.value),
+    totalShares: BigInt(fields.total_shares),
+  }
+}
+
+/**
+ * Map an LPToken object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not an LPToken.
+ * @throws MoveDecodeError if the object does not match the LPToken layout.
+ */
+export const toLPToken = (
+  response: SuiObjectResponse,
+  packageId: string
+): ILPToken | null => {
+  if (!isMoveStruct(response, packageId, 'LPToken')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'LPToken')
+
+  return {
+    id: response.data!.objectId,
+    owner: fields.owner,
+    shares: BigInt(fields.shares),
+  }
+}
+
+/**
+ * Every LPToken the address holds.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param owner
+ * @returns
+ */
+export const fetchLPTokens = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  owner: string
+): Promise<ILPToken[]> => {
+  const tokens: ILPToken[] = []
+  let cursor: string | null = null
+
+  do {
+    const page = await suiClient.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: fullStructName(packageId, 'LPToken', POOL_MODULE_NAME),
+      },
+      options: { showBcs: true },
+      cursor,
+    })
+
+    for (const response of page.data) {
+      const token = toLPToken(response, packageId)
+      if (token != null) tokens.push(token)
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  return tokens
+}
@@ -0,0 +1,110 @@
+import { PaginatedEvents, QueryEventsParams } from '@mysten/sui/client'
+import { assessMargin, fetchRecentDrains } from './marginMonitor'
+
+const MARGIN = BigInt(1100)
+
+describe('assessMargin', () => {
+  test('is healthy without drains', () => {
+    expect(assessMargin(BigInt(1100), MARGIN, [])).toMatchObject({
+      status: 'healthy',
+      drainsToMargin: null,
+      suggestedTopUp: BigInt(0),
+    })
+  })
+
+  test('flags policies few drains away from the margin', () => {
+    expect(
+      assessMargin(BigInt(1300), MARGIN, [BigInt(100), BigInt(60)])
+    ).toMatchObject({
+      status: 'at_risk',
+      averageDrain: BigInt(80),
+      drainsToMargin: BigInt(2),
+      suggestedTopUp: BigInt(40),
+    })
+  })
+
+  test('flags undercollateralized policies', () => {
+    expect(assessMargin(BigInt(1000), MARGIN, [BigInt(50)])).toMatchObject({
+      status: 'undercollateralized',
+      drainsToMargin: BigInt(0),
+      suggestedTopUp: BigInt(250),
+    })
+  })
+})
+
+describe('fetchRecentDrains', () => {
+  const NOW = 1_000_000
+
+  // One CollateralRemoved event per page, newest first.
+  const source = (
+    events: { policy: string; amount: number; ageMs: number }[]
+  ) => {
+    const queries: QueryEventsParams[] = []
+    const queryEvents = async (
+      input: QueryEventsParams
+    ): Promise<PaginatedEvents> => {
+      queries.push(input)
+      const index = Number(input.cursor?.eventSeq ?? 0)
+      const event = events[index]
+      return {
+        data: [
+          {
+            parsedJson: { policy_id: event.policy, amount: `${event.amount}` },
+            timestampMs: `${NOW - event.ageMs}`,
+          } as PaginatedEvents['data'][number],
+        ],
+        hasNextPage: index + 1 < events.length,
+        nextCursor: { txDigest: '', eventSeq: `${index + 1}` },
+      }
+    }
+    return { queries, client: { queryEvents } }
+  }
+
+  test('stops once every policy has its lookback', async () => {
+    const { queries, client } = source([
+      { policy: '0x1', amount: 10, ageMs: 0 },
+      { policy: '0x2', amount: 20, ageMs: 0 },
+      { policy: '0x1', amount: 30, ageMs: 0 },
+    ])
+
+    expect(
+      await fetchRecentDrains(client, 'T', ['0x1', '0x2'], {
+        lookback: 1,
+        nowMs: NOW,
+      })
+    ).toEqual({ '0x1': [BigInt(10)], '0x2': [BigInt(20)] })
+    expect(queries).toHaveLength(2)
+  })
+
+  test('stops at events older than the window', async () => {
+    const { queries, client } = source([
+      { policy: '0x1', amount: 10, ageMs: 0 },
+      { policy: '0x1', amount: 20, ageMs: 200 },
+      { policy: '0x1', amount: 30, ageMs: 0 },
+    ])
+
+    expect(
+      await fetchRecentDrains(client, 'T', ['0x1'], {
+        windowMs: 100,
+        nowMs: NOW,
+      })
+    ).toEqual({ '0x1': [BigInt(10)] })
+    expect(queries).toHaveLength(2)
+  })
+
+  test('stops after maxPages', async () => {
+    const { queries, client } = source([
+      { policy: '0x2', amount: 10, ageMs: 0 },
+      { policy: '0x2', amount: 20, ageMs: 0 },
+      { policy: '0x1', amount: 30, ageMs: 0 },
+    ])
+
+    expect(
+      await fetchRecentDrains(client, 'T', ['0x1'], {
+        maxPages: 2,
+        nowMs: NOW,
+      })
+    ).toEqual({ '0x1': [] })
+    expect(queries).toHaveLength(2)
+  })
+})
@@ -0,0 +1,154 @@
+// Shared with the headless monitor of the backend package, which imports this
+// file by path: keep it free of ~~ imports and of anything but types from
+// @mysten/sui.
+import type {
+  EventId,
+  PaginatedEvents,
+  QueryEventsParams,
+} from '@mysten/sui/client'
+
+/**
+ * - healthy: collateral stays above the margin at the recent drain rate.
+ * - at_risk: recent drains would bring collateral below the margin soon.
+ * - undercollateralized: policy_manager_enhanced::is_undercollateralized.
+ */
+export type TMarginStatus = 'healthy' | 'at_risk' | 'undercollateralized'
+
+export interface IMarginAssessment {
+  status: TMarginStatus
+  /** Collateral above the margin, negative when undercollateralized. */
+  excess: bigint
+  /** Average of the recent collateral drains, 0 if there were none. */
+  averageDrain: bigint
+  /** Drains of that size the excess collateral absorbs, null if none drain. */
+  drainsToMargin: bigint | null
+  /** Collateral to add to get back to healthy. */
+  suggestedTopUp: bigint
+}
+
+/** Where drains are read from, e.g. a SuiClient. */
+export interface IEventSource {
+  queryEvents: (input: QueryEventsParams) => Promise<PaginatedEvents>
+}
+
+export interface IDrainScanOptions {
+  /** Maximum number of drains per policy. */
+  lookback?: number
+  /** Only drains this recent count. */
+  windowMs?: number
+  /** Stop after this many pages of events, however few drains were found. */
+  maxPages?: number
+  nowMs?: number
+}
+
+export const WARNING_DRAINS = BigInt(3)
+export const DRAIN_LOOKBACK = 10
+export const DRAIN_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+export const DRAIN_MAX_PAGES = 10
+
+const ZERO = BigInt(0)
+
+/**
+ * Classify a policy from its collateral and the sizes of its recent collateral
+ * drains.
+ *
+ * @param collateralBalance
+ * @param marginRequirement
+ * @param drains
+ * @param warningDrains Flag the policy at_risk when fewer drains are left.
+ * @returns
+ */
+export const assessMargin = (
+  collateralBalance: bigint,
+  marginRequirement: bigint,
+  drains: bigint[],
+  warningDrains: bigint = WARNING_DRAINS
+): IMarginAssessment => {
+  const excess = collateralBalance - marginRequirement
+  const total = drains.reduce((sum, drain) => sum + drain, ZERO)
+  const count = BigInt(drains.length)
+  // Round up, so the projection errs on the side of warning.
+  const averageDrain =
+    count === ZERO ? ZERO : (total + count - BigInt(1)) / count
+  const drainsToMargin =
+    averageDrain === ZERO ? null : excess < ZERO ? ZERO : excess / averageDrain
+
+  let status: TMarginStatus = 'healthy'
+  if (excess < ZERO) {
+    status = 'undercollateralized'
+  } else if (drainsToMargin != null && drainsToMargin < warningDrains) {
+    status = 'at_risk'
+  }
+
+  const shortfall = warningDrains * averageDrain - excess
+
+  return {
+    status,
+    excess,
+    averageDrain,
+    drainsToMargin,
+    suggestedTopUp: status === 'healthy' || shortfall < ZERO ? ZERO : shortfall,
+  }
+}
+
+/**
+ * The most recent collateral drains of the given policies, i.e. the amounts of
+ * their CollateralRemoved events. Funding payments are not counted:
+ * FundingPaymentProcessed is only emitted for policy_manager policies, not
+ * for the policy_manager_enhanced ones monitored here.
+ *
+ * The events of every policy share one stream, so the scan stops at the first
+ * event older than the window or after maxPages pages, even if some policies
+ * have fewer drains than the lookback.
+ *
+ * @param client
+ * @param eventType The full name of the CollateralRemoved struct.
+ * @param policyIds
+ * @param options
+ * @returns Drain amounts per policy ID, most recent first.
+ */
+export const fetchRecentDrains = async (
+  client: IEventSource,
+  eventType: string,
+  policyIds: string[],
+  options: IDrainScanOptions = {}
+): Promise<Record<string, bigint[]>> => {
+  const lookback = options.lookback ?? DRAIN_LOOKBACK
+  const since =
+    (options.nowMs ?? Date.now()) - (options.windowMs ?? DRAIN_WINDOW_MS)
+  const maxPages = options.maxPages ?? DRAIN_MAX_PAGES
+  const drains: Record<string, bigint[]> = Object.fromEntries(
+    policyIds.map((id) => [id, []])
+  )
+  const isFull = () => policyIds.every((id) => drains[id].length >= lookback)
+
+  let cursor: EventId | null = null
+  let pages = 0
+
+  while (policyIds.length > 0 && pages < maxPages) {
+    const page = await client.queryEvents({
+      query: { MoveEventType: eventType },
+      cursor,
+      order: 'descending',
+    })
+    pages++
+
+    for (const event of page.data) {
+      if (Number(event.timestampMs ?? 0) < since) return drains
+
+      const { policy_id, amount } = event.parsedJson as {
+        policy_id: string
+        amount: string
+      }
+      const found = drains[policy_id]
+      if (found != null && found.length < lookback) {
+        found.push(BigInt(amount))
+      }
+    }
+
+    if (!page.hasNextPage || isFull()) break
+    cursor = page.nextCursor ?? null
+  }
+
+  return drains
+}
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { toBase64 } from '@mysten/sui/utils'
+import {
+  decodeMoveObject,
+  decodeMoveStruct,
+  MOVE_STRUCTS,
+  MoveDecodeError,
+  MoveOption,
+  MoveTable,
+} from './moveTypes'
+import { toProfile } from './profiles'
+
+const PACKAGE_ID = '0x2a'
+const PROFILE_TYPE = `${PACKAGE_ID}::profile::Profile`
+const OWNER = `0x${'1'.repeat(64)}`
+
+const profileBytes = () =>
+  MOVE_STRUCTS.Profile.layout
+    .serialize({
+      id: '0x99',
+      owner: OWNER,
+      name: 'Amina',
+      headline: 'Agronomist',
+      bio: '',
+      profile_image_url: '',
+      location: 'Nairobi',
+      contact_email: 'amina@example.com',
+      experiences: [
+        {
+          company: 'Co-op',
+          title: 'Field officer',
+          start_date: '2020',
+          end_date: '',
+          description: 'Rainfall monitoring',
+        },
+      ],
+      education: [],
+      skills: [{ name: 'Soil science', endorsements: '1', endorsers: [OWNER] }],
+      connections: [OWNER],
+    })
+    .toBytes()
+
+const response = (type: string, bytes: Uint8Array): SuiObjectResponse => ({
+  data: {
+    objectId: '0x99',
+    version: '3',
+    digest: 'digest',
+    bcs: {
+      dataType: 'moveObject',
+      type,
+      hasPublicTransfer: false,
+      version: '3',
+      bcsBytes: toBase64(bytes),
+    },
+  },
+})
+
+describe('decodeMoveObject', () => {
+  test('decodes nested structs and vectors', () => {
+    const fields = decodeMoveObject(
+      response(PROFILE_TYPE, profileBytes()),
+      PACKAGE_ID,
+      'Profile'
+    )
+
+    expect(fields.experiences[0].title).toBe('Field officer')
+    expect(fields.skills).toEqual([
+      { name: 'Soil science', endorsements: '1', endorsers: [OWNER] },
+    ])
+    expect(fields.connections).toEqual([OWNER])
+  })
+
+  test('accepts short and long forms of the package ID', () => {
+    expect(() =>
+      decodeMoveObject(
+        response(`0x${'0'.repeat(62)}2a::profile::Profile`, profileBytes()),
+        PACKAGE_ID,
+        'Profile'
+      )
+    ).not.toThrow()
+  })
+
+  test('rejects objects of other types', () => {
+    expect(() =>
+      decodeMoveObject(
+        response(`${PACKAGE_ID}::greeting::Greeting`, profileBytes()),
+        PACKAGE_ID,
+        'Profile'
+      )
+    ).toThrow(/expected .*::profile::Profile/)
+  })
+
+  test('rejects objects fetched without showBcs', () => {
+    expect(() =>
+      decodeMoveObject(
+        { data: { objectId: '0x99', version: '3', digest: 'digest' } },
+        PACKAGE_ID,
+        'Profile'
+      )
+    ).toThrow(MoveDecodeError)
+  })
+})
+
+describe('decodeMoveStruct', () => {
+  test('reports truncated bytes', () => {
+    const bytes = profileBytes()
+
+    expect(() => decodeMoveStruct('Profile', bytes.slice(0, -4))).toThrow(
+      MoveDecodeError
+    )
+  })
+
+  test('reports trailing bytes', () => {
+    const bytes = new Uint8Array([...profileBytes(), 0, 0])
+
+    expect(() => decodeMoveStruct('Profile', bytes)).toThrow(
+      /2 bytes left over/
+    )
+  })
+
+  test('decodes Balance and Table handles', () => {
+    const bytes = MOVE_STRUCTS.LiquidityPool.layout
+      .serialize({
+        id: '0x5',
+        total_liquidity: { value: '1000' },
+        lp_shares: { id: '0x6', size: '2' },
+        total_shares: '900',
+      })
+      .toBytes()
+
+    expect(decodeMoveStruct('LiquidityPool', bytes)).toMatchObject({
+      total_liquidity: { value: '1000' },
+      lp_shares: { id: `0x${'0'.repeat(63)}6`, size: '2' },
+    })
+  })
+})
+
+describe('MoveOption', () => {
+  test('decodes some and none', () => {
+    const option = MoveOption(MoveTable)
+    const table = { id: `0x${'0'.repeat(63)}7`, size: '1' }
+
+    expect(option.parse(option.serialize(table).toBytes())).toEqual(table)
+    expect(option.parse(option.serialize(null).toBytes())).toBeNull()
+  })
+})
+
+describe('toProfile', () => {
+  test('maps a Profile to camel case with numeric endorsements', () => {
+    expect(
+      toProfile(response(PROFILE_TYPE, profileBytes()), PACKAGE_ID)
+    ).toMatchObject({
+      id: '0x99',
+      owner: OWNER,
+      contactEmail: 'amina@example.com',
+      experiences: [{ company: 'Co-op', startDate: '2020', endDate: '' }],
+      skills: [{ name: 'Soil science', endorsements: 1, endorsers: [OWNER] }],
+    })
+  })
+
+  test('ignores objects of other types', () => {
+    expect(
+      toProfile(
+        response(`${PACKAGE_ID}::greeting::Greeting`, profileBytes()),
+        PACKAGE_ID
+      )
+    ).toBeNull()
+  })
+})
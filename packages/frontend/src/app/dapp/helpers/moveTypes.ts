@@ -0,0 +1,376 @@
+import { bcs, BcsType } from '@mysten/sui/bcs'
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { fromBase64, normalizeStructTag } from '@mysten/sui/utils'
+import {
+  ATTESTATION_MODULE_NAME,
+  BADGE_MODULE_NAME,
+  CLAIM_MODULE_NAME,
+  CONTRACT_MODULE_NAME,
+  FUNDING_MODULE_NAME,
+  ORACLE_MODULE_NAME,
+  POLICY_MODULE_NAME,
+  POOL_MODULE_NAME,
+  PROFILE_MODULE_NAME,
+  RISK_MODEL_MODULE_NAME,
+  WALRUS_MODULE_NAME,
+} from '~~/dapp/config/network'
+import { fullStructName } from '~~/helpers/network'
+
+/** Thrown when an object is not the expected Move struct. */
+export class MoveDecodeError extends Error {}
+
+// Building blocks of the framework types. A UID is an ID, which is an
+// address, and Balance and Table are handles whose contents live elsewhere.
+export const MoveID = bcs.Address
+export const MoveUID = bcs.Address
+export const MoveBalance = bcs.struct('Balance', { value: bcs.u64() })
+export const MoveTable = bcs.struct('Table', { id: MoveUID, size: bcs.u64() })
+export const MoveOption = <T, Input>(type: BcsType<T, Input>) =>
+  bcs.option(type)
+
+// The field order must match the Move declarations.
+
+const Experience = bcs.struct('Experience', {
+  company: bcs.string(),
+  title: bcs.string(),
+  start_date: bcs.string(),
+  end_date: bcs.string(),
+  description: bcs.string(),
+})
+
+const Education = bcs.struct('Education', {
+  institution: bcs.string(),
+  degree: bcs.string(),
+  field: bcs.string(),
+  start_date: bcs.string(),
+  end_date: bcs.string(),
+})
+
+const Skill = bcs.struct('Skill', {
+  name: bcs.string(),
+  endorsements: bcs.u64(),
+  endorsers: bcs.vector(bcs.Address),
+})
+
+const Profile = bcs.struct('Profile', {
+  id: MoveUID,
+  owner: bcs.Address,
+  name: bcs.string(),
+  headline: bcs.string(),
+  bio: bcs.string(),
+  profile_image_url: bcs.string(),
+  location: bcs.string(),
+  contact_email: bcs.string(),
+  experiences: bcs.vector(Experience),
+  education: bcs.vector(Education),
+  skills: bcs.vector(Skill),
+  connections: bcs.vector(bcs.Address),
+})
+
+const Endorsement = bcs.struct('Endorsement', {
+  id: MoveUID,
+  profile_id: MoveID,
+  skill_name: bcs.string(),
+  endorser: bcs.Address,
+})
+
+const ConnectionRequest = bcs.struct('ConnectionRequest', {
+  id: MoveUID,
+  from_profile_id: MoveID,
+  from: bcs.Address,
+  to_profile_id: MoveID,
+})
+
+const ConnectionUpdate = bcs.struct('ConnectionUpdate', {
+  id: MoveUID,
+  profile_id: MoveID,
+  peer: bcs.Address,
+  connected: bcs.bool(),
+})
+
+const Issuer = bcs.struct('Issuer', {
+  addr: bcs.Address,
+  name: bcs.string(),
+  kind: bcs.u8(),
+  active: bcs.bool(),
+})
+
+const IssuerRegistry = bcs.struct('IssuerRegistry', {
+  id: MoveUID,
+  issuers: bcs.vector(Issuer),
+})
+
+const Attestation = bcs.struct('Attestation', {
+  id: MoveUID,
+  issuer: bcs.Address,
+  profile_id: MoveID,
+  subject: bcs.Address,
+  entry_kind: bcs.u8(),
+  entry_index: bcs.u64(),
+  entry: bcs.vector(bcs.u8()),
+  issued_at: bcs.u64(),
+  revoked: bcs.bool(),
+})
+
+const Badge = bcs.struct('Badge', {
+  id: MoveUID,
+  kind: bcs.string(),
+  name: bcs.string(),
+  description: bcs.string(),
+  image_url: bcs.string(),
+  recipient: bcs.Address,
+  awarded_at: bcs.u64(),
+})
+
+const Greeting = bcs.struct('Greeting', {
+  id: MoveUID,
+  name: bcs.string(),
+  emoji: bcs.u8(),
+})
+
+const Policy = bcs.struct('Policy', {
+  id: MoveUID,
+  owner: bcs.Address,
+  location: bcs.string(),
+  location_coordinates: bcs.vector(bcs.u64()),
+  peril_type: bcs.string(),
+  peril_details: bcs.string(),
+  coverage_amount: bcs.u64(),
+  trigger_threshold: bcs.u64(),
+  trigger_operator: bcs.u8(),
+  collateral_balance: MoveBalance,
+  margin_requirement: bcs.u64(),
+  funding_rate_paid: bcs.u64(),
+  funding_rate_received: bcs.u64(),
+  active: bcs.bool(),
+  created_at: bcs.u64(),
+  last_updated: bcs.u64(),
+})
+
+const PolicyRegistry = bcs.struct('PolicyRegistry', {
+  id: MoveUID,
+  policies: MoveTable,
+  policies_by_owner: MoveTable,
+  policies_by_location: MoveTable,
+  policies_by_peril: MoveTable,
+  total_policies: bcs.u64(),
+  total_coverage: bcs.u64(),
+})
+
+const RiskParameters = bcs.struct('RiskParameters', {
+  id: MoveUID,
+  location_risk: MoveTable,
+  peril_risk: MoveTable,
+  base_margin_requirement: bcs.u64(),
+})
+
+const Claim = bcs.struct('Claim', {
+  id: MoveUID,
+  policy_id: MoveID,
+  owner: bcs.Address,
+  trigger_value: bcs.u64(),
+  actual_value: bcs.u128(),
+  decimal_places: bcs.u8(),
+  payout_amount: bcs.u64(),
+  processed_at: bcs.u64(),
+  status: bcs.u8(),
+  oracle_sources: bcs.u64(),
+})
+
+const LiquidityPool = bcs.struct('LiquidityPool', {
+  id: MoveUID,
+  total_liquidity: MoveBalance,
+  lp_shares: MoveTable,
+  total_shares: bcs.u64(),
+})
+
+const LPToken = bcs.struct('LPToken', {
+  id: MoveUID,
+  owner: bcs.Address,
+  shares: bcs.u64(),
+})
+
+const FundingRate = bcs.struct('FundingRate', {
+  id: MoveUID,
+  rate: bcs.u64(),
+  direction: bcs.bool(),
+  calculated_at: bcs.u64(),
+  valid_until: bcs.u64(),
+})
+
+// switchboard_oracle_integration::AggregatedData.
+const AggregatedData = bcs.struct('AggregatedData', {
+  id: MoveUID,
+  location: bcs.string(),
+  data_type: bcs.string(),
+  value: bcs.u128(),
+  decimal_places: bcs.u8(),
+  timestamp: bcs.u64(),
+  min_timestamp: bcs.u64(),
+  max_timestamp: bcs.u64(),
+  mean: bcs.u128(),
+  stdev: bcs.u128(),
+  min_value: bcs.u128(),
+  max_value: bcs.u128(),
+  sources_count: bcs.u64(),
+})
+
+const RiskModel = bcs.struct('RiskModel', {
+  id: MoveUID,
+  model_name: bcs.string(),
+  model_version: bcs.string(),
+  base_premium_rate: bcs.u64(),
+  location_factors: MoveTable,
+  peril_factors: MoveTable,
+  seasonal_factors: MoveTable,
+  coverage_factors: MoveTable,
+  last_updated: bcs.u64(),
+  created_by: bcs.Address,
+})
+
+const WalrusReference = bcs.struct('WalrusReference', {
+  id: MoveUID,
+  data_type: bcs.u8(),
+  reference_id: bcs.string(),
+  metadata: bcs.string(),
+  timestamp: bcs.u64(),
+  creator: bcs.Address,
+})
+
+const WalrusRegistry = bcs.struct('WalrusRegistry', {
+  id: MoveUID,
+  references: MoveTable,
+  references_by_type: MoveTable,
+  references_by_creator: MoveTable,
+  references_by_entity: MoveTable,
+  total_references: bcs.u64(),
+})
+
+/** Move structs the app reads, with their module and BCS layout. */
+export const MOVE_STRUCTS = {
+  Profile: { module: PROFILE_MODULE_NAME, layout: Profile },
+  Experience: { module: PROFILE_MODULE_NAME, layout: Experience },
+  Education: { module: PROFILE_MODULE_NAME, layout: Education },
+  Endorsement: { module: PROFILE_MODULE_NAME, layout: Endorsement },
+  ConnectionRequest: { module: PROFILE_MODULE_NAME, layout: ConnectionRequest },
+  ConnectionUpdate: { module: PROFILE_MODULE_NAME, layout: ConnectionUpdate },
+  IssuerRegistry: { module: ATTESTATION_MODULE_NAME, layout: IssuerRegistry },
+  Attestation: { module: ATTESTATION_MODULE_NAME, layout: Attestation },
+  Badge: { module: BADGE_MODULE_NAME, layout: Badge },
+  Greeting: { module: CONTRACT_MODULE_NAME, layout: Greeting },
+  Policy: { module: POLICY_MODULE_NAME, layout: Policy },
+  PolicyRegistry: { module: POLICY_MODULE_NAME, layout: PolicyRegistry },
+  RiskParameters: { module: POLICY_MODULE_NAME, layout: RiskParameters },
+  Claim: { module: CLAIM_MODULE_NAME, layout: Claim },
+  LiquidityPool: { module: POOL_MODULE_NAME, layout: LiquidityPool },
+  LPToken: { module: POOL_MODULE_NAME, layout: LPToken },
+  FundingRate: { module: FUNDING_MODULE_NAME, layout: FundingRate },
+  AggregatedData: { module: ORACLE_MODULE_NAME, layout: AggregatedData },
+  RiskModel: { module: RISK_MODEL_MODULE_NAME, layout: RiskModel },
+  WalrusReference: { module: WALRUS_MODULE_NAME, layout: WalrusReference },
+  WalrusRegistry: { module: WALRUS_MODULE_NAME, layout: WalrusRegistry },
+}
+
+export type TMoveStruct = keyof typeof MOVE_STRUCTS
+
+/** The decoded fields of a Move struct, as @mysten/sui/bcs parses them. */
+export type TMoveFields<S extends TMoveStruct> =
+  (typeof MOVE_STRUCTS)[S]['layout']['$inferType']
+
+export const moveStructType = (packageId: string, struct: TMoveStruct) =>
+  normalizeStructTag(
+    fullStructName(packageId, struct, MOVE_STRUCTS[struct].module)
+  )
+
+/**
+ * Whether the response holds an object of the struct. Objects must be
+ * fetched with showBcs or showType.
+ *
+ * @param response
+ * @param packageId
+ * @param struct
+ * @returns
+ */
+export const isMoveStruct = (
+  response: SuiObjectResponse,
+  packageId: string,
+  struct: TMoveStruct
+): boolean => {
+  const raw = response.data?.bcs
+  const type = raw?.dataType === 'moveObject' ? raw.type : response.data?.type
+  return (
+    type != null &&
+    normalizeStructTag(type) === moveStructType(packageId, struct)
+  )
+}
+
+/**
+ * Decode the BCS bytes of an object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId The package the struct's module is published in.
+ * @param struct
+ * @returns The decoded fields.
+ * @throws MoveDecodeError if the object is missing, of another type, or its
+ *   bytes do not match the layout.
+ */
+export const decodeMoveObject = <S extends TMoveStruct>(
+  response: SuiObjectResponse,
+  packageId: string,
+  struct: S
+): TMoveFields<S> => {
+  const raw = response.data?.bcs
+  if (raw == null) {
+    throw new MoveDecodeError(
+      response.error != null
+        ? `${struct} could not be loaded: ${response.error.code}`
+        : `${struct} ${response.data?.objectId} was fetched without showBcs`
+    )
+  }
+  if (raw.dataType !== 'moveObject') {
+    throw new MoveDecodeError(`${response.data!.objectId} is a package`)
+  }
+
+  const expected = moveStructType(packageId, struct)
+  if (normalizeStructTag(raw.type) !== expected) {
+    throw new MoveDecodeError(
+      `${response.data!.objectId} is a ${raw.type}, expected ${expected}`
+    )
+  }
+
+  return decodeMoveStruct(struct, fromBase64(raw.bcsBytes))
+}
+
+/**
+ * Decode the BCS bytes of a struct.
+ *
+ * @param struct
+ * @param bytes
+ * @returns
+ * @throws MoveDecodeError if the bytes do not match the layout.
+ */
+export const decodeMoveStruct = <S extends TMoveStruct>(
+  struct: S,
+  bytes: Uint8Array
+): TMoveFields<S> => {
+  const layout = MOVE_STRUCTS[struct].layout as BcsType<TMoveFields<S>>
+  let fields: TMoveFields<S>
+
+  try {
+    fields = layout.parse(bytes)
+  } catch (e) {
+    throw new MoveDecodeError(
+      `The bytes are not a ${struct}: ${(e as Error).message}`
+    )
+  }
+
+  // parse ignores trailing bytes, which mean the layout is out of date.
+  const length = layout.serialize(fields).toBytes().length
+  if (length !== bytes.length) {
+    throw new MoveDecodeError(
+      `The bytes are not a ${struct}: ${bytes.length - length} bytes left over`
+    )
+  }
+
+  return fields
+}
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { MOVE_STRUCTS } from './moveTypes'
+import {
+  isUndercollateralized,
+  toPolicy,
+  withdrawableCollateral,
+} from './policies'
+
+const PACKAGE_ID = '0x2a'
+
+const response = (type: string): SuiObjectResponse => ({
+  data: {
+    objectId: '0x99',
+    version: '3',
+    digest: 'digest',
+    bcs: {
+      dataType: 'moveObject',
+      type,
+      hasPublicTransfer: false,
+      version: '3',
+      bcsBytes: MOVE_STRUCTS.Policy.layout
+        .serialize({
+          id: '0x99',
+          owner: '0x1',
+          location: 'east-africa',
+          // -1.2921, 36.8219 in shifted micro-degrees.
+          location_coordinates: ['88707900', '216821900'],
+          peril_type: 'rainfall',
+          peril_details: '{"unit":"mm"}',
+          coverage_amount: '10000',
+          trigger_threshold: '2500000000',
+          trigger_operator: 0,
+          collateral_balance: { value: '4000' },
+          margin_requirement: '3500',
+          funding_rate_paid: '12',
+          funding_rate_received: '0',
+          active: true,
+          created_at: '5',
+          last_updated: '7',
+        })
+        .toBase64(),
+    },
+  },
+})
+
+describe('toPolicy', () => {
+  test('parses a Policy object', () => {
+    const policy = toPolicy(
+      response(`${PACKAGE_ID}::policy_manager_enhanced::Policy`),
+      PACKAGE_ID
+    )
+
+    expect(policy).toMatchObject({
+      id: '0x99',
+      location: 'east-africa',
+      coverageAmount: BigInt(10000),
+      triggerThreshold: BigInt(2500000000),
+      collateralBalance: BigInt(4000),
+      marginRequirement: BigInt(3500),
+      fundingRatePaid: BigInt(12),
+      active: true,
+      createdAt: 5,
+    })
+    expect(policy?.latitude).toBeCloseTo(-1.2921)
+    expect(policy?.longitude).toBeCloseTo(36.8219)
+  })
+
+  test('ignores objects of other types', () => {
+    expect(
+      toPolicy(response(`${PACKAGE_ID}::claim_processor::Claim`), PACKAGE_ID)
+    ).toBeNull()
+  })
+})
+
+describe('withdrawableCollateral', () => {
+  const policy = (collateralBalance: number) =>
+    ({
+      collateralBalance: BigInt(collateralBalance),
+      marginRequirement: BigInt(3500),
+    }) as IPolicy
+
+  test('is the collateral above the margin', () => {
+    expect(withdrawableCollateral(policy(4000))).toBe(BigInt(500))
+    expect(isUndercollateralized(policy(4000))).toBe(false)
+  })
+
+  test('is zero when undercollateralized', () => {
+    expect(withdrawableCollateral(policy(3000))).toBe(BigInt(0))
+    expect(isUndercollateralized(policy(3000))).toBe(true)
+  })
+})
@@ -0,0 +1,136 @@
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { decodeCoordinates } from './insurance'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+
+// The PolicyRegistry indexes and the Move type of their keys.
+const REGISTRY_INDEXES = {
+  owner: { field: 'policies_by_owner', keyType: 'address' },
+  location: { field: 'policies_by_location', keyType: '0x1::string::String' },
+  peril: { field: 'policies_by_peril', keyType: '0x1::string::String' },
+} as const
+
+export type TRegistryIndex = keyof typeof REGISTRY_INDEXES
+
+/**
+ * Map a Policy object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a Policy.
+ * @throws MoveDecodeError if the object does not match the Policy layout.
+ */
+export const toPolicy = (
+  response: SuiObjectResponse,
+  packageId: string
+): IPolicy | null => {
+  if (!isMoveStruct(response, packageId, 'Policy')) {
+    return null
+  }
+
+  const fields = decodeMoveObject(response, packageId, 'Policy')
+  const [latitude, longitude] = decodeCoordinates(fields.location_coordinates)
+
+  return {
+    id: response.data!.objectId,
+    owner: fields.owner,
+    location: fields.location,
+    latitude,
+    longitude,
+    perilType: fields.peril_type,
+    perilDetails: fields.peril_details,
+    coverageAmount: BigInt(fields.coverage_amount),
+    triggerThreshold: BigInt(fields.trigger_threshold),
+    triggerOperator: fields.trigger_operator,
+    collateralBalance: BigInt(fields.collateral_balance.value),
+    marginRequirement: BigInt(fields.margin_requirement),
+    fundingRatePaid: BigInt(fields.funding_rate_paid),
+    fundingRateReceived: BigInt(fields.funding_rate_received),
+    active: fields.active,
+    createdAt: Number(fields.created_at),
+    lastUpdated: Number(fields.last_updated),
+  }
+}
+
+/**
+ * Look up policy IDs in one of the PolicyRegistry indexes.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param policyRegistryId
+ * @param index
+ * @param key An owner address, location or peril type.
+ * @returns The IDs, oldest first. Empty if the key was never indexed.
+ */
+export const fetchIndexedPolicyIds = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  policyRegistryId: string,
+  index: TRegistryIndex,
+  key: string
+): Promise<string[]> => {
+  const registry = decodeMoveObject(
+    await suiClient.getObject({
+      id: policyRegistryId,
+      options: { showBcs: true },
+    }),
+    packageId,
+    'PolicyRegistry'
+  )
+
+  const { field, keyType } = REGISTRY_INDEXES[index]
+  const entry = await suiClient.getDynamicFieldObject({
+    parentId: registry[field].id,
+    name: { type: keyType, value: key },
+  })
+  const entryContent = entry.data?.content
+
+  if (entryContent?.dataType !== 'moveObject') {
+    return []
+  }
+
+  return (entryContent.fields as unknown as { value: string[] }).value
+}
+
+/**
+ * Load policies by ID, skipping any that no longer exist.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param policyIds
+ * @returns
+ */
+export const fetchPolicies = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  policyIds: string[]
+): Promise<IPolicy[]> => {
+  const policies: IPolicy[] = []
+
+  // multiGetObjects accepts at most 50 IDs per call.
+  for (let i = 0; i < policyIds.length; i += 50) {
+    const responses = await suiClient.multiGetObjects({
+      ids: policyIds.slice(i, i + 50),
+      options: { showBcs: true },
+    })
+
+    for (const response of responses) {
+      const policy = toPolicy(response, packageId)
+      if (policy != null) policies.push(policy)
+    }
+  }
+
+  return policies
+}
+
+export const isUndercollateralized = (policy: IPolicy) => {
+  return policy.collateralBalance < policy.marginRequirement
+}
+
+/** Collateral above the margin, which remove_collateral lets the owner take. */
+export const withdrawableCollateral = (policy: IPolicy) => {
+  return isUndercollateralized(policy)
+    ? BigInt(0)
+    : policy.collateralBalance - policy.marginRequirement
+}
@@ -0,0 +1,208 @@
+import {
+  calculateMarginRequirement,
+  calculatePremium,
+  closestCoverageTier,
+  currentMonth,
+  IRiskModelFactors,
+  IRiskParameters,
+  PremiumCalculationError,
+} from './premium'
+
+const toBigInts = (table: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(table).map(([key, value]) => [key, BigInt(value)])
+  )
+
+// The tables risk_model::create_risk_model fills in, with a 5% base rate.
+const MODEL: IRiskModelFactors = {
+  basePremiumRate: BigInt(500),
+  locationFactors: toBigInts({
+    'east-africa': 120,
+    'southeast-asia': 150,
+    'central-america': 130,
+    'south-pacific': 140,
+  }),
+  perilFactors: toBigInts({ drought: 130, flood: 160, heat: 120, wind: 140 }),
+  seasonalFactors: toBigInts({
+    1: 100,
+    2: 100,
+    3: 110,
+    4: 120,
+    5: 130,
+    6: 140,
+    7: 150,
+    8: 160,
+    9: 150,
+    10: 130,
+    11: 110,
+    12: 100,
+  }),
+  coverageFactors: toBigInts({
+    1000: 120,
+    5000: 110,
+    10000: 100,
+    50000: 90,
+    100000: 85,
+  }),
+}
+
+// The RiskParameters policy_manager_enhanced::init shares.
+const PARAMETERS: IRiskParameters = {
+  baseMarginRequirement: BigInt(1000),
+  locationRisk: toBigInts({
+    'east-africa': 1200,
+    'southeast-asia': 1500,
+    'central-america': 1300,
+    'south-pacific': 1400,
+  }),
+  perilRisk: toBigInts({ drought: 1300, flood: 1600, heat: 1200, wind: 1400 }),
+}
+
+const asNumbers = (quote: object) =>
+  Object.fromEntries(
+    Object.entries(quote).map(([key, value]) => [key, Number(value)])
+  )
+
+describe('calculatePremium', () => {
+  // Expected values are the PremiumCalculation fields the Move function
+  // returns for the same inputs.
+  test.each([
+    {
+      location: 'east-africa',
+      peril: 'drought',
+      coverage: 10000,
+      month: 6,
+      expected: {
+        coverageAmount: 10000,
+        coverageTier: 10000,
+        basePremium: 500,
+        locationAdjustment: 100,
+        perilAdjustment: 150,
+        seasonalAdjustment: 200,
+        coverageAdjustment: 0,
+        finalPremium: 950,
+        fundingRate: 2,
+      },
+    },
+    {
+      location: 'southeast-asia',
+      peril: 'flood',
+      coverage: 5000,
+      month: 8,
+      expected: {
+        coverageAmount: 5000,
+        coverageTier: 5000,
+        basePremium: 250,
+        locationAdjustment: 125,
+        perilAdjustment: 150,
+        seasonalAdjustment: 150,
+        coverageAdjustment: 25,
+        finalPremium: 700,
+        fundingRate: 3,
+      },
+    },
+    {
+      // Unknown keys fall back to 1.0x, and month 13 to January.
+      location: 'atlantis',
+      peril: 'meteor',
+      coverage: 1000,
+      month: 13,
+      expected: {
+        coverageAmount: 1000,
+        coverageTier: 1000,
+        basePremium: 50,
+        locationAdjustment: 0,
+        perilAdjustment: 0,
+        seasonalAdjustment: 0,
+        coverageAdjustment: 10,
+        finalPremium: 60,
+        fundingRate: 1,
+      },
+    },
+  ])(
+    '$location / $peril / $coverage in month $month',
+    ({ location, peril, coverage, month, expected }) => {
+      const quote = calculatePremium(
+        MODEL,
+        location,
+        peril,
+        BigInt(coverage),
+        month
+      )
+
+      expect(asNumbers(quote)).toEqual(expected)
+    }
+  )
+
+  test('aborts like Move when a factor is below 1.0x', () => {
+    // The 50,000 tier has a 0.9x factor, and the adjustment underflows.
+    expect(() =>
+      calculatePremium(MODEL, 'east-africa', 'drought', BigInt(50000), 1)
+    ).toThrow(PremiumCalculationError)
+  })
+
+  test('aborts like Move on zero coverage', () => {
+    expect(() =>
+      calculatePremium(MODEL, 'east-africa', 'drought', BigInt(0), 1)
+    ).toThrow('Division by zero')
+  })
+
+  test('aborts like Move on u64 overflow', () => {
+    expect(() =>
+      calculatePremium(
+        MODEL,
+        'east-africa',
+        'drought',
+        BigInt('18446744073709551615'),
+        1
+      )
+    ).toThrow('Arithmetic overflow')
+  })
+})
+
+describe('closestCoverageTier', () => {
+  test.each([
+    [0, 1000],
+    [2999, 1000],
+    // Ties go to the smaller tier.
+    [3000, 1000],
+    [7500, 5000],
+    [30000, 10000],
+    [30001, 50000],
+    // Everything is over a billion away, so the 10,000 default is kept.
+    [1000000000000, 10000],
+  ])('%d -> %d', (coverage, tier) => {
+    expect(closestCoverageTier(BigInt(coverage))).toBe(BigInt(tier))
+  })
+})
+
+describe('calculateMarginRequirement', () => {
+  test('adds base, location and peril risk', () => {
+    expect(
+      calculateMarginRequirement(
+        PARAMETERS,
+        'east-africa',
+        'drought',
+        BigInt(10000)
+      )
+    ).toBe(BigInt(3500))
+  })
+
+  test('uses 10% for unknown locations and perils', () => {
+    expect(
+      calculateMarginRequirement(
+        PARAMETERS,
+        'atlantis',
+        'meteor',
+        BigInt(1000000007)
+      )
+    ).toBe(BigInt(300000002))
+  })
+})
+
+describe('currentMonth', () => {
+  test('is the 1-based UTC month', () => {
+    expect(currentMonth(new Date('2025-01-31T23:59:59Z'))).toBe(1)
+    expect(currentMonth(new Date('2025-12-01T00:00:00Z'))).toBe(12)
+  })
+})
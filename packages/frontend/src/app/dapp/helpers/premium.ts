@@ -0,0 +1,172 @@
+/**
+ * A TypeScript port of risk_model::calculate_premium and
+ * policy_manager_enhanced::calculate_margin_requirement.
+ *
+ * All math is u64 integer math on bigints, in the same order as the Move code,
+ * so quotes match the on-chain results exactly. Where Move would abort
+ * (underflow, overflow, division by zero) a PremiumCalculationError is thrown.
+ */
+
+// Factors are in percent (100 = 1.0x), rates and risks in basis points.
+export interface IRiskModelFactors {
+  basePremiumRate: bigint
+  locationFactors: Record<string, bigint>
+  perilFactors: Record<string, bigint>
+  seasonalFactors: Record<string, bigint>
+  coverageFactors: Record<string, bigint>
+}
+
+export interface IRiskParameters {
+  baseMarginRequirement: bigint
+  locationRisk: Record<string, bigint>
+  perilRisk: Record<string, bigint>
+}
+
+export interface IPremiumQuote {
+  coverageAmount: bigint
+  coverageTier: bigint
+  basePremium: bigint
+  locationAdjustment: bigint
+  perilAdjustment: bigint
+  seasonalAdjustment: bigint
+  coverageAdjustment: bigint
+  finalPremium: bigint
+  /** Daily funding rate in basis points of the coverage. */
+  fundingRate: bigint
+}
+
+export class PremiumCalculationError extends Error {}
+
+export const COVERAGE_TIERS = [1000, 5000, 10000, 50000, 100000].map(BigInt)
+
+const U64_MAX = BigInt('18446744073709551615')
+const ZERO = BigInt(0)
+const ONE_HUNDRED = BigInt(100)
+const BASIS_POINTS = BigInt(10000)
+const DEFAULT_FACTOR = BigInt(100)
+const DEFAULT_RISK = BigInt(1000)
+
+const checked = (value: bigint) => {
+  if (value < ZERO) {
+    throw new PremiumCalculationError('Arithmetic underflow')
+  }
+  if (value > U64_MAX) {
+    throw new PremiumCalculationError('Arithmetic overflow')
+  }
+  return value
+}
+
+const divide = (a: bigint, b: bigint) => {
+  if (b === ZERO) {
+    throw new PremiumCalculationError('Division by zero')
+  }
+  return a / b
+}
+
+const lookup = (
+  table: Record<string, bigint>,
+  key: string | bigint,
+  fallback: bigint
+) => table[key.toString()] ?? fallback
+
+/**
+ * The tier closest to the coverage amount. Ties go to the smaller tier, and
+ * the default 10,000 tier wins only if every tier is a billion or more away.
+ */
+export const closestCoverageTier = (coverageAmount: bigint): bigint => {
+  let closestTier = BigInt(10000)
+  let minDiff = BigInt(1000000000)
+
+  for (const tier of COVERAGE_TIERS) {
+    const diff =
+      tier > coverageAmount ? tier - coverageAmount : coverageAmount - tier
+    if (diff < minDiff) {
+      minDiff = diff
+      closestTier = tier
+    }
+  }
+
+  return closestTier
+}
+
+/**
+ * @param model
+ * @param location
+ * @param perilType
+ * @param coverageAmount
+ * @param currentMonth 1-12. Anything else is treated as January.
+ * @returns
+ */
+export const calculatePremium = (
+  model: IRiskModelFactors,
+  location: string,
+  perilType: string,
+  coverageAmount: bigint,
+  currentMonth: number
+): IPremiumQuote => {
+  const locationFactor = lookup(model.locationFactors, location, DEFAULT_FACTOR)
+  const perilFactor = lookup(model.perilFactors, perilType, DEFAULT_FACTOR)
+  const month = currentMonth >= 1 && currentMonth <= 12 ? currentMonth : 1
+  const seasonalFactor = lookup(
+    model.seasonalFactors,
+    String(month),
+    DEFAULT_FACTOR
+  )
+  const coverageTier = closestCoverageTier(coverageAmount)
+  const coverageFactor = lookup(
+    model.coverageFactors,
+    coverageTier,
+    DEFAULT_FACTOR
+  )
+
+  const basePremium =
+    checked(coverageAmount * model.basePremiumRate) / BASIS_POINTS
+  const adjustment = (factor: bigint) =>
+    checked(checked(basePremium * factor) / ONE_HUNDRED - basePremium)
+
+  const locationAdjustment = adjustment(locationFactor)
+  const perilAdjustment = adjustment(perilFactor)
+  const seasonalAdjustment = adjustment(seasonalFactor)
+  const coverageAdjustment = adjustment(coverageFactor)
+  const finalPremium = checked(
+    basePremium +
+      locationAdjustment +
+      perilAdjustment +
+      seasonalAdjustment +
+      coverageAdjustment
+  )
+  const fundingRate = divide(
+    checked(finalPremium * BASIS_POINTS),
+    checked(coverageAmount * BigInt(365))
+  )
+
+  return {
+    coverageAmount,
+    coverageTier,
+    basePremium,
+    locationAdjustment,
+    perilAdjustment,
+    seasonalAdjustment,
+    coverageAdjustment,
+    finalPremium,
+    fundingRate,
+  }
+}
+
+export const calculateMarginRequirement = (
+  params: IRiskParameters,
+  location: string,
+  perilType: string,
+  coverageAmount: bigint
+): bigint => {
+  const totalRiskFactor = checked(
+    params.baseMarginRequirement +
+      lookup(params.locationRisk, location, DEFAULT_RISK) +
+      lookup(params.perilRisk, perilType, DEFAULT_RISK)
+  )
+
+  return checked(coverageAmount * totalRiskFactor) / BASIS_POINTS
+}
+
+/** The month calculate_premium is usually called with: the current UTC one. */
+export const currentMonth = (date: Date = new Date()) => date.getUTCMonth() + 1
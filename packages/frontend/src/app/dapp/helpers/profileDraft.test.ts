@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+import { bcs } from '@mysten/sui/bcs'
+import { fromBase64 } from '@mysten/sui/utils'
+import { profile } from './__fixtures__/profiles'
+import {
+  describeProfileDraftChange,
+  findProfileDraftEdit,
+  prepareProfileDraftTransaction,
+  previewProfileDraft,
+  queueProfileDraftChange,
+  TProfileDraftChange,
+} from './profileDraft'
+
+const PACKAGE_ID = `0x${'2a'.padStart(64, '0')}`
+const PROFILE_ID = `0x${'1f'.padStart(64, '0')}`
+
+const info = (name: string) => ({
+  name,
+  headline: '',
+  bio: '',
+  profileImageUrl: '',
+  location: '',
+  contactEmail: '',
+})
+
+const fetched = profile('0x1', [], ['Move', 'Rust', 'Agronomy'])
+
+const draft: TProfileDraftChange[] = [
+  { kind: 'save_profile', info: info('Amina') },
+  { kind: 'add_skill', skillName: 'Move' },
+  {
+    kind: 'add_education',
+    education: {
+      institution: 'University',
+      degree: 'BSc',
+      field: 'Agronomy',
+      startDate: '2015',
+      endDate: '2019',
+    },
+  },
+]
+
+const edits: TProfileDraftChange[] = [
+  { kind: 'remove_skill', index: 0 },
+  { kind: 'add_skill', skillName: 'Rust' },
+  { kind: 'update_skill', index: 1, skillName: 'Move 2024' },
+  { kind: 'remove_skill', index: 2 },
+]
+
+const functions = (profileId: string | null, changes = draft) =>
+  prepareProfileDraftTransaction(PACKAGE_ID, profileId, changes)
+    .getData()
+    .commands.map((command) => command.MoveCall?.function)
+
+describe('queueProfileDraftChange', () => {
+  test('appends entries', () => {
+    expect(
+      queueProfileDraftChange(draft, { kind: 'add_skill', skillName: 'Rust' })
+    ).toHaveLength(4)
+  })
+
+  test('keeps one save of the basic info, first', () => {
+    const queued = queueProfileDraftChange(draft, {
+      kind: 'save_profile',
+      info: info('Amina W.'),
+    })
+
+    expect(queued.map((c) => c.kind)).toEqual([
+      'save_profile',
+      'add_skill',
+      'add_education',
+    ])
+    expect(queued[0]).toMatchObject({ info: { name: 'Amina W.' } })
+  })
+
+  test('keeps the last edit of an entry', () => {
+    const queued = queueProfileDraftChange(edits, {
+      kind: 'update_skill',
+      index: 1,
+      skillName: 'Sui Move',
+    })
+
+    expect(queued).toHaveLength(4)
+    expect(findProfileDraftEdit(queued, 'update_skill', 1)).toMatchObject({
+      skillName: 'Sui Move',
+    })
+    expect(findProfileDraftEdit(queued, 'update_skill', 0)).toBeUndefined()
+  })
+})
+
+describe('previewProfileDraft', () => {
+  test('applies updates and keeps removed entries in place', () => {
+    expect(
+      previewProfileDraft(fetched, edits).skills.map((skill) => skill.name)
+    ).toEqual(['Move', 'Move 2024', 'Agronomy'])
+  })
+})
+
+describe('prepareProfileDraftTransaction', () => {
+  test('creates a profile and adds entries to it in one transaction', () => {
+    expect(functions(null)).toEqual([
+      'new_profile',
+      'add_skill',
+      'add_education',
+      'transfer_to_owner',
+    ])
+  })
+
+  test('edits an existing profile in one transaction', () => {
+    expect(functions(PROFILE_ID)).toEqual([
+      'update_profile_info',
+      'add_skill',
+      'add_education',
+    ])
+  })
+
+  test('removes entries last, highest index first', () => {
+    expect(functions(PROFILE_ID, edits)).toEqual([
+      'add_skill',
+      'update_skill',
+      'remove_skill',
+      'remove_skill',
+    ])
+
+    const { commands, inputs } = prepareProfileDraftTransaction(
+      PACKAGE_ID,
+      PROFILE_ID,
+      edits
+    ).getData()
+    // The index of every edit, after the add_skill call.
+    const indices = commands.slice(1).map((command) => {
+      const argument = command.MoveCall!.arguments[1]
+      return argument.$kind === 'Input'
+        ? bcs.u64().parse(fromBase64(inputs[argument.Input].Pure!.bytes))
+        : null
+    })
+    expect(indices).toEqual(['1', '2', '0'])
+  })
+
+  test('needs the basic info of a new profile', () => {
+    expect(() =>
+      prepareProfileDraftTransaction(PACKAGE_ID, null, draft.slice(1))
+    ).toThrow()
+  })
+})
+
+describe('describeProfileDraftChange', () => {
+  test('summarizes changes', () => {
+    expect(describeProfileDraftChange(draft[0], null)).toBe(
+      'Create the profile of Amina'
+    )
+    expect(describeProfileDraftChange(draft[2], fetched)).toBe(
+      'Add education: BSc at University'
+    )
+  })
+
+  test('names the entries it edits', () => {
+    expect(describeProfileDraftChange(edits[0], fetched)).toBe(
+      'Remove skill: Move'
+    )
+    expect(describeProfileDraftChange(edits[2], fetched)).toBe(
+      'Rename skill Rust to Move 2024'
+    )
+  })
+})
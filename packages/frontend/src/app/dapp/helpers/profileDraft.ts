@@ -0,0 +1,247 @@
+import { Transaction } from '@mysten/sui/transactions'
+import { PROFILE_MODULE_NAME } from '~~/dapp/config/network'
+import { IEducation } from '~~/dapp/types/IEducation'
+import { IExperience } from '~~/dapp/types/IExperience'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { fullFunctionName } from '~~/helpers/network'
+import {
+  prepareAddEducationTransaction,
+  prepareAddExperienceTransaction,
+  prepareAddSkillTransaction,
+  prepareProfileEditTransaction,
+  prepareUpdateProfileTransaction,
+} from './profileTransactions'
+import { applyProfileEdit, TProfileEdit } from './profiles'
+
+export type TProfileInfo = Pick<
+  IProfile,
+  'name' | 'headline' | 'bio' | 'profileImageUrl' | 'location' | 'contactEmail'
+>
+
+/**
+ * A change queued in the form until the user signs them all at once. Edits
+ * refer to entries by their index in the profile as fetched, whatever else
+ * the draft changes.
+ */
+export type TProfileDraftChange =
+  | { kind: 'save_profile'; info: TProfileInfo }
+  | { kind: 'add_experience'; experience: IExperience }
+  | { kind: 'add_education'; education: IEducation }
+  | { kind: 'add_skill'; skillName: string }
+  | TProfileEdit
+
+const isEdit = (change: TProfileDraftChange): change is TProfileEdit =>
+  'index' in change
+
+/**
+ * Add a change to the draft. Saving the basic info again replaces the
+ * previous save, which stays first so that a new profile is created before
+ * entries are added to it. Editing an entry again replaces the previous edit
+ * of the same kind.
+ *
+ * @param draft
+ * @param change
+ * @returns A new draft.
+ */
+export const queueProfileDraftChange = (
+  draft: TProfileDraftChange[],
+  change: TProfileDraftChange
+): TProfileDraftChange[] => {
+  if (isEdit(change)) {
+    return [
+      ...draft.filter(
+        (c) =>
+          !(isEdit(c) && c.kind === change.kind && c.index === change.index)
+      ),
+      change,
+    ]
+  }
+
+  if (change.kind !== 'save_profile') return [...draft, change]
+
+  return [change, ...draft.filter((c) => c.kind !== 'save_profile')]
+}
+
+/**
+ * The queued edit of an entry, e.g. to tell whether the draft removes it.
+ *
+ * @param draft
+ * @param kind
+ * @param index
+ * @returns undefined if the entry is not edited.
+ */
+export const findProfileDraftEdit = <K extends TProfileEdit['kind']>(
+  draft: TProfileDraftChange[],
+  kind: K,
+  index: number
+): Extract<TProfileEdit, { kind: K }> | undefined =>
+  draft.find(
+    (c): c is Extract<TProfileEdit, { kind: K }> =>
+      c.kind === kind && isEdit(c) && c.index === index
+  )
+
+/**
+ * The profile with the draft's updates applied, to show them before the draft
+ * is signed. Removals are left to the caller, so that entries keep the indices
+ * edits refer to them by.
+ *
+ * @param profile
+ * @param draft
+ * @returns
+ */
+export const previewProfileDraft = (
+  profile: IProfile,
+  draft: TProfileDraftChange[]
+): IProfile =>
+  draft
+    .filter((c): c is TProfileEdit => isEdit(c) && c.kind.startsWith('update_'))
+    .reduce(applyProfileEdit, profile)
+
+/**
+ * Compose the draft into one transaction. Without a profile, the draft must
+ * save the basic info, which creates the profile with new_profile, adds the
+ * entries to it and transfers it to its owner at the end. Removals run last,
+ * highest index first, so that every edit finds its entry at the index it was
+ * queued with.
+ *
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, if the sender has one.
+ * @param draft
+ * @returns The prepared transaction
+ * @throws Error if a new profile has no basic info.
+ */
+export const prepareProfileDraftTransaction = (
+  packageId: string,
+  profileId: string | null | undefined,
+  draft: TProfileDraftChange[]
+): Transaction => {
+  const tx = new Transaction()
+  const save = draft.find((c) => c.kind === 'save_profile')
+
+  if (profileId == null && save == null) {
+    throw new Error('A new profile needs a name')
+  }
+
+  const profile =
+    profileId ??
+    tx.moveCall({
+      arguments: [
+        tx.pure.string(save!.info.name),
+        tx.pure.string(save!.info.headline),
+        tx.pure.string(save!.info.bio),
+        tx.pure.string(save!.info.profileImageUrl),
+        tx.pure.string(save!.info.location),
+        tx.pure.string(save!.info.contactEmail),
+      ],
+      target: fullFunctionName(packageId, 'new_profile', PROFILE_MODULE_NAME),
+    })
+
+  const removals = draft
+    .filter((c): c is TProfileEdit => isEdit(c) && c.kind.startsWith('remove_'))
+    .sort((a, b) => b.index - a.index)
+  const changes = [
+    ...draft.filter((c) => !c.kind.startsWith('remove_')),
+    ...removals,
+  ]
+
+  for (const change of changes) {
+    switch (change.kind) {
+      case 'save_profile':
+        // new_profile already saved it.
+        if (profileId == null) break
+        prepareUpdateProfileTransaction(
+          packageId,
+          profile,
+          change.info.name,
+          change.info.headline,
+          change.info.bio,
+          change.info.profileImageUrl,
+          change.info.location,
+          change.info.contactEmail,
+          tx
+        )
+        break
+      case 'add_experience':
+        prepareAddExperienceTransaction(
+          packageId,
+          profile,
+          change.experience.company,
+          change.experience.title,
+          change.experience.startDate,
+          change.experience.endDate,
+          change.experience.description,
+          tx
+        )
+        break
+      case 'add_education':
+        prepareAddEducationTransaction(
+          packageId,
+          profile,
+          change.education.institution,
+          change.education.degree,
+          change.education.field,
+          change.education.startDate,
+          change.education.endDate,
+          tx
+        )
+        break
+      case 'add_skill':
+        prepareAddSkillTransaction(packageId, profile, change.skillName, tx)
+        break
+      default:
+        prepareProfileEditTransaction(packageId, profile, change, tx)
+    }
+  }
+
+  if (profileId == null) {
+    tx.moveCall({
+      arguments: [tx.object(profile)],
+      target: fullFunctionName(
+        packageId,
+        'transfer_to_owner',
+        PROFILE_MODULE_NAME
+      ),
+    })
+  }
+
+  return tx
+}
+
+/**
+ * A one-line summary of a change for the review screen.
+ *
+ * @param change
+ * @param profile The profile as fetched, null if saving the info creates it.
+ * @returns
+ */
+export const describeProfileDraftChange = (
+  change: TProfileDraftChange,
+  profile: IProfile | null | undefined
+): string => {
+  switch (change.kind) {
+    case 'save_profile':
+      return `${profile == null ? 'Create' : 'Update'} the profile of ${change.info.name}`
+    case 'add_experience':
+      return `Add experience: ${change.experience.title} at ${change.experience.company}`
+    case 'add_education':
+      return `Add education: ${change.education.degree} at ${change.education.institution}`
+    case 'add_skill':
+      return `Add skill: ${change.skillName}`
+    case 'update_experience':
+      return `Update experience: ${change.experience.title} at ${change.experience.company}`
+    case 'update_education':
+      return `Update education: ${change.education.degree} at ${change.education.institution}`
+    case 'update_skill':
+      return `Rename skill ${profile?.skills[change.index]?.name} to ${change.skillName}`
+    case 'remove_experience': {
+      const experience = profile?.experiences[change.index]
+      return `Remove experience: ${experience?.title} at ${experience?.company}`
+    }
+    case 'remove_education': {
+      const education = profile?.education[change.index]
+      return `Remove education: ${education?.degree} at ${education?.institution}`
+    }
+    case 'remove_skill':
+      return `Remove skill: ${profile?.skills[change.index]?.name}`
+  }
+}
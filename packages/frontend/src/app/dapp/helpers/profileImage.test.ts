@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryBlobStore } from './blobStore'
+import { fitWithin, uploadProfileImage } from './profileImage'
+
+describe('fitWithin', () => {
+  test('scales the longer side down to the size', () => {
+    expect(fitWithin(1600, 1200, 400)).toEqual({ width: 400, height: 300 })
+    expect(fitWithin(900, 3000, 400)).toEqual({ width: 120, height: 400 })
+  })
+
+  test('leaves smaller images as they are', () => {
+    expect(fitWithin(200, 100, 400)).toEqual({ width: 200, height: 100 })
+  })
+})
+
+describe('uploadProfileImage', () => {
+  const resized = new Blob([new Uint8Array([9, 9])], { type: 'image/jpeg' })
+  const resize = async () => resized
+
+  test('stores the resized image and returns its URL', async () => {
+    const store = createMemoryBlobStore()
+    const image = new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' })
+
+    const url = await uploadProfileImage(image, store, resize)
+    const [[blobId, blob]] = [...store.blobs]
+
+    expect(url).toBe(store.url(blobId))
+    expect(blob.contentType).toBe('image/jpeg')
+    expect(blob.data).toEqual(new Uint8Array([9, 9]))
+  })
+
+  test('rejects files that are not images', async () => {
+    const file = new Blob(['hello'], { type: 'text/plain' })
+
+    await expect(
+      uploadProfileImage(file, createMemoryBlobStore(), resize)
+    ).rejects.toThrow('Pick an image file')
+  })
+})
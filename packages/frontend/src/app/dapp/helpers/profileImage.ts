@@ -0,0 +1,91 @@
+import { IBlobStore } from '~~/dapp/types/IBlobStore'
+
+/** Avatars are at most this many pixels wide and high once resized. */
+export const PROFILE_IMAGE_SIZE = 400
+
+// Larger files are rejected before resizing, they are unlikely to be photos.
+export const MAX_PROFILE_IMAGE_BYTES = 20 * 1024 * 1024
+
+const RESIZED_TYPE = 'image/jpeg'
+const RESIZED_QUALITY = 0.85
+
+/**
+ * Scale dimensions down to fit a square, keeping the aspect ratio. Smaller
+ * images are left as they are.
+ *
+ * @param width
+ * @param height
+ * @param size
+ * @returns
+ */
+export const fitWithin = (width: number, height: number, size: number) => {
+  const scale = Math.min(1, size / Math.max(width, height))
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  }
+}
+
+/**
+ * Resize an image in the browser and encode it as JPEG.
+ *
+ * @param image
+ * @param size
+ * @returns
+ */
+export const resizeImage = async (
+  image: Blob,
+  size: number = PROFILE_IMAGE_SIZE
+): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image)
+  const { width, height } = fitWithin(bitmap.width, bitmap.height, size)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  return await new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob == null
+          ? reject(new Error('Could not encode the image'))
+          : resolve(blob),
+      RESIZED_TYPE,
+      RESIZED_QUALITY
+    )
+  )
+}
+
+/**
+ * Resize an avatar and store it.
+ *
+ * @param image A file the user picked.
+ * @param store
+ * @param resize Tests pass one that does not need a canvas.
+ * @returns The URL the store serves the blob at, to save as the profile image
+ *   URL. Wallets show it through the Profile Display, so it has to be a URL
+ *   they can load rather than a blob reference.
+ */
+export const uploadProfileImage = async (
+  image: Blob,
+  store: IBlobStore,
+  resize: (image: Blob) => Promise<Blob> = resizeImage
+): Promise<string> => {
+  if (!image.type.startsWith('image/')) {
+    throw new Error('Pick an image file')
+  }
+  if (image.size > MAX_PROFILE_IMAGE_BYTES) {
+    throw new Error('The image is larger than 20 MB')
+  }
+
+  const resized = await resize(image)
+  const blobId = await store.upload(
+    new Uint8Array(await resized.arrayBuffer()),
+    resized.type
+  )
+
+  return store.url(blobId)
+}
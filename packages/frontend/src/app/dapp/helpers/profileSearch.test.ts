@@ -0,0 +1,132 @@
+import { IProfile } from '~~/dapp/types/IProfile'
+import { profile } from './__fixtures__/profiles'
+import {
+  buildProfileIndex,
+  searchProfiles,
+  TDirectoryEntry,
+  TProfileSearchQuery,
+  tokenize,
+} from './profileSearch'
+
+const NOW = 1735689600000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const entry = (
+  owner: string,
+  fields: Partial<IProfile>,
+  updatedAtMs: number | null = null
+): TDirectoryEntry => ({
+  profile: profile(owner, [], [], fields),
+  createdAtMs: NOW - 30 * DAY_MS,
+  updatedAtMs,
+})
+
+const skill = (name: string, endorsements = 0) => ({
+  name,
+  endorsements,
+  endorsers: Array.from(
+    { length: Math.ceil(endorsements / 3) },
+    (_, i) => `0xe${i}`
+  ),
+})
+
+const index = buildProfileIndex([
+  entry(
+    '0x1',
+    {
+      name: 'Ana Solar',
+      headline: 'Engineer',
+      location: 'Nairobi, Kenya',
+      skills: [skill('Hydrology', 12)],
+      connections: ['0x2'],
+    },
+    NOW - 2 * DAY_MS
+  ),
+  entry('0x2', {
+    name: 'Bo',
+    headline: 'Solar engineer',
+    bio: 'Builds wind farms in Kenya',
+    location: 'Mombasa, Kenya',
+    skills: [skill('Solar')],
+    connections: ['0x1', '0x3'],
+  }),
+  entry(
+    '0x3',
+    {
+      name: 'Chidi',
+      bio: 'Flood models for insurers',
+      location: 'Lagos',
+      skills: [skill('hydrology', 2)],
+      connections: ['0x2'],
+    },
+    NOW - DAY_MS
+  ),
+])
+
+const owners = (query: TProfileSearchQuery, viewer: IProfile | null = null) =>
+  searchProfiles(index, query, viewer, NOW).results.map(
+    (r) => r.entry.profile.owner
+  )
+
+describe('tokenize', () => {
+  test('lowercases and drops accents and punctuation', () => {
+    expect(tokenize('Énergie, SOLAIRE & co-op')).toEqual([
+      'energie',
+      'solaire',
+      'co',
+      'op',
+    ])
+  })
+})
+
+describe('searchProfiles', () => {
+  test('ranks name matches above headline and bio ones', () => {
+    expect(owners({ text: 'solar' })).toEqual(['0x1', '0x2'])
+  })
+
+  test('requires every word, the last one as a prefix', () => {
+    expect(owners({ text: 'solar far' })).toEqual(['0x2'])
+    expect(owners({ text: 'flood ins' })).toEqual(['0x3'])
+    expect(owners({ text: 'fl ins' })).toEqual([])
+  })
+
+  test('filters by skill and location, ignoring case', () => {
+    expect(owners({ skill: 'HYDROLOGY', sort: 'name' })).toEqual(['0x1', '0x3'])
+    expect(owners({ location: 'kenya', sort: 'name' })).toEqual(['0x1', '0x2'])
+  })
+
+  test('filters by connection degree and leaves the viewer out', () => {
+    const viewer = index.entries[0].profile
+
+    expect(owners({ degree: 1 }, viewer)).toEqual(['0x2'])
+    expect(owners({ degree: 2 }, viewer)).toEqual(['0x3'])
+    expect(owners({}, viewer)).not.toContain('0x1')
+  })
+
+  test('sorts by reputation without text', () => {
+    const { results } = searchProfiles(index, {}, null, NOW)
+
+    expect(results[0].entry.profile.owner).toBe('0x1')
+    expect(results.map((r) => r.reputation)).toEqual(
+      [...results.map((r) => r.reputation)].sort((a, b) => b - a)
+    )
+  })
+
+  test('sorts by last update', () => {
+    expect(owners({ sort: 'recent' })).toEqual(['0x3', '0x1', '0x2'])
+  })
+
+  test('paginates and clamps the page', () => {
+    const page = searchProfiles(
+      index,
+      { sort: 'name', pageSize: 2, page: 5 },
+      null,
+      NOW
+    )
+
+    expect(page.total).toBe(3)
+    expect(page.pageCount).toBe(2)
+    expect(page.page).toBe(1)
+    expect(page.results.map((r) => r.entry.profile.owner)).toEqual(['0x3'])
+  })
+})
@@ -0,0 +1,397 @@
+import { EventId } from '@mysten/sui/client'
+import { PROFILE_MODULE_NAME } from '~~/dapp/config/network'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { buildConnectionGraph } from './connections'
+import { toProfile } from './profiles'
+import { computeReputation } from './reputation'
+
+/** A profile of the directory, with when it was created and last updated. */
+export type TDirectoryEntry = {
+  profile: IProfile
+  createdAtMs: number | null
+  updatedAtMs: number | null
+}
+
+export type TProfileSort = 'relevance' | 'reputation' | 'recent' | 'name'
+
+export type TProfileSearchQuery = {
+  /** Words to find in the name, headline and bio. */
+  text?: string
+  skill?: string
+  location?: string
+  /** Only first- or second-degree connections of the viewer. */
+  degree?: 1 | 2
+  sort?: TProfileSort
+  /** Zero-based. */
+  page?: number
+  pageSize?: number
+}
+
+export type TProfileSearchResult = {
+  entry: TDirectoryEntry
+  /** How well the text matched, 0 without text. */
+  relevance: number
+  /** The part of the reputation score the profile alone gives. */
+  reputation: number
+  /** The connection degree to the viewer, null if further or unknown. */
+  degree: 1 | 2 | null
+}
+
+export type TProfileSearchPage = {
+  results: TProfileSearchResult[]
+  /** Matches over all pages. */
+  total: number
+  page: number
+  pageCount: number
+}
+
+/** An inverted index of the directory, built once and searched locally. */
+export type TProfileIndex = {
+  entries: TDirectoryEntry[]
+  /** Term to the weight of each entry, by position in entries. */
+  terms: Map<string, Map<number, number>>
+}
+
+export const PROFILE_PAGE_SIZE = 20
+
+// A match in the name counts more than one in the headline or bio.
+const FIELD_WEIGHTS = { name: 3, headline: 2, bio: 1 } as const
+
+/**
+ * Split text into lowercase words, without accents.
+ *
+ * @param text
+ * @returns
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t !== '')
+
+const sameText = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Index the name, headline and bio of the directory's profiles.
+ *
+ * @param entries
+ * @returns
+ */
+export const buildProfileIndex = (
+  entries: TDirectoryEntry[]
+): TProfileIndex => {
+  const terms = new Map<string, Map<number, number>>()
+
+  entries.forEach(({ profile }, i) => {
+    for (const field of Object.keys(FIELD_WEIGHTS) as Array<
+      keyof typeof FIELD_WEIGHTS
+    >) {
+      for (const term of tokenize(profile[field])) {
+        const weights = terms.get(term) ?? new Map<number, number>()
+        weights.set(i, (weights.get(i) ?? 0) + FIELD_WEIGHTS[field])
+        terms.set(term, weights)
+      }
+    }
+  })
+
+  return { entries, terms }
+}
+
+/**
+ * Relevance of each entry that has every word of the text, as a whole word
+ * or, for the last one, as a prefix so that results show while typing.
+ *
+ * @param index
+ * @param text
+ * @returns null if the text has no words, so that everything matches.
+ */
+const matchText = (
+  index: TProfileIndex,
+  text: string
+): Map<number, number> | null => {
+  const words = tokenize(text)
+  if (words.length === 0) return null
+
+  let matches: Map<number, number> | null = null
+
+  words.forEach((word, w) => {
+    const isLast = w === words.length - 1
+    const found = new Map<number, number>()
+
+    for (const [term, weights] of index.terms) {
+      const exact = term === word
+      if (!exact && !(isLast && term.startsWith(word))) continue
+
+      for (const [i, weight] of weights) {
+        // Whole words count more than prefixes.
+        const score = exact ? weight : weight / 2
+        found.set(i, Math.max(found.get(i) ?? 0, score))
+      }
+    }
+
+    const previous: Map<number, number> | null = matches
+    matches = new Map()
+    for (const [i, score] of found) {
+      if (previous == null || previous.has(i)) {
+        matches.set(i, (previous?.get(i) ?? 0) + score)
+      }
+    }
+  })
+
+  return matches
+}
+
+/**
+ * The reputation score computable from a profile alone: endorsements,
+ * connections and tenure. The profile page shows the full score.
+ *
+ * @param entry
+ * @param nowMs
+ * @returns
+ */
+export const directoryReputation = (entry: TDirectoryEntry, nowMs: number) =>
+  computeReputation(
+    {
+      endorsements: entry.profile.skills.reduce(
+        (sum, s) => sum + s.endorsements,
+        0
+      ),
+      endorsers: new Set(entry.profile.skills.flatMap((s) => s.endorsers)).size,
+      firstDegree: entry.profile.connections.length,
+      secondDegree: 0,
+      verifiedExperiences: 0,
+      verifiedEducation: 0,
+      profileCreatedAtMs: entry.createdAtMs,
+      claimsHonored: 0,
+      claimsRejected: 0,
+      lpSinceMs: null,
+    },
+    nowMs
+  ).score
+
+/**
+ * Search the directory.
+ *
+ * @param index
+ * @param query
+ * @param viewer The profile of the connected wallet, for the degree filter.
+ * @param nowMs The time reputation is computed at.
+ * @returns A page of results, the viewer left out.
+ */
+export const searchProfiles = (
+  index: TProfileIndex,
+  query: TProfileSearchQuery,
+  viewer: IProfile | null,
+  nowMs: number
+): TProfileSearchPage => {
+  const {
+    text = '',
+    skill = '',
+    location = '',
+    degree,
+    sort = text.trim() === '' ? 'reputation' : 'relevance',
+    page = 0,
+    pageSize = PROFILE_PAGE_SIZE,
+  } = query
+
+  const matches = matchText(index, text)
+  const degrees = new Map<string, 1 | 2>()
+  if (viewer != null) {
+    const graph = buildConnectionGraph(
+      viewer,
+      index.entries.map((e) => e.profile)
+    )
+    graph.first.forEach((p) => degrees.set(p.owner, 1))
+    graph.second.forEach(({ profile }) => degrees.set(profile.owner, 2))
+  }
+
+  const results: TProfileSearchResult[] = []
+
+  index.entries.forEach((entry, i) => {
+    const { profile } = entry
+    if (viewer != null && profile.owner === viewer.owner) return
+    if (matches != null && !matches.has(i)) return
+    if (
+      skill.trim() !== '' &&
+      !profile.skills.some((s) => sameText(s.name, skill))
+    ) {
+      return
+    }
+    if (
+      location.trim() !== '' &&
+      !profile.location.toLowerCase().includes(location.trim().toLowerCase())
+    ) {
+      return
+    }
+
+    const entryDegree = degrees.get(profile.owner) ?? null
+    if (degree != null && entryDegree !== degree) return
+
+    results.push({
+      entry,
+      relevance: matches?.get(i) ?? 0,
+      reputation: directoryReputation(entry, nowMs),
+      degree: entryDegree,
+    })
+  })
+
+  const byName = (a: TProfileSearchResult, b: TProfileSearchResult) =>
+    a.entry.profile.name.localeCompare(b.entry.profile.name)
+  const compare: Record<
+    TProfileSort,
+    (a: TProfileSearchResult, b: TProfileSearchResult) => number
+  > = {
+    relevance: (a, b) =>
+      b.relevance - a.relevance || b.reputation - a.reputation || byName(a, b),
+    reputation: (a, b) => b.reputation - a.reputation || byName(a, b),
+    recent: (a, b) =>
+      (b.entry.updatedAtMs ?? b.entry.createdAtMs ?? 0) -
+        (a.entry.updatedAtMs ?? a.entry.createdAtMs ?? 0) || byName(a, b),
+    name: byName,
+  }
+  results.sort(compare[sort])
+
+  const pageCount = Math.max(1, Math.ceil(results.length / pageSize))
+  const current = Math.min(Math.max(0, page), pageCount - 1)
+
+  return {
+    results: results.slice(current * pageSize, (current + 1) * pageSize),
+    total: results.length,
+    page: current,
+    pageCount,
+  }
+}
+
+/**
+ * The time of the latest event of a type for each profile.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param event ProfileCreated or ProfileUpdated.
+ * @returns Profile IDs to times.
+ */
+const fetchProfileEventTimes = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  event: 'ProfileCreated' | 'ProfileUpdated'
+): Promise<Map<string, number | null>> => {
+  const times = new Map<string, number | null>()
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(packageId, event, PROFILE_MODULE_NAME),
+      },
+      cursor,
+      order: 'descending',
+    })
+
+    for (const e of page.data) {
+      const { profile_id } = e.parsedJson as { profile_id: string }
+      if (!times.has(profile_id)) {
+        times.set(
+          profile_id,
+          e.timestampMs == null ? null : Number(e.timestampMs)
+        )
+      }
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  return times
+}
+
+/**
+ * Every profile, from ProfileCreated and ProfileUpdated events and the
+ * current Profile objects.
+ *
+ * @param suiClient
+ * @param packageId
+ * @returns Profiles that still exist, newest first.
+ */
+export const fetchDirectory = async (
+  suiClient: DappKitSuiClient,
+  packageId: string
+): Promise<TDirectoryEntry[]> => {
+  const [created, updated] = await Promise.all([
+    fetchProfileEventTimes(suiClient, packageId, 'ProfileCreated'),
+    fetchProfileEventTimes(suiClient, packageId, 'ProfileUpdated'),
+  ])
+  const ids = [...created.keys()]
+  const entries: TDirectoryEntry[] = []
+
+  // multiGetObjects accepts at most 50 IDs per call.
+  for (let i = 0; i < ids.length; i += 50) {
+    const responses = await suiClient.multiGetObjects({
+      ids: ids.slice(i, i + 50),
+      options: { showBcs: true },
+    })
+
+    for (const response of responses) {
+      const profile = toProfile(response, packageId)
+      if (profile == null) continue
+
+      entries.push({
+        profile,
+        createdAtMs: created.get(profile.id) ?? null,
+        updatedAtMs: updated.get(profile.id) ?? null,
+      })
+    }
+  }
+
+  return entries
+}
+
+const snapshotKey = (packageId: string) => `profileDirectory:${packageId}`
+
+/**
+ * The directory as last fetched in this browser, so that it can be searched
+ * offline.
+ *
+ * @param packageId
+ * @returns null if never fetched.
+ */
+export const loadDirectorySnapshot = (
+  packageId: string
+): { entries: TDirectoryEntry[]; savedAtMs: number } | null => {
+  if (typeof window === 'undefined') return null
+
+  try {
+    const saved = window.localStorage.getItem(snapshotKey(packageId))
+    return saved == null ? null : JSON.parse(saved)
+  } catch {
+    // A snapshot that cannot be read is refetched.
+    return null
+  }
+}
+
+/**
+ * Keep the directory for offline use.
+ *
+ * @param packageId
+ * @param entries
+ * @param savedAtMs
+ */
+export const saveDirectorySnapshot = (
+  packageId: string,
+  entries: TDirectoryEntry[],
+  savedAtMs: number
+) => {
+  if (typeof window === 'undefined') return
+
+  try {
+    window.localStorage.setItem(
+      snapshotKey(packageId),
+      JSON.stringify({ entries, savedAtMs })
+    )
+  } catch {
+    // Storage is full or disabled: search still works while online.
+  }
+}
@@ -1,8 +1,11 @@
-import { TransactionBlock } from '@mysten/sui.js/transactions'
+import { Transaction, TransactionObjectInput } from '@mysten/sui/transactions'
+import { PROFILE_MODULE_NAME } from '~~/dapp/config/network'
+import { fullFunctionName } from '~~/helpers/network'
+import { TProfileEdit } from './profiles'
 
 /**
  * Prepares a transaction to create a user profile
- * @param packageId The package ID of the AMOCA contract
+ * @param packageId The ID of the package the profile module is published in
  * @param name User's full name
  * @param headline Professional headline
  * @param bio User's biography/about section
@@ -11,7 +14,7 @@ import { TransactionBlock } from '@mysten/sui.js/transactions'
  * @param contactEmail User's contact email
  * @returns The prepared transaction
  */
-export function prepareCreateProfileTransaction(
+export const prepareCreateProfileTransaction = (
   packageId: string,
   name: string,
   headline: string,
@@ -19,172 +22,621 @@ export function prepareCreateProfileTransaction(
   profileImageUrl: string,
   location: string,
   contactEmail: string
-) {
-  const tx = new TransactionBlock()
+): Transaction => {
+  const tx = new Transaction()
   tx.moveCall({
-    target: `${packageId}::profile::create_profile`,
     arguments: [
-      tx.pure(name),
-      tx.pure(headline),
-      tx.pure(bio),
-      tx.pure(profileImageUrl),
-      tx.pure(location),
-      tx.pure(contactEmail),
+      tx.pure.string(name),
+      tx.pure.string(headline),
+      tx.pure.string(bio),
+      tx.pure.string(profileImageUrl),
+      tx.pure.string(location),
+      tx.pure.string(contactEmail),
     ],
+    target: fullFunctionName(packageId, 'create_profile', PROFILE_MODULE_NAME),
   })
+
   return tx
 }
 
 /**
  * Prepares a transaction to update a user profile
- * @param packageId The package ID of the AMOCA contract
- * @param profileId The ID of the profile to update
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile to update, or a profile created
+ *   earlier in tx
  * @param name User's full name
  * @param headline Professional headline
  * @param bio User's biography/about section
  * @param profileImageUrl URL to the profile image
  * @param location User's location
  * @param contactEmail User's contact email
+ * @param tx A transaction to add the call to, to batch several edits
  * @returns The prepared transaction
  */
-export function prepareUpdateProfileTransaction(
+export const prepareUpdateProfileTransaction = (
   packageId: string,
-  profileId: string,
+  profileId: TransactionObjectInput,
   name: string,
   headline: string,
   bio: string,
   profileImageUrl: string,
   location: string,
-  contactEmail: string
-) {
-  const tx = new TransactionBlock()
+  contactEmail: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
   tx.moveCall({
-    target: `${packageId}::profile::update_profile_info`,
     arguments: [
       tx.object(profileId),
-      tx.pure(name),
-      tx.pure(headline),
-      tx.pure(bio),
-      tx.pure(profileImageUrl),
-      tx.pure(location),
-      tx.pure(contactEmail),
+      tx.pure.string(name),
+      tx.pure.string(headline),
+      tx.pure.string(bio),
+      tx.pure.string(profileImageUrl),
+      tx.pure.string(location),
+      tx.pure.string(contactEmail),
     ],
+    target: fullFunctionName(
+      packageId,
+      'update_profile_info',
+      PROFILE_MODULE_NAME
+    ),
   })
+
   return tx
 }
 
 /**
  * Prepares a transaction to add work experience to a profile
- * @param packageId The package ID of the AMOCA contract
- * @param profileId The ID of the profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
  * @param company Company name
  * @param title Job title
  * @param startDate Start date
  * @param endDate End date (or "Present")
  * @param description Job description
+ * @param tx A transaction to add the call to, to batch several edits
  * @returns The prepared transaction
  */
-export function prepareAddExperienceTransaction(
+export const prepareAddExperienceTransaction = (
   packageId: string,
-  profileId: string,
+  profileId: TransactionObjectInput,
   company: string,
   title: string,
   startDate: string,
   endDate: string,
-  description: string
-) {
-  const tx = new TransactionBlock()
+  description: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
   tx.moveCall({
-    target: `${packageId}::profile::add_experience`,
     arguments: [
       tx.object(profileId),
-      tx.pure(company),
-      tx.pure(title),
-      tx.pure(startDate),
-      tx.pure(endDate),
-      tx.pure(description),
+      tx.pure.string(company),
+      tx.pure.string(title),
+      tx.pure.string(startDate),
+      tx.pure.string(endDate),
+      tx.pure.string(description),
     ],
+    target: fullFunctionName(packageId, 'add_experience', PROFILE_MODULE_NAME),
   })
+
   return tx
 }
 
 /**
  * Prepares a transaction to add education to a profile
- * @param packageId The package ID of the AMOCA contract
- * @param profileId The ID of the profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
  * @param institution Educational institution name
  * @param degree Degree type
  * @param field Field of study
  * @param startDate Start date
  * @param endDate End date (or "Present")
+ * @param tx A transaction to add the call to, to batch several edits
  * @returns The prepared transaction
  */
-export function prepareAddEducationTransaction(
+export const prepareAddEducationTransaction = (
   packageId: string,
-  profileId: string,
+  profileId: TransactionObjectInput,
   institution: string,
   degree: string,
   field: string,
   startDate: string,
-  endDate: string
-) {
-  const tx = new TransactionBlock()
+  endDate: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
   tx.moveCall({
-    target: `${packageId}::profile::add_education`,
     arguments: [
       tx.object(profileId),
-      tx.pure(institution),
-      tx.pure(degree),
-      tx.pure(field),
-      tx.pure(startDate),
-      tx.pure(endDate),
+      tx.pure.string(institution),
+      tx.pure.string(degree),
+      tx.pure.string(field),
+      tx.pure.string(startDate),
+      tx.pure.string(endDate),
     ],
+    target: fullFunctionName(packageId, 'add_education', PROFILE_MODULE_NAME),
   })
+
   return tx
 }
 
 /**
  * Prepares a transaction to add a skill to a profile
- * @param packageId The package ID of the AMOCA contract
- * @param profileId The ID of the profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
  * @param skillName Name of the skill
+ * @param tx A transaction to add the call to, to batch several edits
  * @returns The prepared transaction
  */
-export function prepareAddSkillTransaction(
+export const prepareAddSkillTransaction = (
   packageId: string,
-  profileId: string,
-  skillName: string
-) {
-  const tx = new TransactionBlock()
+  profileId: TransactionObjectInput,
+  skillName: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.pure.string(skillName)],
+    target: fullFunctionName(packageId, 'add_skill', PROFILE_MODULE_NAME),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to replace a work experience of a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the experience in the profile
+ * @param company Company name
+ * @param title Job title
+ * @param startDate Start date
+ * @param endDate End date (or "Present")
+ * @param description Job description
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareUpdateExperienceTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  company: string,
+  title: string,
+  startDate: string,
+  endDate: string,
+  description: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
   tx.moveCall({
-    target: `${packageId}::profile::add_skill`,
     arguments: [
       tx.object(profileId),
-      tx.pure(skillName),
+      tx.pure.u64(index),
+      tx.pure.string(company),
+      tx.pure.string(title),
+      tx.pure.string(startDate),
+      tx.pure.string(endDate),
+      tx.pure.string(description),
     ],
+    target: fullFunctionName(
+      packageId,
+      'update_experience',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to remove a work experience from a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the experience in the profile
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareRemoveExperienceTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.pure.u64(index)],
+    target: fullFunctionName(
+      packageId,
+      'remove_experience',
+      PROFILE_MODULE_NAME
+    ),
   })
+
   return tx
 }
 
 /**
- * Prepares a transaction to add a connection to a profile
- * @param packageId The package ID of the AMOCA contract
+ * Prepares a transaction to replace an education entry of a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the education entry in the profile
+ * @param institution Educational institution name
+ * @param degree Degree type
+ * @param field Field of study
+ * @param startDate Start date
+ * @param endDate End date (or "Present")
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareUpdateEducationTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  institution: string,
+  degree: string,
+  field: string,
+  startDate: string,
+  endDate: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [
+      tx.object(profileId),
+      tx.pure.u64(index),
+      tx.pure.string(institution),
+      tx.pure.string(degree),
+      tx.pure.string(field),
+      tx.pure.string(startDate),
+      tx.pure.string(endDate),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'update_education',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to remove an education entry from a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the education entry in the profile
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareRemoveEducationTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.pure.u64(index)],
+    target: fullFunctionName(
+      packageId,
+      'remove_education',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to rename a skill of a profile. The module clears
+ * the skill's endorsements.
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the skill in the profile
+ * @param skillName New name of the skill
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareUpdateSkillTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  skillName: string,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [
+      tx.object(profileId),
+      tx.pure.u64(index),
+      tx.pure.string(skillName),
+    ],
+    target: fullFunctionName(packageId, 'update_skill', PROFILE_MODULE_NAME),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to remove a skill from a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param index Position of the skill in the profile
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareRemoveSkillTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  index: number,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.pure.u64(index)],
+    target: fullFunctionName(packageId, 'remove_skill', PROFILE_MODULE_NAME),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares the transaction of a profile entry edit
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile, or a profile created earlier in tx
+ * @param edit The edit
+ * @param tx A transaction to add the call to, to batch several edits
+ * @returns The prepared transaction
+ */
+export const prepareProfileEditTransaction = (
+  packageId: string,
+  profileId: TransactionObjectInput,
+  edit: TProfileEdit,
+  tx: Transaction = new Transaction()
+): Transaction => {
+  switch (edit.kind) {
+    case 'update_experience':
+      return prepareUpdateExperienceTransaction(
+        packageId,
+        profileId,
+        edit.index,
+        edit.experience.company,
+        edit.experience.title,
+        edit.experience.startDate,
+        edit.experience.endDate,
+        edit.experience.description,
+        tx
+      )
+    case 'remove_experience':
+      return prepareRemoveExperienceTransaction(
+        packageId,
+        profileId,
+        edit.index,
+        tx
+      )
+    case 'update_education':
+      return prepareUpdateEducationTransaction(
+        packageId,
+        profileId,
+        edit.index,
+        edit.education.institution,
+        edit.education.degree,
+        edit.education.field,
+        edit.education.startDate,
+        edit.education.endDate,
+        tx
+      )
+    case 'remove_education':
+      return prepareRemoveEducationTransaction(
+        packageId,
+        profileId,
+        edit.index,
+        tx
+      )
+    case 'update_skill':
+      return prepareUpdateSkillTransaction(
+        packageId,
+        profileId,
+        edit.index,
+        edit.skillName,
+        tx
+      )
+    case 'remove_skill':
+      return prepareRemoveSkillTransaction(packageId, profileId, edit.index, tx)
+  }
+}
+
+/**
+ * Prepares a transaction to ask the owner of another profile to connect
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the sender's profile
+ * @param toProfileId The ID of the requested profile
+ * @returns The prepared transaction
+ */
+export const prepareRequestConnectionTransaction = (
+  packageId: string,
+  profileId: string,
+  toProfileId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.pure.id(toProfileId)],
+    target: fullFunctionName(
+      packageId,
+      'request_connection',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to accept a connection request sent to a profile
+ * @param packageId The ID of the package the profile module is published in
  * @param profileId The ID of the profile
- * @param connectionAddress Address of the user to connect with
+ * @param requestId The ID of the ConnectionRequest sent to the profile
  * @returns The prepared transaction
  */
-export function prepareAddConnectionTransaction(
+export const prepareAcceptConnectionTransaction = (
   packageId: string,
   profileId: string,
-  connectionAddress: string
-) {
-  const tx = new TransactionBlock()
+  requestId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.object(requestId)],
+    target: fullFunctionName(
+      packageId,
+      'accept_connection',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to reject a connection request sent to a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile
+ * @param requestId The ID of the ConnectionRequest sent to the profile
+ * @returns The prepared transaction
+ */
+export const prepareRejectConnectionTransaction = (
+  packageId: string,
+  profileId: string,
+  requestId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.object(requestId)],
+    target: fullFunctionName(
+      packageId,
+      'reject_connection',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to remove a connection from both profiles
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile
+ * @param peerProfileId The ID of the connected profile
+ * @param peer Address of the owner of the connected profile
+ * @returns The prepared transaction
+ */
+export const prepareRemoveConnectionTransaction = (
+  packageId: string,
+  profileId: string,
+  peerProfileId: string,
+  peer: string
+): Transaction => {
+  const tx = new Transaction()
   tx.moveCall({
-    target: `${packageId}::profile::add_connection`,
     arguments: [
       tx.object(profileId),
-      tx.pure(connectionAddress),
+      tx.pure.id(peerProfileId),
+      tx.pure.address(peer),
     ],
+    target: fullFunctionName(
+      packageId,
+      'remove_connection',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to apply connections accepted or removed by peers
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile
+ * @param updateIds The IDs of the ConnectionUpdates sent to the profile
+ * @returns The prepared transaction
+ */
+export const prepareApplyConnectionUpdatesTransaction = (
+  packageId: string,
+  profileId: string,
+  updateIds: string[]
+): Transaction => {
+  const tx = new Transaction()
+  for (const updateId of updateIds) {
+    tx.moveCall({
+      arguments: [tx.object(profileId), tx.object(updateId)],
+      target: fullFunctionName(
+        packageId,
+        'apply_connection_update',
+        PROFILE_MODULE_NAME
+      ),
+    })
+  }
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to endorse a skill of another user's profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the endorsed profile
+ * @param skillName Name of the endorsed skill
+ * @returns The prepared transaction
+ */
+export const prepareEndorseSkillTransaction = (
+  packageId: string,
+  profileId: string,
+  skillName: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.pure.id(profileId), tx.pure.string(skillName)],
+    target: fullFunctionName(packageId, 'endorse_skill', PROFILE_MODULE_NAME),
   })
+
   return tx
-}
\ No newline at end of file
+}
+
+/**
+ * Prepares a transaction to accept an endorsement sent to a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile
+ * @param endorsementId The ID of the Endorsement sent to the profile
+ * @returns The prepared transaction
+ */
+export const prepareAcceptEndorsementTransaction = (
+  packageId: string,
+  profileId: string,
+  endorsementId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.object(endorsementId)],
+    target: fullFunctionName(
+      packageId,
+      'accept_endorsement',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+/**
+ * Prepares a transaction to decline an endorsement sent to a profile
+ * @param packageId The ID of the package the profile module is published in
+ * @param profileId The ID of the profile
+ * @param endorsementId The ID of the Endorsement sent to the profile
+ * @returns The prepared transaction
+ */
+export const prepareDeclineEndorsementTransaction = (
+  packageId: string,
+  profileId: string,
+  endorsementId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(profileId), tx.object(endorsementId)],
+    target: fullFunctionName(
+      packageId,
+      'decline_endorsement',
+      PROFILE_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
@@ -0,0 +1,130 @@
+import { IConnectionRequest } from '~~/dapp/types/IConnectionRequest'
+import { IEndorsement } from '~~/dapp/types/IEndorsement'
+import { profile } from './__fixtures__/profiles'
+import {
+  applyProfileEdit,
+  connectionStatus,
+  endorsementStatus,
+  profileUrl,
+} from './profiles'
+
+describe('connectionStatus', () => {
+  test('needs a profile to connect from', () => {
+    expect(connectionStatus(null, profile('0x2'))).toBe('no_profile')
+  })
+
+  test('does not connect to oneself', () => {
+    expect(connectionStatus(profile('0x1'), profile('0x1'))).toBe('self')
+  })
+
+  test('skips existing connections', () => {
+    expect(connectionStatus(profile('0x1', ['0x2']), profile('0x2'))).toBe(
+      'connected'
+    )
+  })
+
+  test('only counts connections of the viewer', () => {
+    expect(connectionStatus(profile('0x1'), profile('0x2', ['0x1']))).toBe(
+      'available'
+    )
+  })
+
+  test('waits for requests sent either way', () => {
+    const request = (from: string, to: string) =>
+      ({ from, toProfileId: `${to}f` }) as IConnectionRequest
+
+    expect(
+      connectionStatus(profile('0x1'), profile('0x2'), [request('0x1', '0x2')])
+    ).toBe('requested')
+    expect(
+      connectionStatus(profile('0x1'), profile('0x2'), [request('0x2', '0x1')])
+    ).toBe('incoming')
+    expect(
+      connectionStatus(profile('0x1'), profile('0x2'), [request('0x3', '0x2')])
+    ).toBe('available')
+  })
+})
+
+describe('endorsementStatus', () => {
+  const endorsed = {
+    ...profile('0x1'),
+    skills: [{ name: 'Move', endorsements: 1, endorsers: ['0x2'] }],
+  }
+  const pending = [{ skillName: 'Move', endorser: '0x3' }] as IEndorsement[]
+
+  test('rejects self-endorsement', () => {
+    expect(endorsementStatus('0x1', endorsed, 'Move', pending)).toBe('self')
+  })
+
+  test('rejects accepted and pending duplicates', () => {
+    expect(endorsementStatus('0x2', endorsed, 'Move', pending)).toBe('endorsed')
+    expect(endorsementStatus('0x3', endorsed, 'Move', pending)).toBe('pending')
+  })
+
+  test('allows new endorsers', () => {
+    expect(endorsementStatus('0x4', endorsed, 'Move', pending)).toBe(
+      'available'
+    )
+  })
+})
+
+describe('profileUrl', () => {
+  test('passes the address or ID as a query parameter', () => {
+    expect(profileUrl('0x2a')).toBe('/profile?id=0x2a')
+  })
+})
+
+describe('applyProfileEdit', () => {
+  const experience = (title: string) => ({
+    company: 'Co-op',
+    title,
+    startDate: '2020',
+    endDate: '',
+    description: '',
+  })
+  const edited = {
+    ...profile('0x1'),
+    experiences: [experience('Intern'), experience('Officer')],
+    education: [],
+    skills: [
+      { name: 'Mvoe', endorsements: 1, endorsers: ['0x2'] },
+      { name: 'Rust', endorsements: 0, endorsers: [] },
+    ],
+  }
+
+  test('replaces an entry in place', () => {
+    const result = applyProfileEdit(edited, {
+      kind: 'update_experience',
+      index: 1,
+      experience: experience('Manager'),
+    })
+
+    expect(result.experiences.map((e) => e.title)).toEqual([
+      'Intern',
+      'Manager',
+    ])
+    expect(edited.experiences[1].title).toBe('Officer')
+  })
+
+  test('removes an entry keeping the order of the others', () => {
+    expect(
+      applyProfileEdit(edited, { kind: 'remove_skill', index: 0 }).skills
+    ).toEqual([{ name: 'Rust', endorsements: 0, endorsers: [] }])
+  })
+
+  test('clears the endorsements of a renamed skill', () => {
+    expect(
+      applyProfileEdit(edited, {
+        kind: 'update_skill',
+        index: 0,
+        skillName: 'Move',
+      }).skills[0]
+    ).toEqual({ name: 'Move', endorsements: 0, endorsers: [] })
+  })
+
+  test('ignores indexes out of range', () => {
+    expect(
+      applyProfileEdit(edited, { kind: 'remove_education', index: 0 })
+    ).toBe(edited)
+  })
+})
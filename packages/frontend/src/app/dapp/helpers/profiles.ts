@@ -0,0 +1,551 @@
+import { EventId, SuiObjectResponse } from '@mysten/sui/client'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { PROFILE_MODULE_NAME } from '~~/dapp/config/network'
+import { IConnectionRequest } from '~~/dapp/types/IConnectionRequest'
+import { IConnectionUpdate } from '~~/dapp/types/IConnectionUpdate'
+import { IEducation } from '~~/dapp/types/IEducation'
+import { IEndorsement } from '~~/dapp/types/IEndorsement'
+import { IExperience } from '~~/dapp/types/IExperience'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fullStructName } from '~~/helpers/network'
+import { decodeMoveObject, isMoveStruct, TMoveStruct } from './moveTypes'
+
+export type TEndorsementStatus = 'self' | 'endorsed' | 'pending' | 'available'
+
+export type TConnectionStatus =
+  | 'no_profile'
+  | 'self'
+  | 'connected'
+  | 'requested'
+  | 'incoming'
+  | 'available'
+
+/** A change to an entry of a profile, addressed by its index. */
+export type TProfileEdit =
+  | { kind: 'update_experience'; index: number; experience: IExperience }
+  | { kind: 'remove_experience'; index: number }
+  | { kind: 'update_education'; index: number; education: IEducation }
+  | { kind: 'remove_education'; index: number }
+  | { kind: 'update_skill'; index: number; skillName: string }
+  | { kind: 'remove_skill'; index: number }
+
+/**
+ * Map a Profile object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a Profile.
+ * @throws MoveDecodeError if the object does not match the Profile layout.
+ */
+export const toProfile = (
+  response: SuiObjectResponse,
+  packageId: string
+): IProfile | null => {
+  if (!isMoveStruct(response, packageId, 'Profile')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Profile')
+
+  return {
+    id: response.data!.objectId,
+    owner: fields.owner,
+    name: fields.name,
+    headline: fields.headline,
+    bio: fields.bio,
+    profileImageUrl: fields.profile_image_url,
+    location: fields.location,
+    contactEmail: fields.contact_email,
+    experiences: fields.experiences.map((experience) => ({
+      company: experience.company,
+      title: experience.title,
+      startDate: experience.start_date,
+      endDate: experience.end_date,
+      description: experience.description,
+    })),
+    education: fields.education.map((education) => ({
+      institution: education.institution,
+      degree: education.degree,
+      field: education.field,
+      startDate: education.start_date,
+      endDate: education.end_date,
+    })),
+    skills: fields.skills.map((skill) => ({
+      name: skill.name,
+      endorsements: Number(skill.endorsements),
+      endorsers: skill.endorsers,
+    })),
+    connections: fields.connections,
+  }
+}
+
+/**
+ * Map an Endorsement object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not an Endorsement.
+ * @throws MoveDecodeError if the object does not match the Endorsement layout.
+ */
+export const toEndorsement = (
+  response: SuiObjectResponse,
+  packageId: string
+): IEndorsement | null => {
+  if (!isMoveStruct(response, packageId, 'Endorsement')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'Endorsement')
+
+  return {
+    id: response.data!.objectId,
+    profileId: fields.profile_id,
+    skillName: fields.skill_name,
+    endorser: fields.endorser,
+  }
+}
+
+/**
+ * Map a ConnectionRequest object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a ConnectionRequest.
+ * @throws MoveDecodeError if the object does not match the layout.
+ */
+export const toConnectionRequest = (
+  response: SuiObjectResponse,
+  packageId: string
+): IConnectionRequest | null => {
+  if (!isMoveStruct(response, packageId, 'ConnectionRequest')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'ConnectionRequest')
+
+  return {
+    id: response.data!.objectId,
+    fromProfileId: fields.from_profile_id,
+    from: fields.from,
+    toProfileId: fields.to_profile_id,
+  }
+}
+
+/**
+ * Map a ConnectionUpdate object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a ConnectionUpdate.
+ * @throws MoveDecodeError if the object does not match the layout.
+ */
+export const toConnectionUpdate = (
+  response: SuiObjectResponse,
+  packageId: string
+): IConnectionUpdate | null => {
+  if (!isMoveStruct(response, packageId, 'ConnectionUpdate')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'ConnectionUpdate')
+
+  return {
+    id: response.data!.objectId,
+    profileId: fields.profile_id,
+    peer: fields.peer,
+    connected: fields.connected,
+  }
+}
+
+/**
+ * The Profile an address owns. create_profile does not stop an address from
+ * creating several, the first one is used.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param owner
+ * @returns null if the address has no Profile.
+ */
+export const fetchProfileByOwner = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  owner: string
+): Promise<IProfile | null> => {
+  const { data } = await suiClient.getOwnedObjects({
+    owner,
+    filter: {
+      StructType: fullStructName(packageId, 'Profile', PROFILE_MODULE_NAME),
+    },
+    options: { showBcs: true },
+    limit: 1,
+  })
+
+  return data.length === 0 ? null : toProfile(data[0], packageId)
+}
+
+/**
+ * Load a Profile by its object ID or by the address of its owner. Both are
+ * 32-byte IDs, so the object is tried first.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param addressOrId
+ * @returns null if neither a Profile nor the owner of one was found.
+ */
+export const fetchProfile = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  addressOrId: string
+): Promise<IProfile | null> => {
+  const id = normalizeSuiAddress(addressOrId)
+  const response = await suiClient.getObject({ id, options: { showBcs: true } })
+
+  return (
+    toProfile(response, packageId) ??
+    (await fetchProfileByOwner(suiClient, packageId, id))
+  )
+}
+
+/**
+ * Objects of a struct transferred to a profile object, which its owner has
+ * not received yet.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param profileId
+ * @param struct
+ * @param map The mapper of the struct.
+ * @returns
+ */
+const fetchSentToProfile = async <T>(
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  profileId: string,
+  struct: TMoveStruct,
+  map: (response: SuiObjectResponse, packageId: string) => T | null
+): Promise<T[]> => {
+  const objects: T[] = []
+  let cursor: string | null = null
+
+  do {
+    const page = await suiClient.getOwnedObjects({
+      owner: profileId,
+      filter: {
+        StructType: fullStructName(packageId, struct, PROFILE_MODULE_NAME),
+      },
+      options: { showBcs: true },
+      cursor,
+    })
+
+    for (const response of page.data) {
+      const object = map(response, packageId)
+      if (object != null) objects.push(object)
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  return objects
+}
+
+/**
+ * Endorsements sent to a profile which its owner has not accepted or declined.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param profileId
+ * @returns
+ */
+export const fetchPendingEndorsements = (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  profileId: string
+): Promise<IEndorsement[]> =>
+  fetchSentToProfile(
+    suiClient,
+    packageId,
+    profileId,
+    'Endorsement',
+    toEndorsement
+  )
+
+/**
+ * Connection requests sent to a profile which its owner has not accepted or
+ * rejected.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param profileId
+ * @returns
+ */
+export const fetchConnectionRequests = (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  profileId: string
+): Promise<IConnectionRequest[]> =>
+  fetchSentToProfile(
+    suiClient,
+    packageId,
+    profileId,
+    'ConnectionRequest',
+    toConnectionRequest
+  )
+
+/**
+ * Connection requests sent by an address which were not accepted or rejected
+ * yet. They are owned by the profiles they were sent to, so they are found
+ * through the ConnectionRequested events from the address.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param from
+ * @returns
+ */
+export const fetchSentConnectionRequests = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  from: string
+): Promise<IConnectionRequest[]> => {
+  const sender = normalizeSuiAddress(from)
+  const ids: string[] = []
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(
+          packageId,
+          'ConnectionRequested',
+          PROFILE_MODULE_NAME
+        ),
+      },
+      cursor,
+    })
+
+    for (const event of page.data) {
+      const requested = event.parsedJson as { request_id: string; from: string }
+      if (normalizeSuiAddress(requested.from) === sender) {
+        ids.push(requested.request_id)
+      }
+    }
+
+    cursor = page.hasNextPage ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  const requests: IConnectionRequest[] = []
+
+  // Answered requests are deleted. multiGetObjects accepts at most 50 IDs.
+  for (let i = 0; i < ids.length; i += 50) {
+    const responses = await suiClient.multiGetObjects({
+      ids: ids.slice(i, i + 50),
+      options: { showBcs: true },
+    })
+
+    for (const response of responses) {
+      const request = toConnectionRequest(response, packageId)
+      if (request != null) requests.push(request)
+    }
+  }
+
+  return requests
+}
+
+/**
+ * Connections accepted or removed by peers which the owner of a profile has
+ * not applied to it.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param profileId
+ * @returns
+ */
+export const fetchConnectionUpdates = (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  profileId: string
+): Promise<IConnectionUpdate[]> =>
+  fetchSentToProfile(
+    suiClient,
+    packageId,
+    profileId,
+    'ConnectionUpdate',
+    toConnectionUpdate
+  )
+
+/**
+ * The latest created profiles, from ProfileCreated events.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param limit
+ * @returns Profiles that still exist, newest first.
+ */
+export const fetchRecentProfiles = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  limit: number = 50
+): Promise<IProfile[]> => {
+  const ids: string[] = []
+  let cursor: EventId | null = null
+
+  do {
+    const page = await suiClient.queryEvents({
+      query: {
+        MoveEventType: fullStructName(
+          packageId,
+          'ProfileCreated',
+          PROFILE_MODULE_NAME
+        ),
+      },
+      cursor,
+      order: 'descending',
+    })
+
+    for (const event of page.data) {
+      const parsed = event.parsedJson as { profile_id: string }
+      if (ids.length < limit) ids.push(parsed.profile_id)
+    }
+
+    cursor =
+      page.hasNextPage && ids.length < limit ? (page.nextCursor ?? null) : null
+  } while (cursor != null)
+
+  const profiles: IProfile[] = []
+
+  // multiGetObjects accepts at most 50 IDs per call.
+  for (let i = 0; i < ids.length; i += 50) {
+    const responses = await suiClient.multiGetObjects({
+      ids: ids.slice(i, i + 50),
+      options: { showBcs: true },
+    })
+
+    for (const response of responses) {
+      const profile = toProfile(response, packageId)
+      if (profile != null) profiles.push(profile)
+    }
+  }
+
+  return profiles
+}
+
+/**
+ * Whether an address can endorse a skill of a profile. accept_endorsement
+ * rejects endorsements by the owner and repeated ones, so they are not sent.
+ *
+ * @param endorser
+ * @param profile
+ * @param skillName
+ * @param pending Endorsements the owner has not accepted yet.
+ * @returns
+ */
+export const endorsementStatus = (
+  endorser: string,
+  profile: IProfile,
+  skillName: string,
+  pending: IEndorsement[]
+): TEndorsementStatus => {
+  if (endorser === profile.owner) return 'self'
+
+  const skill = profile.skills.find((s) => s.name === skillName)
+  if (skill?.endorsers.includes(endorser)) return 'endorsed'
+
+  const isPending = pending.some(
+    (e) => e.skillName === skillName && e.endorser === endorser
+  )
+
+  return isPending ? 'pending' : 'available'
+}
+
+/**
+ * Whether the viewer can ask to connect to the viewed profile. The module
+ * rejects requests to oneself, and requests already sent either way are
+ * waiting for the other owner.
+ *
+ * @param viewer The Profile of the connected wallet, if it has one.
+ * @param profile The viewed Profile.
+ * @param requests Requests sent to either profile that are not answered yet.
+ * @returns
+ */
+export const connectionStatus = (
+  viewer: IProfile | null | undefined,
+  profile: IProfile,
+  requests: IConnectionRequest[] = []
+): TConnectionStatus => {
+  if (viewer == null) return 'no_profile'
+  if (viewer.owner === profile.owner) return 'self'
+  if (viewer.connections.includes(profile.owner)) return 'connected'
+
+  if (
+    requests.some(
+      (r) => r.from === viewer.owner && r.toProfileId === profile.id
+    )
+  ) {
+    return 'requested'
+  }
+  if (
+    requests.some(
+      (r) => r.from === profile.owner && r.toProfileId === viewer.id
+    )
+  ) {
+    return 'incoming'
+  }
+
+  return 'available'
+}
+
+/**
+ * Link to the public page of a profile. The app is exported statically, so
+ * the profile is a query parameter rather than a path segment.
+ *
+ * @param addressOrId
+ * @returns
+ */
+export const profileUrl = (addressOrId: string) =>
+  `/profile?id=${encodeURIComponent(addressOrId)}`
+
+/**
+ * Apply an edit the way the profile module does, e.g. to show it before the
+ * transaction is executed. Renaming a skill clears its endorsements.
+ *
+ * @param profile
+ * @param edit
+ * @returns A new Profile, or the same one if the index is out of range.
+ */
+export const applyProfileEdit = (
+  profile: IProfile,
+  edit: TProfileEdit
+): IProfile => {
+  const replace = <T>(entries: T[], entry: T) =>
+    entries.map((e, i) => (i === edit.index ? entry : e))
+  const remove = <T>(entries: T[]) => entries.filter((_, i) => i !== edit.index)
+
+  switch (edit.kind) {
+    case 'update_experience':
+    case 'remove_experience':
+      if (edit.index >= profile.experiences.length) return profile
+      return {
+        ...profile,
+        experiences:
+          edit.kind === 'update_experience'
+            ? replace(profile.experiences, edit.experience)
+            : remove(profile.experiences),
+      }
+    case 'update_education':
+    case 'remove_education':
+      if (edit.index >= profile.education.length) return profile
+      return {
+        ...profile,
+        education:
+          edit.kind === 'update_education'
+            ? replace(profile.education, edit.education)
+            : remove(profile.education),
+      }
+    case 'update_skill':
+    case 'remove_skill':
+      if (edit.index >= profile.skills.length) return profile
+      return {
+        ...profile,
+        skills:
+          edit.kind === 'update_skill'
+            ? replace(profile.skills, {
+                name: edit.skillName,
+                endorsements: 0,
+                endorsers: [],
+              })
+            : remove(profile.skills),
+      }
+  }
+}
@@ -0,0 +1,77 @@
+import { EClaimStatus } from '~~/dapp/types/EClaimStatus'
+import { IClaim } from '~~/dapp/types/IClaim'
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { IProfile } from '~~/dapp/types/IProfile'
+import golden from './__fixtures__/reputation.json'
+import { computeReputation, reputationInputs } from './reputation'
+
+// To update after an intended change to the scoring, write the output of
+// computeReputation for each case to its "expected" and review the diff.
+describe('computeReputation', () => {
+  test.each(golden)('$name', ({ inputs, nowMs, expected }) => {
+    expect(computeReputation(inputs, nowMs)).toEqual(expected)
+  })
+
+  test('adds up to at most 100', () => {
+    const { components } = computeReputation(golden[0].inputs, 0)
+
+    expect(components.reduce((sum, c) => sum + c.maxPoints, 0)).toBe(100)
+  })
+
+  test('does not count tenure before it starts', () => {
+    const { components } = computeReputation(
+      { ...golden[1].inputs, profileCreatedAtMs: golden[1].nowMs + 1 },
+      golden[1].nowMs
+    )
+
+    expect(components.find((c) => c.key === 'tenure')?.points).toBe(0)
+  })
+})
+
+describe('reputationInputs', () => {
+  const profile = {
+    id: '0xf',
+    owner: '0x1',
+    skills: [
+      { name: 'Move', endorsements: 2, endorsers: ['0x2', '0x3'] },
+      { name: 'Soil science', endorsements: 1, endorsers: ['0x2'] },
+    ],
+  } as IProfile
+  const graph = {
+    first: [profile],
+    second: [
+      { profile, via: [profile] },
+      { profile, via: [profile] },
+    ],
+  }
+  const issuer = { address: '0xe' } as IIssuer
+  const claim = (status: EClaimStatus) => ({ status }) as IClaim
+
+  test('summarizes the data of a wallet', () => {
+    expect(
+      reputationInputs(
+        profile,
+        graph,
+        { experiences: [[issuer], []], education: [[issuer, issuer]] },
+        [
+          claim(EClaimStatus.APPROVED),
+          claim(EClaimStatus.REJECTED),
+          claim(EClaimStatus.PENDING),
+        ],
+        1,
+        null
+      )
+    ).toEqual({
+      endorsements: 3,
+      endorsers: 2,
+      firstDegree: 1,
+      secondDegree: 2,
+      verifiedExperiences: 1,
+      verifiedEducation: 1,
+      profileCreatedAtMs: 1,
+      claimsHonored: 1,
+      claimsRejected: 1,
+      lpSinceMs: null,
+    })
+  })
+})
@@ -0,0 +1,282 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { EClaimStatus } from '~~/dapp/types/EClaimStatus'
+import { IClaim } from '~~/dapp/types/IClaim'
+import { IProfile } from '~~/dapp/types/IProfile'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fetchVerifiedEntries, TVerifiedEntries } from './attestations'
+import { fetchClaims } from './claims'
+import { fetchConnectionGraph, TConnectionGraph } from './connections'
+import { fetchLPTokens } from './liquidityPool'
+import { fetchProfileByOwner } from './profiles'
+
+/** What the score is computed from, summarized so that it is plain JSON. */
+export type TReputationInputs = {
+  /** Accepted endorsements over all skills. */
+  endorsements: number
+  /** Distinct addresses behind them. */
+  endorsers: number
+  firstDegree: number
+  secondDegree: number
+  /** Entries with at least one attestation that holds. */
+  verifiedExperiences: number
+  verifiedEducation: number
+  profileCreatedAtMs: number | null
+  claimsHonored: number
+  claimsRejected: number
+  /** When the wallet added the oldest liquidity it still provides. */
+  lpSinceMs: number | null
+}
+
+export type TReputationComponentKey =
+  | 'endorsements'
+  | 'network'
+  | 'attestations'
+  | 'tenure'
+  | 'claims'
+  | 'liquidity'
+
+export type TReputationComponent = {
+  key: TReputationComponentKey
+  label: string
+  points: number
+  maxPoints: number
+  /** Why the component scored what it did, for people. */
+  explanation: string
+}
+
+export type TReputationScore = {
+  /** The sum of the components' points, out of 100. */
+  score: number
+  components: TReputationComponent[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Endorsements beyond this many per endorser do not count, so that one
+// friend cannot endorse every skill into a high score.
+const ENDORSEMENTS_PER_ENDORSER = 3
+
+const plural = (n: number, one: string, many: string = `${one}s`) =>
+  `${n} ${n === 1 ? one : many}`
+
+/** Points that grow quickly at first and reach half of max at `half`. */
+const saturating = (max: number, value: number, half: number) =>
+  (max * value) / (value + half)
+
+/** Points that grow linearly until `full`. */
+const linear = (max: number, value: number, full: number) =>
+  (max * Math.min(value, full)) / full
+
+const daysSince = (fromMs: number | null, nowMs: number) =>
+  fromMs == null ? null : Math.max(0, Math.floor((nowMs - fromMs) / DAY_MS))
+
+const component = (
+  key: TReputationComponentKey,
+  label: string,
+  maxPoints: number,
+  points: number,
+  explanation: string
+): TReputationComponent => ({
+  key,
+  label,
+  points: Math.round(points),
+  maxPoints,
+  explanation,
+})
+
+/**
+ * Score the reputation of a profile's owner out of 100. The same inputs and
+ * time always give the same score.
+ *
+ * @param inputs
+ * @param nowMs The time tenures are measured up to.
+ * @returns The score and the components it adds up from.
+ */
+export const computeReputation = (
+  inputs: TReputationInputs,
+  nowMs: number
+): TReputationScore => {
+  const counted = Math.min(
+    inputs.endorsements,
+    inputs.endorsers * ENDORSEMENTS_PER_ENDORSER
+  )
+  const centrality = inputs.firstDegree + inputs.secondDegree / 4
+  const verified = inputs.verifiedExperiences + inputs.verifiedEducation
+  const profileDays = daysSince(inputs.profileCreatedAtMs, nowMs)
+  const processed = inputs.claimsHonored + inputs.claimsRejected
+  const lpDays = daysSince(inputs.lpSinceMs, nowMs)
+
+  const components = [
+    component(
+      'endorsements',
+      'Endorsements',
+      25,
+      saturating(25, counted, 10),
+      inputs.endorsements === 0
+        ? 'No endorsements yet.'
+        : `${plural(inputs.endorsements, 'endorsement')} from ${plural(inputs.endorsers, 'person', 'people')}` +
+            (counted < inputs.endorsements
+              ? `, counting at most ${ENDORSEMENTS_PER_ENDORSER} per person.`
+              : '.')
+    ),
+    component(
+      'network',
+      'Network',
+      20,
+      saturating(20, centrality, 10),
+      `${plural(inputs.firstDegree, 'connection')} and ${plural(inputs.secondDegree, 'second-degree connection')}.`
+    ),
+    component(
+      'attestations',
+      'Verified entries',
+      20,
+      Math.min(20, 5 * verified),
+      verified === 0
+        ? 'No entries verified by issuers.'
+        : `${plural(inputs.verifiedExperiences, 'experience')} and ${plural(inputs.verifiedEducation, 'education entry', 'education entries')} verified by issuers.`
+    ),
+    component(
+      'tenure',
+      'Tenure',
+      10,
+      profileDays == null ? 0 : linear(10, profileDays, 365),
+      profileDays == null
+        ? 'The profile creation date is unknown.'
+        : `Profile created ${plural(profileDays, 'day')} ago, full points after a year.`
+    ),
+    component(
+      'claims',
+      'Claims',
+      15,
+      inputs.claimsHonored === 0
+        ? 0
+        : (saturating(15, inputs.claimsHonored, 3) * inputs.claimsHonored) /
+            processed,
+      processed === 0
+        ? 'No processed insurance claims.'
+        : `${inputs.claimsHonored} of ${plural(processed, 'processed claim')} honored.`
+    ),
+    component(
+      'liquidity',
+      'Liquidity',
+      10,
+      lpDays == null ? 0 : linear(10, lpDays, 180),
+      lpDays == null
+        ? 'Not providing liquidity to the pool.'
+        : `Liquidity provider for ${plural(lpDays, 'day')}, full points after 180.`
+    ),
+  ]
+
+  return {
+    score: components.reduce((sum, c) => sum + c.points, 0),
+    components,
+  }
+}
+
+/**
+ * Summarize the data of a wallet for computeReputation.
+ *
+ * @param profile
+ * @param graph The profile's connection graph.
+ * @param verified The issuers that verified each entry of the profile.
+ * @param claims Claims the wallet holds.
+ * @param profileCreatedAtMs
+ * @param lpSinceMs
+ * @returns
+ */
+export const reputationInputs = (
+  profile: IProfile,
+  graph: TConnectionGraph,
+  verified: TVerifiedEntries,
+  claims: IClaim[],
+  profileCreatedAtMs: number | null,
+  lpSinceMs: number | null
+): TReputationInputs => ({
+  endorsements: profile.skills.reduce((sum, s) => sum + s.endorsements, 0),
+  endorsers: new Set(profile.skills.flatMap((s) => s.endorsers)).size,
+  firstDegree: graph.first.length,
+  secondDegree: graph.second.length,
+  verifiedExperiences: verified.experiences.filter((i) => i.length > 0).length,
+  verifiedEducation: verified.education.filter((i) => i.length > 0).length,
+  profileCreatedAtMs,
+  claimsHonored: claims.filter((c) => c.status === EClaimStatus.APPROVED)
+    .length,
+  claimsRejected: claims.filter((c) => c.status === EClaimStatus.REJECTED)
+    .length,
+  lpSinceMs,
+})
+
+/**
+ * When an object was created. The first transaction that changed an object is
+ * the one that created it, so this is one query however long its history.
+ *
+ * @param suiClient
+ * @param objectId
+ * @returns null if the transaction has no timestamp.
+ */
+const fetchCreatedAtMs = async (
+  suiClient: DappKitSuiClient,
+  objectId: string
+): Promise<number | null> => {
+  const { data } = await suiClient.queryTransactionBlocks({
+    filter: { ChangedObject: objectId },
+    order: 'ascending',
+    limit: 1,
+  })
+
+  return Number(data[0]?.timestampMs ?? 0) || null
+}
+
+/**
+ * Load what the reputation of a wallet is computed from.
+ *
+ * @param suiClient
+ * @param packageId The ID of the package the profile module is published in.
+ * @param insurancePackageId The ID of the insurance package, null if not
+ *   deployed.
+ * @param registryId The ID of the IssuerRegistry, null if not deployed.
+ * @param address
+ * @returns null if the address has no profile.
+ */
+export const fetchReputationInputs = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  insurancePackageId: string | null,
+  registryId: string | null,
+  address: string
+): Promise<TReputationInputs | null> => {
+  const profile = await fetchProfileByOwner(suiClient, packageId, address)
+  if (profile == null) return null
+
+  const owner = normalizeSuiAddress(address)
+  const [graph, verified, claims, lpTokens, createdAtMs] = await Promise.all([
+    fetchConnectionGraph(suiClient, packageId, profile),
+    fetchVerifiedEntries(suiClient, packageId, registryId, profile),
+    insurancePackageId == null
+      ? []
+      : fetchClaims(suiClient, insurancePackageId, owner),
+    insurancePackageId == null
+      ? []
+      : fetchLPTokens(suiClient, insurancePackageId, owner),
+    fetchCreatedAtMs(suiClient, profile.id),
+  ])
+
+  // Every deposit mints an LPToken and withdrawals delete them, so the oldest
+  // token held dates the liquidity still provided.
+  const depositedAtMs = await Promise.all(
+    lpTokens
+      .filter((t) => t.shares > BigInt(0))
+      .map((t) => fetchCreatedAtMs(suiClient, t.id))
+  )
+  const lpSince = depositedAtMs.filter((ms): ms is number => ms != null)
+  const lpSinceMs = lpSince.length === 0 ? null : Math.min(...lpSince)
+
+  return reputationInputs(
+    profile,
+    graph,
+    verified,
+    claims,
+    createdAtMs,
+    lpSinceMs
+  )
+}
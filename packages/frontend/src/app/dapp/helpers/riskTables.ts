@@ -0,0 +1,121 @@
+import { SuiObjectResponse } from '@mysten/sui/client'
+import { IRiskModel } from '~~/dapp/types/IRiskModel'
+import { DappKitSuiClient } from '~~/helpers/inspect'
+import { fetchTableEntries } from '~~/helpers/table'
+import { decodeMoveObject, isMoveStruct } from './moveTypes'
+import { IRiskModelFactors, IRiskParameters } from './premium'
+
+const fetchU64Table = async (
+  suiClient: DappKitSuiClient,
+  tableId: string
+): Promise<Record<string, bigint>> => {
+  const entries = await fetchTableEntries<string>(suiClient, tableId)
+
+  return Object.fromEntries(
+    Object.entries(entries).map(([key, value]) => [key, BigInt(value)])
+  )
+}
+
+/**
+ * Map a RiskModel object fetched with showBcs.
+ *
+ * @param response
+ * @param packageId
+ * @returns null if the object is not a RiskModel.
+ * @throws MoveDecodeError if the object does not match the RiskModel layout.
+ */
+export const toRiskModel = (
+  response: SuiObjectResponse,
+  packageId: string
+): IRiskModel | null => {
+  if (!isMoveStruct(response, packageId, 'RiskModel')) return null
+
+  const fields = decodeMoveObject(response, packageId, 'RiskModel')
+
+  return {
+    id: response.data!.objectId,
+    modelName: fields.model_name,
+    modelVersion: fields.model_version,
+    basePremiumRate: BigInt(fields.base_premium_rate),
+    locationFactorsId: fields.location_factors.id,
+    perilFactorsId: fields.peril_factors.id,
+    seasonalFactorsId: fields.seasonal_factors.id,
+    coverageFactorsId: fields.coverage_factors.id,
+    lastUpdated: Number(fields.last_updated),
+    createdBy: fields.created_by,
+  }
+}
+
+/**
+ * Load the factor tables of a risk_model::RiskModel shared object.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param riskModelId
+ * @returns
+ */
+export const fetchRiskModelFactors = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  riskModelId: string
+): Promise<IRiskModelFactors> => {
+  const model = toRiskModel(
+    await suiClient.getObject({ id: riskModelId, options: { showBcs: true } }),
+    packageId
+  )
+  if (model == null) {
+    throw new Error(`RiskModel ${riskModelId} was not found`)
+  }
+
+  const [locationFactors, perilFactors, seasonalFactors, coverageFactors] =
+    await Promise.all(
+      [
+        model.locationFactorsId,
+        model.perilFactorsId,
+        model.seasonalFactorsId,
+        model.coverageFactorsId,
+      ].map((tableId) => fetchU64Table(suiClient, tableId))
+    )
+
+  return {
+    basePremiumRate: model.basePremiumRate,
+    locationFactors,
+    perilFactors,
+    seasonalFactors,
+    coverageFactors,
+  }
+}
+
+/**
+ * Load the policy_manager_enhanced::RiskParameters shared object.
+ *
+ * @param suiClient
+ * @param packageId
+ * @param riskParametersId
+ * @returns
+ */
+export const fetchRiskParameters = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  riskParametersId: string
+): Promise<IRiskParameters> => {
+  const fields = decodeMoveObject(
+    await suiClient.getObject({
+      id: riskParametersId,
+      options: { showBcs: true },
+    }),
+    packageId,
+    'RiskParameters'
+  )
+  const [locationRisk, perilRisk] = await Promise.all(
+    [fields.location_risk.id, fields.peril_risk.id].map((tableId) =>
+      fetchU64Table(suiClient, tableId)
+    )
+  )
+
+  return {
+    baseMarginRequirement: BigInt(fields.base_margin_requirement),
+    locationRisk,
+    perilRisk,
+  }
+}
@@ -1,4 +1,13 @@
 import { Transaction } from '@mysten/sui/transactions'
+import {
+  CLAIM_MODULE_NAME,
+  POLICY_MODULE_NAME,
+  POOL_MODULE_NAME,
+  WALRUS_MODULE_NAME,
+} from '~~/dapp/config/network'
+import { encodeCoordinates } from '~~/dapp/helpers/insurance'
+import { EWalrusDataType } from '~~/dapp/types/EWalrusDataType'
+import { IPolicyParams } from '~~/dapp/types/IPolicyParams'
 import { fullFunctionName } from '~~/helpers/network'
 
 export const prepareCreateGreetingTransaction = (
@@ -39,3 +48,269 @@ export const prepareResetGreetingTransaction = (
 
   return tx
 }
+
+export const prepareCreatePolicyTransaction = (
+  packageId: string,
+  policyRegistryId: string,
+  riskParametersId: string,
+  params: IPolicyParams
+): Transaction => {
+  const tx = new Transaction()
+  const [collateral] = tx.splitCoins(tx.gas, [
+    tx.pure.u64(params.collateralAmount),
+  ])
+  tx.moveCall({
+    arguments: [
+      tx.object(policyRegistryId),
+      tx.object(riskParametersId),
+      tx.pure.string(params.location),
+      tx.pure.vector(
+        'u64',
+        encodeCoordinates(params.latitude, params.longitude)
+      ),
+      tx.pure.string(params.perilType),
+      tx.pure.string(params.perilDetails),
+      tx.pure.u64(params.coverageAmount),
+      tx.pure.u64(params.triggerThreshold),
+      tx.pure.u8(params.triggerOperator),
+      collateral,
+    ],
+    target: fullFunctionName(packageId, 'create_policy', POLICY_MODULE_NAME),
+  })
+
+  return tx
+}
+
+// Meant for devInspectTransactionBlock: returns the margin as a u64.
+export const prepareMarginRequirementTransaction = (
+  packageId: string,
+  riskParametersId: string,
+  location: string,
+  perilType: string,
+  coverageAmount: bigint
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(riskParametersId),
+      tx.pure.string(location),
+      tx.pure.string(perilType),
+      tx.pure.u64(coverageAmount),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'calculate_margin_requirement',
+      POLICY_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+export const prepareAddCollateralTransaction = (
+  packageId: string,
+  policyId: string,
+  amount: bigint
+): Transaction => {
+  const tx = new Transaction()
+  const [collateral] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)])
+  tx.moveCall({
+    arguments: [tx.object(policyId), collateral],
+    target: fullFunctionName(packageId, 'add_collateral', POLICY_MODULE_NAME),
+  })
+
+  return tx
+}
+
+export const prepareRemoveCollateralTransaction = (
+  packageId: string,
+  policyId: string,
+  amount: bigint
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(policyId), tx.pure.u64(amount)],
+    target: fullFunctionName(
+      packageId,
+      'remove_collateral',
+      POLICY_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+export const prepareTerminatePolicyTransaction = (
+  packageId: string,
+  policyRegistryId: string,
+  policyId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(policyRegistryId), tx.object(policyId)],
+    target: fullFunctionName(packageId, 'terminate_policy', POLICY_MODULE_NAME),
+  })
+
+  return tx
+}
+
+export const prepareAddLiquidityTransaction = (
+  packageId: string,
+  liquidityPoolId: string,
+  amount: bigint
+): Transaction => {
+  const tx = new Transaction()
+  const [deposit] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)])
+  tx.moveCall({
+    arguments: [tx.object(liquidityPoolId), deposit],
+    target: fullFunctionName(packageId, 'add_liquidity', POOL_MODULE_NAME),
+  })
+
+  return tx
+}
+
+export const prepareRemoveLiquidityTransaction = (
+  packageId: string,
+  liquidityPoolId: string,
+  lpTokenId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(liquidityPoolId), tx.object(lpTokenId)],
+    target: fullFunctionName(packageId, 'remove_liquidity', POOL_MODULE_NAME),
+  })
+
+  return tx
+}
+
+export const prepareProcessClaimTransaction = (
+  packageId: string,
+  liquidityPoolId: string,
+  policyId: string,
+  aggregatedDataId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(policyId),
+      tx.object(aggregatedDataId),
+      tx.object(liquidityPoolId),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'process_claim_with_aggregated_data',
+      CLAIM_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+export const prepareProcessClaimWithAggregatorTransaction = (
+  packageId: string,
+  liquidityPoolId: string,
+  policyId: string,
+  aggregatorId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(policyId),
+      tx.object(aggregatorId),
+      tx.object(liquidityPoolId),
+    ],
+    target: fullFunctionName(
+      packageId,
+      'process_claim_with_aggregator',
+      CLAIM_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+export const prepareStoreWalrusDataTransaction = (
+  packageId: string,
+  walrusRegistryId: string,
+  dataType: EWalrusDataType,
+  blobId: string,
+  metadata: string,
+  entityId: string | null
+): Transaction => {
+  const encoder = new TextEncoder()
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [
+      tx.object(walrusRegistryId),
+      tx.pure.u8(dataType),
+      tx.pure.vector('u8', encoder.encode(blobId)),
+      tx.pure.vector('u8', encoder.encode(metadata)),
+      tx.pure.option('id', entityId),
+    ],
+    target: fullFunctionName(packageId, 'store_data', WALRUS_MODULE_NAME),
+  })
+
+  return tx
+}
+
+// Meant for devInspectTransactionBlock: returns the reference IDs as a
+// vector<ID>.
+export const prepareWalrusReferencesByEntityTransaction = (
+  packageId: string,
+  walrusRegistryId: string,
+  entityId: string
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(walrusRegistryId), tx.pure.id(entityId)],
+    target: fullFunctionName(
+      packageId,
+      'get_references_by_entity',
+      WALRUS_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+// Meant for devInspectTransactionBlock: returns the reference IDs as a
+// vector<ID>.
+export const prepareWalrusReferencesByTypeTransaction = (
+  packageId: string,
+  walrusRegistryId: string,
+  dataType: EWalrusDataType
+): Transaction => {
+  const tx = new Transaction()
+  tx.moveCall({
+    arguments: [tx.object(walrusRegistryId), tx.pure.u8(dataType)],
+    target: fullFunctionName(
+      packageId,
+      'get_references_by_type',
+      WALRUS_MODULE_NAME
+    ),
+  })
+
+  return tx
+}
+
+// Meant for devInspectTransactionBlock: one get_reference_details call per
+// reference, each returning (u8, String, String, u64, address).
+export const prepareWalrusReferenceDetailsTransaction = (
+  packageId: string,
+  walrusRegistryId: string,
+  referenceIds: string[]
+): Transaction => {
+  const tx = new Transaction()
+  for (const referenceId of referenceIds) {
+    tx.moveCall({
+      arguments: [tx.object(walrusRegistryId), tx.pure.id(referenceId)],
+      target: fullFunctionName(
+        packageId,
+        'get_reference_details',
+        WALRUS_MODULE_NAME
+      ),
+    })
+  }
+
+  return tx
+}
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { bcs } from '@mysten/sui/bcs'
+import { Transaction } from '@mysten/sui/transactions'
+import { fromBase64 } from '@mysten/sui/utils'
+import { EWalrusDataType } from '~~/dapp/types/EWalrusDataType'
+import { IWalrusReference } from '~~/dapp/types/IWalrusReference'
+import { createMemoryBlobStore } from './blobStore'
+import {
+  downloadWalrusData,
+  toWalrusReferenceDetails,
+  uploadWalrusData,
+  walrusMetadata,
+} from './walrus'
+
+const PACKAGE_ID = `0x${'2a'.padStart(64, '0')}`
+const REGISTRY_ID = `0x${'3b'.padStart(64, '0')}`
+const ENTITY_ID = `0x${'4c'.padStart(64, '0')}`
+
+// A vector<u8> argument of the transaction, as text.
+const pureText = (tx: Transaction, input: number) =>
+  new TextDecoder().decode(
+    Uint8Array.from(
+      bcs
+        .vector(bcs.u8())
+        .parse(fromBase64(tx.getData().inputs[input].Pure!.bytes))
+    )
+  )
+
+// What store_data would have recorded.
+const reference = (blobId: string, metadata: string): IWalrusReference => ({
+  id: '0x1',
+  dataType: EWalrusDataType.CLAIM,
+  referenceId: blobId,
+  metadata,
+  timestamp: 0,
+  creator: '0x2',
+})
+
+describe('uploadWalrusData', () => {
+  test('uploads the payload and stores its blob ID', async () => {
+    const store = createMemoryBlobStore()
+
+    const { blobId, tx } = await uploadWalrusData(
+      store,
+      PACKAGE_ID,
+      REGISTRY_ID,
+      EWalrusDataType.CLAIM,
+      { rainfall: 120 },
+      ENTITY_ID,
+      { source: 'test' }
+    )
+    const { commands } = tx.getData()
+
+    expect(store.blobs.has(blobId)).toBe(true)
+    expect(commands.map((c) => c.MoveCall?.function)).toEqual(['store_data'])
+    expect(commands[0].MoveCall?.module).toBe('walrus_integration')
+    expect(pureText(tx, 2)).toBe(blobId)
+    expect(JSON.parse(pureText(tx, 3))).toEqual({
+      source: 'test',
+      contentType: 'application/json',
+    })
+  })
+})
+
+describe('downloadWalrusData', () => {
+  test('round-trips JSON and bytes', async () => {
+    const store = createMemoryBlobStore()
+
+    for (const payload of [{ a: [1, 2] }, new Uint8Array([7, 8, 9])]) {
+      const { blobId, tx } = await uploadWalrusData(
+        store,
+        PACKAGE_ID,
+        REGISTRY_ID,
+        EWalrusDataType.AUDIT_LOG,
+        payload
+      )
+      const metadata = pureText(tx, 3)
+
+      expect(
+        await downloadWalrusData(store, reference(blobId, metadata))
+      ).toEqual(payload)
+    }
+  })
+
+  test('returns bytes when the metadata has no content type', async () => {
+    const store = createMemoryBlobStore()
+    const blobId = await store.upload(new Uint8Array([1]), 'a/b')
+
+    expect(await downloadWalrusData(store, reference(blobId, 'n/a'))).toEqual(
+      new Uint8Array([1])
+    )
+    expect(walrusMetadata(reference(blobId, 'n/a'))).toEqual({})
+  })
+})
+
+describe('toWalrusReferenceDetails', () => {
+  test('decodes the return values of get_reference_details', () => {
+    expect(
+      toWalrusReferenceDetails('0x9', [
+        bcs.u8().serialize(EWalrusDataType.POLICY).toBytes(),
+        bcs.string().serialize('blob').toBytes(),
+        bcs.string().serialize('{}').toBytes(),
+        bcs.u64().serialize(42).toBytes(),
+        bcs.Address.serialize(ENTITY_ID).toBytes(),
+      ])
+    ).toEqual({
+      id: '0x9',
+      dataType: EWalrusDataType.POLICY,
+      referenceId: 'blob',
+      metadata: '{}',
+      timestamp: 42,
+      creator: ENTITY_ID,
+    })
+  })
+})
@@ -0,0 +1,231 @@
+import { bcs } from '@mysten/sui/bcs'
+import { Transaction } from '@mysten/sui/transactions'
+import { EWalrusDataType } from '~~/dapp/types/EWalrusDataType'
+import { IBlobStore } from '~~/dapp/types/IBlobStore'
+import { IWalrusReference } from '~~/dapp/types/IWalrusReference'
+import { DappKitSuiClient, devInspectReturnValues } from '~~/helpers/inspect'
+import {
+  prepareStoreWalrusDataTransaction,
+  prepareWalrusReferenceDetailsTransaction,
+  prepareWalrusReferencesByEntityTransaction,
+  prepareWalrusReferencesByTypeTransaction,
+} from './transactions'
+
+/** What to store: JSON-serializable values or raw bytes. */
+export type TWalrusPayload = Uint8Array | unknown
+
+/** Which references to fetch. */
+export type TWalrusReferenceQuery =
+  | { entityId: string }
+  | { dataType: EWalrusDataType }
+
+// Set in the metadata of every reference, so that payloads can be decoded.
+const CONTENT_TYPE_KEY = 'contentType'
+const JSON_CONTENT_TYPE = 'application/json'
+const BINARY_CONTENT_TYPE = 'application/octet-stream'
+
+/**
+ * Map the return values of get_reference_details.
+ *
+ * @param id The ID of the reference.
+ * @param returnValues The BCS bytes of each return value.
+ * @returns
+ */
+export const toWalrusReferenceDetails = (
+  id: string,
+  returnValues: Uint8Array[]
+): IWalrusReference => {
+  const [dataType, referenceId, metadata, timestamp, creator] = returnValues
+
+  return {
+    id,
+    dataType: bcs.u8().parse(dataType),
+    referenceId: bcs.string().parse(referenceId),
+    metadata: bcs.string().parse(metadata),
+    timestamp: Number(bcs.u64().parse(timestamp)),
+    creator: bcs.Address.parse(creator),
+  }
+}
+
+/**
+ * Encode a payload for upload.
+ *
+ * @param payload Bytes are stored as they are, anything else as JSON.
+ * @returns
+ */
+export const encodeWalrusPayload = (
+  payload: TWalrusPayload
+): { data: Uint8Array; contentType: string } =>
+  payload instanceof Uint8Array
+    ? { data: payload, contentType: BINARY_CONTENT_TYPE }
+    : {
+        data: new TextEncoder().encode(JSON.stringify(payload)),
+        contentType: JSON_CONTENT_TYPE,
+      }
+
+/**
+ * The metadata of a reference.
+ *
+ * @param reference
+ * @returns An empty object if the metadata is not a JSON object.
+ */
+export const walrusMetadata = (
+  reference: IWalrusReference
+): Record<string, unknown> => {
+  try {
+    const metadata = JSON.parse(reference.metadata)
+    return typeof metadata === 'object' && metadata != null ? metadata : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Decode a downloaded payload by the content type in its metadata.
+ *
+ * @param data
+ * @param reference
+ * @returns The JSON value, or the bytes if the payload is not JSON.
+ */
+export const decodeWalrusPayload = (
+  data: Uint8Array,
+  reference: IWalrusReference
+): TWalrusPayload =>
+  walrusMetadata(reference)[CONTENT_TYPE_KEY] === JSON_CONTENT_TYPE
+    ? JSON.parse(new TextDecoder().decode(data))
+    : data
+
+/**
+ * Upload a payload and prepare the store_data transaction that references it.
+ *
+ * @param store
+ * @param packageId The ID of the insurance package.
+ * @param walrusRegistryId
+ * @param dataType
+ * @param payload
+ * @param entityId The policy, claim, etc. the payload is about, if any.
+ * @param metadata Saved along with the content type of the payload.
+ * @returns The blob ID and the transaction to sign.
+ */
+export const uploadWalrusData = async (
+  store: IBlobStore,
+  packageId: string,
+  walrusRegistryId: string,
+  dataType: EWalrusDataType,
+  payload: TWalrusPayload,
+  entityId: string | null = null,
+  metadata: Record<string, unknown> = {}
+): Promise<{ blobId: string; tx: Transaction }> => {
+  const { data, contentType } = encodeWalrusPayload(payload)
+  const blobId = await store.upload(data, contentType)
+
+  return {
+    blobId,
+    tx: prepareStoreWalrusDataTransaction(
+      packageId,
+      walrusRegistryId,
+      dataType,
+      blobId,
+      JSON.stringify({ ...metadata, [CONTENT_TYPE_KEY]: contentType }),
+      entityId
+    ),
+  }
+}
+
+/**
+ * The IDs of the references to an entity or of a type.
+ *
+ * @param suiClient
+ * @param packageId The ID of the insurance package.
+ * @param walrusRegistryId
+ * @param query
+ * @returns Oldest first.
+ */
+export const fetchWalrusReferenceIds = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  walrusRegistryId: string,
+  query: TWalrusReferenceQuery
+): Promise<string[]> => {
+  const [[bytes] = []] = await devInspectReturnValues(
+    suiClient,
+    'entityId' in query
+      ? prepareWalrusReferencesByEntityTransaction(
+          packageId,
+          walrusRegistryId,
+          query.entityId
+        )
+      : prepareWalrusReferencesByTypeTransaction(
+          packageId,
+          walrusRegistryId,
+          query.dataType
+        )
+  )
+  if (bytes == null) {
+    throw new Error('The Walrus references could not be read')
+  }
+
+  return bcs.vector(bcs.Address).parse(bytes)
+}
+
+/**
+ * The references to an entity or of a type.
+ *
+ * @param suiClient
+ * @param packageId The ID of the insurance package.
+ * @param walrusRegistryId
+ * @param query
+ * @returns Oldest first.
+ */
+export const fetchWalrusReferences = async (
+  suiClient: DappKitSuiClient,
+  packageId: string,
+  walrusRegistryId: string,
+  query: TWalrusReferenceQuery
+): Promise<IWalrusReference[]> => {
+  const ids = await fetchWalrusReferenceIds(
+    suiClient,
+    packageId,
+    walrusRegistryId,
+    query
+  )
+  const references: IWalrusReference[] = []
+
+  // Keep each inspected transaction well below the command limit.
+  for (let i = 0; i < ids.length; i += 50) {
+    const chunk = ids.slice(i, i + 50)
+    const results = await devInspectReturnValues(
+      suiClient,
+      prepareWalrusReferenceDetailsTransaction(
+        packageId,
+        walrusRegistryId,
+        chunk
+      )
+    )
+
+    if (results.length !== chunk.length) {
+      throw new Error(
+        `The details of ${chunk.length} Walrus references could not be read`
+      )
+    }
+
+    chunk.forEach((id, j) =>
+      references.push(toWalrusReferenceDetails(id, results[j]))
+    )
+  }
+
+  return references
+}
+
+/**
+ * Download and decode the payload of a reference.
+ *
+ * @param store
+ * @param reference
+ * @returns
+ */
+export const downloadWalrusData = async (
+  store: IBlobStore,
+  reference: IWalrusReference
+): Promise<TWalrusPayload> =>
+  decodeWalrusPayload(await store.download(reference.referenceId), reference)
@@ -0,0 +1,33 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import { fetchAttestations } from '~~/dapp/helpers/attestations'
+import { IAttestation } from '~~/dapp/types/IAttestation'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Attestations of a profile's entries, including revoked ones. Check them
+ * with verifyAttestation.
+ *
+ * @param profileId
+ */
+const useAttestations = (profileId?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(ISSUER_REGISTRY_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['attestations', packageId, profileId],
+    enabled: profileId != null && isDeployed(registryId),
+    queryFn: async (): Promise<IAttestation[]> => {
+      return await fetchAttestations(suiClient, packageId, profileId!)
+    },
+  })
+}
+
+export default useAttestations
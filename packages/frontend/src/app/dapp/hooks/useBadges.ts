@@ -0,0 +1,27 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchBadges } from '~~/dapp/helpers/badges'
+import { IBadge } from '~~/dapp/types/IBadge'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Badges a wallet holds, oldest first.
+ *
+ * @param owner
+ */
+const useBadges = (owner?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['badges', packageId, owner],
+    enabled: owner != null,
+    queryFn: async (): Promise<IBadge[]> => {
+      return await fetchBadges(suiClient, packageId, owner!)
+    },
+  })
+}
+
+export default useBadges
@@ -0,0 +1,24 @@
+import { useMemo } from 'react'
+import {
+  WALRUS_AGGREGATOR_URL_VARIABLE_NAME,
+  WALRUS_PUBLISHER_URL_VARIABLE_NAME,
+} from '~~/config/network'
+import { createWalrusBlobStore } from '~~/dapp/helpers/blobStore'
+import { IBlobStore } from '~~/dapp/types/IBlobStore'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The Walrus blob store of the current network.
+ */
+const useBlobStore = (): IBlobStore => {
+  const { useNetworkVariable } = useNetworkConfig()
+  const publisherUrl = useNetworkVariable(WALRUS_PUBLISHER_URL_VARIABLE_NAME)
+  const aggregatorUrl = useNetworkVariable(WALRUS_AGGREGATOR_URL_VARIABLE_NAME)
+
+  return useMemo(
+    () => createWalrusBlobStore(publisherUrl, aggregatorUrl),
+    [publisherUrl, aggregatorUrl]
+  )
+}
+
+export default useBlobStore
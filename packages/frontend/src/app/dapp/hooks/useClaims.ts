@@ -0,0 +1,27 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { INSURANCE_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchClaims } from '~~/dapp/helpers/claims'
+import { IClaim } from '~~/dapp/types/IClaim'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The Claim objects of the connected wallet, newest first.
+ */
+const useClaims = () => {
+  const currentAccount = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const owner = currentAccount?.address
+
+  return useQuery({
+    queryKey: ['claims', packageId, owner],
+    enabled: owner != null,
+    queryFn: async (): Promise<IClaim[]> => {
+      return await fetchClaims(suiClient, packageId, owner!)
+    },
+  })
+}
+
+export default useClaims
@@ -0,0 +1,30 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import {
+  fetchConnectionGraph,
+  TConnectionGraph,
+} from '~~/dapp/helpers/connections'
+import { IProfile } from '~~/dapp/types/IProfile'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * First- and second-degree connections of a profile, resolved to profiles.
+ *
+ * @param profile
+ */
+const useConnectionGraph = (profile?: IProfile | null) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['connectionGraph', packageId, profile?.id, profile?.connections],
+    enabled: profile != null,
+    queryFn: async (): Promise<TConnectionGraph> => {
+      return await fetchConnectionGraph(suiClient, packageId, profile!)
+    },
+  })
+}
+
+export default useConnectionGraph
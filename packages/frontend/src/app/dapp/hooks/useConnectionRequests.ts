@@ -0,0 +1,27 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchConnectionRequests } from '~~/dapp/helpers/profiles'
+import { IConnectionRequest } from '~~/dapp/types/IConnectionRequest'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Connection requests sent to a profile which its owner has not answered.
+ *
+ * @param profileId
+ */
+const useConnectionRequests = (profileId?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['connectionRequests', packageId, profileId],
+    enabled: profileId != null,
+    queryFn: async (): Promise<IConnectionRequest[]> => {
+      return await fetchConnectionRequests(suiClient, packageId, profileId!)
+    },
+  })
+}
+
+export default useConnectionRequests
@@ -0,0 +1,54 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import {
+  suggestConnections,
+  TConnectionSuggestion,
+} from '~~/dapp/helpers/connections'
+import {
+  fetchRecentProfiles,
+  fetchSentConnectionRequests,
+} from '~~/dapp/helpers/profiles'
+import { IProfile } from '~~/dapp/types/IProfile'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+import useConnectionGraph from './useConnectionGraph'
+
+/**
+ * "People you may know" for a profile, picked from its second-degree
+ * connections and recently created profiles. Profiles it already sent a
+ * request to are left out.
+ *
+ * @param viewer
+ */
+const useConnectionSuggestions = (viewer?: IProfile | null) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const graph = useConnectionGraph(viewer)
+
+  return useQuery({
+    // The graph is built from the connections, so they version it.
+    queryKey: [
+      'connectionSuggestions',
+      packageId,
+      viewer?.id,
+      viewer?.connections,
+    ],
+    enabled: viewer != null && graph.data != null,
+    queryFn: async (): Promise<TConnectionSuggestion[]> => {
+      const [recent, sent] = await Promise.all([
+        fetchRecentProfiles(suiClient, packageId),
+        fetchSentConnectionRequests(suiClient, packageId, viewer!.owner),
+      ])
+
+      return suggestConnections(
+        viewer!,
+        [...graph.data!.second.map(({ profile }) => profile), ...recent],
+        5,
+        sent.map((r) => r.toProfileId)
+      )
+    },
+  })
+}
+
+export default useConnectionSuggestions
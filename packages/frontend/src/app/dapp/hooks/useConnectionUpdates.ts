@@ -0,0 +1,28 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchConnectionUpdates } from '~~/dapp/helpers/profiles'
+import { IConnectionUpdate } from '~~/dapp/types/IConnectionUpdate'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Connections accepted or removed by peers which the owner of a profile has
+ * not applied yet.
+ *
+ * @param profileId
+ */
+const useConnectionUpdates = (profileId?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['connectionUpdates', packageId, profileId],
+    enabled: profileId != null,
+    queryFn: async (): Promise<IConnectionUpdate[]> => {
+      return await fetchConnectionUpdates(suiClient, packageId, profileId!)
+    },
+  })
+}
+
+export default useConnectionUpdates
@@ -0,0 +1,56 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  eligibleBadges,
+  fetchBadgeFacts,
+  TBadgeRule,
+} from '~~/dapp/helpers/badges'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Badges a wallet has earned but does not hold yet.
+ *
+ * @param address
+ * @param held Kinds of the badges the wallet holds.
+ * @param enabled Whether to check, e.g. only for minters.
+ */
+const useEligibleBadges = (
+  address: string | undefined,
+  held: string[] | undefined,
+  enabled: boolean = true
+) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const insurancePackageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const registryId = useNetworkVariable(ISSUER_REGISTRY_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['eligibleBadges', packageId, address, held],
+    enabled: enabled && address != null && held != null,
+    queryFn: async (): Promise<TBadgeRule[]> => {
+      const nowMs = Date.now()
+      const facts = await fetchBadgeFacts(
+        suiClient,
+        packageId,
+        isDeployed(insurancePackageId) ? insurancePackageId : null,
+        isDeployed(policyRegistryId) ? policyRegistryId : null,
+        isDeployed(registryId) ? registryId : null,
+        address!,
+        nowMs
+      )
+
+      return facts == null ? [] : eligibleBadges(facts, nowMs, held!)
+    },
+  })
+}
+
+export default useEligibleBadges
@@ -0,0 +1,82 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  LIQUIDITY_POOL_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  fetchFundingRateHistory,
+  fetchFundingRateObject,
+} from '~~/dapp/helpers/fundingRate'
+import { toLiquidityPool } from '~~/dapp/helpers/liquidityPool'
+import { decodeMoveObject } from '~~/dapp/helpers/moveTypes'
+import { IFundingRate } from '~~/dapp/types/IFundingRate'
+import { IFundingRateUpdate } from '~~/dapp/types/IFundingRateUpdate'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface IFundingRateState {
+  totalInsuredValue: bigint
+  totalLiquidity: bigint
+  /** The FundingRate created by the latest update, if there was one. */
+  live: IFundingRate | null
+  history: IFundingRateUpdate[]
+  currentEpoch: number
+}
+
+/**
+ * The inputs of funding_rate::update_funding_rate, the FundingRate it created
+ * last and the history of its updates. Disabled until a LiquidityPool is
+ * deployed.
+ */
+const useFundingRate = () => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const liquidityPoolId = useNetworkVariable(LIQUIDITY_POOL_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['fundingRate', packageId, policyRegistryId, liquidityPoolId],
+    enabled: isDeployed(liquidityPoolId),
+    queryFn: async (): Promise<IFundingRateState> => {
+      const [registry, poolResponse, history, systemState] = await Promise.all([
+        suiClient.getObject({
+          id: policyRegistryId,
+          options: { showBcs: true },
+        }),
+        suiClient.getObject({
+          id: liquidityPoolId,
+          options: { showBcs: true },
+        }),
+        fetchFundingRateHistory(suiClient, packageId),
+        suiClient.getLatestSuiSystemState(),
+      ])
+
+      const { total_coverage } = decodeMoveObject(
+        registry,
+        packageId,
+        'PolicyRegistry'
+      )
+      const pool = toLiquidityPool(poolResponse, packageId)
+      if (pool == null) {
+        throw new Error(`LiquidityPool ${liquidityPoolId} was not found`)
+      }
+
+      return {
+        // policy_manager_enhanced::get_total_insured_value
+        totalInsuredValue: BigInt(total_coverage),
+        totalLiquidity: pool.totalLiquidity,
+        live:
+          history.length === 0
+            ? null
+            : await fetchFundingRateObject(suiClient, packageId, history[0]),
+        history,
+        currentEpoch: Number(systemState.epoch),
+      }
+    },
+  })
+}
+
+export default useFundingRate
@@ -0,0 +1,30 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import { fetchIssuers } from '~~/dapp/helpers/attestations'
+import { IIssuer } from '~~/dapp/types/IIssuer'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The issuers of the IssuerRegistry, if it is configured for the network.
+ */
+const useIssuers = () => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(ISSUER_REGISTRY_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['issuers', packageId, registryId],
+    enabled: isDeployed(registryId),
+    queryFn: async (): Promise<IIssuer[]> => {
+      return await fetchIssuers(suiClient, packageId, registryId)
+    },
+  })
+}
+
+export default useIssuers
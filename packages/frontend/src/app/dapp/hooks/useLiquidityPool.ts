@@ -0,0 +1,51 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  LIQUIDITY_POOL_VARIABLE_NAME,
+} from '~~/config/network'
+import { fetchLPTokens, toLiquidityPool } from '~~/dapp/helpers/liquidityPool'
+import { ILiquidityPool } from '~~/dapp/types/ILiquidityPool'
+import { ILPToken } from '~~/dapp/types/ILPToken'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The liquidity pool and the LP tokens of the connected wallet, if any.
+ * Disabled until a LiquidityPool is deployed.
+ */
+const useLiquidityPool = () => {
+  const currentAccount = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const liquidityPoolId = useNetworkVariable(LIQUIDITY_POOL_VARIABLE_NAME)
+  const owner = currentAccount?.address
+
+  return useQuery({
+    queryKey: ['liquidityPool', packageId, liquidityPoolId, owner],
+    enabled: isDeployed(liquidityPoolId),
+    queryFn: async (): Promise<{
+      pool: ILiquidityPool
+      tokens: ILPToken[]
+    }> => {
+      const pool = toLiquidityPool(
+        await suiClient.getObject({
+          id: liquidityPoolId,
+          options: { showBcs: true },
+        }),
+        packageId
+      )
+      if (pool == null) {
+        throw new Error(`LiquidityPool ${liquidityPoolId} was not found`)
+      }
+
+      const tokens =
+        owner == null ? [] : await fetchLPTokens(suiClient, packageId, owner)
+
+      return { pool, tokens }
+    },
+  })
+}
+
+export default useLiquidityPool
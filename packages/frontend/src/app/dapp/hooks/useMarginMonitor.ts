@@ -0,0 +1,75 @@
+import {
+  useCurrentAccount,
+  useSuiClient,
+  useSuiClientContext,
+} from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import { POLICY_MODULE_NAME } from '~~/dapp/config/network'
+import {
+  assessMargin,
+  fetchRecentDrains,
+  IMarginAssessment,
+} from '~~/dapp/helpers/marginMonitor'
+import { fetchIndexedPolicyIds, fetchPolicies } from '~~/dapp/helpers/policies'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import { fullStructName, isPackageDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+import { EMovePackage } from '~~/types/EMovePackage'
+import { ENetwork } from '~~/types/ENetwork'
+
+const POLL_INTERVAL_MS = 60_000
+
+/**
+ * Poll the connected wallet's active policies and assess how close each one
+ * is to its margin requirement. Only polls where the insurance package is
+ * deployed.
+ */
+const useMarginMonitor = () => {
+  const currentAccount = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { network } = useSuiClientContext()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const owner = currentAccount?.address
+
+  return useQuery({
+    queryKey: ['marginMonitor', packageId, policyRegistryId, owner],
+    enabled:
+      owner != null &&
+      isPackageDeployed(network as ENetwork, EMovePackage.INSURANCE),
+    refetchInterval: POLL_INTERVAL_MS,
+    queryFn: async (): Promise<(IMarginAssessment & { policy: IPolicy })[]> => {
+      const policyIds = await fetchIndexedPolicyIds(
+        suiClient,
+        packageId,
+        policyRegistryId,
+        'owner',
+        owner!
+      )
+      const policies = (
+        await fetchPolicies(suiClient, packageId, policyIds)
+      ).filter((policy) => policy.active)
+      const drains = await fetchRecentDrains(
+        suiClient,
+        fullStructName(packageId, 'CollateralRemoved', POLICY_MODULE_NAME),
+        policies.map((policy) => policy.id)
+      )
+
+      return policies.map((policy) => ({
+        policy,
+        ...assessMargin(
+          policy.collateralBalance,
+          policy.marginRequirement,
+          drains[policy.id]
+        ),
+      }))
+    },
+  })
+}
+
+export default useMarginMonitor
@@ -0,0 +1,56 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { bcs } from '@mysten/sui/bcs'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  RISK_PARAMETERS_VARIABLE_NAME,
+} from '~~/config/network'
+import { prepareMarginRequirementTransaction } from '~~/dapp/helpers/transactions'
+import { devInspectReturnValues } from '~~/helpers/inspect'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Preview the collateral create_policy will require, by running
+ * calculate_margin_requirement against the on-chain risk parameters.
+ */
+const useMarginRequirement = (
+  location: string,
+  perilType: string,
+  coverageAmount: bigint | null
+) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const riskParametersId = useNetworkVariable(RISK_PARAMETERS_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: [
+      'marginRequirement',
+      packageId,
+      riskParametersId,
+      location,
+      perilType,
+      coverageAmount?.toString(),
+    ],
+    enabled: location !== '' && perilType !== '' && coverageAmount != null,
+    queryFn: async (): Promise<bigint> => {
+      const [[bytes] = []] = await devInspectReturnValues(
+        suiClient,
+        prepareMarginRequirementTransaction(
+          packageId,
+          riskParametersId,
+          location,
+          perilType,
+          coverageAmount!
+        )
+      )
+      if (bytes == null) {
+        throw new Error('The margin requirement could not be calculated')
+      }
+
+      return BigInt(bcs.u64().parse(bytes))
+    },
+  })
+}
+
+export default useMarginRequirement
@@ -0,0 +1,34 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { INSURANCE_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchMatchingReadings } from '~~/dapp/helpers/claims'
+import { IAggregatedReading } from '~~/dapp/types/IAggregatedReading'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Recent oracle readings for a location and peril, i.e. the ones
+ * process_claim_with_aggregated_data accepts for a policy.
+ *
+ * @param location
+ * @param perilType
+ */
+const useMatchingReadings = (location?: string, perilType?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['matchingReadings', packageId, location, perilType],
+    enabled: location != null && perilType != null,
+    queryFn: async (): Promise<IAggregatedReading[]> => {
+      return await fetchMatchingReadings(
+        suiClient,
+        packageId,
+        location!,
+        perilType!
+      )
+    },
+  })
+}
+
+export default useMatchingReadings
@@ -0,0 +1,34 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { BADGE_MODULE_NAME } from '~~/dapp/config/network'
+import { fullStructName } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The ID of the badge MinterCap the connected wallet holds, null if none.
+ */
+const useMinterCap = () => {
+  const currentAccount = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['minterCap', packageId, currentAccount?.address],
+    enabled: currentAccount != null,
+    queryFn: async (): Promise<string | null> => {
+      const { data } = await suiClient.getOwnedObjects({
+        owner: currentAccount!.address,
+        filter: {
+          StructType: fullStructName(packageId, 'MinterCap', BADGE_MODULE_NAME),
+        },
+        limit: 1,
+      })
+
+      return data[0]?.data?.objectId ?? null
+    },
+  })
+}
+
+export default useMinterCap
@@ -15,7 +15,7 @@ const useOwnGreeting = () => {
       StructType: fullStructName(packageId, 'Greeting'),
     },
     options: {
-      showContent: true,
+      showBcs: true,
       showDisplay: true,
     },
   })
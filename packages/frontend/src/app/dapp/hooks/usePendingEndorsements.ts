@@ -0,0 +1,27 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchPendingEndorsements } from '~~/dapp/helpers/profiles'
+import { IEndorsement } from '~~/dapp/types/IEndorsement'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Endorsements sent to a profile which its owner has not accepted yet.
+ *
+ * @param profileId
+ */
+const usePendingEndorsements = (profileId?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['pendingEndorsements', packageId, profileId],
+    enabled: profileId != null,
+    queryFn: async (): Promise<IEndorsement[]> => {
+      return await fetchPendingEndorsements(suiClient, packageId, profileId!)
+    },
+  })
+}
+
+export default usePendingEndorsements
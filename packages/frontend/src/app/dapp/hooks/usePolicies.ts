@@ -0,0 +1,48 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  fetchIndexedPolicyIds,
+  fetchPolicies,
+  TRegistryIndex,
+} from '~~/dapp/helpers/policies'
+import { IPolicy } from '~~/dapp/types/IPolicy'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Policies listed in a PolicyRegistry index, newest first. Defaults to the
+ * policies of the connected wallet.
+ *
+ * @param index
+ * @param key
+ */
+const usePolicies = (index: TRegistryIndex = 'owner', key?: string) => {
+  const currentAccount = useCurrentAccount()
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const policyRegistryId = useNetworkVariable(POLICY_REGISTRY_VARIABLE_NAME)
+  const lookupKey = key ?? (index === 'owner' ? currentAccount?.address : null)
+
+  return useQuery({
+    queryKey: ['policies', packageId, policyRegistryId, index, lookupKey],
+    enabled: lookupKey != null,
+    queryFn: async (): Promise<IPolicy[]> => {
+      const policyIds = await fetchIndexedPolicyIds(
+        suiClient,
+        packageId,
+        policyRegistryId,
+        index,
+        lookupKey!
+      )
+      const policies = await fetchPolicies(suiClient, packageId, policyIds)
+
+      return policies.reverse()
+    },
+  })
+}
+
+export default usePolicies
@@ -0,0 +1,27 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { fetchProfile } from '~~/dapp/helpers/profiles'
+import { IProfile } from '~~/dapp/types/IProfile'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Any user's Profile, by its object ID or the address of its owner.
+ *
+ * @param addressOrId
+ */
+const useProfile = (addressOrId?: string | null) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['profile', packageId, addressOrId],
+    enabled: addressOrId != null && addressOrId !== '',
+    queryFn: async (): Promise<IProfile | null> => {
+      return await fetchProfile(suiClient, packageId, addressOrId!)
+    },
+  })
+}
+
+export default useProfile
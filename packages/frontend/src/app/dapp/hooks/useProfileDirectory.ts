@@ -0,0 +1,43 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import { useMemo } from 'react'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import {
+  buildProfileIndex,
+  fetchDirectory,
+  loadDirectorySnapshot,
+  saveDirectorySnapshot,
+  TDirectoryEntry,
+} from '~~/dapp/helpers/profileSearch'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Every profile, indexed for search. Starts from the copy last fetched in
+ * this browser, so that the directory also works offline.
+ */
+const useProfileDirectory = () => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const snapshot = useMemo(() => loadDirectorySnapshot(packageId), [packageId])
+
+  const directory = useQuery({
+    queryKey: ['profileDirectory', packageId],
+    initialData: snapshot?.entries,
+    initialDataUpdatedAt: snapshot?.savedAtMs,
+    queryFn: async (): Promise<TDirectoryEntry[]> => {
+      const entries = await fetchDirectory(suiClient, packageId)
+      saveDirectorySnapshot(packageId, entries, Date.now())
+      return entries
+    },
+  })
+
+  const index = useMemo(
+    () => (directory.data == null ? null : buildProfileIndex(directory.data)),
+    [directory.data]
+  )
+
+  return { ...directory, index }
+}
+
+export default useProfileDirectory
@@ -0,0 +1,37 @@
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import useTransact from '@suiware/kit/useTransact'
+import { useState } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * useTransact with the usual notifications.
+ *
+ * @param onSuccess
+ */
+const useProfileTransact = (onSuccess: () => void) => {
+  const { useNetworkVariable } = useNetworkConfig()
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const [notificationId, setNotificationId] = useState<string>()
+
+  return useTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      onSuccess()
+    },
+    onError: (e: Error) => {
+      notification.txError(e, null, notificationId)
+    },
+  })
+}
+
+export default useProfileTransact
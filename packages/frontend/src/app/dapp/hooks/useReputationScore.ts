@@ -0,0 +1,45 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  computeReputation,
+  fetchReputationInputs,
+  TReputationScore,
+} from '~~/dapp/helpers/reputation'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The reputation score of a wallet, null if it has no profile.
+ *
+ * @param address
+ */
+const useReputationScore = (address?: string) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const insurancePackageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(ISSUER_REGISTRY_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['reputationScore', packageId, address],
+    enabled: address != null,
+    queryFn: async (): Promise<TReputationScore | null> => {
+      const inputs = await fetchReputationInputs(
+        suiClient,
+        packageId,
+        isDeployed(insurancePackageId) ? insurancePackageId : null,
+        isDeployed(registryId) ? registryId : null,
+        address!
+      )
+
+      return inputs == null ? null : computeReputation(inputs, Date.now())
+    },
+  })
+}
+
+export default useReputationScore
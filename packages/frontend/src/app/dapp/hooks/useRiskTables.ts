@@ -0,0 +1,42 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  RISK_MODEL_VARIABLE_NAME,
+  RISK_PARAMETERS_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  fetchRiskModelFactors,
+  fetchRiskParameters,
+} from '~~/dapp/helpers/riskTables'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The live RiskModel factors and RiskParameters, for pricing quotes locally.
+ * They change rarely, so they are cached for a few minutes. Disabled until a
+ * RiskModel is deployed.
+ */
+const useRiskTables = () => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const riskModelId = useNetworkVariable(RISK_MODEL_VARIABLE_NAME)
+  const riskParametersId = useNetworkVariable(RISK_PARAMETERS_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['riskTables', packageId, riskModelId, riskParametersId],
+    staleTime: 5 * 60 * 1000,
+    enabled: isDeployed(riskModelId),
+    queryFn: async () => {
+      const [model, parameters] = await Promise.all([
+        fetchRiskModelFactors(suiClient, packageId, riskModelId),
+        fetchRiskParameters(suiClient, packageId, riskParametersId),
+      ])
+
+      return { model, parameters }
+    },
+  })
+}
+
+export default useRiskTables
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  WALRUS_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import { TWalrusPayload, uploadWalrusData } from '~~/dapp/helpers/walrus'
+import useBlobStore from '~~/dapp/hooks/useBlobStore'
+import useProfileTransact from '~~/dapp/hooks/useProfileTransact'
+import { EWalrusDataType } from '~~/dapp/types/EWalrusDataType'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * Upload a payload to Walrus, then sign the store_data transaction that
+ * records it in the WalrusRegistry.
+ *
+ * @param onSuccess
+ */
+const useStoreWalrusData = (onSuccess: () => void) => {
+  const store = useBlobStore()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(WALRUS_REGISTRY_VARIABLE_NAME)
+  const { transact } = useProfileTransact(onSuccess)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const storeData = async (
+    dataType: EWalrusDataType,
+    payload: TWalrusPayload,
+    entityId: string | null = null,
+    metadata: Record<string, unknown> = {}
+  ) => {
+    setIsUploading(true)
+    try {
+      const { tx } = await uploadWalrusData(
+        store,
+        packageId,
+        registryId,
+        dataType,
+        payload,
+        entityId,
+        metadata
+      )
+      transact(tx)
+    } catch (e) {
+      notification.error(e as Error, 'Failed to upload to Walrus')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return { storeData, isUploading }
+}
+
+export default useStoreWalrusData
@@ -0,0 +1,40 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { useQuery } from '@tanstack/react-query'
+import {
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  WALRUS_REGISTRY_VARIABLE_NAME,
+} from '~~/config/network'
+import {
+  fetchWalrusReferences,
+  TWalrusReferenceQuery,
+} from '~~/dapp/helpers/walrus'
+import { IWalrusReference } from '~~/dapp/types/IWalrusReference'
+import { isDeployed } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+/**
+ * The Walrus references to an entity or of a type, oldest first.
+ *
+ * @param query
+ */
+const useWalrusReferences = (query?: TWalrusReferenceQuery) => {
+  const suiClient = useSuiClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(INSURANCE_PACKAGE_VARIABLE_NAME)
+  const registryId = useNetworkVariable(WALRUS_REGISTRY_VARIABLE_NAME)
+
+  return useQuery({
+    queryKey: ['walrusReferences', packageId, query],
+    enabled: query != null && isDeployed(registryId),
+    queryFn: async (): Promise<IWalrusReference[]> => {
+      return await fetchWalrusReferences(
+        suiClient,
+        packageId,
+        registryId,
+        query!
+      )
+    },
+  })
+}
+
+export default useWalrusReferences
@@ -0,0 +1,5 @@
+// Matches the Entry* constants of attestation.
+export enum EAttestedEntry {
+  EXPERIENCE = 0,
+  EDUCATION = 1,
+}
@@ -0,0 +1,6 @@
+// Matches `status` in claim_processor_updated::Claim.
+export enum EClaimStatus {
+  PENDING = 0,
+  APPROVED = 1,
+  REJECTED = 2,
+}
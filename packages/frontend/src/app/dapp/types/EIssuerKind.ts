@@ -0,0 +1,6 @@
+// Matches the Issuer* constants of attestation.
+export enum EIssuerKind {
+  EMPLOYER = 0,
+  UNIVERSITY = 1,
+  AUTHORITY = 2,
+}
@@ -0,0 +1,6 @@
+// Matches `trigger_operator` in policy_manager_enhanced::Policy.
+export enum ETriggerOperator {
+  LESS_THAN = 0,
+  GREATER_THAN = 1,
+  EQUAL_TO = 2,
+}
@@ -0,0 +1,8 @@
+// Matches the DATA_TYPE_* constants of walrus_integration.
+export enum EWalrusDataType {
+  POLICY = 0,
+  CLAIM = 1,
+  ORACLE_READING = 2,
+  RISK_MODEL = 3,
+  AUDIT_LOG = 4,
+}
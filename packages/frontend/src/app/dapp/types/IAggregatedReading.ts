@@ -0,0 +1,11 @@
+// A switchboard_oracle_integration::AggregatedData. The value is a raw
+// integer with decimalPlaces decimals.
+export interface IAggregatedReading {
+  id: string
+  location: string
+  dataType: string
+  value: bigint
+  decimalPlaces: number
+  timestamp: number
+  sourcesCount: bigint
+}
@@ -0,0 +1,16 @@
+import { EAttestedEntry } from './EAttestedEntry'
+
+// An attestation::Attestation.
+export interface IAttestation {
+  id: string
+  issuer: string
+  profileId: string
+  /** The owner of the profile when the entry was attested. */
+  subject: string
+  entryKind: EAttestedEntry
+  entryIndex: number
+  /** BCS bytes of the entry as attested. */
+  entry: Uint8Array
+  issuedAt: number
+  revoked: boolean
+}
@@ -0,0 +1,11 @@
+// A badge::Badge. It cannot be transferred once awarded.
+export interface IBadge {
+  id: string
+  /** The kind of the badge rule it was awarded under. */
+  kind: string
+  name: string
+  description: string
+  imageUrl: string
+  recipient: string
+  awardedAt: number
+}
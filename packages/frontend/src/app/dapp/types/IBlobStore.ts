@@ -0,0 +1,11 @@
+/**
+ * Where blobs are stored and served from, Walrus in the app and memory in
+ * tests.
+ */
+export interface IBlobStore {
+  /** Store a blob and return its ID. */
+  upload: (data: Uint8Array, contentType: string) => Promise<string>
+  download: (blobId: string) => Promise<Uint8Array>
+  /** The URL the blob is served at, e.g. for an img src. */
+  url: (blobId: string) => string
+}
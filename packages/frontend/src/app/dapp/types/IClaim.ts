@@ -0,0 +1,16 @@
+import { EClaimStatus } from './EClaimStatus'
+
+// A claim_processor_updated::Claim. The trigger and actual values are raw
+// oracle integers, with decimalPlaces decimals.
+export interface IClaim {
+  id: string
+  policyId: string
+  owner: string
+  triggerValue: bigint
+  actualValue: bigint
+  decimalPlaces: number
+  payoutAmount: bigint
+  processedAt: number
+  status: EClaimStatus
+  oracleSources: bigint
+}
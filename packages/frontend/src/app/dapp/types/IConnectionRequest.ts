@@ -0,0 +1,8 @@
+// A profile::ConnectionRequest the owner of the requested profile has not
+// accepted or rejected yet.
+export interface IConnectionRequest {
+  id: string
+  fromProfileId: string
+  from: string
+  toProfileId: string
+}
@@ -0,0 +1,8 @@
+// A profile::ConnectionUpdate the owner of the profile has not applied yet.
+export interface IConnectionUpdate {
+  id: string
+  profileId: string
+  peer: string
+  /** Whether the peer accepted the connection, rather than removed it. */
+  connected: boolean
+}
@@ -0,0 +1,8 @@
+// A profile::Education. Dates are free-form strings.
+export interface IEducation {
+  institution: string
+  degree: string
+  field: string
+  startDate: string
+  endDate: string
+}
@@ -0,0 +1,7 @@
+// A profile::Endorsement the owner of the profile has not accepted yet.
+export interface IEndorsement {
+  id: string
+  profileId: string
+  skillName: string
+  endorser: string
+}
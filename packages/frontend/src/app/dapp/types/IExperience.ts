@@ -0,0 +1,8 @@
+// A profile::Experience. Dates are free-form strings.
+export interface IExperience {
+  company: string
+  title: string
+  startDate: string
+  endDate: string
+  description: string
+}
@@ -0,0 +1,10 @@
+// A funding_rate::FundingRate. Epochs are numbers.
+export interface IFundingRate {
+  id: string
+  /** Basis points of the coverage per funding payment. */
+  rate: bigint
+  /** true when policyholders pay LPs, false when LPs pay policyholders. */
+  direction: boolean
+  calculatedAt: number
+  validUntil: number
+}
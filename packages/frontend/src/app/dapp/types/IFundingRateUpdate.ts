@@ -0,0 +1,9 @@
+// A funding_rate::FundingRateUpdated event.
+export interface IFundingRateUpdate {
+  rate: bigint
+  direction: boolean
+  calculatedAt: number
+  timestampMs: number | null
+  /** The transaction which created the FundingRate object. */
+  txDigest: string
+}
@@ -1,4 +1,7 @@
+// A greeting::Greeting.
 export interface IGreeting {
-  owner: string
+  id: string
   name: string
+  /** Animal emoji index in [1, 64], see numToAnimalEmoji. */
+  emoji: number
 }
@@ -0,0 +1,10 @@
+import { EIssuerKind } from './EIssuerKind'
+
+// An attestation::Issuer of the IssuerRegistry.
+export interface IIssuer {
+  address: string
+  name: string
+  kind: EIssuerKind
+  /** False once deactivated; its attestations are no longer trusted. */
+  active: boolean
+}
@@ -0,0 +1,6 @@
+// A liquidity_pool::LPToken.
+export interface ILPToken {
+  id: string
+  owner: string
+  shares: bigint
+}
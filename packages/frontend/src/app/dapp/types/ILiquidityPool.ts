@@ -0,0 +1,6 @@
+// A liquidity_pool::LiquidityPool. Amounts are in MIST.
+export interface ILiquidityPool {
+  id: string
+  totalLiquidity: bigint
+  totalShares: bigint
+}
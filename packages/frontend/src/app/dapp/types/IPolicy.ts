@@ -0,0 +1,22 @@
+import { ETriggerOperator } from './ETriggerOperator'
+
+// A policy_manager_enhanced::Policy. Amounts are in MIST, epochs are numbers.
+export interface IPolicy {
+  id: string
+  owner: string
+  location: string
+  latitude: number
+  longitude: number
+  perilType: string
+  perilDetails: string
+  coverageAmount: bigint
+  triggerThreshold: bigint
+  triggerOperator: ETriggerOperator
+  collateralBalance: bigint
+  marginRequirement: bigint
+  fundingRatePaid: bigint
+  fundingRateReceived: bigint
+  active: boolean
+  createdAt: number
+  lastUpdated: number
+}
@@ -0,0 +1,15 @@
+import { ETriggerOperator } from './ETriggerOperator'
+
+// Coverage and collateral are in MIST, the trigger threshold in the raw units
+// of the oracle feed for the peril.
+export interface IPolicyParams {
+  location: string
+  latitude: number
+  longitude: number
+  perilType: string
+  perilDetails: string
+  coverageAmount: bigint
+  triggerThreshold: bigint
+  triggerOperator: ETriggerOperator
+  collateralAmount: bigint
+}
@@ -0,0 +1,20 @@
+import { IEducation } from './IEducation'
+import { IExperience } from './IExperience'
+import { ISkill } from './ISkill'
+
+// A profile::Profile.
+export interface IProfile {
+  id: string
+  owner: string
+  name: string
+  headline: string
+  bio: string
+  profileImageUrl: string
+  location: string
+  contactEmail: string
+  experiences: IExperience[]
+  education: IEducation[]
+  skills: ISkill[]
+  /** Addresses of the connected profiles' owners. */
+  connections: string[]
+}
@@ -0,0 +1,14 @@
+// A risk_model::RiskModel. Its factor tables are referenced by their IDs.
+export interface IRiskModel {
+  id: string
+  modelName: string
+  modelVersion: string
+  /** Basis points of the coverage. */
+  basePremiumRate: bigint
+  locationFactorsId: string
+  perilFactorsId: string
+  seasonalFactorsId: string
+  coverageFactorsId: string
+  lastUpdated: number
+  createdBy: string
+}
@@ -0,0 +1,7 @@
+// A profile::Skill.
+export interface ISkill {
+  name: string
+  endorsements: number
+  /** Addresses whose endorsements the owner accepted. */
+  endorsers: string[]
+}
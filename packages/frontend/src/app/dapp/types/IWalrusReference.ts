@@ -0,0 +1,14 @@
+import { EWalrusDataType } from './EWalrusDataType'
+
+// A walrus_integration::WalrusReference.
+export interface IWalrusReference {
+  id: string
+  dataType: EWalrusDataType
+  /** The Walrus blob ID. */
+  referenceId: string
+  /** JSON metadata. */
+  metadata: string
+  /** The epoch store_data ran in. */
+  timestamp: number
+  creator: string
+}
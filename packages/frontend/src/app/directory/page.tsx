@@ -0,0 +1,14 @@
+import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
+import ProfileDirectory from '~~/dapp/components/ProfileDirectory'
+import { EMovePackage } from '~~/types/EMovePackage'
+
+export default function Directory() {
+  return (
+    <>
+      <NetworkSupportChecker movePackage={EMovePackage.CONTRACT} />
+      <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
+        <ProfileDirectory />
+      </div>
+    </>
+  )
+}
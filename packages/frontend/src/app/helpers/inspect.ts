@@ -0,0 +1,37 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { Transaction } from '@mysten/sui/transactions'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+
+export type DappKitSuiClient = ReturnType<typeof useSuiClient>
+
+/**
+ * Run a transaction through devInspectTransactionBlock and return the BCS
+ * bytes of each command's return values.
+ *
+ * @param suiClient
+ * @param tx
+ * @param sender Defaults to 0x0, which is enough for read-only calls.
+ * @returns
+ */
+export const devInspectReturnValues = async (
+  suiClient: DappKitSuiClient,
+  tx: Transaction,
+  sender: string = normalizeSuiAddress('0x0')
+): Promise<Uint8Array[][]> => {
+  const result = await suiClient.devInspectTransactionBlock({
+    sender,
+    // dapp-kit pins its own @mysten/sui, whose Transaction class is a
+    // different (but compatible) type from ours.
+    transactionBlock: tx as unknown as Parameters<
+      DappKitSuiClient['devInspectTransactionBlock']
+    >[0]['transactionBlock'],
+  })
+
+  if (result.error) {
+    throw new Error(result.error)
+  }
+
+  return (result.results || []).map((commandResult) =>
+    (commandResult.returnValues || []).map(([bytes]) => Uint8Array.from(bytes))
+  )
+}
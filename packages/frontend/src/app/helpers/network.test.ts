@@ -0,0 +1,102 @@
+import { CONTRACT_PACKAGE_ID_NOT_DEFINED } from '~~/config/network'
+import { EMovePackage } from '~~/types/EMovePackage'
+import { ENetwork } from '~~/types/ENetwork'
+import { ESharedObject } from '~~/types/ESharedObject'
+import { IDeployment } from '~~/types/IDeployment'
+import { isPackageDeployed, supportedNetworks } from './network'
+
+const NOT_DEPLOYED: IDeployment = {
+  packages: {
+    [EMovePackage.CONTRACT]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [EMovePackage.INSURANCE]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+  },
+  objects: {
+    [ESharedObject.POLICY_REGISTRY]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.RISK_PARAMETERS]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.RISK_MODEL]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.LIQUIDITY_POOL]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.WALRUS_REGISTRY]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.ORACLE_FEED_REGISTRY]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.ISSUER_REGISTRY]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    [ESharedObject.BADGE_REGISTRY]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+  },
+}
+
+const INSURANCE_OBJECTS = {
+  [ESharedObject.POLICY_REGISTRY]: '0x11',
+  [ESharedObject.RISK_PARAMETERS]: '0x12',
+  [ESharedObject.RISK_MODEL]: '0x13',
+  [ESharedObject.LIQUIDITY_POOL]: '0x14',
+}
+
+const DEPLOYMENTS: Record<ENetwork, IDeployment> = {
+  // Everything.
+  [ENetwork.LOCALNET]: {
+    packages: {
+      [EMovePackage.CONTRACT]: '0x1',
+      [EMovePackage.INSURANCE]: '0x2',
+    },
+    objects: { ...NOT_DEPLOYED.objects, ...INSURANCE_OBJECTS },
+  },
+  // The greeting package only.
+  [ENetwork.DEVNET]: {
+    ...NOT_DEPLOYED,
+    packages: { ...NOT_DEPLOYED.packages, [EMovePackage.CONTRACT]: '0x1' },
+  },
+  // The insurance package without its risk parameters.
+  [ENetwork.TESTNET]: {
+    packages: { ...NOT_DEPLOYED.packages, [EMovePackage.INSURANCE]: '0x2' },
+    objects: {
+      ...NOT_DEPLOYED.objects,
+      ...INSURANCE_OBJECTS,
+      [ESharedObject.RISK_PARAMETERS]: CONTRACT_PACKAGE_ID_NOT_DEFINED,
+    },
+  },
+  // The insurance package as its init leaves it: no risk model or pool.
+  [ENetwork.MAINNET]: {
+    packages: { ...NOT_DEPLOYED.packages, [EMovePackage.INSURANCE]: '0x2' },
+    objects: {
+      ...NOT_DEPLOYED.objects,
+      [ESharedObject.POLICY_REGISTRY]: '0x11',
+      [ESharedObject.RISK_PARAMETERS]: '0x12',
+    },
+  },
+}
+
+describe('isPackageDeployed', () => {
+  test('requires the shared objects of the package', () => {
+    expect(
+      isPackageDeployed(ENetwork.LOCALNET, EMovePackage.INSURANCE, DEPLOYMENTS)
+    ).toBe(true)
+    expect(
+      isPackageDeployed(ENetwork.TESTNET, EMovePackage.INSURANCE, DEPLOYMENTS)
+    ).toBe(false)
+  })
+
+  test('does not require objects the init does not create', () => {
+    expect(
+      isPackageDeployed(ENetwork.MAINNET, EMovePackage.INSURANCE, DEPLOYMENTS)
+    ).toBe(true)
+  })
+})
+
+describe('supportedNetworks', () => {
+  test('includes partially deployed networks', () => {
+    expect(supportedNetworks(undefined, DEPLOYMENTS)).toEqual([
+      ENetwork.LOCALNET,
+      ENetwork.DEVNET,
+      ENetwork.MAINNET,
+    ])
+  })
+
+  test('filters by package', () => {
+    expect(supportedNetworks(EMovePackage.CONTRACT, DEPLOYMENTS)).toEqual([
+      ENetwork.LOCALNET,
+      ENetwork.DEVNET,
+    ])
+    expect(supportedNetworks(EMovePackage.INSURANCE, DEPLOYMENTS)).toEqual([
+      ENetwork.LOCALNET,
+      ENetwork.MAINNET,
+    ])
+  })
+})
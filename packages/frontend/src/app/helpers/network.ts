@@ -1,8 +1,14 @@
 import { SuiObjectResponse } from '@mysten/sui/client'
 import { isValidSuiObjectId } from '@mysten/sui/utils'
-import { CONTRACT_PACKAGE_ID_NOT_DEFINED } from '~~/config/network'
+import {
+  CONTRACT_PACKAGE_ID_NOT_DEFINED,
+  DEPLOYMENTS,
+  PACKAGE_SHARED_OBJECTS,
+} from '~~/config/network'
 import { CONTRACT_MODULE_NAME } from '~~/dapp/config/network'
+import { EMovePackage } from '~~/types/EMovePackage'
 import { ENetwork } from '~~/types/ENetwork'
+import { IDeployment } from '~~/types/IDeployment'
 
 export const transactionUrl = (baseExplorerUrl: string, txDigest: string) => {
   return `${baseExplorerUrl}/txblock/${txDigest}`
@@ -22,73 +28,72 @@ export const formatNetworkType = (machineName: string) => {
   return machineName
 }
 
-export const supportedNetworks = () => {
-  const keys = Object.keys(ENetwork)
+export const isDeployed = (id: string | null | undefined) =>
+  id != null && id !== '' && id !== CONTRACT_PACKAGE_ID_NOT_DEFINED
+
+/**
+ * Whether a package and the shared objects it needs are deployed to the
+ * network.
+ */
+export const isPackageDeployed = (
+  network: ENetwork,
+  movePackage: EMovePackage,
+  deployments: Record<ENetwork, IDeployment> = DEPLOYMENTS
+) => {
+  const { packages, objects } = deployments[network]
 
   return (
-    keys
-      .filter(
-        (key: string) =>
-          process.env[`NEXT_PUBLIC_${key.toUpperCase()}_CONTRACT_PACKAGE_ID`] !=
-            null &&
-          process.env[
-            `NEXT_PUBLIC_${key.toUpperCase()}_CONTRACT_PACKAGE_ID`
-          ] !== CONTRACT_PACKAGE_ID_NOT_DEFINED
-      )
-      // @ts-expect-error Hard to type cast string->ENetwork here.
-      .map((key: string) => ENetwork[key as ENetwork])
+    isDeployed(packages[movePackage]) &&
+    PACKAGE_SHARED_OBJECTS[movePackage].every((name) =>
+      isDeployed(objects[name])
+    )
   )
 }
 
-export const isNetworkSupported = (network: ENetwork | undefined) => {
-  return supportedNetworks().includes(network)
+/**
+ * Networks the app can be used on. Without a package, any network with at
+ * least one deployed package counts, so partially deployed networks are
+ * supported by the pages that do not need the missing packages.
+ */
+export const supportedNetworks = (
+  movePackage?: EMovePackage,
+  deployments: Record<ENetwork, IDeployment> = DEPLOYMENTS
+): ENetwork[] => {
+  const movePackages =
+    movePackage == null ? Object.values(EMovePackage) : [movePackage]
+
+  return Object.values(ENetwork).filter((network) =>
+    movePackages.some((p) => isPackageDeployed(network, p, deployments))
+  )
+}
+
+export const isNetworkSupported = (
+  network: ENetwork | undefined,
+  movePackage?: EMovePackage
+) => {
+  return network != null && supportedNetworks(movePackage).includes(network)
 }
 
 export const fullFunctionName = (
   packageId: string,
-  functionName: string
+  functionName: string,
+  moduleName: string = CONTRACT_MODULE_NAME
 ): `${string}::${string}::${string}` => {
-  return `${fullModuleName(packageId)}::${functionName}`
+  return `${fullModuleName(packageId, moduleName)}::${functionName}`
 }
 
 export const fullStructName = (
   packageId: string,
-  structName: string
+  structName: string,
+  moduleName: string = CONTRACT_MODULE_NAME
 ): `${string}::${string}::${string}` => {
-  return `${fullModuleName(packageId)}::${structName}`
+  return `${fullModuleName(packageId, moduleName)}::${structName}`
 }
 
 export const fromBytesToString = (bytes: number[]): string => {
   return new TextDecoder().decode(new Uint8Array(bytes))
 }
 
-export const getResponseContentField = (
-  response: SuiObjectResponse | null | undefined,
-  field: string
-) => {
-  if (
-    response == null ||
-    response.data == null ||
-    response.data?.content == null
-  ) {
-    return null
-  }
-
-  if (response.data.content?.dataType !== 'moveObject') {
-    return null
-  }
-
-  // @todo Find a better way to extract fields from SuiParsedData.
-  /* eslint-disable  @typescript-eslint/no-explicit-any */
-  const content = response.data.content as any
-
-  if (content.fields == null) {
-    return null
-  }
-
-  return content.fields[field]
-}
-
 export const getResponseDisplayField = (
   response: SuiObjectResponse | null | undefined,
   field: string
@@ -131,6 +136,9 @@ export const getResponseObjectId = (
   return objectId
 }
 
-const fullModuleName = (packageId: string): `${string}::${string}` => {
-  return `${packageId}::${CONTRACT_MODULE_NAME}`
+const fullModuleName = (
+  packageId: string,
+  moduleName: string
+): `${string}::${string}` => {
+  return `${packageId}::${moduleName}`
 }
@@ -1,4 +1,4 @@
-import { Link } from '@radix-ui/themes'
+import { Button, Link } from '@radix-ui/themes'
 import toast, { Renderable } from 'react-hot-toast'
 import Notification from '../components/Notification'
 
@@ -71,6 +71,33 @@ const reportTxSuccess = (transactionUrl: string, id?: string) => {
   )
 }
 
+const reportMarginCall = (
+  message: Renderable,
+  topUpLabel: string,
+  onTopUp: () => void,
+  id: string
+) => {
+  const content = (
+    <Notification type="error" id={id}>
+      <div className="flex flex-col items-start gap-2">
+        {message}
+        <Button
+          size="1"
+          onClick={() => {
+            toast.dismiss(id)
+            onTopUp()
+          }}
+        >
+          {topUpLabel}
+        </Button>
+      </div>
+    </Notification>
+  )
+
+  // Margin calls stay until acted upon or dismissed.
+  return toast.error(content, { id, duration: Infinity })
+}
+
 export const notification = {
   loading: reportLoading,
   success: reportSuccess,
@@ -78,4 +105,5 @@ export const notification = {
   txLoading: reportTxLoading,
   txSuccess: reportTxSuccess,
   txError: reportTxError,
+  marginCall: reportMarginCall,
 }
@@ -0,0 +1,41 @@
+import { DappKitSuiClient } from '~~/helpers/inspect'
+
+/**
+ * Read every entry of a sui::table::Table. Tables are stored as dynamic
+ * fields of their UID, so their entries are not part of the parent object's
+ * content.
+ *
+ * @param suiClient
+ * @param tableId The ID of the table handle in the parent object.
+ * @returns Entries keyed by the string form of the table key.
+ */
+export const fetchTableEntries = async <T>(
+  suiClient: DappKitSuiClient,
+  tableId: string
+): Promise<Record<string, T>> => {
+  const entries: Record<string, T> = {}
+  let cursor: string | null = null
+
+  do {
+    const page = await suiClient.getDynamicFields({ parentId: tableId, cursor })
+    const fields = await suiClient.multiGetObjects({
+      ids: page.data.map((field) => field.objectId),
+      options: { showContent: true },
+    })
+
+    for (const field of fields) {
+      const content = field.data?.content
+      if (content?.dataType !== 'moveObject') continue
+
+      const { name, value } = content.fields as unknown as {
+        name: string | number
+        value: T
+      }
+      entries[String(name)] = value
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null
+  } while (cursor != null)
+
+  return entries
+}
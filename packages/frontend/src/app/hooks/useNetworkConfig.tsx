@@ -1,48 +1,69 @@
 import { createNetworkConfig } from '@mysten/dapp-kit'
 import { getFullnodeUrl } from '@mysten/sui/client'
 import {
+  BADGE_REGISTRY_VARIABLE_NAME,
   CONTRACT_PACKAGE_VARIABLE_NAME,
-  DEVNET_CONTRACT_PACKAGE_ID,
+  DEPLOYMENTS,
   DEVNET_EXPLORER_URL,
   EXPLORER_URL_VARIABLE_NAME,
-  LOCALNET_CONTRACT_PACKAGE_ID,
+  INSURANCE_PACKAGE_VARIABLE_NAME,
+  ISSUER_REGISTRY_VARIABLE_NAME,
+  LIQUIDITY_POOL_VARIABLE_NAME,
   LOCALNET_EXPLORER_URL,
-  MAINNET_CONTRACT_PACKAGE_ID,
   MAINNET_EXPLORER_URL,
-  TESTNET_CONTRACT_PACKAGE_ID,
+  ORACLE_FEED_REGISTRY_VARIABLE_NAME,
+  POLICY_REGISTRY_VARIABLE_NAME,
+  RISK_MODEL_VARIABLE_NAME,
+  RISK_PARAMETERS_VARIABLE_NAME,
   TESTNET_EXPLORER_URL,
+  WALRUS_AGGREGATOR_URL_VARIABLE_NAME,
+  WALRUS_ENDPOINTS,
+  WALRUS_PUBLISHER_URL_VARIABLE_NAME,
+  WALRUS_REGISTRY_VARIABLE_NAME,
 } from '../config/network'
+import { EMovePackage } from '../types/EMovePackage'
 import { ENetwork } from '../types/ENetwork'
+import { ESharedObject } from '../types/ESharedObject'
+
+const networkVariables = (network: ENetwork, explorerUrl: string) => {
+  const { packages, objects } = DEPLOYMENTS[network]
+  const { publisherUrl, aggregatorUrl } = WALRUS_ENDPOINTS[network]
+
+  return {
+    [CONTRACT_PACKAGE_VARIABLE_NAME]: packages[EMovePackage.CONTRACT],
+    [INSURANCE_PACKAGE_VARIABLE_NAME]: packages[EMovePackage.INSURANCE],
+    [POLICY_REGISTRY_VARIABLE_NAME]: objects[ESharedObject.POLICY_REGISTRY],
+    [RISK_PARAMETERS_VARIABLE_NAME]: objects[ESharedObject.RISK_PARAMETERS],
+    [RISK_MODEL_VARIABLE_NAME]: objects[ESharedObject.RISK_MODEL],
+    [LIQUIDITY_POOL_VARIABLE_NAME]: objects[ESharedObject.LIQUIDITY_POOL],
+    [WALRUS_REGISTRY_VARIABLE_NAME]: objects[ESharedObject.WALRUS_REGISTRY],
+    [ORACLE_FEED_REGISTRY_VARIABLE_NAME]:
+      objects[ESharedObject.ORACLE_FEED_REGISTRY],
+    [ISSUER_REGISTRY_VARIABLE_NAME]: objects[ESharedObject.ISSUER_REGISTRY],
+    [BADGE_REGISTRY_VARIABLE_NAME]: objects[ESharedObject.BADGE_REGISTRY],
+    [EXPLORER_URL_VARIABLE_NAME]: explorerUrl,
+    [WALRUS_PUBLISHER_URL_VARIABLE_NAME]: publisherUrl,
+    [WALRUS_AGGREGATOR_URL_VARIABLE_NAME]: aggregatorUrl,
+  }
+}
 
 const useNetworkConfig = () => {
   return createNetworkConfig({
     [ENetwork.LOCALNET]: {
       url: getFullnodeUrl(ENetwork.LOCALNET),
-      variables: {
-        [CONTRACT_PACKAGE_VARIABLE_NAME]: LOCALNET_CONTRACT_PACKAGE_ID,
-        [EXPLORER_URL_VARIABLE_NAME]: LOCALNET_EXPLORER_URL,
-      },
+      variables: networkVariables(ENetwork.LOCALNET, LOCALNET_EXPLORER_URL),
     },
     [ENetwork.DEVNET]: {
       url: getFullnodeUrl(ENetwork.DEVNET),
-      variables: {
-        [CONTRACT_PACKAGE_VARIABLE_NAME]: DEVNET_CONTRACT_PACKAGE_ID,
-        [EXPLORER_URL_VARIABLE_NAME]: DEVNET_EXPLORER_URL,
-      },
+      variables: networkVariables(ENetwork.DEVNET, DEVNET_EXPLORER_URL),
     },
     [ENetwork.TESTNET]: {
       url: getFullnodeUrl(ENetwork.TESTNET),
-      variables: {
-        [CONTRACT_PACKAGE_VARIABLE_NAME]: TESTNET_CONTRACT_PACKAGE_ID,
-        [EXPLORER_URL_VARIABLE_NAME]: TESTNET_EXPLORER_URL,
-      },
+      variables: networkVariables(ENetwork.TESTNET, TESTNET_EXPLORER_URL),
     },
     [ENetwork.MAINNET]: {
       url: getFullnodeUrl(ENetwork.MAINNET),
-      variables: {
-        [CONTRACT_PACKAGE_VARIABLE_NAME]: MAINNET_CONTRACT_PACKAGE_ID,
-        [EXPLORER_URL_VARIABLE_NAME]: MAINNET_EXPLORER_URL,
-      },
+      variables: networkVariables(ENetwork.MAINNET, MAINNET_EXPLORER_URL),
     },
   })
 }
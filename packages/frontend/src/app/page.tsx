@@ -1,3 +1,4 @@
+import { Link } from '@radix-ui/themes'
 import ProfileForm from '~~/dapp/components/ProfileForm'
 import NetworkSupportChecker from './components/NetworkSupportChecker'
 
@@ -7,6 +8,24 @@ export default function Home() {
       <NetworkSupportChecker />
       <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
         <ProfileForm />
+        <Link href="/directory" className="mt-6">
+          Find people
+        </Link>
+        <Link href="/policies/new" className="mt-2">
+          Buy climate insurance
+        </Link>
+        <Link href="/policies" className="mt-2">
+          My policies
+        </Link>
+        <Link href="/claims" className="mt-2">
+          Claims
+        </Link>
+        <Link href="/pool" className="mt-2">
+          Provide liquidity
+        </Link>
+        <Link href="/funding" className="mt-2">
+          Funding rates
+        </Link>
       </div>
     </>
   )
@@ -0,0 +1,14 @@
+import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
+import PolicyWizard from '~~/dapp/components/PolicyWizard'
+import { EMovePackage } from '~~/types/EMovePackage'
+
+export default function NewPolicy() {
+  return (
+    <>
+      <NetworkSupportChecker movePackage={EMovePackage.INSURANCE} />
+      <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
+        <PolicyWizard />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,14 @@
+import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
+import LiquidityConsole from '~~/dapp/components/LiquidityConsole'
+import { EMovePackage } from '~~/types/EMovePackage'
+
+export default function Pool() {
+  return (
+    <>
+      <NetworkSupportChecker movePackage={EMovePackage.INSURANCE} />
+      <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
+        <LiquidityConsole />
+      </div>
+    </>
+  )
+}
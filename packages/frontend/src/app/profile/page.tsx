@@ -0,0 +1,19 @@
+import { Suspense } from 'react'
+import Loading from '~~/components/Loading'
+import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
+import ProfileView from '~~/dapp/components/ProfileView'
+import { EMovePackage } from '~~/types/EMovePackage'
+
+export default function Profile() {
+  return (
+    <>
+      <NetworkSupportChecker movePackage={EMovePackage.CONTRACT} />
+      <div className="justify-content flex flex-grow flex-col items-center justify-center rounded-md p-3">
+        {/* The query parameters are only known in the browser. */}
+        <Suspense fallback={<Loading />}>
+          <ProfileView />
+        </Suspense>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,6 @@
+export enum EMovePackage {
+  // The greeting package, with the greeting and profile modules.
+  CONTRACT = 'contract',
+  // The amoca climate insurance package.
+  INSURANCE = 'insurance',
+}
@@ -0,0 +1,10 @@
+export enum ESharedObject {
+  POLICY_REGISTRY = 'policyRegistry',
+  RISK_PARAMETERS = 'riskParameters',
+  RISK_MODEL = 'riskModel',
+  LIQUIDITY_POOL = 'liquidityPool',
+  WALRUS_REGISTRY = 'walrusRegistry',
+  ORACLE_FEED_REGISTRY = 'oracleFeedRegistry',
+  ISSUER_REGISTRY = 'issuerRegistry',
+  BADGE_REGISTRY = 'badgeRegistry',
+}
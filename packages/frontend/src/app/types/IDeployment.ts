@@ -0,0 +1,8 @@
+import { EMovePackage } from './EMovePackage'
+import { ESharedObject } from './ESharedObject'
+
+// IDs are CONTRACT_PACKAGE_ID_NOT_DEFINED until deployed.
+export interface IDeployment {
+  packages: Record<EMovePackage, string>
+  objects: Record<ESharedObject, string>
+}
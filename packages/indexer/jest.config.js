@@ -0,0 +1,9 @@
+// jest.config.js
+/** @type {import('jest').Config} */
+const config = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+};
+
+module.exports = config;
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * The script indexes the events of the deployed greeting and amoca packages
+ * into a JSON file. Runs resume from the stored cursors.
+ *
+ * Package IDs are read from .env.local of the frontend package, where the
+ * deployment scripts put them. The default network is localnet.
+ *
+ * Usage: pnpm start [-n NETWORK] [--out FILE] [--watch]
+ */
+
+import { SuiClient, getFullnodeUrl } from "@mysten/sui/client"
+import EnvFileWriter from "env-file-rw"
+import path from "node:path"
+import {
+  CONTRACT_MODULES,
+  EventSource,
+  INSURANCE_MODULES,
+  indexEvents,
+  watchEvents,
+} from "./indexer"
+import { countEventsByKind } from "./queries"
+import { JsonFileEventStore } from "./store"
+
+type Network = "localnet" | "devnet" | "testnet" | "mainnet"
+
+const main = async () => {
+  const { network, out, watch } = getArgs()
+  const client = new SuiClient({ url: getFullnodeUrl(network) })
+  const store = new JsonFileEventStore(out)
+  const sources = await readSources(network)
+
+  const onPage = (source: EventSource, events: unknown[]) => {
+    if (events.length > 0) {
+      console.log(`${source.module}: ${events.length} events`)
+    }
+  }
+
+  if (!watch) {
+    const count = await indexEvents({ client, store, sources, onPage })
+    console.log(`Indexed ${count} new events into ${out}`)
+    console.table(countEventsByKind(store))
+    return
+  }
+
+  console.log(`Indexing ${network} events into ${out}...`)
+  const stop = watchEvents({
+    client,
+    store,
+    sources,
+    onPage,
+    onError: (e) => console.error(e),
+  })
+  process.on("SIGINT", () => {
+    stop()
+    process.exit(0)
+  })
+}
+
+const getArgs = () => {
+  const args = process.argv.slice(2)
+  const value = (flag: string) => {
+    const i = args.indexOf(flag)
+    return i === -1 ? undefined : args[i + 1]
+  }
+
+  const network = (value("-n") ?? "localnet") as Network
+
+  return {
+    network,
+    out: path.resolve(value("--out") ?? `./data/${network}-events.json`),
+    watch: args.includes("--watch"),
+  }
+}
+
+/**
+ * Event sources of the packages deployed to the network, read from .env.local
+ * of the frontend package.
+ *
+ * @param network
+ * @returns
+ */
+const readSources = async (network: Network): Promise<EventSource[]> => {
+  const envFileWriter = new EnvFileWriter(
+    path.join(process.cwd(), "../frontend/.env.local"),
+    false
+  )
+  await envFileWriter.parse()
+  const get = (name: string) =>
+    envFileWriter.get(`NEXT_PUBLIC_${network.toUpperCase()}_${name}`) ?? ""
+
+  const packages: [string, string[]][] = [
+    [get("CONTRACT_PACKAGE_ID"), CONTRACT_MODULES],
+    [get("INSURANCE_PACKAGE_ID"), INSURANCE_MODULES],
+  ]
+  const sources = packages
+    .filter(([packageId]) => packageId !== "")
+    .flatMap(([packageId, modules]) =>
+      modules.map((module) => ({ packageId, module }))
+    )
+
+  if (sources.length === 0) {
+    throw new Error(`No packages are deployed to ${network}`)
+  }
+
+  return sources
+}
+
+// Main entry point.
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
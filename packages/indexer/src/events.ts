@@ -0,0 +1,423 @@
+import type { SuiEvent } from "@mysten/sui/client"
+
+/**
+ * Move field types, as rendered in an event's parsedJson.
+ *
+ * - u64 and u128 are decimal strings and decode to bigint.
+ * - Option<ID> is the ID or null.
+ * - vector<u8> is an array of numbers and decodes to a Uint8Array.
+ */
+type FieldType =
+  | "id"
+  | "address"
+  | "string"
+  | "bool"
+  | "u8"
+  | "u64"
+  | "u128"
+  | "option_id"
+  | "bytes"
+
+type DecodedField<T extends FieldType> = T extends "u64" | "u128"
+  ? bigint
+  : T extends "u8"
+    ? number
+    : T extends "bool"
+      ? boolean
+      : T extends "option_id"
+        ? string | null
+        : T extends "bytes"
+          ? Uint8Array
+          : string
+
+type Decoded<S extends Record<string, FieldType>> = {
+  -readonly [K in keyof S]: DecodedField<S[K]>
+}
+
+/**
+ * Field layouts of every event the amoca and greeting packages emit, keyed by
+ * `module::EventName`.
+ */
+export const EVENT_SCHEMAS = {
+  // amoca
+  "policy_manager_enhanced::PolicyCreated": {
+    policy_id: "id",
+    owner: "address",
+    location: "string",
+    peril_type: "string",
+    coverage_amount: "u64",
+    trigger_threshold: "u64",
+    collateral_amount: "u64",
+  },
+  "policy_manager_enhanced::PolicyUpdated": {
+    policy_id: "id",
+    owner: "address",
+    field_updated: "string",
+    new_value: "string",
+  },
+  "policy_manager_enhanced::PolicyTerminated": {
+    policy_id: "id",
+    owner: "address",
+    reason: "string",
+  },
+  "policy_manager_enhanced::CollateralAdded": {
+    policy_id: "id",
+    owner: "address",
+    amount: "u64",
+    new_balance: "u64",
+  },
+  "policy_manager_enhanced::CollateralRemoved": {
+    policy_id: "id",
+    owner: "address",
+    amount: "u64",
+    new_balance: "u64",
+  },
+  "policy_manager::PolicyCreated": {
+    policy_id: "id",
+    owner: "address",
+    location: "string",
+    peril_type: "string",
+    coverage_amount: "u64",
+    trigger_threshold: "u64",
+    collateral_amount: "u64",
+  },
+  "policy_manager::PolicyTerminated": {
+    policy_id: "id",
+    owner: "address",
+  },
+  "claim_processor::ClaimProcessed": {
+    claim_id: "id",
+    policy_id: "id",
+    owner: "address",
+    payout_amount: "u64",
+    status: "u8",
+  },
+  "claim_processor_updated::ClaimProcessed": {
+    claim_id: "id",
+    policy_id: "id",
+    owner: "address",
+    payout_amount: "u64",
+    status: "u8",
+  },
+  "liquidity_pool::LiquidityAdded": {
+    provider: "address",
+    amount: "u64",
+    shares: "u64",
+  },
+  "liquidity_pool::LiquidityRemoved": {
+    provider: "address",
+    amount: "u64",
+    shares: "u64",
+  },
+  "funding_rate::FundingRateUpdated": {
+    rate: "u64",
+    direction: "bool",
+    calculated_at: "u64",
+  },
+  "funding_rate::FundingPaymentProcessed": {
+    policy_id: "id",
+    amount: "u64",
+    direction: "bool",
+  },
+  "risk_model::RiskModelCreated": {
+    model_id: "id",
+    model_name: "string",
+    model_version: "string",
+    created_by: "address",
+  },
+  "risk_model::RiskModelUpdated": {
+    model_id: "id",
+    field_updated: "string",
+    updated_by: "address",
+  },
+  "risk_model::PremiumCalculated": {
+    policy_id: "option_id",
+    location: "string",
+    peril_type: "string",
+    coverage_amount: "u64",
+    final_premium: "u64",
+    funding_rate: "u64",
+  },
+  "switchboard_oracle_integration::FeedRegistered": {
+    feed_id: "id",
+    feed_name: "string",
+    data_type: "string",
+    location: "string",
+  },
+  "switchboard_oracle_integration::DataAggregated": {
+    aggregation_id: "id",
+    location: "string",
+    data_type: "string",
+    value: "u128",
+    timestamp: "u64",
+    sources_count: "u64",
+  },
+  "switchboard_oracle::FeedRegistered": {
+    feed_id: "id",
+    feed_name: "string",
+    authority: "address",
+    data_type: "string",
+    location: "string",
+  },
+  "switchboard_oracle::FeedUpdated": {
+    feed_id: "id",
+    new_value: "u64",
+    timestamp: "u64",
+  },
+  "switchboard_oracle::DataAggregated": {
+    aggregation_id: "id",
+    location: "string",
+    data_type: "string",
+    value: "u64",
+    timestamp: "u64",
+    num_sources: "u64",
+  },
+  "oracle_aggregator::DataReceived": {
+    location: "string",
+    data_type: "string",
+    value: "u64",
+    source: "address",
+  },
+  "oracle_aggregator::DataAggregated": {
+    location: "string",
+    data_type: "string",
+    value: "u64",
+    sources_count: "u64",
+  },
+  "walrus_integration::DataStored": {
+    reference_id: "id",
+    data_type: "u8",
+    walrus_cid: "string",
+    entity_id: "option_id",
+    creator: "address",
+  },
+  "walrus_integration::DataVerified": {
+    reference_id: "id",
+    verified: "bool",
+    verifier: "address",
+  },
+  "data_log::DataLogged": {
+    data_type: "string",
+    data_hash: "bytes",
+    walrus_reference: "string",
+    creator: "address",
+  },
+  // greeting
+  "greeting::EventGreetingCreated": { greeting_id: "id" },
+  "greeting::EventGreetingSet": { greeting_id: "id" },
+  "greeting::EventGreetingReset": { greeting_id: "id" },
+  "profile::ProfileCreated": { profile_id: "id", owner: "address" },
+  "profile::ProfileUpdated": { profile_id: "id", owner: "address" },
+  "profile::ExperienceAdded": {
+    profile_id: "id",
+    company: "string",
+    title: "string",
+  },
+  "profile::EducationAdded": {
+    profile_id: "id",
+    institution: "string",
+    degree: "string",
+  },
+  "profile::SkillAdded": { profile_id: "id", skill_name: "string" },
+  "profile::ExperienceUpdated": {
+    profile_id: "id",
+    index: "u64",
+    company: "string",
+    title: "string",
+    start_date: "string",
+    end_date: "string",
+    description: "string",
+  },
+  "profile::ExperienceRemoved": { profile_id: "id", index: "u64" },
+  "profile::EducationUpdated": {
+    profile_id: "id",
+    index: "u64",
+    institution: "string",
+    degree: "string",
+    field: "string",
+    start_date: "string",
+    end_date: "string",
+  },
+  "profile::EducationRemoved": { profile_id: "id", index: "u64" },
+  "profile::SkillUpdated": {
+    profile_id: "id",
+    index: "u64",
+    skill_name: "string",
+  },
+  "profile::SkillRemoved": { profile_id: "id", index: "u64" },
+  "profile::ConnectionAdded": {
+    profile_id: "id",
+    connection_address: "address",
+  },
+  "profile::ConnectionRequested": {
+    request_id: "id",
+    from_profile_id: "id",
+    from: "address",
+    to_profile_id: "id",
+  },
+  "profile::ConnectionAccepted": { profile_id: "id", peer: "address" },
+  "profile::ConnectionRejected": { profile_id: "id", from: "address" },
+  "profile::ConnectionRemoved": {
+    profile_id: "id",
+    connection_address: "address",
+  },
+  "profile::SkillEndorsed": {
+    endorsement_id: "id",
+    profile_id: "id",
+    skill_name: "string",
+    endorser: "address",
+  },
+  "profile::EndorsementAccepted": {
+    profile_id: "id",
+    skill_name: "string",
+    endorser: "address",
+  },
+  "attestation::IssuerRegistered": {
+    issuer: "address",
+    name: "string",
+    kind: "u8",
+  },
+  "attestation::IssuerDeactivated": { issuer: "address" },
+  "attestation::AttestationIssued": {
+    attestation_id: "id",
+    issuer: "address",
+    profile_id: "id",
+    entry_kind: "u8",
+    entry_index: "u64",
+  },
+  "attestation::AttestationRevoked": {
+    attestation_id: "id",
+    issuer: "address",
+  },
+  "badge::BadgeMinted": {
+    badge_id: "id",
+    recipient: "address",
+    kind: "string",
+  },
+  "badge::BadgeBurned": {
+    badge_id: "id",
+    recipient: "address",
+    kind: "string",
+  },
+} as const satisfies Record<string, Record<string, FieldType>>
+
+export type EventKind = keyof typeof EVENT_SCHEMAS
+
+export type EventData<K extends EventKind> = Decoded<(typeof EVENT_SCHEMAS)[K]>
+
+/**
+ * An event as persisted by the stores: the RPC representation minus the
+ * fields the indexer does not need. parsedJson is kept as is, so records can
+ * be decoded again when the schemas change.
+ */
+export interface StoredEvent {
+  txDigest: string
+  eventSeq: string
+  packageId: string
+  module: string
+  /** Fully qualified event struct name. */
+  type: string
+  sender: string
+  timestampMs: number | null
+  parsedJson: Record<string, unknown>
+}
+
+export interface IndexedEvent<K extends EventKind = EventKind> {
+  /** `txDigest:eventSeq`, unique per event. */
+  id: string
+  kind: K
+  txDigest: string
+  packageId: string
+  sender: string
+  timestampMs: number | null
+  data: EventData<K>
+}
+
+export class EventDecodeError extends Error {}
+
+export const toStoredEvent = (event: SuiEvent): StoredEvent => ({
+  txDigest: event.id.txDigest,
+  eventSeq: event.id.eventSeq,
+  packageId: event.packageId,
+  module: event.transactionModule,
+  type: event.type,
+  sender: event.sender,
+  timestampMs: event.timestampMs == null ? null : Number(event.timestampMs),
+  parsedJson: event.parsedJson as Record<string, unknown>,
+})
+
+export const eventId = (event: Pick<StoredEvent, "txDigest" | "eventSeq">) =>
+  `${event.txDigest}:${event.eventSeq}`
+
+/**
+ * The `module::EventName` part of a fully qualified event type, ignoring
+ * type arguments.
+ *
+ * @param type
+ * @returns
+ */
+export const eventKindOf = (type: string): string => {
+  const [, module, name] = type.replace(/<.*>$/, "").split("::")
+  return `${module}::${name}`
+}
+
+export const isKnownKind = (kind: string): kind is EventKind =>
+  Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, kind)
+
+const decodeField = (type: FieldType, value: unknown, field: string) => {
+  const fail = () => {
+    throw new EventDecodeError(
+      `Field ${field} is not a valid ${type}: ${JSON.stringify(value)}`
+    )
+  }
+
+  switch (type) {
+    case "u64":
+    case "u128":
+      if (typeof value !== "string" && typeof value !== "number") fail()
+      return BigInt(value as string)
+    case "u8":
+      if (typeof value !== "number") fail()
+      return value
+    case "bool":
+      if (typeof value !== "boolean") fail()
+      return value
+    case "option_id":
+      if (value != null && typeof value !== "string") fail()
+      return value ?? null
+    case "bytes":
+      if (!Array.isArray(value)) fail()
+      return Uint8Array.from(value as number[])
+    default:
+      if (typeof value !== "string") fail()
+      return value
+  }
+}
+
+/**
+ * Decode a stored event into a typed record.
+ *
+ * @param event
+ * @returns The record, or null if the event type is unknown.
+ * @throws EventDecodeError if the fields do not match the schema.
+ */
+export const decodeEvent = (event: StoredEvent): IndexedEvent | null => {
+  const kind = eventKindOf(event.type)
+  if (!isKnownKind(kind)) return null
+
+  const schema: Record<string, FieldType> = EVENT_SCHEMAS[kind]
+  const data: Record<string, unknown> = {}
+  for (const [field, type] of Object.entries(schema)) {
+    data[field] = decodeField(type, event.parsedJson[field], field)
+  }
+
+  return {
+    id: eventId(event),
+    kind,
+    txDigest: event.txDigest,
+    packageId: event.packageId,
+    sender: event.sender,
+    timestampMs: event.timestampMs,
+    data: data as EventData<typeof kind>,
+  }
+}
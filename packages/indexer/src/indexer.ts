@@ -0,0 +1,122 @@
+import type { SuiClient } from "@mysten/sui/client"
+import { StoredEvent, toStoredEvent } from "./events"
+import { EventStore } from "./store"
+
+export interface EventSource {
+  packageId: string
+  module: string
+}
+
+export interface IndexEventsOptions {
+  client: Pick<SuiClient, "queryEvents">
+  store: EventStore
+  sources: EventSource[]
+  /** Events per queryEvents page, at most 50. */
+  pageSize?: number
+  /** Called after every page is stored. */
+  onPage?: (source: EventSource, events: StoredEvent[]) => void
+}
+
+export interface WatchEventsOptions extends IndexEventsOptions {
+  intervalMs?: number
+  onError?: (error: Error) => void
+}
+
+/** Modules of the amoca package that emit events. */
+export const INSURANCE_MODULES = [
+  "policy_manager",
+  "policy_manager_enhanced",
+  "claim_processor",
+  "claim_processor_updated",
+  "liquidity_pool",
+  "funding_rate",
+  "risk_model",
+  "oracle_aggregator",
+  "switchboard_oracle",
+  "switchboard_oracle_integration",
+  "walrus_integration",
+  "data_log",
+]
+
+/** Modules of the greeting package that emit events. */
+export const CONTRACT_MODULES = ["greeting", "profile", "attestation", "badge"]
+
+const DEFAULT_PAGE_SIZE = 50
+const DEFAULT_INTERVAL_MS = 10_000
+
+export const sourceKey = (source: EventSource) =>
+  `${source.packageId}::${source.module}`
+
+/**
+ * Fetch the events emitted by the source modules since the stored cursors,
+ * oldest first. The cursor is saved after every page, so an interrupted run
+ * resumes where it stopped.
+ *
+ * @param options
+ * @returns Number of events fetched.
+ */
+export const indexEvents = async (
+  options: IndexEventsOptions
+): Promise<number> => {
+  const { client, store, sources } = options
+  let count = 0
+
+  for (const source of sources) {
+    const key = sourceKey(source)
+    let cursor = store.getCursor(key)
+    let hasNextPage = true
+
+    while (hasNextPage) {
+      const page = await client.queryEvents({
+        query: {
+          MoveModule: { package: source.packageId, module: source.module },
+        },
+        cursor,
+        limit: options.pageSize ?? DEFAULT_PAGE_SIZE,
+        order: "ascending",
+      })
+      const events = page.data.map(toStoredEvent)
+
+      // The last event of the page is where the next run starts, even when
+      // the RPC reports no next cursor.
+      cursor = page.nextCursor ?? page.data[page.data.length - 1]?.id ?? cursor
+      store.append(key, events, cursor)
+      options.onPage?.(source, events)
+
+      count += events.length
+      hasNextPage = page.hasNextPage && page.data.length > 0
+    }
+  }
+
+  return count
+}
+
+/**
+ * Index the sources now and then every intervalMs.
+ *
+ * @param options
+ * @returns A function that stops the polling.
+ */
+export const watchEvents = (options: WatchEventsOptions): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const poll = async () => {
+    try {
+      await indexEvents(options)
+    } catch (e) {
+      options.onError?.(e as Error)
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, options.intervalMs ?? DEFAULT_INTERVAL_MS)
+    }
+  }
+
+  void poll()
+
+  return () => {
+    stopped = true
+    if (timer != null) clearTimeout(timer)
+  }
+}
@@ -0,0 +1,119 @@
+import { EventKind, IndexedEvent, decodeEvent } from "./events"
+import { EventStore } from "./store"
+
+export interface EventFilter<K extends EventKind> {
+  kinds?: K[]
+  packageId?: string
+  sender?: string
+  /** Inclusive lower bound of the event timestamp. */
+  fromMs?: number
+  /** Exclusive upper bound of the event timestamp. */
+  toMs?: number
+  where?: (event: IndexedEvent<K>) => boolean
+}
+
+/**
+ * Decoded events of the store that match the filter, oldest first. Events of
+ * unknown types are skipped.
+ *
+ * @param store
+ * @param filter
+ * @returns
+ */
+export const findEvents = <K extends EventKind = EventKind>(
+  store: EventStore,
+  filter: EventFilter<K> = {}
+): IndexedEvent<K>[] => {
+  const result: IndexedEvent<K>[] = []
+
+  for (const stored of store.all()) {
+    if (filter.packageId != null && stored.packageId !== filter.packageId) {
+      continue
+    }
+    if (filter.sender != null && stored.sender !== filter.sender) continue
+    if (
+      filter.fromMs != null &&
+      (stored.timestampMs == null || stored.timestampMs < filter.fromMs)
+    ) {
+      continue
+    }
+    if (
+      filter.toMs != null &&
+      (stored.timestampMs == null || stored.timestampMs >= filter.toMs)
+    ) {
+      continue
+    }
+
+    const event = decodeEvent(stored)
+    if (event == null) continue
+    if (filter.kinds != null && !filter.kinds.includes(event.kind as K)) {
+      continue
+    }
+    if (filter.where != null && !filter.where(event as IndexedEvent<K>)) {
+      continue
+    }
+
+    result.push(event as IndexedEvent<K>)
+  }
+
+  return result.sort((a, b) => (a.timestampMs ?? 0) - (b.timestampMs ?? 0))
+}
+
+/**
+ * Every event that refers to a policy: its creation, updates, collateral
+ * changes, funding payments, claims and termination.
+ *
+ * @param store
+ * @param policyId
+ * @returns
+ */
+export const getPolicyHistory = (store: EventStore, policyId: string) =>
+  findEvents(store, {
+    where: (event) =>
+      (event.data as { policy_id?: string | null }).policy_id === policyId,
+  })
+
+/**
+ * Every event that refers to a profile.
+ *
+ * @param store
+ * @param profileId
+ * @returns
+ */
+export const getProfileHistory = (store: EventStore, profileId: string) =>
+  findEvents(store, {
+    where: (event) =>
+      (event.data as { profile_id?: string }).profile_id === profileId,
+  })
+
+/**
+ * Liquidity added and removed by a provider.
+ *
+ * @param store
+ * @param provider
+ * @returns
+ */
+export const getLiquidityHistory = (store: EventStore, provider: string) =>
+  findEvents(store, {
+    kinds: [
+      "liquidity_pool::LiquidityAdded",
+      "liquidity_pool::LiquidityRemoved",
+    ],
+    where: (event) => event.data.provider === provider,
+  })
+
+/**
+ * Number of stored events per kind.
+ *
+ * @param store
+ * @returns
+ */
+export const countEventsByKind = (
+  store: EventStore
+): Partial<Record<EventKind, number>> => {
+  const counts: Partial<Record<EventKind, number>> = {}
+  for (const event of findEvents(store)) {
+    counts[event.kind] = (counts[event.kind] ?? 0) + 1
+  }
+  return counts
+}
@@ -0,0 +1,99 @@
+import type { EventId } from "@mysten/sui/client"
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs"
+import path from "node:path"
+import { StoredEvent, eventId } from "./events"
+
+/**
+ * Persistence of indexed events and of the queryEvents cursor of every source,
+ * keyed by `packageId::module`.
+ */
+export interface EventStore {
+  getCursor(source: string): EventId | null
+  /**
+   * Save a page of events and the cursor to resume the source from. Both are
+   * written together, so a crash never skips or duplicates a page. Events
+   * already in the store are ignored.
+   */
+  append(source: string, events: StoredEvent[], cursor: EventId | null): void
+  /** Every stored event, in the order it was appended. */
+  all(): StoredEvent[]
+}
+
+interface StoreContent {
+  version: 1
+  cursors: Record<string, EventId>
+  events: StoredEvent[]
+}
+
+const STORE_VERSION = 1
+
+export class MemoryEventStore implements EventStore {
+  protected content: StoreContent = {
+    version: STORE_VERSION,
+    cursors: {},
+    events: [],
+  }
+  private ids = new Set<string>()
+
+  getCursor(source: string): EventId | null {
+    return this.content.cursors[source] ?? null
+  }
+
+  append(source: string, events: StoredEvent[], cursor: EventId | null) {
+    for (const event of events) {
+      const id = eventId(event)
+      if (this.ids.has(id)) continue
+
+      this.ids.add(id)
+      this.content.events.push(event)
+    }
+    if (cursor != null) {
+      this.content.cursors[source] = cursor
+    }
+    this.persist()
+  }
+
+  all(): StoredEvent[] {
+    return this.content.events
+  }
+
+  protected load(content: StoreContent) {
+    this.content = content
+    this.ids = new Set(content.events.map(eventId))
+  }
+
+  protected persist() {}
+}
+
+/**
+ * A store kept in a single JSON file. The file is replaced atomically on every
+ * append, which is fine for the event volume of a single deployment.
+ */
+export class JsonFileEventStore extends MemoryEventStore {
+  constructor(private readonly filePath: string) {
+    super()
+
+    if (existsSync(filePath)) {
+      const content = JSON.parse(readFileSync(filePath, "utf8")) as StoreContent
+      if (content.version !== STORE_VERSION) {
+        throw new Error(
+          `${filePath} has version ${content.version}, expected ${STORE_VERSION}`
+        )
+      }
+      this.load(content)
+    }
+  }
+
+  protected persist() {
+    const tmpPath = `${this.filePath}.tmp`
+    mkdirSync(path.dirname(this.filePath), { recursive: true })
+    writeFileSync(tmpPath, JSON.stringify(this.content))
+    renameSync(tmpPath, this.filePath)
+  }
+}
@@ -0,0 +1,278 @@
+import type { EventId, SuiEvent } from "@mysten/sui/client"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import {
+  EventDecodeError,
+  JsonFileEventStore,
+  MemoryEventStore,
+  countEventsByKind,
+  decodeEvent,
+  findEvents,
+  getLiquidityHistory,
+  getPolicyHistory,
+  indexEvents,
+  toStoredEvent,
+} from "../src"
+
+const PACKAGE_ID = "0xa"
+const POLICY_ID = "0xp1"
+const OWNER = "0x77"
+
+let seq = 0
+
+const event = (
+  module: string,
+  name: string,
+  parsedJson: Record<string, unknown>
+): SuiEvent => {
+  seq += 1
+  return {
+    id: { txDigest: `tx${seq}`, eventSeq: "0" },
+    packageId: PACKAGE_ID,
+    transactionModule: module,
+    sender: OWNER,
+    type: `${PACKAGE_ID}::${module}::${name}`,
+    parsedJson,
+    bcs: "",
+    bcsEncoding: "base64",
+    timestampMs: String(1_000 * seq),
+  }
+}
+
+/**
+ * A queryEvents fake that serves the events of each module in pages, the way
+ * the RPC does for ascending MoveModule queries.
+ */
+const fakeClient = (events: SuiEvent[], pageSize: number) => {
+  const calls: (EventId | null | undefined)[] = []
+
+  const queryEvents = jest.fn(async ({ query, cursor }) => {
+    const { module } = (query as { MoveModule: { module: string } }).MoveModule
+    const moduleEvents = events.filter((e) => e.transactionModule === module)
+    const start =
+      cursor == null
+        ? 0
+        : moduleEvents.findIndex((e) => e.id.txDigest === cursor.txDigest) + 1
+    const data = moduleEvents.slice(start, start + pageSize)
+    calls.push(cursor)
+
+    return {
+      data,
+      hasNextPage: start + pageSize < moduleEvents.length,
+      nextCursor: data.length > 0 ? data[data.length - 1].id : (cursor ?? null),
+    }
+  })
+
+  return { client: { queryEvents }, calls }
+}
+
+const policyEvents = () => [
+  event("policy_manager_enhanced", "PolicyCreated", {
+    policy_id: POLICY_ID,
+    owner: OWNER,
+    location: "east-africa",
+    peril_type: "drought",
+    coverage_amount: "10000",
+    trigger_threshold: "25",
+    collateral_amount: "1300",
+  }),
+  event("policy_manager_enhanced", "CollateralAdded", {
+    policy_id: POLICY_ID,
+    owner: OWNER,
+    amount: "200",
+    new_balance: "1500",
+  }),
+  event("policy_manager_enhanced", "CollateralAdded", {
+    policy_id: "0xp2",
+    owner: OWNER,
+    amount: "50",
+    new_balance: "1050",
+  }),
+  event("liquidity_pool", "LiquidityAdded", {
+    provider: OWNER,
+    amount: "5000",
+    shares: "5000",
+  }),
+  event("claim_processor_updated", "ClaimProcessed", {
+    claim_id: "0xc1",
+    policy_id: POLICY_ID,
+    owner: OWNER,
+    payout_amount: "10000",
+    status: 1,
+  }),
+]
+
+const SOURCES = [
+  { packageId: PACKAGE_ID, module: "policy_manager_enhanced" },
+  { packageId: PACKAGE_ID, module: "liquidity_pool" },
+  { packageId: PACKAGE_ID, module: "claim_processor_updated" },
+]
+
+describe("decodeEvent", () => {
+  test("decodes numbers, options and byte vectors", () => {
+    const decoded = decodeEvent(
+      toStoredEvent(
+        event("walrus_integration", "DataStored", {
+          reference_id: "0xr",
+          data_type: 2,
+          walrus_cid: "blob",
+          entity_id: null,
+          creator: OWNER,
+        })
+      )
+    )
+
+    expect(decoded).toMatchObject({
+      kind: "walrus_integration::DataStored",
+      data: { data_type: 2, entity_id: null, walrus_cid: "blob" },
+    })
+    expect(
+      decodeEvent(
+        toStoredEvent(
+          event("data_log", "DataLogged", {
+            data_type: "rainfall",
+            data_hash: [1, 2],
+            walrus_reference: "blob",
+            creator: OWNER,
+          })
+        )
+      )?.data
+    ).toMatchObject({ data_hash: Uint8Array.from([1, 2]) })
+  })
+
+  test("decodes u64 and u128 to bigint", () => {
+    const decoded = decodeEvent(
+      toStoredEvent(
+        event("switchboard_oracle_integration", "DataAggregated", {
+          aggregation_id: "0xg",
+          location: "east-africa",
+          data_type: "rainfall",
+          value: "340282366920938463463374607431768211455",
+          timestamp: "1",
+          sources_count: "3",
+        })
+      )
+    )
+
+    expect(decoded?.data).toMatchObject({
+      value: BigInt("340282366920938463463374607431768211455"),
+      sources_count: BigInt(3),
+    })
+  })
+
+  test("ignores unknown event types", () => {
+    expect(
+      decodeEvent(toStoredEvent(event("greeting", "Unknown", {})))
+    ).toBeNull()
+  })
+
+  test("rejects events that do not match the schema", () => {
+    expect(() =>
+      decodeEvent(
+        toStoredEvent(
+          event("liquidity_pool", "LiquidityAdded", {
+            provider: OWNER,
+            amount: true,
+            shares: "1",
+          })
+        )
+      )
+    ).toThrow(EventDecodeError)
+  })
+})
+
+describe("indexEvents", () => {
+  test("pages through every source", async () => {
+    const { client } = fakeClient(policyEvents(), 2)
+    const store = new MemoryEventStore()
+
+    expect(await indexEvents({ client, store, sources: SOURCES })).toBe(5)
+    expect(countEventsByKind(store)).toEqual({
+      "policy_manager_enhanced::PolicyCreated": 1,
+      "policy_manager_enhanced::CollateralAdded": 2,
+      "liquidity_pool::LiquidityAdded": 1,
+      "claim_processor_updated::ClaimProcessed": 1,
+    })
+  })
+
+  test("resumes from the stored cursors", async () => {
+    const events = policyEvents()
+    const store = new MemoryEventStore()
+    await indexEvents({
+      client: fakeClient(events, 2).client,
+      store,
+      sources: SOURCES,
+    })
+
+    const terminated = event("policy_manager_enhanced", "PolicyTerminated", {
+      policy_id: POLICY_ID,
+      owner: OWNER,
+      reason: "expired",
+    })
+    const { client, calls } = fakeClient([...events, terminated], 2)
+
+    expect(await indexEvents({ client, store, sources: SOURCES })).toBe(1)
+    expect(calls[0]).toEqual(events[2].id)
+    expect(store.all()).toHaveLength(6)
+  })
+
+  test("persists events and cursors to a JSON file", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "indexer-"))
+    const file = path.join(dir, "events.json")
+
+    try {
+      const events = policyEvents()
+      await indexEvents({
+        client: fakeClient(events, 50).client,
+        store: new JsonFileEventStore(file),
+        sources: SOURCES,
+      })
+
+      const reopened = new JsonFileEventStore(file)
+      expect(reopened.all()).toHaveLength(5)
+      expect(reopened.getCursor(`${PACKAGE_ID}::liquidity_pool`)).toEqual(
+        events[3].id
+      )
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe("queries", () => {
+  const store = new MemoryEventStore()
+
+  beforeAll(async () => {
+    await indexEvents({
+      client: fakeClient(policyEvents(), 50).client,
+      store,
+      sources: SOURCES,
+    })
+  })
+
+  test("returns the history of a policy, oldest first", () => {
+    expect(getPolicyHistory(store, POLICY_ID).map((e) => e.kind)).toEqual([
+      "policy_manager_enhanced::PolicyCreated",
+      "policy_manager_enhanced::CollateralAdded",
+      "claim_processor_updated::ClaimProcessed",
+    ])
+  })
+
+  test("returns the liquidity history of a provider", () => {
+    const [added] = getLiquidityHistory(store, OWNER)
+
+    expect(added.data.amount).toBe(BigInt(5000))
+  })
+
+  test("filters by kind and time", () => {
+    const [first] = store.all()
+    const events = findEvents(store, {
+      kinds: ["policy_manager_enhanced::CollateralAdded"],
+      fromMs: (first.timestampMs ?? 0) + 1,
+      where: (e) => e.data.amount > BigInt(100),
+    })
+
+    expect(events.map((e) => e.data.policy_id)).toEqual([POLICY_ID])
+  })
+})